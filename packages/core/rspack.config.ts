@@ -4,6 +4,7 @@ import { rspack } from '@rspack/core';
 export default defineConfig({
   entry: {
     main: './src/index.ts',
+    cli: './src/cli.ts',
   },
   target: 'node18',
   resolve: {
@@ -29,6 +30,14 @@ export default defineConfig({
       },
     ],
   },
+  plugins: [
+    new rspack.BannerPlugin({
+      banner: '#!/usr/bin/env node',
+      raw: true,
+      entryOnly: true,
+      include: /^cli\.js$/,
+    }),
+  ],
   optimization: {
     minimizer: [new rspack.SwcJsMinimizerRspackPlugin()],
   },
@@ -0,0 +1,74 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  type CalDavAccount,
+  normalizeAccountOptions,
+  selectAccount,
+  selectAccountForUri,
+} from '../accounts';
+import type { CalDavClient, CalDavClientOptions } from '../caldav';
+
+const OPTIONS: CalDavClientOptions = {
+  serverUrl: 'https://cal.example.com',
+  authMethod: 'Basic',
+  credentials: { username: 'john', password: 'secret' },
+};
+
+describe('normalizeAccountOptions', () => {
+  it('should name a single account "default"', () => {
+    assert.deepStrictEqual(normalizeAccountOptions(OPTIONS), [
+      { ...OPTIONS, name: 'default' },
+    ]);
+  });
+
+  it('should reject missing, invalid and duplicate names', () => {
+    assert.throws(
+      () => normalizeAccountOptions([]),
+      /At least one account is required/,
+    );
+    assert.throws(
+      () => normalizeAccountOptions([{ ...OPTIONS, name: 'my work' }]),
+      /Invalid account name: my work/,
+    );
+    assert.throws(
+      () =>
+        normalizeAccountOptions([
+          { ...OPTIONS, name: 'work' },
+          { ...OPTIONS, name: 'work' },
+        ]),
+      /Duplicate account name: work/,
+    );
+  });
+});
+
+describe('selectAccount', () => {
+  const accounts: CalDavAccount[] = [
+    { name: 'work', client: {} as CalDavClient },
+    { name: 'personal', client: {} as CalDavClient },
+  ];
+
+  it('should default to the first account', () => {
+    assert.strictEqual(selectAccount(accounts).name, 'work');
+    assert.strictEqual(selectAccount(accounts, 'personal').name, 'personal');
+    assert.throws(
+      () => selectAccount(accounts, 'school'),
+      /Unknown account: school. Available: work, personal/,
+    );
+  });
+
+  it('should select the account of a URI', () => {
+    assert.strictEqual(
+      selectAccountForUri(
+        accounts,
+        'caldav://principals/jane/home/VEVENT?start=2024-01-01&end=2024-01-02&account=personal',
+      ).name,
+      'personal',
+    );
+    assert.strictEqual(
+      selectAccountForUri(accounts, 'caldav://principals/john/_meta/calendars')
+        .name,
+      'work',
+    );
+    assert.strictEqual(selectAccountForUri(accounts, 'http://x').name, 'work');
+  });
+});
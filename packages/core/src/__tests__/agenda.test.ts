@@ -0,0 +1,154 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { renderAgenda } from '../agenda';
+import { CalDavFilters } from '../filters';
+
+const calendar = (...lines: string[]) =>
+  CalDavFilters.parseICalendarData(
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n'),
+  );
+
+const week = {
+  start: new Date('2024-01-15T00:00:00Z'),
+  end: new Date('2024-01-17T00:00:00Z'),
+};
+
+describe('renderAgenda', () => {
+  it('should group entries by day with all-day entries first', () => {
+    const components = calendar(
+      'BEGIN:VEVENT',
+      'UID:review',
+      'SUMMARY:Review',
+      'LOCATION:Room 1',
+      'DTSTART:20240115T140000Z',
+      'DTEND:20240115T150000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'SUMMARY:Standup',
+      'DTSTART:20240115T090000Z',
+      'DTEND:20240115T091500Z',
+      'RRULE:FREQ=DAILY;COUNT=5',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:offsite',
+      'SUMMARY:Offsite',
+      'DTSTART;VALUE=DATE:20240115',
+      'DTEND;VALUE=DATE:20240117',
+      'END:VEVENT',
+    );
+
+    assert.strictEqual(
+      renderAgenda(components, week),
+      [
+        '# Agenda 2024-01-15 – 2024-01-16 (UTC)',
+        '',
+        '## Monday, 2024-01-15',
+        '',
+        '### All day',
+        '- **Offsite**',
+        '',
+        '- 09:00–09:15 **Standup**',
+        '- 14:00–15:00 **Review** @ Room 1',
+        '',
+        '## Tuesday, 2024-01-16',
+        '',
+        '### All day',
+        '- **Offsite**',
+        '',
+        '- 09:00–09:15 **Standup**',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should show times and days in the given time zone', () => {
+    const components = calendar(
+      'BEGIN:VEVENT',
+      'UID:late',
+      'SUMMARY:Late call',
+      'DTSTART:20240115T230000Z',
+      'DTEND:20240115T233000Z',
+      'END:VEVENT',
+    );
+
+    const agenda = renderAgenda(components, {
+      ...week,
+      timeZone: 'Europe/Berlin',
+    });
+
+    assert.ok(agenda.startsWith('# Agenda 2024-01-15 – 2024-01-17'));
+    assert.ok(agenda.includes('## Tuesday, 2024-01-16\n\n- 00:00–00:30'));
+  });
+
+  it('should render tasks as checklist items', () => {
+    const components = calendar(
+      'BEGIN:VTODO',
+      'UID:report',
+      'SUMMARY:Write report',
+      'PRIORITY:1',
+      'DUE:20240116T170000Z',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:invoice',
+      'SUMMARY:Send invoice',
+      'STATUS:COMPLETED',
+      'DUE;VALUE=DATE:20240115',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:overdue',
+      'SUMMARY:Renew passport',
+      'DUE:20240110T090000Z',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:someday',
+      'SUMMARY:Read *that* book',
+      'END:VTODO',
+    );
+
+    const agenda = renderAgenda(components, week);
+
+    assert.ok(agenda.includes('- [x] Send invoice due 2024-01-15'));
+    assert.ok(agenda.includes('- [ ] Renew passport due 2024-01-10 09:00'));
+    assert.ok(
+      agenda.includes(
+        '## Tuesday, 2024-01-16\n\n- [ ] Write report (priority 1) due 17:00',
+      ),
+    );
+    assert.ok(agenda.endsWith('## No date\n\n- [ ] Read \\*that\\* book\n'));
+  });
+
+  it('should leave out instances moved out of the range', () => {
+    const components = calendar(
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'SUMMARY:Standup',
+      'DTSTART:20240115T090000Z',
+      'DTEND:20240115T091500Z',
+      'RRULE:FREQ=DAILY;COUNT=2',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'SUMMARY:Standup',
+      'RECURRENCE-ID:20240116T090000Z',
+      'DTSTART:20240118T090000Z',
+      'DTEND:20240118T091500Z',
+      'END:VEVENT',
+    );
+
+    const agenda = renderAgenda(components, week);
+
+    assert.strictEqual(agenda.match(/Standup/g)?.length, 1);
+  });
+
+  it('should say when nothing is scheduled', () => {
+    assert.ok(renderAgenda([], week).endsWith('_Nothing scheduled._\n'));
+  });
+
+  it('should reject unknown time zones', () => {
+    assert.throws(
+      () => renderAgenda([], { ...week, timeZone: 'Nowhere/Land' }),
+      /Unknown time zone/,
+    );
+  });
+});
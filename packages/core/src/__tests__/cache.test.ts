@@ -0,0 +1,141 @@
+import assert from 'node:assert';
+import { mkdir, mkdtemp, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ComponentCache } from '../cache';
+
+const ALICE = 'https://cal.example.com:alice';
+const BOB = 'https://cal.example.com:bob';
+
+const collection = (href: string, data = 'BEGIN:VCALENDAR') => ({
+  href,
+  syncToken: 'token-1',
+  supportsSync: true,
+  objects: [{ href: `${href}a.ics`, etag: '"1"', data }],
+});
+
+describe('ComponentCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'caldav-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load what was saved', async () => {
+    const cache = new ComponentCache({ directory });
+    await cache.saveCollection(ALICE, collection('/cal/work/'));
+
+    // A new instance reads the same files, as after a restart
+    const loaded = await new ComponentCache({ directory }).loadCollection(
+      ALICE,
+      '/cal/work/',
+    );
+
+    assert.deepStrictEqual(loaded, collection('/cal/work/'));
+    assert.strictEqual(await cache.loadCollection(ALICE, '/cal/home/'), null);
+  });
+
+  it('should keep accounts apart', async () => {
+    const cache = new ComponentCache({ directory });
+    await cache.saveCollection(ALICE, collection('/cal/work/'));
+    await cache.saveDiscovery(ALICE, {
+      principal: '/principals/alice/',
+      home: '/cal/',
+      collections: [],
+    });
+
+    assert.strictEqual(await cache.loadCollection(BOB, '/cal/work/'), null);
+    assert.strictEqual(await cache.loadDiscovery(BOB), null);
+    assert.ok(await cache.loadDiscovery(ALICE));
+  });
+
+  it('should evict the least recently used collections', async () => {
+    const data = 'x'.repeat(400);
+    const cache = new ComponentCache({ directory, maxBytes: 1200 });
+    await cache.saveCollection(ALICE, collection('/cal/one/', data));
+    await cache.saveCollection(ALICE, collection('/cal/two/', data));
+    // Give the reads distinct modification times
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cache.loadCollection(ALICE, '/cal/one/');
+    await cache.saveCollection(BOB, collection('/cal/three/', data));
+
+    assert.ok(await cache.loadCollection(ALICE, '/cal/one/'));
+    assert.strictEqual(await cache.loadCollection(ALICE, '/cal/two/'), null);
+    assert.ok(await cache.loadCollection(BOB, '/cal/three/'));
+    assert.ok((await cache.size()) <= 1200);
+  });
+
+  it('should not keep collections larger than the limit', async () => {
+    const cache = new ComponentCache({ directory, maxBytes: 100 });
+    await cache.saveCollection(
+      ALICE,
+      collection('/cal/work/', 'x'.repeat(200)),
+    );
+
+    assert.strictEqual(await cache.loadCollection(ALICE, '/cal/work/'), null);
+  });
+
+  it('should purge one account or all of them', async () => {
+    const cache = new ComponentCache({ directory });
+    await cache.saveCollection(ALICE, collection('/cal/work/'));
+    await cache.saveCollection(ALICE, collection('/cal/home/'));
+    await cache.saveCollection(BOB, collection('/cal/work/'));
+
+    assert.strictEqual(await cache.purge(ALICE), 2);
+    assert.strictEqual(await cache.loadCollection(ALICE, '/cal/work/'), null);
+    assert.ok(await cache.loadCollection(BOB, '/cal/work/'));
+
+    assert.strictEqual(await cache.purge(), 1);
+    assert.strictEqual(await cache.size(), 0);
+  });
+
+  it('should leave files it did not write alone', async () => {
+    const cache = new ComponentCache({ directory });
+    await cache.saveCollection(ALICE, collection('/cal/work/'));
+    await writeFile(join(directory, 'notes.txt'), 'keep');
+    await mkdir(join(directory, 'projects'));
+
+    assert.strictEqual(await cache.purge(), 1);
+    assert.deepStrictEqual((await readdir(directory)).sort(), [
+      'notes.txt',
+      'projects',
+    ]);
+  });
+
+  it('should keep its files private to the owner', async () => {
+    const cache = new ComponentCache({ directory: join(directory, 'cache') });
+    await cache.saveCollection(ALICE, collection('/cal/work/'));
+    await cache.saveDiscovery(ALICE, {
+      principal: '/principals/alice/',
+      home: '/cal/',
+      collections: [],
+    });
+
+    const [account] = await readdir(join(directory, 'cache'));
+    const accountDirectory = join(directory, 'cache', account);
+    const [file] = await readdir(join(accountDirectory, 'collections'));
+    const mode = async (path: string) => (await stat(path)).mode & 0o777;
+    assert.strictEqual(await mode(join(directory, 'cache')), 0o700);
+    assert.strictEqual(await mode(accountDirectory), 0o700);
+    assert.strictEqual(
+      await mode(join(accountDirectory, 'collections', file)),
+      0o600,
+    );
+    assert.strictEqual(
+      await mode(join(accountDirectory, 'discovery.json')),
+      0o600,
+    );
+  });
+
+  it('should reject a missing directory', () => {
+    assert.throws(
+      () => new ComponentCache({ directory: '' }),
+      /Cache directory is required/,
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { AUTHENTICATION_FAILED, renewOnUnauthorized } from '../caldav';
+
+// Stands in for the tsdav client: answers 401 unless the header is current
+function createFakeClient(valid: () => string) {
+  const client = {
+    authHeaders: { authorization: 'Bearer expired' } as Record<string, string>,
+    sent: [] as string[],
+    async createObject(params: { headers: Record<string, string> }) {
+      client.sent.push(params.headers.authorization);
+      return { status: params.headers.authorization === valid() ? 201 : 401 };
+    },
+    async propfind() {
+      client.sent.push(client.authHeaders.authorization);
+      return [
+        { status: client.authHeaders.authorization === valid() ? 207 : 401 },
+      ];
+    },
+  };
+  return client;
+}
+
+describe('renewOnUnauthorized', () => {
+  it('should renew the credentials and retry once', async () => {
+    const client = createFakeClient(() => 'Bearer fresh');
+    let renewals = 0;
+    renewOnUnauthorized(
+      client,
+      async () => {
+        renewals++;
+        return { authorization: 'Bearer fresh' };
+      },
+      { username: 'john' },
+    );
+
+    const response = await client.createObject({
+      headers: { ...client.authHeaders, 'content-type': 'text/calendar' },
+    });
+    assert.strictEqual(response.status, 201);
+    assert.deepStrictEqual(client.sent, ['Bearer expired', 'Bearer fresh']);
+    assert.strictEqual(renewals, 1);
+
+    const [result] = await client.propfind();
+    assert.strictEqual(result.status, 207);
+    assert.strictEqual(renewals, 1);
+  });
+
+  it('should share one renewal between concurrent requests', async () => {
+    const client = createFakeClient(() => 'Bearer fresh');
+    let renewals = 0;
+    renewOnUnauthorized(
+      client,
+      async () => {
+        renewals++;
+        return { authorization: 'Bearer fresh' };
+      },
+      { username: 'john' },
+    );
+
+    await Promise.all([client.propfind(), client.propfind()]);
+    assert.strictEqual(renewals, 1);
+  });
+
+  it('should fail when the renewed credentials are rejected too', async () => {
+    const client = createFakeClient(() => 'Bearer never');
+    let renewals = 0;
+    renewOnUnauthorized(
+      client,
+      async () => ({ authorization: `Bearer renewed-${++renewals}` }),
+      { username: 'john' },
+    );
+
+    await assert.rejects(client.propfind(), (error: Error) => {
+      assert.ok(error.message.startsWith(AUTHENTICATION_FAILED));
+      assert.match(error.message, /renewed credentials of john/);
+      return true;
+    });
+    assert.strictEqual(client.sent.length, 2);
+  });
+
+  it('should not resend unchanged credentials', async () => {
+    const client = createFakeClient(() => 'Basic right');
+    renewOnUnauthorized(
+      client,
+      async () => ({ authorization: 'Bearer expired' }),
+      { username: 'john' },
+    );
+
+    await assert.rejects(
+      client.propfind(),
+      /the server rejected the credentials of john/,
+    );
+    assert.strictEqual(client.sent.length, 1);
+  });
+
+  it('should renew tokens shortly before they expire', async () => {
+    const client = createFakeClient(() => 'Bearer fresh');
+    let expiresAt = Date.now() + 10000;
+    renewOnUnauthorized(
+      client,
+      async () => {
+        expiresAt = Date.now() + 3600 * 1000;
+        return { authorization: 'Bearer fresh' };
+      },
+      { username: 'john', expiresAt: () => expiresAt },
+    );
+
+    await client.propfind();
+    assert.deepStrictEqual(client.sent, ['Bearer fresh']);
+  });
+});
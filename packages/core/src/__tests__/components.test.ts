@@ -0,0 +1,275 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  buildICalendarObject,
+  generateUid,
+  patchICalendarObject,
+  setComponentProperties,
+  validateComponentInput,
+} from '../components';
+import { CalDavFilters } from '../filters';
+
+describe('Component functions', () => {
+  const now = new Date('2024-01-10T12:00:00Z');
+
+  describe('buildICalendarObject', () => {
+    it('should build a VEVENT that parses back', () => {
+      const ical = buildICalendarObject(
+        {
+          componentType: 'VEVENT',
+          uid: 'event1@example.com',
+          summary: 'Team Meeting',
+          start: '2024-01-15T10:00:00Z',
+          end: '2024-01-15T11:00:00Z',
+          location: 'Room A',
+          categories: ['Work', 'Important'],
+        },
+        now,
+      );
+
+      assert.ok(ical.includes('BEGIN:VEVENT'));
+      assert.ok(ical.includes('DTSTART:20240115T100000Z'));
+      assert.ok(ical.includes('DTEND:20240115T110000Z'));
+      assert.ok(ical.includes('DTSTAMP:20240110T120000Z'));
+      assert.ok(ical.endsWith('END:VCALENDAR\r\n'));
+
+      const [event] = CalDavFilters.parseICalendarData(ical);
+      assert.strictEqual(event.uid, 'event1@example.com');
+      assert.strictEqual(event.summary, 'Team Meeting');
+      assert.deepStrictEqual(event.categories, ['Work', 'Important']);
+    });
+
+    it('should emit all-day dates with VALUE=DATE', () => {
+      const ical = buildICalendarObject(
+        {
+          componentType: 'VTODO',
+          summary: 'File taxes',
+          due: '2024-04-15',
+        },
+        now,
+      );
+
+      assert.ok(ical.includes('BEGIN:VTODO'));
+      assert.ok(ical.includes('DUE;VALUE=DATE:20240415'));
+    });
+
+    it('should escape text values', () => {
+      const ical = buildICalendarObject(
+        {
+          componentType: 'VJOURNAL',
+          summary: 'Notes; part 1, draft',
+          description: 'line one\nline two',
+        },
+        now,
+      );
+
+      assert.ok(ical.includes('SUMMARY:Notes\\; part 1\\, draft'));
+      assert.ok(ical.includes('DESCRIPTION:line one\\nline two'));
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const ical = buildICalendarObject(
+        {
+          componentType: 'VJOURNAL',
+          summary: 'x'.repeat(200),
+        },
+        now,
+      );
+
+      for (const line of ical.split('\r\n')) {
+        assert.ok(new TextEncoder().encode(line).length <= 75);
+      }
+      const [journal] = CalDavFilters.parseICalendarData(ical);
+      assert.strictEqual(journal.summary, 'x'.repeat(200));
+    });
+
+    it('should reject invalid input', () => {
+      assert.throws(
+        () =>
+          buildICalendarObject({
+            componentType: 'VEVENT',
+            summary: 'No start',
+          }),
+        /VEVENT requires a start/,
+      );
+    });
+  });
+
+  describe('validateComponentInput', () => {
+    it('should reject end before start', () => {
+      const errors = validateComponentInput({
+        componentType: 'VEVENT',
+        summary: 'Backwards',
+        start: '2024-01-15T11:00:00Z',
+        end: '2024-01-15T10:00:00Z',
+      });
+
+      assert.ok(errors.some((e) => e.includes('end must not be before start')));
+    });
+
+    it('should reject properties that do not apply to the component', () => {
+      const errors = validateComponentInput({
+        componentType: 'VJOURNAL',
+        summary: 'Entry',
+        due: '2024-01-15',
+      });
+
+      assert.ok(errors.some((e) => e.includes('does not support a due')));
+    });
+  });
+
+  describe('generateUid', () => {
+    it('should generate unique identifiers', () => {
+      assert.notStrictEqual(generateUid(), generateUid());
+    });
+  });
+});
+
+describe('Component patching', () => {
+  const now = new Date('2024-01-10T12:00:00Z');
+  const original = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VTODO',
+    'UID:todo1@example.com',
+    'SUMMARY:Write report',
+    'SEQUENCE:2',
+    'DESCRIPTION:A long description that has been folded by the server acr',
+    ' oss two lines',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'DESCRIPTION:Reminder',
+    'END:VALARM',
+    'END:VTODO',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  describe('patchICalendarObject', () => {
+    it('should replace only the patched properties', () => {
+      const patched = patchICalendarObject(
+        original,
+        'todo1@example.com',
+        { summary: 'Write final report', due: '2024-01-20' },
+        now,
+      );
+
+      assert.ok(patched.includes('SUMMARY:Write final report'));
+      assert.ok(patched.includes('DUE;VALUE=DATE:20240120'));
+      assert.ok(patched.includes('SEQUENCE:3'));
+      assert.ok(patched.includes('LAST-MODIFIED:20240110T120000Z'));
+      assert.ok(
+        patched.includes(
+          'DESCRIPTION:A long description that has been folded by the server acr\r\n oss two lines',
+        ),
+      );
+      assert.ok(patched.includes('DESCRIPTION:Reminder'));
+    });
+
+    it('should remove properties patched with empty values', () => {
+      const patched = patchICalendarObject(
+        original,
+        'todo1@example.com',
+        { description: '' },
+        now,
+      );
+
+      assert.ok(!patched.includes('folded by the server'));
+      // Nested VALARM properties with the same name are left alone
+      assert.ok(patched.includes('DESCRIPTION:Reminder'));
+    });
+
+    it('should reject an end before a start it left alone', () => {
+      const event = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:review',
+        'DTSTART;TZID=Europe/Berlin:20240115T100000',
+        'DTEND;TZID=Europe/Berlin:20240115T110000',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      assert.throws(
+        () =>
+          patchICalendarObject(
+            event,
+            'review',
+            { start: '2024-01-15T12:00:00Z' },
+            now,
+          ),
+        /end must not be before start/,
+      );
+      assert.ok(
+        patchICalendarObject(
+          event,
+          'review',
+          { start: '2024-01-15T08:30:00Z' },
+          now,
+        ).includes('DTSTART:20240115T083000Z'),
+      );
+    });
+
+    it('should reject empty patches', () => {
+      assert.throws(
+        () => patchICalendarObject(original, 'todo1@example.com', {}, now),
+        /does not change any property/,
+      );
+    });
+  });
+
+  describe('setComponentProperties', () => {
+    it('should prefer the master over recurrence overrides', () => {
+      const recurring = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'RECURRENCE-ID:20240116T090000Z',
+        'SUMMARY:Moved standup',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'SUMMARY:Standup',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const updated = setComponentProperties(recurring, 'standup', {
+        SUMMARY: 'SUMMARY:Daily standup',
+      });
+
+      assert.ok(updated.includes('SUMMARY:Moved standup'));
+      assert.ok(updated.includes('SUMMARY:Daily standup'));
+    });
+
+    it('should drop DURATION when DTEND is set, and the reverse', () => {
+      const event = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:review',
+        'DTSTART:20240115T100000Z',
+        'DURATION:PT1H',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const withEnd = setComponentProperties(event, 'review', {
+        DTEND: 'DTEND:20240115T120000Z',
+      });
+      assert.ok(withEnd.includes('DTEND:20240115T120000Z'));
+      assert.ok(!withEnd.includes('DURATION'));
+
+      const withDuration = setComponentProperties(withEnd, 'review', {
+        DURATION: 'DURATION:PT30M',
+      });
+      assert.ok(withDuration.includes('DURATION:PT30M'));
+      assert.ok(!withDuration.includes('DTEND'));
+    });
+
+    it('should throw for unknown UIDs', () => {
+      assert.throws(
+        () => setComponentProperties(original, 'missing', { SUMMARY: null }),
+        /Component not found/,
+      );
+    });
+  });
+});
@@ -0,0 +1,473 @@
+import assert from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  loadConfig,
+  parseArguments,
+  parseConfigFile,
+  readEnvironment,
+  validateConfig,
+} from '../config';
+
+describe('parseArguments', () => {
+  it('should read flags with separate and inline values', () => {
+    const args = parseArguments([
+      '--server-url',
+      'https://cal.example.com',
+      '--username=john',
+      '--sync',
+      '--poll-interval',
+      '5000',
+      '-c',
+      'caldav.yaml',
+    ]);
+
+    assert.deepStrictEqual(args.values, {
+      serverUrl: 'https://cal.example.com',
+      credentials: { username: 'john' },
+      sync: true,
+      pollInterval: 5000,
+    });
+    assert.strictEqual(args.configFile, 'caldav.yaml');
+  });
+
+  it('should read true or false after boolean flags', () => {
+    const args = parseArguments([
+      '--read-only',
+      'false',
+      '--sync',
+      '--server-url',
+      'https://cal.example.com',
+    ]);
+
+    assert.deepStrictEqual(args.values, {
+      policy: { readOnly: false },
+      sync: true,
+      serverUrl: 'https://cal.example.com',
+    });
+    assert.deepStrictEqual(parseArguments(['--sync=no']).values, {
+      sync: false,
+    });
+  });
+
+  it('should reject unknown flags and missing values', () => {
+    assert.throws(
+      () => parseArguments(['--colour']),
+      /Unknown option: --colour/,
+    );
+    assert.throws(
+      () => parseArguments(['--username', '--sync']),
+      /Missing value for --username/,
+    );
+    assert.throws(
+      () => parseArguments(['--poll-interval=soon']),
+      /--poll-interval must be a number, got "soon"/,
+    );
+  });
+});
+
+describe('readEnvironment', () => {
+  it('should read CALDAV_ variables', () => {
+    assert.deepStrictEqual(
+      readEnvironment({
+        CALDAV_PASSWORD: 'secret',
+        CALDAV_SYNC: 'no',
+        CALDAV_TIME_ZONE: '',
+        HOME: '/root',
+      }),
+      { credentials: { password: 'secret' }, sync: false },
+    );
+  });
+});
+
+describe('parseConfigFile', () => {
+  it('should parse JSON and YAML by extension', () => {
+    assert.deepStrictEqual(
+      parseConfigFile('caldav.json', '{"serverUrl": "https://a"}'),
+      { serverUrl: 'https://a' },
+    );
+    assert.deepStrictEqual(
+      parseConfigFile('caldav.yml', 'serverUrl: https://a'),
+      {
+        serverUrl: 'https://a',
+      },
+    );
+    assert.throws(
+      () => parseConfigFile('caldav.toml', ''),
+      /Unsupported config file type ".toml"/,
+    );
+    assert.throws(
+      () => parseConfigFile('caldav.json', '{'),
+      /Failed to read config file caldav.json/,
+    );
+  });
+});
+
+describe('validateConfig', () => {
+  it('should build client and server options', () => {
+    const config = validateConfig({
+      serverUrl: 'https://cal.example.com',
+      credentials: { username: 'john', password: 'secret' },
+      timeZone: 'Europe/Berlin',
+      cache: { directory: '/tmp/caldav' },
+    });
+
+    assert.deepStrictEqual(config, {
+      accounts: [
+        {
+          name: 'default',
+          serverUrl: 'https://cal.example.com',
+          authMethod: 'Basic',
+          credentials: { username: 'john', password: 'secret' },
+        },
+      ],
+      server: {
+        timeZone: 'Europe/Berlin',
+        cache: { directory: '/tmp/caldav' },
+      },
+      transport: 'stdio',
+      http: {},
+    });
+  });
+
+  it('should build the HTTP options', () => {
+    const config = validateConfig({
+      ...readEnvironment({
+        CALDAV_SERVER_URL: 'https://cal.example.com',
+        CALDAV_USERNAME: 'john',
+        CALDAV_PASSWORD: 'secret',
+        CALDAV_TRANSPORT: 'http',
+      }),
+      http: {
+        host: '0.0.0.0',
+        port: 8080,
+        bearerToken: 'token',
+        allowedOrigins: 'https://a.example.com, https://b.example.com',
+      },
+    });
+
+    assert.strictEqual(config.transport, 'http');
+    assert.deepStrictEqual(config.http, {
+      host: '0.0.0.0',
+      port: 8080,
+      bearerToken: 'token',
+      allowedOrigins: ['https://a.example.com', 'https://b.example.com'],
+    });
+    assert.throws(
+      () =>
+        validateConfig({
+          serverUrl: 'https://cal.example.com',
+          credentials: { username: 'john', password: 'secret' },
+          transport: 'websocket',
+          http: { port: 70000, bearerToken: 'a', bearerTokenFile: 'b' },
+        }),
+      (error: Error) => {
+        assert.match(error.message, /transport must be stdio or http/);
+        assert.match(error.message, /http.port must be a port number/);
+        assert.match(
+          error.message,
+          /either http.bearerToken or http.bearerTokenFile/,
+        );
+        return true;
+      },
+    );
+  });
+
+  it('should build the access policy', () => {
+    const config = validateConfig({
+      ...readEnvironment({
+        CALDAV_SERVER_URL: 'https://cal.example.com',
+        CALDAV_USERNAME: 'john',
+        CALDAV_PASSWORD: 'secret',
+        CALDAV_READ_ONLY: 'true',
+        CALDAV_DENY_CALENDARS: 'private, family',
+        CALDAV_COMPONENT_TYPES: 'VEVENT,VTODO',
+      }),
+    });
+
+    assert.deepStrictEqual(config.server.policy, {
+      readOnly: true,
+      denyCalendars: ['private', 'family'],
+      componentTypes: ['VEVENT', 'VTODO'],
+    });
+    assert.throws(
+      () =>
+        validateConfig({
+          serverUrl: 'https://cal.example.com',
+          credentials: { username: 'john', password: 'secret' },
+          policy: { componentTypes: ['VEVENT', 'VNOTE'] },
+        }),
+      /Unknown component type in access policy: VNOTE/,
+    );
+  });
+
+  it('should report every problem with where to fix it', () => {
+    assert.throws(
+      () =>
+        validateConfig({
+          serverUrl: 'ftp://cal.example.com',
+          authMethod: 'OAuth',
+          credentials: { username: 'john' },
+          timeZone: 'Mars/Olympus',
+          colour: 'blue',
+          pollInterval: 'often',
+        }),
+      (error: Error) => {
+        assert.match(error.message, /^Invalid configuration:/);
+        assert.match(error.message, /Unknown setting "colour"/);
+        assert.match(error.message, /serverUrl must be an http\(s\) URL/);
+        assert.match(
+          error.message,
+          /Missing credentials.tokenUrl: set --token-url, CALDAV_TOKEN_URL or "credentials.tokenUrl" in the config file/,
+        );
+        assert.match(error.message, /Unknown time zone: Mars\/Olympus/);
+        assert.match(error.message, /"pollInterval" must be a number/);
+        return true;
+      },
+    );
+  });
+
+  it('should read a list of named accounts', () => {
+    const config = validateConfig({
+      accounts: [
+        {
+          name: 'work',
+          serverUrl: 'https://cloud.example.com/remote.php/dav',
+          credentials: { username: 'john', password: 'secret' },
+        },
+        {
+          name: 'personal',
+          serverUrl: 'https://caldav.example.org',
+          authMethod: 'OAuth',
+          credentials: {
+            username: 'john@example.org',
+            tokenUrl: 'https://auth.example.org/token',
+            refreshToken: 'refresh',
+            clientId: 'id',
+            clientSecret: 'client-secret',
+          },
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(
+      config.accounts.map((a) => [a.name, a.authMethod, a.serverUrl]),
+      [
+        ['work', 'Basic', 'https://cloud.example.com/remote.php/dav'],
+        ['personal', 'OAuth', 'https://caldav.example.org'],
+      ],
+    );
+  });
+
+  it('should read a policy for each account', () => {
+    const config = validateConfig({
+      policy: { denyCalendars: ['private'] },
+      accounts: [
+        {
+          name: 'work',
+          serverUrl: 'https://cal.example.com',
+          credentials: { username: 'john', password: 'secret' },
+          policy: { readOnlyCalendars: 'team, board' },
+        },
+        {
+          name: 'personal',
+          serverUrl: 'https://cal.example.org',
+          credentials: { username: 'john', password: 'secret' },
+        },
+      ],
+    });
+
+    assert.deepStrictEqual(config.server.policy, {
+      denyCalendars: ['private'],
+    });
+    assert.deepStrictEqual(
+      config.accounts.map((a) => a.policy),
+      [{ readOnlyCalendars: ['team', 'board'] }, undefined],
+    );
+    assert.throws(
+      () =>
+        validateConfig({
+          accounts: [
+            {
+              name: 'work',
+              serverUrl: 'https://cal.example.com',
+              credentials: { username: 'john', password: 'secret' },
+              policy: { readOnly: 'yes', colour: 'blue' },
+            },
+          ],
+        }),
+      (error: Error) => {
+        assert.match(
+          error.message,
+          /"accounts\[0\].policy.readOnly" must be a boolean/,
+        );
+        assert.match(
+          error.message,
+          /Unknown setting "accounts\[0\].policy.colour"/,
+        );
+        return true;
+      },
+    );
+  });
+
+  it('should take secrets from files, variables and commands', () => {
+    const config = validateConfig({
+      serverUrl: 'https://cal.example.com',
+      authMethod: 'OAuth',
+      credentials: {
+        username: 'john',
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'id',
+        refreshToken: { file: 'secrets/refresh-token' },
+        clientSecret: { command: 'pass show caldav/client' },
+      },
+    });
+    const { credentials } = config.accounts[0];
+    assert.ok('refreshToken' in credentials);
+    assert.deepStrictEqual(credentials.refreshToken, {
+      file: resolve('secrets/refresh-token'),
+    });
+    assert.deepStrictEqual(credentials.clientSecret, {
+      command: 'pass show caldav/client',
+    });
+
+    assert.throws(
+      () =>
+        validateConfig({
+          serverUrl: 'https://cal.example.com',
+          credentials: { username: 'john', password: { vault: 'caldav' } },
+        }),
+      /"credentials.password" must be a string or one of \{ file \}, \{ env \} and \{ command \}/,
+    );
+  });
+
+  it('should name the account entry of each problem', () => {
+    assert.throws(
+      () =>
+        validateConfig({
+          serverUrl: 'https://cal.example.com',
+          accounts: [
+            {
+              name: 'work',
+              serverUrl: 'https://cal.example.com',
+              credentials: { username: 'john', password: 'secret' },
+            },
+            {
+              serverUrl: 'https://cal.example.org',
+              credentials: { username: 'john', colour: 'blue' },
+            },
+            {
+              name: 'work',
+              serverUrl: 'https://cal.example.net',
+              credentials: { username: 'jane', password: 'secret' },
+            },
+          ],
+        }),
+      (error: Error) => {
+        assert.match(error.message, /each entry of "accounts"/);
+        assert.match(error.message, /Missing accounts\[1\].name/);
+        assert.match(
+          error.message,
+          /Missing accounts\[1\].credentials.password/,
+        );
+        assert.match(
+          error.message,
+          /Unknown setting "accounts\[1\].credentials.colour"/,
+        );
+        assert.match(error.message, /Duplicate account name: work/);
+        return true;
+      },
+    );
+  });
+});
+
+describe('loadConfig', () => {
+  it('should prefer flags over the environment over the file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'caldav-config-'));
+    try {
+      const file = join(directory, 'caldav.yaml');
+      await writeFile(
+        file,
+        [
+          'serverUrl: https://file.example.com',
+          'credentials:',
+          '  username: file',
+          '  password: file-secret',
+          'timeZone: Europe/Berlin',
+        ].join('\n'),
+      );
+
+      const config = await loadConfig(parseArguments(['--username', 'flag']), {
+        CALDAV_CONFIG: file,
+        CALDAV_USERNAME: 'env',
+        CALDAV_SERVER_URL: 'https://env.example.com',
+      });
+
+      const [account] = config.accounts;
+      assert.strictEqual(account.serverUrl, 'https://env.example.com');
+      assert.deepStrictEqual(account.credentials, {
+        username: 'flag',
+        password: 'file-secret',
+      });
+      assert.strictEqual(config.server.timeZone, 'Europe/Berlin');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should find paths in the config file next to it', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'caldav-config-'));
+    try {
+      const file = join(directory, 'caldav.yaml');
+      await writeFile(join(directory, 'token'), 'secret-token');
+      await writeFile(
+        file,
+        [
+          'accounts:',
+          '  - name: work',
+          '    serverUrl: https://cal.example.com',
+          '    credentials:',
+          '      username: john',
+          '      password: { file: secrets/password }',
+          'cache:',
+          '  directory: cache',
+          'http:',
+          '  bearerTokenFile: token',
+        ].join('\n'),
+      );
+
+      const config = await loadConfig(parseArguments([]), {
+        CALDAV_CONFIG: file,
+      });
+
+      assert.deepStrictEqual(config.accounts[0].credentials, {
+        username: 'john',
+        password: { file: join(directory, 'secrets/password') },
+      });
+      assert.deepStrictEqual(config.server.cache, {
+        directory: join(directory, 'cache'),
+      });
+      assert.strictEqual(config.http.bearerTokenFile, join(directory, 'token'));
+
+      // Flags stay relative to the working directory
+      const flagged = await loadConfig(
+        parseArguments(['--cache-dir', 'cache']),
+        { CALDAV_CONFIG: file },
+      );
+      assert.deepStrictEqual(flagged.server.cache, {
+        directory: resolve('cache'),
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should name a config file that cannot be read', async () => {
+    await assert.rejects(
+      loadConfig(parseArguments(['--config', '/nonexistent/caldav.yaml']), {}),
+      /Failed to read config file \/nonexistent\/caldav.yaml/,
+    );
+  });
+});
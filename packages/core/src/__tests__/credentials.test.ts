@@ -0,0 +1,134 @@
+import assert from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { requestAccessToken, resolveSecret } from '../credentials';
+
+describe('resolveSecret', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'caldav-secret-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should take strings and functions as they are', async () => {
+    assert.strictEqual(await resolveSecret('secret', 'password'), 'secret');
+    assert.strictEqual(
+      await resolveSecret(async () => 'from-function', 'password'),
+      'from-function',
+    );
+  });
+
+  it('should read a file without its trailing line break', async () => {
+    const file = join(directory, 'password');
+    await writeFile(file, 'from-file\n');
+    assert.strictEqual(await resolveSecret({ file }, 'password'), 'from-file');
+    await assert.rejects(
+      resolveSecret({ file: join(directory, 'missing') }, 'password'),
+      /Failed to read password from .*missing/,
+    );
+  });
+
+  it('should read an environment variable', async () => {
+    process.env.CALDAV_TEST_SECRET = 'from-env';
+    try {
+      assert.strictEqual(
+        await resolveSecret({ env: 'CALDAV_TEST_SECRET' }, 'password'),
+        'from-env',
+      );
+    } finally {
+      Reflect.deleteProperty(process.env, 'CALDAV_TEST_SECRET');
+    }
+    await assert.rejects(
+      resolveSecret({ env: 'CALDAV_TEST_SECRET' }, 'password'),
+      /environment variable CALDAV_TEST_SECRET is not set/,
+    );
+  });
+
+  it('should take the first line a command prints', async () => {
+    assert.strictEqual(
+      await resolveSecret(
+        { command: 'printf "from-command\\nuser: john\\n"' },
+        'password',
+      ),
+      'from-command',
+    );
+    await assert.rejects(
+      resolveSecret({ command: 'exit 3' }, 'refresh token'),
+      /Failed to get refresh token from command "exit 3"/,
+    );
+    await assert.rejects(
+      resolveSecret({ command: 'true' }, 'password'),
+      /the secret is empty/,
+    );
+  });
+});
+
+describe('requestAccessToken', () => {
+  let server: Server;
+  let tokenUrl: string;
+  const requests: URLSearchParams[] = [];
+  let answer = { status: 200, body: {} as Record<string, unknown> };
+
+  before(async () => {
+    server = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      requests.push(new URLSearchParams(body));
+      res.writeHead(answer.status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(answer.body));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const credentials = () => ({
+    tokenUrl,
+    refreshToken: 'refresh',
+    clientId: 'client',
+    clientSecret: 'client-secret',
+  });
+
+  it('should trade the refresh token for an access token', async () => {
+    answer = {
+      status: 200,
+      body: { access_token: 'access', expires_in: 3600, refresh_token: 'next' },
+    };
+    const before = Date.now();
+    const token = await requestAccessToken(credentials());
+
+    assert.strictEqual(token.accessToken, 'access');
+    assert.strictEqual(token.refreshToken, 'next');
+    assert.ok((token.expiresAt ?? 0) >= before + 3600 * 1000);
+    const request = requests[requests.length - 1];
+    assert.strictEqual(request.get('grant_type'), 'refresh_token');
+    assert.strictEqual(request.get('refresh_token'), 'refresh');
+    assert.strictEqual(request.get('client_secret'), 'client-secret');
+  });
+
+  it('should report a refused refresh', async () => {
+    answer = { status: 400, body: { error: 'invalid_grant' } };
+    await assert.rejects(
+      requestAccessToken(credentials()),
+      /OAuth token refresh failed: invalid_grant/,
+    );
+    answer = { status: 200, body: {} };
+    await assert.rejects(
+      requestAccessToken(credentials()),
+      /OAuth token refresh failed: status 200/,
+    );
+  });
+});
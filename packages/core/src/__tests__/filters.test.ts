@@ -99,6 +99,91 @@ END:VCALENDAR`;
       assert.ok(filtered.some((c) => c.uid === 'todo1@example.com'));
     });
 
+    it('should match recurring components by their occurrences', () => {
+      const components = CalDavFilters.parseICalendarData(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'UID:standup@example.com',
+          'DTSTART:20230102T090000Z',
+          'DTEND:20230102T091500Z',
+          'RRULE:FREQ=WEEKLY;BYDAY=MO',
+          'EXDATE:20240108T090000Z',
+          'EXDATE:20240115T090000Z',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+
+      assert.strictEqual(
+        components[0].exdate,
+        '20240108T090000Z,20240115T090000Z',
+      );
+      assert.strictEqual(
+        CalDavFilters.filterByTimeRange(
+          components,
+          '2024-01-22T00:00:00Z',
+          '2024-01-23T00:00:00Z',
+        ).length,
+        1,
+      );
+      assert.strictEqual(
+        CalDavFilters.filterByTimeRange(
+          components,
+          '2024-01-15T00:00:00Z',
+          '2024-01-16T00:00:00Z',
+        ).length,
+        0,
+      );
+    });
+
+    it('should place tasks by their due, completion and creation dates', () => {
+      const components = CalDavFilters.parseICalendarData(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VTODO',
+          'UID:due',
+          'DUE:20240115T120000Z',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:completed',
+          'CREATED:20240101T090000Z',
+          'COMPLETED:20240110T090000Z',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:created',
+          'CREATED:20240201T090000Z',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:undated',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:duration',
+          'DTSTART:20231231T090000Z',
+          'DURATION:P15D',
+          'END:VTODO',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+      const uids = (start: string, end: string) =>
+        CalDavFilters.filterByTimeRange(components, start, end).map(
+          (c) => c.uid,
+        );
+
+      assert.deepStrictEqual(
+        uids('2024-01-15T00:00:00Z', '2024-01-16T00:00:00Z'),
+        ['due', 'undated', 'duration'],
+      );
+      assert.deepStrictEqual(
+        uids('2024-01-05T00:00:00Z', '2024-01-06T00:00:00Z'),
+        ['completed', 'undated', 'duration'],
+      );
+      assert.deepStrictEqual(
+        uids('2024-03-01T00:00:00Z', '2024-03-02T00:00:00Z'),
+        ['created', 'undated'],
+      );
+    });
+
     it('should return all components when no time range specified', () => {
       const components = CalDavFilters.parseICalendarData(sampleICalData);
       const filtered = CalDavFilters.filterByTimeRange(components);
@@ -167,14 +252,48 @@ END:VCALENDAR`;
       assert.ok(filtered[0].categories && filtered[0].categories.length > 1);
     });
 
-    it('should return all components for unknown expressions', () => {
+    it('should combine conditions with && and ||', () => {
+      const components = CalDavFilters.parseICalendarData(sampleICalData);
+      const filtered = CalDavFilters.filterByJmesExpression(
+        components,
+        "priority <= `2` && status == 'IN-PROCESS' || status == 'TENTATIVE'",
+      );
+
+      assert.deepStrictEqual(
+        filtered.map((c) => c.uid),
+        ['todo1@example.com', 'event2@example.com'],
+      );
+    });
+
+    it('should compare dates', () => {
+      const components = CalDavFilters.parseICalendarData(sampleICalData);
+      const filtered = CalDavFilters.filterByJmesExpression(
+        components,
+        "dtstart >= '2024-01-16'",
+      );
+
+      assert.deepStrictEqual(
+        filtered.map((c) => c.uid),
+        ['todo1@example.com', 'event2@example.com'],
+      );
+    });
+
+    it('should match nothing for unknown properties', () => {
       const components = CalDavFilters.parseICalendarData(sampleICalData);
       const filtered = CalDavFilters.filterByJmesExpression(
         components,
         'unknown.expression',
       );
 
-      assert.strictEqual(filtered.length, components.length);
+      assert.strictEqual(filtered.length, 0);
+    });
+
+    it('should reject invalid expressions', () => {
+      const components = CalDavFilters.parseICalendarData(sampleICalData);
+      assert.throws(
+        () => CalDavFilters.filterByJmesExpression(components, 'status == '),
+        /Invalid filter expression: Unexpected end of expression at position 10/,
+      );
     });
   });
 
@@ -191,6 +310,110 @@ END:VCALENDAR`;
     });
   });
 
+  describe('filterByText', () => {
+    it('should match substrings case-insensitively', () => {
+      const components = CalDavFilters.parseICalendarData(sampleICalData);
+
+      const matches = CalDavFilters.filterByText(components, {
+        property: 'SUMMARY',
+        value: 'meeting',
+      });
+
+      assert.deepStrictEqual(
+        matches.map((c) => c.uid),
+        ['event1@example.com'],
+      );
+    });
+
+    it('should not match missing properties when negated', () => {
+      const components = CalDavFilters.parseICalendarData(sampleICalData);
+
+      const matches = CalDavFilters.filterByText(components, {
+        property: 'location',
+        value: 'room b',
+        negate: true,
+      });
+
+      assert.deepStrictEqual(
+        matches.map((c) => c.uid),
+        ['event1@example.com'],
+      );
+    });
+
+    it('should match property parameters', () => {
+      const components = CalDavFilters.parseICalendarData(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'UID:invited',
+          'ATTENDEE;PARTSTAT=NEEDS-ACTION:mailto:john@example.com',
+          'END:VEVENT',
+          'BEGIN:VEVENT',
+          'UID:accepted',
+          'ATTENDEE;PARTSTAT=ACCEPTED:mailto:john@example.com',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+
+      const matches = CalDavFilters.filterByText(components, {
+        property: 'ATTENDEE',
+        parameter: 'PARTSTAT',
+        value: 'needs-action',
+      });
+
+      assert.deepStrictEqual(
+        matches.map((c) => c.uid),
+        ['invited'],
+      );
+    });
+  });
+
+  describe('applyQueryFilters', () => {
+    it('should apply undefined properties and date ranges', () => {
+      const components = CalDavFilters.parseICalendarData(sampleICalData);
+
+      const filtered = CalDavFilters.applyQueryFilters(components, {
+        undefinedProperties: ['DTEND'],
+        timeRange: { start: '2024-01-16T00:00:00Z' },
+      });
+
+      assert.deepStrictEqual(
+        filtered.map((c) => c.uid),
+        ['todo1@example.com'],
+      );
+    });
+
+    it('should keep due dates within [start, end)', () => {
+      const components = CalDavFilters.parseICalendarData(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VTODO',
+          'UID:a',
+          'DUE:20240131T000000Z',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:b',
+          'DUE:20240201T000000Z',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:c',
+          'END:VTODO',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+
+      const filtered = CalDavFilters.applyQueryFilters(components, {
+        dueRange: { end: '2024-02-01T00:00:00Z' },
+      });
+
+      assert.deepStrictEqual(
+        filtered.map((c) => c.uid),
+        ['a'],
+      );
+    });
+  });
+
   describe('componentsToICalendar', () => {
     it('should convert components back to iCalendar format', () => {
       const components = CalDavFilters.parseICalendarData(sampleICalData);
@@ -207,6 +430,76 @@ END:VCALENDAR`;
       assert.ok(icalOutput.includes('SUMMARY:Team Meeting'));
     });
 
+    it('should keep TZID parameters of date/time properties', () => {
+      const components = CalDavFilters.parseICalendarData(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'UID:zoned',
+          'DTSTART;TZID=Europe/Berlin:20240115T090000',
+          'RRULE:FREQ=DAILY;COUNT=5',
+          'EXDATE;TZID=Europe/Berlin:20240116T090000,20240117T090000',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+      const lines =
+        CalDavFilters.componentsToICalendar(components).split('\r\n');
+
+      assert.ok(lines.includes('DTSTART;TZID=Europe/Berlin:20240115T090000'));
+      assert.ok(
+        lines.includes(
+          'EXDATE;TZID=Europe/Berlin:20240116T090000,20240117T090000',
+        ),
+      );
+    });
+
+    it('should write parsed components back without losing data', () => {
+      const stored = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Example Corp//Calendar//EN',
+        'X-WR-CALNAME:Work',
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Berlin',
+        'BEGIN:STANDARD',
+        'DTSTART:19701025T030000',
+        'TZOFFSETFROM:+0200',
+        'TZOFFSETTO:+0100',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+        'BEGIN:VTIMEZONE',
+        'TZID:America/New_York',
+        'BEGIN:STANDARD',
+        'DTSTART:19701101T020000',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'END:STANDARD',
+        'END:VTIMEZONE',
+        'BEGIN:VTODO',
+        'UID:review',
+        'DUE;TZID=Europe/Berlin:20240115T170000',
+        'ORGANIZER;CN=Boss:mailto:boss@example.com',
+        'X-APPLE-SORT-ORDER:3',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER;RELATED=END:-PT1H',
+        'DESCRIPTION:Due soon',
+        'END:VALARM',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ];
+      const components = CalDavFilters.parseICalendarData(stored.join('\r\n'));
+
+      assert.strictEqual(components[0].due, '20240115T170000 (Europe/Berlin)');
+      assert.strictEqual(components[0].description, undefined);
+      // Only the VTIMEZONE that is actually referenced comes along
+      assert.strictEqual(
+        CalDavFilters.componentsToICalendar(components),
+        stored.filter((_, i) => i < 12 || i > 19).join('\r\n'),
+      );
+    });
+
     it('should create empty calendar for no components', () => {
       const icalOutput = CalDavFilters.componentsToICalendar([]);
 
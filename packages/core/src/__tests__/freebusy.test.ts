@@ -0,0 +1,125 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  buildFreeBusyCalendar,
+  busyPeriodsFromComponents,
+  mergeBusyPeriods,
+  parseFreeBusy,
+} from '../freebusy';
+
+const start = new Date('2024-01-15T00:00:00Z');
+const end = new Date('2024-01-16T00:00:00Z');
+
+describe('Free/busy', () => {
+  describe('mergeBusyPeriods', () => {
+    it('should merge overlapping and adjacent periods', () => {
+      const merged = mergeBusyPeriods([
+        {
+          start: new Date('2024-01-15T11:00:00Z'),
+          end: new Date('2024-01-15T12:00:00Z'),
+        },
+        {
+          start: new Date('2024-01-15T09:00:00Z'),
+          end: new Date('2024-01-15T10:00:00Z'),
+        },
+        {
+          start: new Date('2024-01-15T10:00:00Z'),
+          end: new Date('2024-01-15T10:30:00Z'),
+        },
+      ]);
+
+      assert.deepStrictEqual(
+        merged.map((p) => [p.start.toISOString(), p.end.toISOString()]),
+        [
+          ['2024-01-15T09:00:00.000Z', '2024-01-15T10:30:00.000Z'],
+          ['2024-01-15T11:00:00.000Z', '2024-01-15T12:00:00.000Z'],
+        ],
+      );
+    });
+  });
+
+  describe('parseFreeBusy', () => {
+    it('should parse periods and skip FBTYPE=FREE', () => {
+      const periods = parseFreeBusy(
+        [
+          'BEGIN:VFREEBUSY',
+          'FREEBUSY;FBTYPE=BUSY-TENTATIVE:20240115T090000Z/PT1H',
+          'FREEBUSY;FBTYPE=FREE:20240115T120000Z/20240115T130000Z',
+          'END:VFREEBUSY',
+        ].join('\r\n'),
+      );
+
+      assert.strictEqual(periods.length, 1);
+      assert.strictEqual(
+        periods[0].end.toISOString(),
+        '2024-01-15T10:00:00.000Z',
+      );
+    });
+  });
+
+  describe('busyPeriodsFromComponents', () => {
+    it('should skip cancelled and transparent events and clip to the range', () => {
+      const periods = busyPeriodsFromComponents(
+        [
+          { uid: '1', dtstart: '20240114T230000Z', dtend: '20240115T010000Z' },
+          {
+            uid: '2',
+            dtstart: '20240115T090000Z',
+            dtend: '20240115T100000Z',
+            status: 'CANCELLED',
+          },
+          {
+            uid: '3',
+            dtstart: '20240115T110000Z',
+            dtend: '20240115T120000Z',
+            transp: 'TRANSPARENT',
+          },
+        ],
+        start,
+        end,
+      );
+
+      assert.strictEqual(periods.length, 1);
+      assert.strictEqual(periods[0].start.toISOString(), start.toISOString());
+      assert.strictEqual(
+        periods[0].end.toISOString(),
+        '2024-01-15T01:00:00.000Z',
+      );
+    });
+
+    it('should treat all-day events without DTEND as one day', () => {
+      const periods = busyPeriodsFromComponents(
+        [{ uid: '1', dtstart: '20240115' }],
+        start,
+        end,
+      );
+
+      assert.strictEqual(periods.length, 1);
+      assert.strictEqual(
+        periods[0].end.getTime() - periods[0].start.getTime(),
+        86400000,
+      );
+    });
+  });
+
+  describe('buildFreeBusyCalendar', () => {
+    it('should emit a VFREEBUSY component', () => {
+      const ical = buildFreeBusyCalendar(
+        [
+          {
+            start: new Date('2024-01-15T09:00:00Z'),
+            end: new Date('2024-01-15T10:00:00Z'),
+          },
+        ],
+        start,
+        end,
+        new Date('2024-01-01T00:00:00Z'),
+      );
+
+      assert.ok(ical.includes('DTSTART:20240115T000000Z'));
+      assert.ok(
+        ical.includes('FREEBUSY;FBTYPE=BUSY:20240115T090000Z/20240115T100000Z'),
+      );
+    });
+  });
+});
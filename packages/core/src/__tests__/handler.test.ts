@@ -0,0 +1,1436 @@
+import assert from 'node:assert';
+import { beforeEach, describe, it } from 'node:test';
+import type { CalDavClient } from '../caldav';
+import { CalDavRequestHandler } from '../handler';
+
+const SERVER_URL = 'https://dav.example.com';
+const HOME = '/calendars/john/';
+
+interface StoredObject {
+  etag: string;
+  data: string;
+}
+
+// Minimal in-memory CalDAV server exposing the client methods the handler uses
+function createFakeClient() {
+  const objects = new Map<string, StoredObject>();
+  const collections = new Map<string, Record<string, unknown>>([
+    [`${HOME}work/`, { displayname: 'Work' }],
+    [
+      `${HOME}tasks/`,
+      {
+        displayname: 'Tasks',
+        supportedCalendarComponentSet: {
+          comp: { _attributes: { name: 'VTODO' } },
+        },
+      },
+    ],
+  ]);
+  let revision = 0;
+  const nextEtag = () => `"etag-${++revision}"`;
+  const pathOf = (url: string) => new URL(url, SERVER_URL).pathname;
+
+  const client = {
+    supportsMove: true,
+    freeBusyResponse: null as string | null,
+    lastQueryProps: undefined as unknown,
+    lastQueryFilters: undefined as unknown,
+    queryFilters: [] as unknown[],
+    serverUrl: SERVER_URL,
+    credentials: { username: 'john' },
+    authHeaders: { authorization: 'Basic am9objpzZWNyZXQ=' },
+    objects,
+    collections,
+    // Answers like tsdav: properties without namespaces, camel-cased
+    async propfind({ props }: { props: Record<string, unknown> }) {
+      switch (Object.keys(props)[0]) {
+        case 'd:current-user-principal':
+          return [
+            {
+              href: '/',
+              props: {
+                currentUserPrincipal: { href: '/principals/john/' },
+              },
+            },
+          ];
+        case 'c:calendar-home-set':
+          return [
+            {
+              href: '/principals/john/',
+              props: { calendarHomeSet: { href: HOME } },
+            },
+          ];
+        default:
+          return [
+            { href: HOME, props: { resourcetype: {} } },
+            ...[...collections.entries()].map(([href, props]) => ({
+              href,
+              props: { ...props, resourcetype: { calendar: {} } },
+            })),
+          ];
+      }
+    },
+    async calendarQuery({
+      url,
+      props,
+      filters,
+    }: { url: string; props: unknown; filters: unknown }) {
+      client.lastQueryProps = props;
+      client.lastQueryFilters = filters;
+      client.queryFilters.push(filters);
+      const prefix = pathOf(url);
+      return [...objects.entries()]
+        .filter(([href]) => href.startsWith(prefix))
+        .map(([href, object]) => ({
+          href,
+          props: { getetag: object.etag, calendarData: object.data },
+        }));
+    },
+    async createObject({
+      url,
+      data,
+      headers,
+    }: {
+      url: string;
+      data: string;
+      headers: Record<string, string>;
+    }) {
+      const href = pathOf(url);
+      if (headers['if-none-match'] === '*' && objects.has(href)) {
+        return new Response(null, { status: 412 });
+      }
+      const etag = nextEtag();
+      objects.set(href, { etag, data });
+      return new Response(null, { status: 201, headers: { etag } });
+    },
+    async updateObject({
+      url,
+      data,
+      etag,
+    }: {
+      url: string;
+      data: string;
+      etag?: string;
+    }) {
+      const href = pathOf(url);
+      const existing = objects.get(href);
+      if (!existing) return new Response(null, { status: 404 });
+      if (etag && etag !== existing.etag) {
+        return new Response(null, { status: 412 });
+      }
+      const newEtag = nextEtag();
+      objects.set(href, { etag: newEtag, data });
+      return new Response(null, { status: 204, headers: { etag: newEtag } });
+    },
+    async davRequest({
+      url,
+      init,
+    }: {
+      url: string;
+      init: { method: string; headers: Record<string, string>; body?: string };
+    }) {
+      const respond = (status: number, raw = '') => [
+        { status, ok: status < 300, raw },
+      ];
+      const href = pathOf(url);
+
+      if (init.method === 'MKCALENDAR') {
+        if (collections.has(href)) return respond(405);
+        const name = init.body?.match(/<D:displayname>(.*)<\/D:displayname>/);
+        collections.set(href, { displayname: name?.[1] });
+        return respond(201);
+      }
+      if (init.method === 'PROPPATCH') {
+        const name = init.body?.match(/<D:displayname>(.*)<\/D:displayname>/);
+        const collection = collections.get(href);
+        if (!collection) return respond(404);
+        if (name) collection.displayname = name[1];
+        return respond(
+          207,
+          '<D:multistatus><D:response><D:propstat><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response></D:multistatus>',
+        );
+      }
+
+      if (init.method === 'REPORT') {
+        return client.freeBusyResponse
+          ? respond(200, client.freeBusyResponse)
+          : respond(501);
+      }
+
+      if (!client.supportsMove) return respond(405);
+
+      const destination = pathOf(init.headers.destination);
+      const existing = objects.get(href);
+      if (!existing) return respond(404);
+      if (
+        init.headers['if-match'] &&
+        init.headers['if-match'] !== existing.etag
+      ) {
+        return respond(412);
+      }
+      if (objects.has(destination)) return respond(412);
+
+      objects.set(destination, { etag: nextEtag(), data: existing.data });
+      if (init.method === 'MOVE') objects.delete(href);
+      return respond(201);
+    },
+    async deleteObject({ url, etag }: { url: string; etag?: string }) {
+      const href = pathOf(url);
+      if (collections.delete(href)) return new Response(null, { status: 204 });
+      const existing = objects.get(href);
+      if (!existing) return new Response(null, { status: 404 });
+      if (etag && etag !== existing.etag) {
+        return new Response(null, { status: 412 });
+      }
+      objects.delete(href);
+      return new Response(null, { status: 204 });
+    },
+  };
+
+  return client;
+}
+
+type FakeClient = ReturnType<typeof createFakeClient>;
+
+function seed(client: FakeClient, href: string, lines: string[]): string {
+  const etag = `"seed-${href}"`;
+  client.objects.set(href, {
+    etag,
+    data: `${['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')}\r\n`,
+  });
+  return etag;
+}
+
+describe('CalDavRequestHandler tools', () => {
+  let client: FakeClient;
+  let handler: CalDavRequestHandler;
+
+  const callTool = (name: string, args: Record<string, unknown>) =>
+    handler.handleToolCall({
+      name,
+      arguments: args,
+      client: client as unknown as CalDavClient,
+    });
+
+  beforeEach(() => {
+    client = createFakeClient();
+    handler = new CalDavRequestHandler();
+  });
+
+  describe('create_component', () => {
+    it('should PUT a new event into the calendar collection', async () => {
+      const response = await callTool('create_component', {
+        calendarId: 'work',
+        comp: 'VEVENT',
+        summary: 'Planning',
+        start: '2024-01-15T09:00:00Z',
+        end: '2024-01-15T10:00:00Z',
+      });
+
+      assert.strictEqual(response.status, 201);
+      const result = JSON.parse(response.content);
+      assert.ok(result.href.startsWith(`${HOME}work/`));
+      assert.ok(result.etag);
+      assert.ok(result.uri.startsWith('caldav://'));
+
+      const stored = client.objects.get(result.href);
+      assert.ok(stored?.data.includes('SUMMARY:Planning'));
+      assert.ok(stored?.data.includes(`UID:${result.uid}`));
+    });
+
+    it('should refuse component types the calendar does not support', async () => {
+      const response = await callTool('create_component', {
+        calendarId: 'tasks',
+        comp: 'VEVENT',
+        summary: 'Planning',
+        start: '2024-01-15T09:00:00Z',
+      });
+
+      assert.strictEqual(response.status, 400);
+      assert.ok(JSON.parse(response.content).error.includes('does not accept'));
+      assert.strictEqual(client.objects.size, 0);
+    });
+  });
+
+  describe('update_component', () => {
+    const href = `${HOME}work/meeting.ics`;
+
+    beforeEach(() => {
+      seed(client, href, [
+        'BEGIN:VEVENT',
+        'UID:meeting@example.com',
+        'DTSTART:20240115T100000Z',
+        'SUMMARY:Team Meeting',
+        'ATTENDEE;CN=Jane:mailto:jane@example.com',
+        'X-CUSTOM:keep me',
+        'END:VEVENT',
+      ]);
+    });
+
+    it('should patch properties and keep everything else', async () => {
+      const response = await callTool('update_component', {
+        calendarId: 'work',
+        uid: 'meeting@example.com',
+        summary: 'Team Sync',
+      });
+
+      assert.strictEqual(response.status, 204);
+      const stored = client.objects.get(href)?.data ?? '';
+      assert.ok(stored.includes('SUMMARY:Team Sync'));
+      assert.ok(stored.includes('ATTENDEE;CN=Jane:mailto:jane@example.com'));
+      assert.ok(stored.includes('X-CUSTOM:keep me'));
+      assert.ok(stored.includes('SEQUENCE:1'));
+    });
+
+    it('should return a conflict when the pinned etag is stale', async () => {
+      const response = await callTool('update_component', {
+        calendarId: 'work',
+        uid: 'meeting@example.com',
+        etag: '"outdated"',
+        summary: 'Team Sync',
+      });
+
+      assert.strictEqual(response.status, 412);
+      const body = JSON.parse(response.content);
+      assert.strictEqual(body.conflict.href, href);
+      assert.ok(body.conflict.data.includes('SUMMARY:Team Meeting'));
+      assert.ok(client.objects.get(href)?.data.includes('Team Meeting'));
+    });
+
+    it('should return a conflict when the server rejects If-Match', async () => {
+      const originalUpdate = client.updateObject;
+      client.updateObject = async (params) => {
+        // Simulate a concurrent edit landing between read and write
+        client.objects.set(href, {
+          etag: '"edited-on-phone"',
+          data: 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:meeting@example.com\r\nSUMMARY:Edited on phone\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n',
+        });
+        return originalUpdate(params);
+      };
+
+      const response = await callTool('update_component', {
+        calendarId: 'work',
+        uid: 'meeting@example.com',
+        summary: 'Team Sync',
+      });
+
+      assert.strictEqual(response.status, 412);
+      const body = JSON.parse(response.content);
+      assert.ok(body.conflict.data.includes('Edited on phone'));
+    });
+
+    it('should report unknown UIDs', async () => {
+      const response = await callTool('update_component', {
+        calendarId: 'work',
+        uid: 'missing@example.com',
+        summary: 'Team Sync',
+      });
+
+      assert.strictEqual(response.status, 400);
+      assert.ok(JSON.parse(response.content).error.includes('not found'));
+    });
+  });
+
+  describe('task tools', () => {
+    const href = `${HOME}tasks/report.ics`;
+
+    beforeEach(() => {
+      seed(client, href, [
+        'BEGIN:VTODO',
+        'UID:report@example.com',
+        'SUMMARY:Write report',
+        'STATUS:NEEDS-ACTION',
+        'END:VTODO',
+      ]);
+    });
+
+    it('should complete a task and report the new state', async () => {
+      const response = await callTool('complete_task', {
+        calendarId: 'tasks',
+        uid: 'report@example.com',
+      });
+
+      assert.strictEqual(response.status, 204);
+      const result = JSON.parse(response.content);
+      assert.strictEqual(result.status, 'COMPLETED');
+      assert.strictEqual(result.percentComplete, 100);
+      assert.ok(client.objects.get(href)?.data.includes('STATUS:COMPLETED'));
+    });
+
+    it('should set task progress', async () => {
+      const response = await callTool('set_task_progress', {
+        calendarId: 'tasks',
+        uid: 'report@example.com',
+        percent: 50,
+      });
+
+      assert.strictEqual(response.status, 204);
+      assert.ok(client.objects.get(href)?.data.includes('PERCENT-COMPLETE:50'));
+    });
+  });
+
+  describe('move_component', () => {
+    const href = `${HOME}work/report.ics`;
+
+    beforeEach(() => {
+      seed(client, href, [
+        'BEGIN:VTODO',
+        'UID:report@example.com',
+        'SUMMARY:Write report',
+        'END:VTODO',
+      ]);
+    });
+
+    it('should move a component with WebDAV MOVE', async () => {
+      const response = await callTool('move_component', {
+        calendarId: 'work',
+        uid: 'report@example.com',
+        targetCalendarId: 'tasks',
+      });
+
+      assert.strictEqual(response.status, 201);
+      const result = JSON.parse(response.content);
+      assert.strictEqual(result.method, 'MOVE');
+      assert.strictEqual(client.objects.has(href), false);
+      assert.ok(client.objects.has(result.to.href));
+    });
+
+    it('should fall back to PUT and DELETE', async () => {
+      client.supportsMove = false;
+
+      const response = await callTool('move_component', {
+        calendarId: 'work',
+        uid: 'report@example.com',
+        targetCalendarId: 'tasks',
+      });
+
+      const result = JSON.parse(response.content);
+      assert.strictEqual(result.method, 'PUT+DELETE');
+      assert.strictEqual(client.objects.has(href), false);
+      assert.ok(
+        client.objects.get(result.to.href)?.data.includes('Write report'),
+      );
+    });
+
+    it('should copy a component and keep the original', async () => {
+      client.supportsMove = false;
+
+      const response = await callTool('move_component', {
+        calendarId: 'work',
+        uid: 'report@example.com',
+        targetCalendarId: 'tasks',
+        mode: 'copy',
+      });
+
+      assert.strictEqual(JSON.parse(response.content).method, 'PUT');
+      assert.strictEqual(client.objects.size, 2);
+    });
+
+    it('should refuse targets that do not accept the component type', async () => {
+      seed(client, `${HOME}work/meeting.ics`, [
+        'BEGIN:VEVENT',
+        'UID:meeting@example.com',
+        'DTSTART:20240115T100000Z',
+        'END:VEVENT',
+      ]);
+
+      const response = await callTool('move_component', {
+        calendarId: 'work',
+        uid: 'meeting@example.com',
+        targetCalendarId: 'tasks',
+      });
+
+      assert.strictEqual(response.status, 400);
+      assert.ok(JSON.parse(response.content).error.includes('does not accept'));
+      assert.ok(client.objects.has(`${HOME}work/meeting.ics`));
+    });
+  });
+
+  describe('calendar management', () => {
+    it('should create a calendar and refresh discovery', async () => {
+      const response = await callTool('create_calendar', {
+        displayName: 'Project X',
+        color: '#FF8800',
+        componentSet: ['VTODO'],
+      });
+
+      assert.strictEqual(response.status, 201);
+      const result = JSON.parse(response.content);
+      assert.strictEqual(result.id, 'project-x');
+      assert.strictEqual(result.displayName, 'Project X');
+      assert.ok(client.collections.has(`${HOME}project-x/`));
+    });
+
+    it('should rename a calendar', async () => {
+      const response = await callTool('update_calendar', {
+        calendarId: 'work',
+        displayName: 'Office',
+      });
+
+      assert.strictEqual(response.status, 207);
+      assert.strictEqual(JSON.parse(response.content).displayName, 'Office');
+    });
+
+    it('should refuse invalid colors', async () => {
+      const response = await callTool('update_calendar', {
+        calendarId: 'work',
+        color: 'orange',
+      });
+
+      assert.strictEqual(response.status, 400);
+      assert.ok(JSON.parse(response.content).error.includes('Invalid color'));
+    });
+
+    it('should require confirmation before deleting a calendar', async () => {
+      const refused = await callTool('delete_calendar', {
+        calendarId: 'work',
+        confirm: 'yes',
+      });
+      assert.strictEqual(refused.status, 400);
+      assert.ok(client.collections.has(`${HOME}work/`));
+
+      const response = await callTool('delete_calendar', {
+        calendarId: 'work',
+        confirm: 'work',
+      });
+      assert.strictEqual(response.status, 204);
+      assert.strictEqual(client.collections.has(`${HOME}work/`), false);
+
+      const metadata = await handler.handleRequest({
+        uri: 'caldav://principals/john/_meta/calendars',
+        client: client as unknown as CalDavClient,
+      });
+      const ids = JSON.parse(metadata.content).calendars.map(
+        (cal: { id: string }) => cal.id,
+      );
+      assert.deepStrictEqual(ids, ['tasks']);
+    });
+  });
+
+  describe('delete_component', () => {
+    const href = `${HOME}work/meeting.ics`;
+    let etag: string;
+
+    beforeEach(() => {
+      etag = seed(client, href, [
+        'BEGIN:VEVENT',
+        'UID:meeting@example.com',
+        'SUMMARY:Team Meeting',
+        'END:VEVENT',
+      ]);
+    });
+
+    it('should delete a component by UID', async () => {
+      const response = await callTool('delete_component', {
+        calendarId: 'work',
+        uid: 'meeting@example.com',
+      });
+
+      assert.strictEqual(response.status, 204);
+      assert.strictEqual(JSON.parse(response.content).href, href);
+      assert.strictEqual(client.objects.has(href), false);
+    });
+
+    it('should delete a component by href with a matching etag', async () => {
+      const response = await callTool('delete_component', {
+        calendarId: 'work',
+        href,
+        etag,
+      });
+
+      assert.strictEqual(response.status, 204);
+      assert.strictEqual(client.objects.has(href), false);
+    });
+
+    it('should report 404 for missing components', async () => {
+      const byUid = await callTool('delete_component', {
+        calendarId: 'work',
+        uid: 'missing@example.com',
+      });
+      const byHref = await callTool('delete_component', {
+        calendarId: 'work',
+        href: `${HOME}work/missing.ics`,
+      });
+
+      assert.strictEqual(byUid.status, 404);
+      assert.strictEqual(byHref.status, 404);
+    });
+
+    it('should report 412 when the etag no longer matches', async () => {
+      const response = await callTool('delete_component', {
+        calendarId: 'work',
+        href,
+        etag: '"outdated"',
+      });
+
+      assert.strictEqual(response.status, 412);
+      assert.strictEqual(JSON.parse(response.content).conflict.etag, etag);
+      assert.strictEqual(client.objects.has(href), true);
+    });
+
+    it('should refuse ambiguous UIDs', async () => {
+      seed(client, `${HOME}work/copy.ics`, [
+        'BEGIN:VEVENT',
+        'UID:meeting@example.com',
+        'SUMMARY:Team Meeting (copy)',
+        'END:VEVENT',
+      ]);
+
+      const response = await callTool('delete_component', {
+        calendarId: 'work',
+        uid: 'meeting@example.com',
+      });
+
+      assert.strictEqual(response.status, 400);
+      assert.ok(JSON.parse(response.content).error.includes('Ambiguous'));
+      assert.strictEqual(client.objects.size, 2);
+    });
+
+    it('should refuse hrefs outside the calendar', async () => {
+      const response = await callTool('delete_component', {
+        calendarId: 'work',
+        href: `${HOME}tasks/meeting.ics`,
+      });
+
+      assert.strictEqual(response.status, 400);
+    });
+
+    it('should resolve dot segments before checking the calendar', async () => {
+      seed(client, `${HOME}tasks/meeting.ics`, [
+        'BEGIN:VTODO',
+        'UID:task@example.com',
+        'END:VTODO',
+      ]);
+      const response = await callTool('delete_component', {
+        calendarId: 'work',
+        href: `${HOME}work/../tasks/meeting.ics`,
+      });
+
+      assert.strictEqual(response.status, 400);
+      assert.strictEqual(client.objects.has(`${HOME}tasks/meeting.ics`), true);
+    });
+
+    it('should refuse to delete the calendar itself', async () => {
+      for (const collection of [`${HOME}work/`, `${HOME}work/./`]) {
+        const response = await callTool('delete_component', {
+          calendarId: 'work',
+          href: collection,
+        });
+
+        assert.strictEqual(response.status, 400);
+      }
+      assert.strictEqual(client.collections.has(`${HOME}work/`), true);
+      assert.strictEqual(client.objects.has(href), true);
+    });
+  });
+});
+
+describe('CalDavRequestHandler free/busy', () => {
+  let client: FakeClient;
+  let handler: CalDavRequestHandler;
+
+  const readFreeBusy = (query: string) =>
+    handler.handleRequest({
+      uri: `caldav://principals/john/work/_freebusy?${query}`,
+      client: client as unknown as CalDavClient,
+    });
+
+  beforeEach(() => {
+    client = createFakeClient();
+    handler = new CalDavRequestHandler();
+    seed(client, `${HOME}work/a.ics`, [
+      'BEGIN:VEVENT',
+      'UID:a',
+      'DTSTART:20240115T090000Z',
+      'DTEND:20240115T100000Z',
+      'END:VEVENT',
+    ]);
+    seed(client, `${HOME}work/b.ics`, [
+      'BEGIN:VEVENT',
+      'UID:b',
+      'DTSTART:20240115T093000Z',
+      'DURATION:PT1H',
+      'END:VEVENT',
+    ]);
+    seed(client, `${HOME}work/c.ics`, [
+      'BEGIN:VEVENT',
+      'UID:c',
+      'DTSTART:20240115T140000Z',
+      'DTEND:20240115T150000Z',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]);
+  });
+
+  it('should fall back to events when free-busy-query is unsupported', async () => {
+    const response = await readFreeBusy(
+      'start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z&format=json',
+    );
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.mimeType, 'application/json');
+    const result = JSON.parse(response.content);
+    assert.strictEqual(result.source, 'events');
+    assert.deepStrictEqual(result.busy, [
+      { start: '2024-01-15T09:00:00.000Z', end: '2024-01-15T10:30:00.000Z' },
+    ]);
+  });
+
+  it('should return a VFREEBUSY object by default', async () => {
+    const response = await readFreeBusy(
+      'start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z',
+    );
+
+    assert.strictEqual(response.mimeType, 'text/calendar');
+    assert.ok(response.content.includes('BEGIN:VFREEBUSY'));
+    assert.ok(
+      response.content.includes(
+        'FREEBUSY;FBTYPE=BUSY:20240115T090000Z/20240115T103000Z',
+      ),
+    );
+  });
+
+  it('should use the server free-busy-query result when available', async () => {
+    client.freeBusyResponse = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VFREEBUSY',
+      'FREEBUSY:20240115T120000Z/PT30M,20240115T130000Z/20240115T133000Z',
+      'END:VFREEBUSY',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const response = await readFreeBusy(
+      'start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z&format=json',
+    );
+
+    const result = JSON.parse(response.content);
+    assert.strictEqual(result.source, 'free-busy-query');
+    assert.strictEqual(result.busy.length, 2);
+    assert.strictEqual(result.busy[0].end, '2024-01-15T12:30:00.000Z');
+  });
+
+  it('should reject an empty range', async () => {
+    const response = await readFreeBusy(
+      'start=2024-01-16T00:00:00Z&end=2024-01-15T00:00:00Z',
+    );
+
+    assert.strictEqual(response.status, 400);
+  });
+});
+
+describe('CalDavRequestHandler find_free_slots', () => {
+  it('should combine busy time from several calendars', async () => {
+    const client = createFakeClient();
+    const handler = new CalDavRequestHandler();
+    seed(client, `${HOME}work/standup.ics`, [
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'DTSTART:20240115T090000Z',
+      'DTEND:20240115T120000Z',
+      'END:VEVENT',
+    ]);
+    seed(client, `${HOME}tasks/focus.ics`, [
+      'BEGIN:VEVENT',
+      'UID:focus',
+      'DTSTART:20240115T130000Z',
+      'DTEND:20240115T170000Z',
+      'END:VEVENT',
+    ]);
+
+    const response = await handler.handleToolCall({
+      name: 'find_free_slots',
+      arguments: {
+        calendarIds: ['work', 'tasks'],
+        start: '2024-01-15',
+        end: '2024-01-16',
+        duration: 60,
+      },
+      client: client as unknown as CalDavClient,
+    });
+
+    assert.strictEqual(response.status, 200);
+    const result = JSON.parse(response.content);
+    assert.deepStrictEqual(result.slots, [
+      {
+        start: '2024-01-15T12:00:00Z',
+        end: '2024-01-15T13:00:00Z',
+        score: 1,
+      },
+    ]);
+  });
+
+  it('should count every occurrence of recurring events as busy', async () => {
+    const client = createFakeClient();
+    const handler = new CalDavRequestHandler();
+    seed(client, `${HOME}work/planning.ics`, [
+      'BEGIN:VEVENT',
+      'UID:planning',
+      'DTSTART:20240108T090000Z',
+      'DTEND:20240108T120000Z',
+      'RRULE:FREQ=WEEKLY',
+      'END:VEVENT',
+    ]);
+    seed(client, `${HOME}work/focus.ics`, [
+      'BEGIN:VEVENT',
+      'UID:focus',
+      'DTSTART:20240101T130000Z',
+      'DTEND:20240101T170000Z',
+      'RRULE:FREQ=DAILY',
+      'END:VEVENT',
+    ]);
+
+    const response = await handler.handleToolCall({
+      name: 'find_free_slots',
+      arguments: {
+        calendarIds: ['work'],
+        start: '2024-01-15',
+        end: '2024-01-16',
+        duration: 60,
+      },
+      client: client as unknown as CalDavClient,
+    });
+
+    assert.deepStrictEqual(
+      JSON.parse(response.content).slots.map(
+        (slot: { start: string }) => slot.start,
+      ),
+      ['2024-01-15T12:00:00Z'],
+    );
+  });
+});
+
+describe('CalDavRequestHandler output formats', () => {
+  const read = (format: string) => {
+    const client = createFakeClient();
+    seed(client, `${HOME}work/review.ics`, [
+      'BEGIN:VEVENT',
+      'UID:review',
+      'SUMMARY:Review',
+      'DTSTART:20240115T100000Z',
+      'DTEND:20240115T110000Z',
+      'END:VEVENT',
+    ]);
+    return new CalDavRequestHandler().handleRequest({
+      uri: `caldav://principals/john/work/review?format=${format}`,
+      client: client as unknown as CalDavClient,
+    });
+  };
+
+  it('should return jCal', async () => {
+    const response = await read('jcal');
+
+    assert.strictEqual(response.mimeType, 'application/calendar+json');
+    const [name, , components] = JSON.parse(response.content);
+    assert.strictEqual(name, 'vcalendar');
+    assert.deepStrictEqual(components[0][1][2], [
+      'dtstart',
+      {},
+      'date-time',
+      '2024-01-15T10:00:00Z',
+    ]);
+  });
+
+  it('should return simplified JSON', async () => {
+    const response = await read('json');
+
+    assert.strictEqual(response.mimeType, 'application/json');
+    assert.deepStrictEqual(JSON.parse(response.content), {
+      calendarId: 'work',
+      components: [
+        {
+          componentType: 'VEVENT',
+          uid: 'review',
+          summary: 'Review',
+          dtstart: '2024-01-15T10:00:00Z',
+          dtend: '2024-01-15T11:00:00Z',
+        },
+      ],
+    });
+  });
+
+  it('should render a Markdown agenda in the requested time zone', async () => {
+    const client = createFakeClient();
+    seed(client, `${HOME}work/review.ics`, [
+      'BEGIN:VEVENT',
+      'UID:review',
+      'SUMMARY:Review',
+      'DTSTART:20240115T100000Z',
+      'DTEND:20240115T110000Z',
+      'END:VEVENT',
+    ]);
+
+    const response = await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/work/VEVENT?start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z&format=agenda&tz=America%2FNew_York',
+      client: client as unknown as CalDavClient,
+    });
+
+    assert.strictEqual(response.mimeType, 'text/markdown');
+    assert.ok(response.content.includes('## Monday, 2024-01-15'));
+    assert.ok(response.content.includes('- 05:00–06:00 **Review**'));
+  });
+
+  it('should reject an unknown agenda time zone', async () => {
+    const response = await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/work/VEVENT?start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z&format=agenda&tz=Nowhere',
+      client: createFakeClient() as unknown as CalDavClient,
+    });
+
+    assert.strictEqual(response.status, 400);
+  });
+});
+
+describe('CalDavRequestHandler query filters', () => {
+  it('should send category filters to the server', async () => {
+    const client = createFakeClient();
+
+    await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/tasks/VTODO?cat=work',
+      client: client as unknown as CalDavClient,
+    });
+
+    const calendar = (client.lastQueryFilters as Record<string, never>)[
+      'c:comp-filter'
+    ];
+    assert.deepStrictEqual(calendar['c:comp-filter'], [
+      {
+        _attributes: { name: 'VTODO' },
+        'c:prop-filter': [
+          {
+            _attributes: { name: 'CATEGORIES' },
+            'c:text-match': {
+              _attributes: { collation: 'i;ascii-casemap' },
+              _text: 'work',
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should still match UIDs exactly', async () => {
+    const client = createFakeClient();
+    seed(client, `${HOME}work/review.ics`, [
+      'BEGIN:VEVENT',
+      'UID:review-2',
+      'SUMMARY:Review',
+      'DTSTART:20240115T100000Z',
+      'END:VEVENT',
+    ]);
+
+    const response = await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/work/review',
+      client: client as unknown as CalDavClient,
+    });
+
+    assert.ok(!response.content.includes('UID:review-2'));
+  });
+
+  it('should send status, text, missing property and date filters', async () => {
+    const client = createFakeClient();
+
+    await new CalDavRequestHandler().handleRequest({
+      uri: `caldav://principals/john/tasks/VTODO?status=needs-action&text=${encodeURIComponent('!ATTENDEE;PARTSTAT:declined')}&missing=DTSTART&dueStart=2024-01-01&dueEnd=2024-02-01`,
+      client: client as unknown as CalDavClient,
+    });
+
+    const calendar = (client.lastQueryFilters as Record<string, never>)[
+      'c:comp-filter'
+    ];
+    assert.deepStrictEqual(calendar['c:comp-filter'], [
+      {
+        _attributes: { name: 'VTODO' },
+        'c:prop-filter': [
+          {
+            _attributes: { name: 'STATUS' },
+            'c:text-match': {
+              _attributes: { collation: 'i;ascii-casemap' },
+              _text: 'NEEDS-ACTION',
+            },
+          },
+          {
+            _attributes: { name: 'ATTENDEE' },
+            'c:param-filter': [
+              {
+                _attributes: { name: 'PARTSTAT' },
+                'c:text-match': {
+                  _attributes: {
+                    collation: 'i;ascii-casemap',
+                    'negate-condition': 'yes',
+                  },
+                  _text: 'declined',
+                },
+              },
+            ],
+          },
+          {
+            _attributes: { name: 'DTSTART' },
+            'c:is-not-defined': {},
+          },
+          {
+            _attributes: { name: 'DUE' },
+            'c:time-range': {
+              _attributes: {
+                start: '20240101T000000Z',
+                end: '20240201T000000Z',
+              },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should reject malformed text filters', async () => {
+    const response = await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/tasks/VTODO?text=review',
+      client: createFakeClient() as unknown as CalDavClient,
+    });
+
+    assert.strictEqual(response.status, 400);
+    assert.match(JSON.parse(response.content).error, /Invalid text filter/);
+  });
+
+  it('should look UIDs up with one query per component type', async () => {
+    const client = createFakeClient();
+
+    await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/work/review',
+      client: client as unknown as CalDavClient,
+    });
+
+    assert.deepStrictEqual(
+      client.queryFilters.map((filters) => {
+        const calendar = (filters as Record<string, never>)['c:comp-filter'];
+        const [component] = calendar['c:comp-filter'] as Array<{
+          _attributes: { name: string };
+          'c:prop-filter': Array<{
+            _attributes: { name: string };
+            'c:text-match': { _text: string };
+          }>;
+        }>;
+        const [uid] = component['c:prop-filter'];
+        return `${component._attributes.name} ${uid._attributes.name}=${uid['c:text-match']._text}`;
+      }),
+      ['VEVENT UID=review', 'VTODO UID=review', 'VJOURNAL UID=review'],
+    );
+  });
+});
+
+describe('CalDavRequestHandler filter expressions', () => {
+  const query = (client: ReturnType<typeof createFakeClient>, filter: string) =>
+    new CalDavRequestHandler().handleRequest({
+      uri: `caldav://principals/john/tasks/VTODO?filter=${encodeURIComponent(filter)}`,
+      client: client as unknown as CalDavClient,
+    });
+
+  it('should return components matching the expression', async () => {
+    const client = createFakeClient();
+    seed(client, `${HOME}tasks/a.ics`, [
+      'BEGIN:VTODO',
+      'UID:urgent',
+      'PRIORITY:1',
+      'STATUS:NEEDS-ACTION',
+      'END:VTODO',
+    ]);
+    seed(client, `${HOME}tasks/b.ics`, [
+      'BEGIN:VTODO',
+      'UID:later',
+      'PRIORITY:5',
+      'STATUS:NEEDS-ACTION',
+      'END:VTODO',
+    ]);
+
+    const response = await query(
+      client,
+      "priority <= `2` && status == 'NEEDS-ACTION'",
+    );
+
+    assert.strictEqual(response.status, 200);
+    assert.ok(response.content.includes('UID:urgent'));
+    assert.ok(!response.content.includes('UID:later'));
+  });
+
+  it('should report invalid expressions', async () => {
+    const response = await query(createFakeClient(), 'priority <= && x');
+
+    assert.strictEqual(response.status, 400);
+    assert.match(
+      JSON.parse(response.content).error,
+      /Invalid filter expression: Unexpected 'and' at position 12/,
+    );
+  });
+});
+
+describe('CalDavRequestHandler time zones', () => {
+  it('should reject unknown time zones', () => {
+    assert.throws(
+      () => new CalDavRequestHandler(undefined, { timeZone: 'Nowhere/Land' }),
+      /Unknown time zone: Nowhere\/Land/,
+    );
+  });
+
+  it('should read local times in the configured time zone', async () => {
+    const client = createFakeClient();
+    const handler = new CalDavRequestHandler(undefined, {
+      timeZone: 'Europe/Berlin',
+    });
+    seed(client, `${HOME}work/review.ics`, [
+      'BEGIN:VEVENT',
+      'UID:review',
+      'DTSTART:20240115T080000Z',
+      'DTEND:20240115T090000Z',
+      'END:VEVENT',
+    ]);
+
+    const response = await handler.handleToolCall({
+      name: 'find_free_slots',
+      arguments: {
+        calendarIds: ['work'],
+        start: '2024-01-15T09:00',
+        end: '2024-01-15T11:00',
+        duration: 60,
+        limit: 1,
+      },
+      client: client as unknown as CalDavClient,
+    });
+
+    const result = JSON.parse(response.content);
+    assert.strictEqual(result.start, '2024-01-15T08:00:00.000Z');
+    assert.strictEqual(result.timeZone, 'Europe/Berlin');
+    assert.deepStrictEqual(result.slots, [
+      {
+        start: '2024-01-15T10:00:00+01:00',
+        end: '2024-01-15T11:00:00+01:00',
+        score: 1,
+      },
+    ]);
+  });
+});
+
+describe('CalDavRequestHandler recurrence expansion', () => {
+  it('should return occurrences with overrides applied', async () => {
+    const client = createFakeClient();
+    const handler = new CalDavRequestHandler();
+    seed(client, `${HOME}work/standup.ics`, [
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'SUMMARY:Standup',
+      'DTSTART:20230102T090000Z',
+      'DTEND:20230102T091500Z',
+      'RRULE:FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'RECURRENCE-ID:20240116T090000Z',
+      'SUMMARY:Standup (late)',
+      'DTSTART:20240116T110000Z',
+      'DTEND:20240116T111500Z',
+      'END:VEVENT',
+    ]);
+
+    const response = await handler.handleRequest({
+      uri: 'caldav://principals/john/work/VEVENT?start=2024-01-15T00:00:00Z&end=2024-01-17T00:00:00Z&expand=true',
+      client: client as unknown as CalDavClient,
+    });
+
+    assert.strictEqual(response.status, 200);
+    const starts = [...response.content.matchAll(/DTSTART:(\S+)/g)].map(
+      (match) => match[1],
+    );
+    assert.deepStrictEqual(starts, ['20240115T090000Z', '20240116T110000Z']);
+    assert.ok(response.content.includes('SUMMARY:Standup (late)'));
+    assert.ok(response.content.includes('RECURRENCE-ID:20240115T090000Z'));
+    assert.deepStrictEqual(client.lastQueryProps, {
+      'd:getetag': {},
+      'c:calendar-data': {
+        'c:expand': {
+          _attributes: { start: '20240115T000000Z', end: '20240117T000000Z' },
+        },
+      },
+    });
+  });
+});
+
+describe('CalDavRequestHandler resources', () => {
+  it('should list resources that can be read', async () => {
+    const client = createFakeClient();
+    seed(client, `${HOME}tasks/a.ics`, [
+      'BEGIN:VTODO',
+      'UID:open',
+      'STATUS:NEEDS-ACTION',
+      'END:VTODO',
+    ]);
+    seed(client, `${HOME}tasks/b.ics`, [
+      'BEGIN:VTODO',
+      'UID:done',
+      'STATUS:COMPLETED',
+      'COMPLETED:20240110T090000Z',
+      'END:VTODO',
+    ]);
+    const handler = new CalDavRequestHandler();
+    const fake = client as unknown as CalDavClient;
+
+    const resources = await handler.listResources(fake);
+    for (const resource of resources) {
+      const response = await handler.handleRequest({
+        uri: resource.uri,
+        client: fake,
+      });
+      assert.strictEqual(response.status, 200, resource.uri);
+    }
+
+    const openTasks = resources.find((r) => r.name === 'Tasks: open tasks');
+    assert.ok(openTasks);
+    const response = await handler.handleRequest({
+      uri: openTasks.uri,
+      client: fake,
+    });
+    assert.ok(response.content.includes('UID:open'));
+    assert.ok(!response.content.includes('UID:done'));
+  });
+
+  it('should report calendars being added', async () => {
+    const client = createFakeClient();
+    const fake = client as unknown as CalDavClient;
+    const handler = new CalDavRequestHandler();
+    let changes = 0;
+    handler.onDiscoveryChange(() => {
+      changes++;
+    });
+
+    await handler.listResources(fake);
+    await handler.refreshDiscovery(fake);
+    assert.strictEqual(changes, 0);
+
+    client.collections.set(`${HOME}private/`, { displayname: 'Private' });
+    await handler.refreshDiscovery(fake);
+    assert.strictEqual(changes, 1);
+  });
+});
+
+describe('CalDavRequestHandler prompts', () => {
+  it('should embed the resources of a prompt', async () => {
+    const client = createFakeClient();
+    seed(client, `${HOME}tasks/a.ics`, [
+      'BEGIN:VTODO',
+      'UID:report',
+      'SUMMARY:Write report',
+      'END:VTODO',
+    ]);
+
+    const result = await new CalDavRequestHandler().getPrompt(
+      'triage_tasks',
+      { calendarIds: 'tasks' },
+      client as unknown as CalDavClient,
+    );
+
+    assert.strictEqual(result.messages.length, 2);
+    assert.strictEqual(result.messages[0].content.type, 'text');
+    const { content } = result.messages[1];
+    assert.ok(content.type === 'resource');
+    assert.strictEqual(content.resource.mimeType, 'application/json');
+    assert.ok(content.resource.text.includes('Write report'));
+  });
+});
+
+describe('CalDavRequestHandler accounts', () => {
+  const createAccounts = () => {
+    const work = createFakeClient();
+    const personal = createFakeClient();
+    personal.credentials.username = 'jane';
+    personal.collections.delete(`${HOME}tasks/`);
+    return [
+      { name: 'work', client: work as unknown as CalDavClient },
+      { name: 'personal', client: personal as unknown as CalDavClient },
+    ];
+  };
+
+  it('should list the calendars of every account', async () => {
+    const accounts = createAccounts();
+    const response = await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/_meta/calendars',
+      client: accounts[0].client,
+      accounts,
+    });
+
+    assert.strictEqual(response.status, 200);
+    const metadata = JSON.parse(response.content);
+    assert.deepStrictEqual(
+      metadata.accounts.map((a: { name: string }) => a.name),
+      ['work', 'personal'],
+    );
+    assert.deepStrictEqual(
+      metadata.calendars.map(
+        (c: { account: string; id: string }) => `${c.account}/${c.id}`,
+      ),
+      ['work/work', 'work/tasks', 'personal/work'],
+    );
+  });
+
+  it('should list one account when the URI selects it', async () => {
+    const accounts = createAccounts();
+    const response = await new CalDavRequestHandler().handleRequest({
+      uri: 'caldav://principals/john/_meta/calendars?account=personal',
+      client: accounts[1].client,
+      accounts,
+    });
+
+    const metadata = JSON.parse(response.content);
+    assert.strictEqual(metadata.account, 'personal');
+    assert.deepStrictEqual(
+      metadata.calendars.map((c: { id: string }) => c.id),
+      ['work'],
+    );
+  });
+
+  it('should keep the account in URIs returned by tools', async () => {
+    const accounts = createAccounts();
+    const response = await new CalDavRequestHandler().handleToolCall({
+      name: 'create_component',
+      arguments: {
+        calendarId: 'work',
+        comp: 'VEVENT',
+        summary: 'Dentist',
+        start: '2024-01-15T09:00:00Z',
+        end: '2024-01-15T10:00:00Z',
+        account: 'personal',
+      },
+      client: accounts[1].client,
+    });
+
+    assert.strictEqual(response.status, 201);
+    const { uri } = JSON.parse(response.content);
+    assert.match(uri, /\?account=personal$/);
+  });
+
+  it('should apply the policy of each account to that account only', async () => {
+    const accounts = createAccounts();
+    const handler = new CalDavRequestHandler();
+    handler.setAccountPolicy(accounts[1].client, {
+      readOnlyCalendars: ['work'],
+    });
+    handler.setAccountPolicy(accounts[0].client, { denyCalendars: ['tasks'] });
+
+    const response = await handler.handleRequest({
+      uri: 'caldav://principals/john/_meta/calendars',
+      client: accounts[0].client,
+      accounts,
+    });
+    assert.deepStrictEqual(
+      JSON.parse(response.content).calendars.map(
+        (c: { account: string; id: string; readOnly: boolean }) =>
+          `${c.account}/${c.id}:${c.readOnly}`,
+      ),
+      ['work/work:false', 'personal/work:true'],
+    );
+
+    const event = (client: CalDavClient) => ({
+      name: 'create_component',
+      arguments: {
+        calendarId: 'work',
+        comp: 'VEVENT',
+        summary: 'Dentist',
+        start: '2024-01-15T09:00:00Z',
+        end: '2024-01-15T10:00:00Z',
+      },
+      client,
+    });
+    const refused = await handler.handleToolCall(event(accounts[1].client));
+    assert.strictEqual(refused.status, 403);
+    const created = await handler.handleToolCall(event(accounts[0].client));
+    assert.strictEqual(created.status, 201);
+  });
+});
+
+describe('CalDavRequestHandler access policy', () => {
+  let client: ReturnType<typeof createFakeClient>;
+
+  beforeEach(() => {
+    client = createFakeClient();
+    client.collections.set(`${HOME}private/`, { displayname: 'Private' });
+  });
+
+  const event = (calendarId: string) => ({
+    name: 'create_component',
+    arguments: {
+      calendarId,
+      comp: 'VEVENT',
+      summary: 'Dentist',
+      start: '2024-01-15T09:00:00Z',
+      end: '2024-01-15T10:00:00Z',
+    },
+    client: client as unknown as CalDavClient,
+  });
+
+  it('should hide denied calendars', async () => {
+    const handler = new CalDavRequestHandler(undefined, {
+      policy: { denyCalendars: ['private'], readOnlyCalendars: ['work'] },
+    });
+    const metadata = await handler.handleRequest({
+      uri: 'caldav://principals/john/_meta/calendars',
+      client: client as unknown as CalDavClient,
+    });
+    assert.deepStrictEqual(
+      JSON.parse(metadata.content).calendars.map(
+        (c: { id: string; readOnly: boolean }) => `${c.id}:${c.readOnly}`,
+      ),
+      ['work:true', 'tasks:false'],
+    );
+
+    const read = await handler.handleRequest({
+      uri: 'caldav://principals/john/private/VEVENT',
+      client: client as unknown as CalDavClient,
+    });
+    assert.match(JSON.parse(read.content).error, /Calendar not found/);
+  });
+
+  it('should refuse writes to read-only calendars', async () => {
+    const handler = new CalDavRequestHandler(undefined, {
+      policy: { readOnlyCalendars: ['work'] },
+    });
+    const refused = await handler.handleToolCall(event('work'));
+    assert.strictEqual(refused.status, 403);
+    assert.match(
+      JSON.parse(refused.content).error,
+      /calendar work is read-only/,
+    );
+    assert.strictEqual(client.objects.size, 0);
+
+    const created = await handler.handleToolCall(event('private'));
+    assert.strictEqual(created.status, 201);
+  });
+
+  it('should refuse every write when read-only', async () => {
+    const handler = new CalDavRequestHandler(undefined, {
+      policy: { readOnly: true },
+    });
+    const response = await handler.handleToolCall(event('private'));
+    assert.strictEqual(response.status, 403);
+    assert.match(JSON.parse(response.content).error, /the server is read-only/);
+
+    const purge = await handler.handleToolCall({
+      name: 'purge_cache',
+      arguments: { allAccounts: true },
+      client: client as unknown as CalDavClient,
+    });
+    assert.strictEqual(purge.status, 403);
+  });
+
+  it('should refuse component types that are not allowed', async () => {
+    const handler = new CalDavRequestHandler(undefined, {
+      policy: { componentTypes: ['VTODO'] },
+    });
+    const created = await handler.handleToolCall(event('work'));
+    assert.strictEqual(created.status, 403);
+    assert.match(
+      JSON.parse(created.content).error,
+      /VEVENT components are not allowed/,
+    );
+
+    const read = await handler.handleRequest({
+      uri: 'caldav://principals/john/work/VEVENT?start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z',
+      client: client as unknown as CalDavClient,
+    });
+    assert.strictEqual(read.status, 403);
+  });
+});
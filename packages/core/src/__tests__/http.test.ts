@@ -0,0 +1,177 @@
+import assert from 'node:assert';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, it } from 'node:test';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { type CalDavHttpServer, startHttpServer } from '../http';
+
+const createMcpServer = () =>
+  new McpServer({ name: 'caldav', version: '0.1.0' });
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+const post = (
+  server: CalDavHttpServer,
+  body: unknown,
+  headers: Record<string, string> = {},
+) =>
+  fetch(`${server.url}/mcp`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+describe('startHttpServer', () => {
+  let server: CalDavHttpServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should open a session on initialize', async () => {
+    server = await startHttpServer(createMcpServer, {
+      port: 0,
+      bearerToken: 'secret',
+    });
+
+    const response = await post(server, initialize, {
+      authorization: 'Bearer secret',
+    });
+
+    assert.strictEqual(response.status, 200);
+    const sessionId = response.headers.get('mcp-session-id');
+    assert.ok(sessionId);
+    assert.ok((await response.text()).includes('"serverInfo"'));
+    assert.strictEqual(server.getSessionCount(), 1);
+
+    const closed = await fetch(`${server.url}/mcp`, {
+      method: 'DELETE',
+      headers: { authorization: 'Bearer secret', 'mcp-session-id': sessionId },
+    });
+    assert.strictEqual(closed.status, 200);
+    assert.strictEqual(server.getSessionCount(), 0);
+  });
+
+  it('should require the bearer token', async () => {
+    server = await startHttpServer(createMcpServer, {
+      port: 0,
+      bearerToken: 'secret',
+    });
+
+    const missing = await post(server, initialize);
+    assert.strictEqual(missing.status, 401);
+    assert.strictEqual(missing.headers.get('www-authenticate'), 'Bearer');
+
+    const wrong = await post(server, initialize, {
+      authorization: 'Bearer guess',
+    });
+    assert.strictEqual(wrong.status, 401);
+  });
+
+  it('should pick up a changed token file', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'caldav-http-'));
+    try {
+      const file = join(directory, 'token');
+      await writeFile(file, 'first\n');
+      server = await startHttpServer(createMcpServer, {
+        port: 0,
+        bearerTokenFile: file,
+      });
+      const authorized = async (token: string) =>
+        (
+          await post(server as CalDavHttpServer, initialize, {
+            authorization: `Bearer ${token}`,
+          })
+        ).status;
+
+      assert.strictEqual(await authorized('first'), 200);
+      await writeFile(file, 'second-token');
+      assert.strictEqual(await authorized('first'), 401);
+      assert.strictEqual(await authorized('second-token'), 200);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should only answer allowed origins', async () => {
+    server = await startHttpServer(createMcpServer, {
+      port: 0,
+      allowedOrigins: ['https://app.example.com'],
+    });
+
+    const rejected = await post(server, initialize, {
+      origin: 'https://evil.example.com',
+    });
+    assert.strictEqual(rejected.status, 403);
+
+    const preflight = await fetch(`${server.url}/mcp`, {
+      method: 'OPTIONS',
+      headers: { origin: 'https://app.example.com' },
+    });
+    assert.strictEqual(preflight.status, 204);
+    assert.strictEqual(
+      preflight.headers.get('access-control-allow-origin'),
+      'https://app.example.com',
+    );
+  });
+
+  it('should reject requests without a session', async () => {
+    server = await startHttpServer(createMcpServer, { port: 0 });
+
+    const response = await post(server, {
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/list',
+    });
+
+    assert.strictEqual(response.status, 400);
+    const unknown = await post(server, initialize, {
+      'mcp-session-id': 'nope',
+    });
+    assert.strictEqual(unknown.status, 404);
+  });
+
+  it('should close idle sessions but not open streams', async () => {
+    server = await startHttpServer(createMcpServer, {
+      port: 0,
+      sessionTimeout: 50,
+    });
+    await post(server, initialize);
+    const listener = new AbortController();
+    const stream = await fetch(`${server.url}/sse`, {
+      signal: listener.signal,
+    });
+    // The endpoint event says the session is set up
+    await stream.body?.getReader().read();
+    assert.strictEqual(server.getSessionCount(), 2);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.strictEqual(server.getSessionCount(), 1);
+
+    listener.abort();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.strictEqual(server.getSessionCount(), 0);
+  });
+
+  it('should not listen beyond loopback without a token', async () => {
+    await assert.rejects(
+      startHttpServer(createMcpServer, { host: '0.0.0.0', port: 0 }),
+      /A bearer token is required to listen on 0.0.0.0/,
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  getParameter,
+  getProperties,
+  getProperty,
+  getPropertyValues,
+  parseICalendar,
+  serializeICalendar,
+} from '../icalendar';
+
+const sample = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example Corp//Calendar//EN',
+  'BEGIN:VEVENT',
+  'UID:meeting@example.com',
+  'DTSTART;TZID=Europe/Berlin:20240115T090000',
+  'ATTENDEE;CN="Doe, Jane";ROLE=REQ-PARTICIPANT:mailto:jane@example.com',
+  'ATTENDEE;DELEGATED-FROM="mailto:a@example.com","mailto:b@example.com":mailt',
+  ' o:c@example.com',
+  'CATEGORIES:Work,Meeting\\, weekly',
+  'X-CUSTOM-PROP;x-param=1:kept',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT15M',
+  'DESCRIPTION:Reminder',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+describe('iCalendar object model', () => {
+  describe('parseICalendar', () => {
+    it('should keep nested components and their properties apart', () => {
+      const [calendar] = parseICalendar(sample);
+      const [event] = calendar.components;
+
+      assert.strictEqual(calendar.name, 'VCALENDAR');
+      assert.strictEqual(event.name, 'VEVENT');
+      assert.strictEqual(event.components[0].name, 'VALARM');
+      assert.strictEqual(getProperty(event, 'DESCRIPTION'), undefined);
+      assert.strictEqual(
+        getProperty(event.components[0], 'TRIGGER')?.value,
+        '-PT15M',
+      );
+    });
+
+    it('should parse quoted parameters containing separators', () => {
+      const [event] = parseICalendar(sample)[0].components;
+      const [jane, delegate] = getProperties(event, 'ATTENDEE');
+
+      assert.strictEqual(getParameter(jane, 'cn'), 'Doe, Jane');
+      assert.strictEqual(jane.value, 'mailto:jane@example.com');
+      assert.strictEqual(delegate.value, 'mailto:c@example.com');
+      assert.strictEqual(
+        getParameter(delegate, 'DELEGATED-FROM'),
+        'mailto:a@example.com","mailto:b@example.com',
+      );
+    });
+
+    it('should split multi-valued properties on unescaped commas', () => {
+      const [event] = parseICalendar(sample)[0].components;
+      const categories = getProperty(event, 'CATEGORIES');
+      assert.ok(categories);
+
+      assert.deepStrictEqual(getPropertyValues(categories), [
+        'Work',
+        'Meeting\\, weekly',
+      ]);
+    });
+
+    it('should return one tree per concatenated object', () => {
+      const roots = parseICalendar(`${sample}\n${sample}`);
+      assert.strictEqual(roots.length, 2);
+    });
+  });
+
+  describe('serializeICalendar', () => {
+    it('should reproduce the parsed data', () => {
+      assert.strictEqual(serializeICalendar(parseICalendar(sample)), sample);
+    });
+
+    it('should fold lines at 75 octets without splitting characters', () => {
+      const summary = `SUMMARY:${'ü'.repeat(60)}`;
+      const output = serializeICalendar(
+        parseICalendar(`BEGIN:VEVENT\r\n${summary}\r\nEND:VEVENT\r\n`),
+      );
+      const lines = output.split('\r\n').slice(1, -2);
+
+      assert.ok(lines.length > 1);
+      for (const line of lines) {
+        assert.ok(new TextEncoder().encode(line).length <= 75);
+      }
+      assert.strictEqual(
+        lines.map((line, i) => (i === 0 ? line : line.slice(1))).join(''),
+        summary,
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import assert from 'node:assert';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createCalDavMcpServer } from '../index';
+
+const multistatus = (responses: string) =>
+  `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">${responses}</d:multistatus>`;
+
+const propstat = (href: string, props: string) =>
+  `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+
+const EVENT = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:planning@example.com',
+  'SUMMARY:Planning',
+  'DTSTART:20240115T090000Z',
+  'DTEND:20240115T100000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+// Answers just enough PROPFIND and REPORT requests to log in, discover one
+// calendar and read the single event in it
+function answer(method: string, body: string): string {
+  if (method === 'REPORT') {
+    return multistatus(
+      propstat(
+        '/calendars/john/work/planning.ics',
+        `<d:getetag>"1"</d:getetag><c:calendar-data>${EVENT}</c:calendar-data>`,
+      ),
+    );
+  }
+  if (body.includes('current-user-principal')) {
+    return multistatus(
+      propstat(
+        '/',
+        '<d:current-user-principal><d:href>/principals/john/</d:href></d:current-user-principal>',
+      ),
+    );
+  }
+  if (body.includes('calendar-home-set')) {
+    return multistatus(
+      propstat(
+        '/principals/john/',
+        '<c:calendar-home-set><d:href>/calendars/john/</d:href></c:calendar-home-set>',
+      ),
+    );
+  }
+  return multistatus(
+    propstat(
+      '/calendars/john/',
+      '<d:resourcetype><d:collection/></d:resourcetype>',
+    ) +
+      propstat(
+        '/calendars/john/work/',
+        '<d:displayname>Work</d:displayname><d:resourcetype><d:collection/><c:calendar/></d:resourcetype>',
+      ),
+  );
+}
+
+describe('createCalDavMcpServer', () => {
+  let davServer: Server;
+  let client: Client;
+
+  before(async () => {
+    davServer = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      res.writeHead(207, { 'content-type': 'application/xml; charset=utf-8' });
+      res.end(answer(req.method ?? '', body));
+    });
+    await new Promise<void>((resolve) =>
+      davServer.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = davServer.address() as AddressInfo;
+
+    const server = await createCalDavMcpServer({
+      serverUrl: `http://127.0.0.1:${port}/`,
+      credentials: { username: 'john', password: 'secret' },
+      authMethod: 'Basic',
+    });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  after(async () => {
+    await client.close();
+    await new Promise((resolve) => davServer.close(resolve));
+  });
+
+  it('should declare tools, prompts and resources', () => {
+    const capabilities = client.getServerCapabilities();
+    assert.ok(capabilities?.tools);
+    assert.ok(capabilities?.prompts);
+    assert.strictEqual(capabilities?.resources?.subscribe, true);
+  });
+
+  it('should list tools, prompts and resource templates', async () => {
+    const { tools } = await client.listTools();
+    assert.ok(tools.some((tool) => tool.name === 'create_component'));
+    const { prompts } = await client.listPrompts();
+    assert.ok(prompts.length > 0);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.ok(resourceTemplates.length > 0);
+  });
+
+  it('should list and read the discovered calendars', async () => {
+    const { resources } = await client.listResources();
+    assert.ok(resources.length > 0);
+
+    const { contents } = await client.readResource({
+      uri: 'caldav://principals/john/_meta/calendars',
+    });
+    const metadata = JSON.parse(contents[0].text as string);
+    assert.deepStrictEqual(
+      metadata.calendars.map((c: { id: string }) => c.id),
+      ['work'],
+    );
+  });
+
+  it('should read calendar components', async () => {
+    const { contents } = await client.readResource({
+      uri: 'caldav://principals/john/work/VEVENT?start=2024-01-15T00:00:00Z&end=2024-01-16T00:00:00Z',
+    });
+    assert.match(contents[0].text as string, /SUMMARY:Planning/);
+  });
+
+  it('should call tools', async () => {
+    const result = await client.callTool({
+      name: 'find_free_slots',
+      arguments: {
+        calendarIds: ['work'],
+        start: '2024-01-15T09:00:00Z',
+        end: '2024-01-15T12:00:00Z',
+        duration: 60,
+      },
+    });
+    assert.strictEqual(result.isError, false);
+  });
+});
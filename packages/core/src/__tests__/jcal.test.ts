@@ -0,0 +1,103 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { CalDavFilters } from '../filters';
+import { parseICalendar } from '../icalendar';
+import { toJCal, toJsonComponent } from '../jcal';
+
+const sample = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:standup@example.com',
+  'DTSTART;TZID=Europe/Berlin:20240715T090000',
+  'DTEND;TZID=Europe/Berlin:20240715T091500',
+  'DTSTAMP:20240701T120000Z',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10',
+  'EXDATE;VALUE=DATE:20240717',
+  'SUMMARY:Standup\\, daily',
+  'CATEGORIES:Work,Team',
+  'ATTENDEE;CN="Doe, Jane";MEMBER="mailto:a@example.com","mailto:b@example.com":mailto:jane@example.com',
+  'PRIORITY:1',
+  'GEO:37.386013;-122.082932',
+  'X-CUSTOM:kept',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT15M',
+  'ACTION:DISPLAY',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('jCal functions', () => {
+  describe('toJCal', () => {
+    it('should convert components, properties and values', () => {
+      const [calendar] = parseICalendar(sample);
+      const [name, calendarProps, [event]] = toJCal(calendar);
+
+      assert.strictEqual(name, 'vcalendar');
+      assert.deepStrictEqual(calendarProps, [['version', {}, 'text', '2.0']]);
+      assert.deepStrictEqual(event[1], [
+        ['uid', {}, 'text', 'standup@example.com'],
+        [
+          'dtstart',
+          { tzid: 'Europe/Berlin' },
+          'date-time',
+          '2024-07-15T09:00:00',
+        ],
+        [
+          'dtend',
+          { tzid: 'Europe/Berlin' },
+          'date-time',
+          '2024-07-15T09:15:00',
+        ],
+        ['dtstamp', {}, 'date-time', '2024-07-01T12:00:00Z'],
+        [
+          'rrule',
+          {},
+          'recur',
+          { freq: 'WEEKLY', byday: ['MO', 'WE'], count: 10 },
+        ],
+        ['exdate', {}, 'date', '2024-07-17'],
+        ['summary', {}, 'text', 'Standup, daily'],
+        ['categories', {}, 'text', 'Work', 'Team'],
+        [
+          'attendee',
+          {
+            cn: 'Doe, Jane',
+            member: ['mailto:a@example.com', 'mailto:b@example.com'],
+          },
+          'cal-address',
+          'mailto:jane@example.com',
+        ],
+        ['priority', {}, 'integer', 1],
+        ['geo', {}, 'float', [37.386013, -122.082932]],
+        ['x-custom', {}, 'unknown', 'kept'],
+      ]);
+      assert.deepStrictEqual(event[2], [
+        [
+          'valarm',
+          [
+            ['trigger', {}, 'duration', '-PT15M'],
+            ['action', {}, 'text', 'DISPLAY'],
+          ],
+          [],
+        ],
+      ]);
+    });
+  });
+
+  describe('toJsonComponent', () => {
+    it('should convert dates to ISO 8601', () => {
+      const [event] = CalDavFilters.parseICalendarData(sample);
+      const json = toJsonComponent(event);
+
+      assert.strictEqual(json.dtstart, '2024-07-15T09:00:00+02:00');
+      assert.strictEqual(json.dtend, '2024-07-15T09:15:00+02:00');
+      assert.strictEqual(json.dtstamp, '2024-07-01T12:00:00Z');
+      assert.deepStrictEqual(json.exdate, ['2024-07-17']);
+      assert.strictEqual(json.timeZone, 'Europe/Berlin');
+      assert.strictEqual(json.summary, 'Standup, daily');
+      assert.deepStrictEqual(json.categories, ['Work', 'Team']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { isTruthy, searchJmesPath } from '../jmespath';
+
+const data = {
+  summary: 'Planning',
+  priority: 2,
+  categories: ['Work', 'Weekly'],
+  attendees: [
+    { name: 'Jane', role: 'CHAIR' },
+    { name: 'John', role: 'REQ-PARTICIPANT' },
+  ],
+  'recurrence-id': '20240115T090000Z',
+};
+
+describe('JMESPath functions', () => {
+  describe('searchJmesPath', () => {
+    it('should evaluate paths, indexes and projections', () => {
+      assert.strictEqual(searchJmesPath(data, 'categories[0]'), 'Work');
+      assert.strictEqual(searchJmesPath(data, 'categories[-1]'), 'Weekly');
+      assert.deepStrictEqual(searchJmesPath(data, 'attendees[*].name'), [
+        'Jane',
+        'John',
+      ]);
+      assert.deepStrictEqual(
+        searchJmesPath(data, "attendees[?role == 'CHAIR'].name | [0]"),
+        'Jane',
+      );
+      assert.strictEqual(
+        searchJmesPath(data, 'recurrence-id'),
+        '20240115T090000Z',
+      );
+    });
+
+    it('should apply boolean operators with JMESPath truthiness', () => {
+      assert.strictEqual(
+        searchJmesPath(data, 'missing || summary'),
+        'Planning',
+      );
+      assert.strictEqual(searchJmesPath(data, '!missing && `true`'), true);
+      assert.strictEqual(searchJmesPath(data, '!(priority == `2`)'), false);
+      assert.strictEqual(isTruthy([]), false);
+      assert.strictEqual(isTruthy(0), true);
+    });
+
+    it('should compare numbers and dates', () => {
+      assert.strictEqual(searchJmesPath(data, 'priority < `3`'), true);
+      assert.strictEqual(
+        searchJmesPath(data, "recurrence-id > '2024-01-15T08:00:00Z'"),
+        true,
+      );
+      // Ordering strings that are not dates yields null; double quotes
+      // make a string, not a field reference
+      assert.strictEqual(searchJmesPath(data, "summary < 'Z'"), null);
+      assert.strictEqual(
+        searchJmesPath(data, '"recurrence-id" > \'2024-01-15T08:00:00Z\''),
+        null,
+      );
+    });
+
+    it('should call functions', () => {
+      assert.strictEqual(
+        searchJmesPath(data, "starts_with(summary, 'Plan')"),
+        true,
+      );
+      assert.strictEqual(
+        searchJmesPath(data, "contains(categories, 'Work')"),
+        true,
+      );
+      assert.strictEqual(searchJmesPath(data, 'length(attendees)'), 2);
+      assert.strictEqual(
+        searchJmesPath(data, "join(', ', categories)"),
+        'Work, Weekly',
+      );
+      assert.strictEqual(
+        searchJmesPath(data, "starts_with(location, 'A')"),
+        null,
+      );
+    });
+
+    it('should reject invalid expressions', () => {
+      assert.throws(
+        () => searchJmesPath(data, 'priority <'),
+        /Unexpected end of expression at position 10/,
+      );
+      assert.throws(
+        () => searchJmesPath(data, "summary = 'x'"),
+        /Unexpected character '=' at position 8/,
+      );
+      assert.throws(
+        () => searchJmesPath(data, 'lower(summary)'),
+        /unknown function lower\(\)/,
+      );
+      assert.throws(
+        () => searchJmesPath(data, 'length(summary, summary)'),
+        /length\(\) takes 1 argument/,
+      );
+      assert.throws(
+        () => searchJmesPath(data, 'starts_with(priority, `1`)'),
+        /starts_with\(\) expected string, got number/,
+      );
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { davRequest } from 'tsdav';
+import type { CalDavClient } from '../caldav';
+import { freeBusyQuery } from '../objects';
+
+describe('sendDavRequest', () => {
+  let server: Server;
+  let client: CalDavClient;
+  const contentTypes: Array<string | undefined> = [];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      contentTypes.push(req.headers['content-type']);
+      res.writeHead(207, { 'content-type': 'application/xml' });
+      res.end('<d:multistatus xmlns:d="DAV:"/>');
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    client = {
+      serverUrl: `http://127.0.0.1:${port}/`,
+      davRequest,
+    } as unknown as CalDavClient;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should replace tsdav's default content type", async () => {
+    await freeBusyQuery(
+      client,
+      '/calendars/john/work/',
+      '<C:free-busy-query/>',
+    );
+    assert.deepStrictEqual(contentTypes, ['application/xml; charset=utf-8']);
+  });
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import type { DiscoveryResult } from '../discovery';
+import {
+  applyAccessPolicy,
+  assertComponentAllowed,
+  assertWritable,
+  combineAccessPolicies,
+  validateAccessPolicy,
+} from '../policy';
+import type { ComponentType } from '../types';
+
+const discovery: DiscoveryResult = {
+  principal: '/principals/john/',
+  home: '/calendars/john/',
+  collections: [
+    {
+      calendarId: 'work',
+      displayName: 'Work',
+      componentSet: ['VEVENT', 'VTODO'],
+      href: '/calendars/john/work/',
+    },
+    {
+      calendarId: 'tasks',
+      displayName: 'Tasks',
+      componentSet: ['VTODO'],
+      href: '/calendars/john/tasks/',
+    },
+    {
+      calendarId: 'private',
+      displayName: 'Private',
+      componentSet: ['VEVENT'],
+      href: '/calendars/john/private/',
+    },
+  ],
+};
+
+const ids = (result: DiscoveryResult) =>
+  result.collections.map((c) => c.calendarId);
+
+describe('applyAccessPolicy', () => {
+  it('should leave everything visible without restrictions', () => {
+    assert.deepStrictEqual(applyAccessPolicy({}, discovery), discovery);
+  });
+
+  it('should hide calendars that are not allowed or denied', () => {
+    assert.deepStrictEqual(
+      ids(applyAccessPolicy({ allowCalendars: ['work', 'tasks'] }, discovery)),
+      ['work', 'tasks'],
+    );
+    assert.deepStrictEqual(
+      ids(
+        applyAccessPolicy(
+          { allowCalendars: ['work', 'tasks'], denyCalendars: ['tasks'] },
+          discovery,
+        ),
+      ),
+      ['work'],
+    );
+  });
+
+  it('should cut component sets down to the allowed types', () => {
+    const result = applyAccessPolicy({ componentTypes: ['VEVENT'] }, discovery);
+    assert.deepStrictEqual(ids(result), ['work', 'private']);
+    assert.deepStrictEqual(result.collections[0].componentSet, ['VEVENT']);
+  });
+});
+
+describe('combineAccessPolicies', () => {
+  it('should restrict the server-wide policy further', () => {
+    assert.deepStrictEqual(
+      combineAccessPolicies(
+        {
+          allowCalendars: ['work', 'tasks'],
+          denyCalendars: ['private'],
+          componentTypes: ['VEVENT', 'VTODO'],
+        },
+        {
+          allowCalendars: ['tasks', 'family'],
+          denyCalendars: ['family'],
+          readOnlyCalendars: ['tasks'],
+          componentTypes: ['VTODO', 'VJOURNAL'],
+          readOnly: true,
+        },
+      ),
+      {
+        allowCalendars: ['tasks'],
+        denyCalendars: ['private', 'family'],
+        readOnlyCalendars: ['tasks'],
+        componentTypes: ['VTODO'],
+        readOnly: true,
+      },
+    );
+    const server = { readOnlyCalendars: ['private'] };
+    assert.strictEqual(combineAccessPolicies(server), server);
+  });
+});
+
+describe('access policy checks', () => {
+  it('should refuse writes to read-only calendars', () => {
+    const policy = { readOnlyCalendars: ['private'] };
+    assertWritable(policy, 'work');
+    assert.throws(
+      () => assertWritable(policy, 'private'),
+      /Access denied: calendar private is read-only/,
+    );
+    assert.throws(
+      () => assertWritable({ readOnly: true }),
+      /Access denied: the server is read-only/,
+    );
+  });
+
+  it('should refuse component types that are not allowed', () => {
+    const policy = { componentTypes: ['VTODO' as ComponentType] };
+    assertComponentAllowed(policy, 'VTODO');
+    assert.throws(
+      () => assertComponentAllowed(policy, 'VEVENT'),
+      /Access denied: VEVENT components are not allowed/,
+    );
+  });
+
+  it('should reject unknown component types', () => {
+    assert.throws(
+      () =>
+        validateAccessPolicy({ componentTypes: ['VNOTE' as ComponentType] }),
+      /Unknown component type in access policy: VNOTE/,
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { CALDAV_PROMPTS, buildPromptPlan } from '../prompts';
+import { parseCalDavUri } from '../uri';
+
+const discovery = {
+  principal: '/principals/john/',
+  home: '/calendars/john/',
+  collections: [
+    {
+      calendarId: 'work',
+      displayName: 'Work',
+      componentSet: ['VEVENT'],
+      href: '/calendars/john/work/',
+    },
+    {
+      calendarId: 'tasks',
+      displayName: 'Tasks',
+      componentSet: ['VTODO'],
+      href: '/calendars/john/tasks/',
+    },
+  ],
+};
+
+const templates = (plan: { resources: Array<{ uri: string }> }) =>
+  plan.resources.map((resource) => {
+    const parsed = parseCalDavUri(resource.uri);
+    return `${parsed.templateName} ${parsed.variables.calendarId}`;
+  });
+
+describe('buildPromptPlan', () => {
+  it('should embed the agenda of the day and the open tasks', () => {
+    const plan = buildPromptPlan(
+      'daily_briefing',
+      { date: '2024-01-15' },
+      discovery,
+      'Europe/Berlin',
+    );
+
+    assert.deepStrictEqual(templates(plan), [
+      'components-range work',
+      'components-query tasks',
+    ]);
+    const agenda = parseCalDavUri(plan.resources[0].uri).variables;
+    assert.strictEqual(agenda.start, '2024-01-15');
+    assert.strictEqual(agenda.end, '2024-01-16');
+    assert.strictEqual(agenda.format, 'agenda');
+    assert.ok(plan.instructions.includes('2024-01-15 (Europe/Berlin)'));
+  });
+
+  it('should add free/busy time to the week plan', () => {
+    const plan = buildPromptPlan(
+      'plan_week',
+      { start: '2024-01-15', calendarIds: 'work' },
+      discovery,
+      'UTC',
+    );
+
+    assert.deepStrictEqual(templates(plan), [
+      'components-range work',
+      'freebusy work',
+    ]);
+    assert.strictEqual(
+      parseCalDavUri(plan.resources[1].uri).variables.end,
+      '2024-01-22',
+    );
+  });
+
+  it('should embed the meeting by its UID', () => {
+    const plan = buildPromptPlan(
+      'meeting_prep',
+      { calendarId: 'work', uid: 'kickoff@example.com' },
+      discovery,
+      'UTC',
+    );
+
+    const { templateName, variables } = parseCalDavUri(plan.resources[0].uri);
+    assert.strictEqual(templateName, 'component-by-uid');
+    assert.strictEqual(variables.uid, 'kickoff@example.com');
+  });
+
+  it('should read the resources from the selected account', () => {
+    const plan = buildPromptPlan(
+      'triage_tasks',
+      { account: 'personal' },
+      discovery,
+      'UTC',
+    );
+
+    assert.ok(plan.resources.length > 0);
+    for (const resource of plan.resources) {
+      assert.strictEqual(
+        parseCalDavUri(resource.uri).variables.account,
+        'personal',
+      );
+    }
+  });
+
+  it('should reject invalid arguments', () => {
+    assert.throws(
+      () =>
+        buildPromptPlan(
+          'meeting_prep',
+          { calendarId: 'work' },
+          discovery,
+          'UTC',
+        ),
+      /Missing required argument: uid/,
+    );
+    assert.throws(
+      () =>
+        buildPromptPlan(
+          'daily_briefing',
+          { date: 'tomorrow' },
+          discovery,
+          'UTC',
+        ),
+      /Invalid date: tomorrow/,
+    );
+    assert.throws(
+      () =>
+        buildPromptPlan(
+          'triage_tasks',
+          { calendarIds: 'nope' },
+          discovery,
+          'UTC',
+        ),
+      /Calendar not found: nope/,
+    );
+    assert.throws(
+      () => buildPromptPlan('write_poem', {}, discovery, 'UTC'),
+      /Unknown prompt: write_poem/,
+    );
+  });
+});
+
+describe('CALDAV_PROMPTS', () => {
+  it('should have unique names', () => {
+    const names = CALDAV_PROMPTS.map((prompt) => prompt.name);
+    assert.strictEqual(names.length, new Set(names).size);
+  });
+});
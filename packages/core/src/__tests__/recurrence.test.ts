@@ -0,0 +1,356 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { CalDavFilters, type CalendarComponent } from '../filters';
+import {
+  expandComponents,
+  expandRecurrence,
+  instanceStarts,
+  nextOccurrence,
+  parseRecurrenceRule,
+} from '../recurrence';
+
+const expand = (rule: string, dtstart: string, to: string) =>
+  expandRecurrence(
+    parseRecurrenceRule(rule),
+    new Date(dtstart),
+    new Date(dtstart),
+    new Date(to),
+  ).map((date) => date.toISOString().slice(0, 10));
+
+describe('Recurrence functions', () => {
+  describe('parseRecurrenceRule', () => {
+    it('should parse frequency, interval, count and until', () => {
+      const rule = parseRecurrenceRule(
+        'FREQ=WEEKLY;INTERVAL=2;COUNT=5;UNTIL=20241231T000000Z',
+      );
+
+      assert.strictEqual(rule.freq, 'WEEKLY');
+      assert.strictEqual(rule.interval, 2);
+      assert.strictEqual(rule.count, 5);
+      assert.strictEqual(rule.until?.toISOString(), '2024-12-31T00:00:00.000Z');
+    });
+
+    it('should parse BYDAY ordinals and WKST', () => {
+      const rule = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR,2MO;WKST=SU');
+
+      assert.deepStrictEqual(rule.byDay, [
+        { weekday: 5, n: -1 },
+        { weekday: 1, n: 2 },
+      ]);
+      assert.strictEqual(rule.wkst, 0);
+    });
+
+    it('should reject invalid rule parts', () => {
+      assert.throws(
+        () => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX'),
+        /Invalid recurrence rule part: BYDAY=XX/,
+      );
+      assert.throws(
+        () => parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=0'),
+        /Invalid recurrence rule part/,
+      );
+      assert.throws(
+        () => parseRecurrenceRule('FREQ=DAILY;RSCALE=HEBREW'),
+        /Unsupported recurrence rule part: RSCALE/,
+      );
+    });
+
+    it('should reject unknown frequencies', () => {
+      assert.throws(
+        () => parseRecurrenceRule('FREQ=FORTNIGHTLY'),
+        /Unsupported recurrence frequency/,
+      );
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    const start = new Date('2024-01-31T09:00:00Z');
+
+    it('should step by interval', () => {
+      const rule = parseRecurrenceRule('FREQ=DAILY;INTERVAL=3');
+      const next = nextOccurrence(rule, start, start);
+      assert.strictEqual(next?.toISOString(), '2024-02-03T09:00:00.000Z');
+    });
+
+    it('should skip months without the start day', () => {
+      const rule = parseRecurrenceRule('FREQ=MONTHLY');
+      const next = nextOccurrence(rule, start, start);
+      assert.strictEqual(next?.toISOString(), '2024-03-31T09:00:00.000Z');
+    });
+
+    it('should stop at COUNT and UNTIL', () => {
+      const counted = parseRecurrenceRule('FREQ=DAILY;COUNT=2');
+      const second = new Date('2024-02-01T09:00:00Z');
+      assert.strictEqual(nextOccurrence(counted, start, second), null);
+
+      const until = parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20240205T000000Z');
+      assert.strictEqual(nextOccurrence(until, start, start), null);
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should expand weekly rules with several days and COUNT', () => {
+      assert.deepStrictEqual(
+        expand(
+          'FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4',
+          '2024-01-02T09:00:00Z',
+          '2025-01-01',
+        ),
+        ['2024-01-02', '2024-01-04', '2024-01-09', '2024-01-11'],
+      );
+    });
+
+    it('should expand the last Friday of every month', () => {
+      assert.deepStrictEqual(
+        expand('FREQ=MONTHLY;BYDAY=-1FR', '2024-01-26T09:00:00Z', '2024-04-01'),
+        ['2024-01-26', '2024-02-23', '2024-03-29'],
+      );
+    });
+
+    it('should apply BYSETPOS to the last weekday of the month', () => {
+      assert.deepStrictEqual(
+        expand(
+          'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+          '2024-01-31T17:00:00Z',
+          '2024-04-01',
+        ),
+        ['2024-01-31', '2024-02-29', '2024-03-29'],
+      );
+    });
+
+    it('should expand yearly rules with BYMONTH and an ordinal BYDAY', () => {
+      assert.deepStrictEqual(
+        expand(
+          'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH',
+          '2024-11-28T12:00:00Z',
+          '2027-01-01',
+        ),
+        ['2024-11-28', '2025-11-27', '2026-11-26'],
+      );
+    });
+
+    it('should expand BYWEEKNO', () => {
+      // RFC 5545: Monday of week number 20
+      assert.deepStrictEqual(
+        expand(
+          'FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO',
+          '1997-05-12T09:00:00Z',
+          '2000-01-01',
+        ),
+        ['1997-05-12', '1998-05-11', '1999-05-17'],
+      );
+    });
+
+    it('should stop at UNTIL', () => {
+      assert.deepStrictEqual(
+        expand(
+          'FREQ=DAILY;INTERVAL=2;UNTIL=20240105T090000Z',
+          '2024-01-01T09:00:00Z',
+          '2025-01-01',
+        ),
+        ['2024-01-01', '2024-01-03', '2024-01-05'],
+      );
+    });
+
+    it('should only return instances inside the range', () => {
+      const dates = expandRecurrence(
+        parseRecurrenceRule('FREQ=DAILY'),
+        new Date('2020-01-01T09:00:00Z'),
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-17T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        dates.map((d) => d.toISOString()),
+        ['2024-01-15T09:00:00.000Z', '2024-01-16T09:00:00.000Z'],
+      );
+    });
+
+    it('should terminate for rules that never match', () => {
+      assert.deepStrictEqual(
+        expand(
+          'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30',
+          '2024-01-01T09:00:00Z',
+          '2030-01-01',
+        ),
+        ['2024-01-01'],
+      );
+    });
+  });
+
+  describe('expandComponents', () => {
+    const standup: CalendarComponent = {
+      uid: 'standup',
+      componentType: 'VEVENT',
+      summary: 'Standup',
+      dtstart: '20230102T090000Z',
+      dtend: '20230102T091500Z',
+      rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+      exdate: '20240117T090000Z',
+    };
+
+    it('should expand a series that started before the range', () => {
+      const instances = expandComponents(
+        [standup],
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-22T00:00:00Z'),
+      );
+
+      assert.strictEqual(instances.length, 1);
+      assert.strictEqual(instances[0].dtstart, '20240115T090000Z');
+      assert.strictEqual(instances[0].dtend, '20240115T091500Z');
+      assert.strictEqual(instances[0]['recurrence-id'], '20240115T090000Z');
+      assert.strictEqual(instances[0].rrule, undefined);
+    });
+
+    it('should apply RECURRENCE-ID overrides', () => {
+      const moved: CalendarComponent = {
+        uid: 'standup',
+        componentType: 'VEVENT',
+        summary: 'Standup (moved)',
+        'recurrence-id': '20240115T090000Z',
+        dtstart: '20240116T100000Z',
+        dtend: '20240116T101500Z',
+      };
+
+      const instances = expandComponents(
+        [standup, moved],
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-22T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        instances.map((i) => [i.summary, i.dtstart]),
+        [['Standup (moved)', '20240116T100000Z']],
+      );
+    });
+
+    it('should keep components without DTSTART as they are', () => {
+      const undated: CalendarComponent = {
+        uid: 'undated',
+        componentType: 'VTODO',
+        summary: 'Someday',
+      };
+
+      const instances = expandComponents(
+        [undated, standup],
+        new Date('2024-01-15T00:00:00Z'),
+        new Date('2024-01-22T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        instances.map((i) => i.uid),
+        ['standup', 'undated'],
+      );
+      assert.strictEqual(instances[1], undated);
+    });
+
+    it('should take RDATEs in their own time zone', () => {
+      const instances = expandComponents(
+        [
+          {
+            uid: 'visits',
+            dtstart: '20240101T090000 (Europe/Berlin)',
+            rdate: '20240110T090000 (America/New_York),20240112T120000Z',
+          },
+        ],
+        new Date('2024-01-10T00:00:00Z'),
+        new Date('2024-01-13T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        instances.map((i) => i.dtstart),
+        ['20240110T150000 (Europe/Berlin)', '20240112T130000 (Europe/Berlin)'],
+      );
+    });
+
+    it('should keep the format of floating and all-day values', () => {
+      const instances = expandComponents(
+        [
+          {
+            uid: 'birthday',
+            dtstart: '20200310',
+            rrule: 'FREQ=YEARLY',
+          },
+          {
+            uid: 'lunch',
+            dtstart: '20240101T120000 (Europe/Berlin)',
+            dtend: '20240101T130000 (Europe/Berlin)',
+            rrule: 'FREQ=DAILY;COUNT=100',
+          },
+        ],
+        new Date('2024-03-10T00:00:00Z'),
+        new Date('2024-03-11T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        instances.map((i) => i.dtstart),
+        ['20240310', '20240310T120000 (Europe/Berlin)'],
+      );
+    });
+
+    it('should serialize instances with the master properties', () => {
+      const components = CalDavFilters.parseICalendarData(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'UID:lunch',
+          'DTSTART;TZID=Europe/Berlin:20240101T120000',
+          'DTEND;TZID=Europe/Berlin:20240101T130000',
+          'RRULE:FREQ=DAILY',
+          'ATTENDEE:mailto:jane@example.com',
+          'BEGIN:VALARM',
+          'TRIGGER:-PT5M',
+          'END:VALARM',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+      const instances = expandComponents(
+        components,
+        new Date('2024-03-10T00:00:00Z'),
+        new Date('2024-03-11T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        CalDavFilters.componentsToICalendar(instances).split('\r\n'),
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          'UID:lunch',
+          'DTSTART;TZID=Europe/Berlin:20240310T120000',
+          'RECURRENCE-ID;TZID=Europe/Berlin:20240310T120000',
+          'DTEND;TZID=Europe/Berlin:20240310T130000',
+          'ATTENDEE:mailto:jane@example.com',
+          'BEGIN:VALARM',
+          'TRIGGER:-PT5M',
+          'END:VALARM',
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ],
+      );
+    });
+
+    it('should keep zoned instances at the same local time across DST', () => {
+      const instances = instanceStarts(
+        {
+          uid: 'weekly',
+          dtstart: '20240321T090000 (Europe/Berlin)',
+          dtend: '20240321T100000 (Europe/Berlin)',
+          rrule: 'FREQ=WEEKLY;UNTIL=20240404T070000Z',
+        },
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-05-01T00:00:00Z'),
+      );
+
+      assert.deepStrictEqual(
+        instances.map((d) => d.toISOString()),
+        [
+          '2024-03-21T08:00:00.000Z',
+          '2024-03-28T08:00:00.000Z',
+          '2024-04-04T07:00:00.000Z',
+        ],
+      );
+    });
+  });
+});
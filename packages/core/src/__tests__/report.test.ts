@@ -2,9 +2,15 @@ import assert from 'node:assert';
 import { describe, it } from 'node:test';
 import {
   buildCalendarQuery,
+  buildDavFilter,
+  buildMkCalendar,
   buildMultiget,
   buildPropFind,
+  buildPropPatch,
+  buildSyncCollection,
   parseMultiStatusResponse,
+  parseSyncToken,
+  translateQueryOptions,
 } from '../report';
 
 describe('Report functions', () => {
@@ -48,6 +54,24 @@ describe('Report functions', () => {
       );
     });
 
+    it('should request server-side expansion', () => {
+      const xml = buildCalendarQuery({
+        componentType: 'VEVENT',
+        timeRange: {
+          start: '2024-01-01',
+          end: '2024-01-31',
+        },
+        expand: true,
+      });
+
+      assert.ok(
+        xml.includes(
+          '<C:expand start="2024-01-01T00:00:00Z" end="2024-01-31T00:00:00Z"/>',
+        ),
+      );
+      assert.ok(!xml.includes('<C:calendar-data/>'));
+    });
+
     it('should build query with category filter', () => {
       const xml = buildCalendarQuery({
         componentType: 'VTODO',
@@ -76,14 +100,43 @@ describe('Report functions', () => {
       );
     });
 
-    it('should build query with JMES filter comment', () => {
+    it('should leave JMES filters out of the query', () => {
       const xml = buildCalendarQuery({
         componentType: 'VEVENT',
         jmesFilter: 'summary == "Meeting"',
       });
 
+      assert.ok(!xml.includes('Meeting'));
+    });
+
+    it('should build nested property filters', () => {
+      const xml = buildCalendarQuery({
+        componentType: 'VTODO',
+        status: 'needs-action',
+        textFilters: [{ property: 'summary', value: 'draft', negate: true }],
+        undefinedProperties: ['completed'],
+        dueRange: { end: '2024-02-01T00:00:00Z' },
+      });
+
       assert.ok(
-        xml.includes('<!-- JMES filter: summary == &quot;Meeting&quot; -->'),
+        xml.includes(
+          [
+            '      <C:comp-filter name="VTODO">',
+            '        <C:prop-filter name="STATUS">',
+            '          <C:text-match collation="i;ascii-casemap">NEEDS-ACTION</C:text-match>',
+            '        </C:prop-filter>',
+            '        <C:prop-filter name="SUMMARY">',
+            '          <C:text-match collation="i;ascii-casemap" negate-condition="yes">draft</C:text-match>',
+            '        </C:prop-filter>',
+            '        <C:prop-filter name="COMPLETED">',
+            '          <C:is-not-defined/>',
+            '        </C:prop-filter>',
+            '        <C:prop-filter name="DUE">',
+            '          <C:time-range end="2024-02-01T00:00:00Z"/>',
+            '        </C:prop-filter>',
+            '      </C:comp-filter>',
+          ].join('\n'),
+        ),
       );
     });
 
@@ -97,6 +150,79 @@ describe('Report functions', () => {
     });
   });
 
+  describe('translateQueryOptions', () => {
+    it('should keep only what the server cannot express client-side', () => {
+      const { filter, clientSide } = translateQueryOptions({
+        componentType: 'VEVENT',
+        timeRange: { start: '2024-01-01T00:00:00Z' },
+        categoryFilter: 'work',
+        uid: 'event-1',
+        jmesFilter: 'priority < `3`',
+      });
+
+      assert.deepStrictEqual(clientSide, {
+        uid: 'event-1',
+        jmesFilter: 'priority < `3`',
+      });
+      assert.deepStrictEqual(filter.compFilters?.[0].timeRange, {
+        start: '2024-01-01T00:00:00Z',
+      });
+      assert.deepStrictEqual(
+        filter.compFilters?.[0].propFilters?.map((p) => p.name),
+        ['CATEGORIES', 'UID'],
+      );
+    });
+
+    it('should filter client-side without a component type', () => {
+      const { filter, clientSide } = translateQueryOptions({
+        timeRange: { start: '2024-01-01T00:00:00Z' },
+        uid: 'event-1',
+      });
+
+      assert.deepStrictEqual(filter, { name: 'VCALENDAR' });
+      assert.deepStrictEqual(clientSide, {
+        timeRange: { start: '2024-01-01T00:00:00Z' },
+        uid: 'event-1',
+      });
+    });
+  });
+
+  describe('buildDavFilter', () => {
+    it('should build the compact element tree', () => {
+      const { filter } = translateQueryOptions({
+        componentType: 'VTODO',
+        timeRange: { start: '2024-01-01T00:00:00Z' },
+        categoryFilter: 'work',
+        undefinedProperties: ['DUE'],
+      });
+
+      assert.deepStrictEqual(buildDavFilter(filter), {
+        'c:comp-filter': {
+          _attributes: { name: 'VCALENDAR' },
+          'c:comp-filter': [
+            {
+              _attributes: { name: 'VTODO' },
+              'c:time-range': { _attributes: { start: '20240101T000000Z' } },
+              'c:prop-filter': [
+                {
+                  _attributes: { name: 'CATEGORIES' },
+                  'c:text-match': {
+                    _attributes: { collation: 'i;ascii-casemap' },
+                    _text: 'work',
+                  },
+                },
+                {
+                  _attributes: { name: 'DUE' },
+                  'c:is-not-defined': {},
+                },
+              ],
+            },
+          ],
+        },
+      });
+    });
+  });
+
   describe('buildPropFind', () => {
     it('should build basic PROPFIND', () => {
       const xml = buildPropFind(['displayname', 'resourcetype']);
@@ -116,6 +242,74 @@ describe('Report functions', () => {
     });
   });
 
+  describe('buildSyncCollection', () => {
+    it('should send the previous token', () => {
+      const xml = buildSyncCollection('http://example.com/sync/1&2');
+
+      assert.ok(
+        xml.includes(
+          '<D:sync-token>http://example.com/sync/1&amp;2</D:sync-token>',
+        ),
+      );
+      assert.ok(xml.includes('<D:sync-level>1</D:sync-level>'));
+    });
+
+    it('should send an empty token for the initial sync', () => {
+      assert.ok(buildSyncCollection().includes('<D:sync-token/>'));
+    });
+  });
+
+  describe('parseSyncToken', () => {
+    it('should return the new token', () => {
+      const token = parseSyncToken(
+        '<multistatus xmlns="DAV:"><sync-token>data:,42</sync-token></multistatus>',
+      );
+
+      assert.strictEqual(token, 'data:,42');
+    });
+  });
+
+  describe('buildMkCalendar', () => {
+    it('should build MKCALENDAR with calendar properties', () => {
+      const xml = buildMkCalendar({
+        displayName: 'Project <X>',
+        color: '#FF8800',
+        description: 'Tasks for project X',
+        componentSet: ['VEVENT', 'VTODO'],
+      });
+
+      assert.ok(xml.includes('<C:mkcalendar'));
+      assert.ok(
+        xml.includes('<D:displayname>Project &lt;X&gt;</D:displayname>'),
+      );
+      assert.ok(xml.includes('<A:calendar-color>#FF8800</A:calendar-color>'));
+      assert.ok(
+        xml.includes(
+          '<C:calendar-description>Tasks for project X</C:calendar-description>',
+        ),
+      );
+      assert.ok(xml.includes('<C:comp name="VEVENT"/>'));
+      assert.ok(xml.includes('<C:comp name="VTODO"/>'));
+    });
+  });
+
+  describe('buildPropPatch', () => {
+    it('should build PROPPATCH for mutable properties', () => {
+      const xml = buildPropPatch({ displayName: 'Office' });
+
+      assert.ok(xml.includes('<D:propertyupdate'));
+      assert.ok(xml.includes('<D:displayname>Office</D:displayname>'));
+      assert.ok(!xml.includes('calendar-color'));
+    });
+
+    it('should refuse to change the component set', () => {
+      assert.throws(
+        () => buildPropPatch({ componentSet: ['VTODO'] }),
+        /cannot be changed/,
+      );
+    });
+  });
+
   describe('buildMultiget', () => {
     it('should build calendar multiget request', () => {
       const hrefs = ['/calendar/event1.ics', '/calendar/event2.ics'];
@@ -166,6 +360,38 @@ END:VCALENDAR</C:calendar-data>
       assert.ok(results[0].calendarData?.includes('UID:event1@example.com'));
     });
 
+    it('should accept any namespace prefix and decode entities', () => {
+      const results = parseMultiStatusResponse(
+        [
+          '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">',
+          '<d:response><d:href>/cal/a.ics</d:href><d:propstat><d:prop>',
+          '<d:getetag>&quot;1&quot;</d:getetag>',
+          '<cal:calendar-data>SUMMARY:R&amp;D</cal:calendar-data>',
+          '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>',
+          '<d:response><d:href>/cal/b.ics</d:href>',
+          '<d:status>HTTP/1.1 404 Not Found</d:status></d:response>',
+          '</d:multistatus>',
+        ].join(''),
+      );
+
+      assert.deepStrictEqual(results, [
+        {
+          href: '/cal/a.ics',
+          status: 'HTTP/1.1 200 OK',
+          etag: '"1"',
+          ctag: undefined,
+          calendarData: 'SUMMARY:R&D',
+        },
+        {
+          href: '/cal/b.ics',
+          status: 'HTTP/1.1 404 Not Found',
+          etag: undefined,
+          ctag: undefined,
+          calendarData: undefined,
+        },
+      ]);
+    });
+
     it('should handle parsing errors gracefully', () => {
       const invalidXml = 'not valid xml';
 
@@ -0,0 +1,79 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { buildCalendarResources } from '../resources';
+import { parseCalDavUri } from '../uri';
+
+const discovery = {
+  principal: '/principals/john/',
+  home: '/calendars/john/',
+  collections: [
+    {
+      calendarId: 'work',
+      displayName: 'Work',
+      componentSet: ['VEVENT', 'VTODO'],
+      href: '/calendars/john/work/',
+    },
+    {
+      calendarId: 'holidays',
+      displayName: '',
+      componentSet: ['VEVENT'],
+      href: '/calendars/john/holidays/',
+    },
+  ],
+};
+
+describe('buildCalendarResources', () => {
+  const resources = buildCalendarResources(
+    discovery,
+    new Date('2024-01-15T18:30:00Z'),
+  );
+
+  it('should list the calendars and what each of them holds', () => {
+    assert.deepStrictEqual(
+      resources.map((resource) => resource.name),
+      [
+        'Calendars',
+        'Work: next 7 days',
+        'Work: open tasks',
+        'holidays: next 7 days',
+      ],
+    );
+    assert.deepStrictEqual(
+      resources.map((resource) => resource.mimeType),
+      ['application/json', 'text/calendar', 'text/calendar', 'text/calendar'],
+    );
+  });
+
+  it('should build URIs that parse back to their templates', () => {
+    const upcoming = parseCalDavUri(resources[1].uri);
+    assert.strictEqual(upcoming.templateName, 'components-range');
+    assert.strictEqual(upcoming.variables.start, '2024-01-15');
+    assert.strictEqual(upcoming.variables.end, '2024-01-22');
+    assert.strictEqual(upcoming.variables.expand, 'true');
+
+    const tasks = parseCalDavUri(resources[2].uri);
+    assert.strictEqual(tasks.templateName, 'components-query');
+    assert.strictEqual(tasks.variables.comp, 'VTODO');
+
+    assert.strictEqual(
+      parseCalDavUri(resources[0].uri).templateName,
+      'metadata-list-cals',
+    );
+  });
+
+  it('should select and name the account when given one', () => {
+    const work = buildCalendarResources(
+      discovery,
+      new Date('2024-01-15T18:30:00Z'),
+      'work',
+    );
+    assert.strictEqual(work[0].name, 'work: Calendars');
+    assert.strictEqual(work[1].name, 'work: Work: next 7 days');
+    for (const resource of work) {
+      assert.strictEqual(
+        parseCalDavUri(resource.uri).variables.account,
+        'work',
+      );
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { findFreeSlots } from '../slots';
+
+const at = (time: string) => new Date(`2024-01-15T${time}:00Z`);
+const range = (slot: { start: Date; end: Date }) =>
+  `${slot.start.toISOString().slice(11, 16)}-${slot.end.toISOString().slice(11, 16)}`;
+
+describe('findFreeSlots', () => {
+  // 2024-01-15 is a Monday
+  const options = {
+    start: new Date('2024-01-15T00:00:00Z'),
+    end: new Date('2024-01-16T00:00:00Z'),
+    duration: 60,
+  };
+
+  it('should only return slots inside working hours', () => {
+    const slots = findFreeSlots([], { ...options, limit: 100 });
+
+    assert.strictEqual(slots.length, 29);
+    assert.ok(
+      slots.every((s) => s.start >= at('09:00') && s.end <= at('17:00')),
+    );
+  });
+
+  it('should avoid busy periods and keep the buffer', () => {
+    const slots = findFreeSlots([{ start: at('10:00'), end: at('16:00') }], {
+      ...options,
+      duration: 30,
+      buffer: 15,
+    });
+
+    assert.deepStrictEqual(slots.map(range), [
+      '09:00-09:30',
+      '09:15-09:45',
+      '16:15-16:45',
+      '16:30-17:00',
+    ]);
+  });
+
+  it('should rank slots that keep free time in one piece first', () => {
+    const slots = findFreeSlots(
+      [{ start: at('12:00'), end: at('13:00') }],
+      options,
+    );
+
+    assert.deepStrictEqual(slots.slice(0, 4).map(range), [
+      '09:00-10:00',
+      '11:00-12:00',
+      '13:00-14:00',
+      '16:00-17:00',
+    ]);
+    assert.strictEqual(slots[0].score, 1);
+    assert.ok(slots[4].score < 1);
+  });
+
+  it('should skip non-working days', () => {
+    const slots = findFreeSlots([], {
+      ...options,
+      workingDays: ['TU', 'WE'],
+    });
+
+    assert.strictEqual(slots.length, 0);
+  });
+
+  it('should evaluate working hours in the given time zone', () => {
+    const slots = findFreeSlots([], {
+      ...options,
+      duration: 480,
+      timeZone: 'America/New_York',
+    });
+
+    // 09:00-17:00 in New York is 14:00-22:00 UTC in January
+    assert.deepStrictEqual(slots.map(range), ['14:00-22:00']);
+  });
+
+  it('should reject invalid working hours', () => {
+    assert.throws(
+      () => findFreeSlots([], { ...options, workdayStart: '9am' }),
+      /Invalid workdayStart/,
+    );
+    assert.throws(
+      () =>
+        findFreeSlots([], {
+          ...options,
+          workdayStart: '17:00',
+          workdayEnd: '09:00',
+        }),
+      /workdayEnd must be after workdayStart/,
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import assert from 'node:assert';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import type { CalDavClient } from '../caldav';
+import type { CalDavRequestHandler } from '../handler';
+import { CalDavSubscriptions } from '../subscriptions';
+
+const WORK = '/calendars/john/work/';
+const HOME = '/calendars/john/home/';
+
+function createFakes() {
+  const ctags = new Map([
+    [WORK, 1],
+    [HOME, 1],
+  ]);
+  const results = new Map<string, string>();
+  const reads: string[] = [];
+  const propfinds: string[] = [];
+
+  const client = {
+    serverUrl: 'https://cal.example.com',
+    credentials: { username: 'john' },
+    async davRequest({ url }: { url: string }) {
+      const href = new URL(url).pathname;
+      propfinds.push(href);
+      return [
+        {
+          status: 207,
+          ok: true,
+          raw: `<d:multistatus xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/"><d:response><d:href>${href}</d:href><d:propstat><d:prop><cs:getctag>${ctags.get(href)}</cs:getctag></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>`,
+        },
+      ];
+    },
+  };
+
+  const handler = {
+    async getCollectionsForUri(uri: string) {
+      return [uri.includes('/home/') ? HOME : WORK];
+    },
+    async handleRequest({ uri }: { uri: string }) {
+      reads.push(uri);
+      const content = results.get(uri) ?? '';
+      return {
+        content,
+        mimeType: content.startsWith('{')
+          ? 'application/json'
+          : 'text/calendar',
+        status: 200,
+      };
+    },
+  };
+
+  return {
+    client: client as unknown as CalDavClient,
+    handler: handler as unknown as CalDavRequestHandler,
+    results,
+    reads,
+    propfinds,
+    change: (href: string) => ctags.set(href, (ctags.get(href) ?? 0) + 1),
+  };
+}
+
+describe('CalDavSubscriptions', () => {
+  let fakes: ReturnType<typeof createFakes>;
+  let notified: string[];
+  let subscriptions: CalDavSubscriptions;
+
+  beforeEach(() => {
+    fakes = createFakes();
+    notified = [];
+    subscriptions = new CalDavSubscriptions(
+      fakes.handler,
+      fakes.client,
+      (uri) => {
+        notified.push(uri);
+      },
+      // Ticks are driven by the tests
+      { pollInterval: 3600000 },
+    );
+  });
+
+  afterEach(() => {
+    subscriptions.close();
+  });
+
+  it('should poll each collection once for all its subscribers', async () => {
+    await subscriptions.subscribe('caldav://principals/john/work/a');
+    await subscriptions.subscribe('caldav://principals/john/work/b');
+    await subscriptions.subscribe('caldav://principals/john/home/c');
+
+    assert.strictEqual(subscriptions.getSubscriptionCount(), 3);
+    assert.strictEqual(subscriptions.getPollCount(), 2);
+  });
+
+  it('should notify only URIs whose result changed', async () => {
+    fakes.results.set('caldav://principals/john/work/a', 'A1');
+    fakes.results.set('caldav://principals/john/work/b', 'B1');
+    await subscriptions.subscribe('caldav://principals/john/work/a');
+    await subscriptions.subscribe('caldav://principals/john/work/b');
+
+    fakes.results.set('caldav://principals/john/work/a', 'A2');
+    fakes.change(WORK);
+    await subscriptions.poll(WORK);
+
+    assert.deepStrictEqual(notified, ['caldav://principals/john/work/a']);
+  });
+
+  it('should not notify when only the timestamp changed', async () => {
+    const uri = 'caldav://principals/john/_meta/calendars';
+    const metadata = (timestamp: string) =>
+      JSON.stringify({ calendars: [{ id: 'work' }], timestamp });
+    fakes.results.set(uri, metadata('2024-01-15T09:00:00.000Z'));
+    await subscriptions.subscribe(uri);
+
+    fakes.results.set(uri, metadata('2024-01-15T09:01:00.000Z'));
+    fakes.change(WORK);
+    await subscriptions.poll(WORK);
+
+    assert.deepStrictEqual(fakes.reads, [uri, uri]);
+    assert.deepStrictEqual(notified, []);
+  });
+
+  it('should not read again while the CTag stays the same', async () => {
+    await subscriptions.subscribe('caldav://principals/john/work/a');
+    fakes.results.set('caldav://principals/john/work/a', 'changed');
+    fakes.reads.length = 0;
+
+    await subscriptions.poll(WORK);
+
+    assert.deepStrictEqual(fakes.reads, []);
+    assert.deepStrictEqual(notified, []);
+  });
+
+  it('should stop polling once the last subscriber is gone', async () => {
+    await subscriptions.subscribe('caldav://principals/john/work/a');
+    await subscriptions.subscribe('caldav://principals/john/work/b');
+
+    subscriptions.unsubscribe('caldav://principals/john/work/a');
+    assert.strictEqual(subscriptions.getPollCount(), 1);
+
+    subscriptions.unsubscribe('caldav://principals/john/work/b');
+    assert.strictEqual(subscriptions.getPollCount(), 0);
+    fakes.propfinds.length = 0;
+    await subscriptions.poll(WORK);
+    assert.deepStrictEqual(fakes.propfinds, []);
+  });
+
+  it('should reject a non-positive poll interval', () => {
+    assert.throws(
+      () =>
+        new CalDavSubscriptions(fakes.handler, fakes.client, () => {}, {
+          pollInterval: 0,
+        }),
+      /Poll interval must be positive/,
+    );
+  });
+});
@@ -0,0 +1,419 @@
+import assert from 'node:assert';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { beforeEach, describe, it } from 'node:test';
+import { ComponentCache } from '../cache';
+import type { CalDavClient } from '../caldav';
+import { CalDavRequestHandler } from '../handler';
+import { CalDavSyncEngine } from '../sync';
+
+const SERVER_URL = 'https://cal.example.com';
+const HOME = '/calendars/john/';
+const COLLECTION = `${HOME}work/`;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const event = (uid: string, summary: string) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `SUMMARY:${summary}`,
+    'DTSTART:20240115T100000Z',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+/**
+ * A collection that records every change with a revision number, answering
+ * sync-collection, calendar-multiget and PROPFIND like a CalDAV server.
+ */
+function createFakeServer(options: { supportsSync?: boolean } = {}) {
+  const objects = new Map<string, { etag: string; data: string }>();
+  const changes: Array<{ href: string; revision: number; deleted: boolean }> =
+    [];
+  let revision = 0;
+  let oldestToken = 0;
+  let down = false;
+  const requests: string[] = [];
+
+  const put = (name: string, data: string) => {
+    const href = `${COLLECTION}${name}`;
+    revision++;
+    objects.set(href, { etag: `"${revision}"`, data });
+    changes.push({ href, revision, deleted: false });
+  };
+  const remove = (name: string) => {
+    const href = `${COLLECTION}${name}`;
+    revision++;
+    objects.delete(href);
+    changes.push({ href, revision, deleted: true });
+  };
+
+  const multistatus = (responses: string[], extra = '') =>
+    `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">${responses.join('')}${extra}</d:multistatus>`;
+  const member = (href: string, props: string) =>
+    `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+
+  const client = {
+    serverUrl: SERVER_URL,
+    credentials: { username: 'john' },
+    requests,
+    async davRequest({
+      init,
+    }: {
+      url: string;
+      init: { method: string; headers: Record<string, string>; body?: string };
+    }) {
+      if (down) throw new TypeError('fetch failed');
+      const body = init.body ?? '';
+      const respond = (status: number, raw = '') => [
+        { status, ok: status < 300, raw },
+      ];
+
+      if (init.method === 'REPORT' && body.includes('sync-collection')) {
+        requests.push('sync-collection');
+        if (options.supportsSync === false) return respond(501);
+        const token = /<D:sync-token>token-(\d+)<\/D:sync-token>/.exec(body);
+        const since = token ? Number(token[1]) : 0;
+        if (token && since < oldestToken) {
+          return respond(
+            403,
+            '<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>',
+          );
+        }
+        const latest = new Map<string, boolean>();
+        for (const change of changes) {
+          if (change.revision > since) latest.set(change.href, change.deleted);
+        }
+        const responses = [...latest].map(([href, deleted]) =>
+          deleted
+            ? `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`
+            : member(href, `<d:getetag>${objects.get(href)?.etag}</d:getetag>`),
+        );
+        return respond(
+          207,
+          multistatus(
+            responses,
+            `<d:sync-token>token-${revision}</d:sync-token>`,
+          ),
+        );
+      }
+      if (init.method === 'REPORT' && body.includes('calendar-multiget')) {
+        const hrefs = [...body.matchAll(/<D:href>(.*?)<\/D:href>/g)].map(
+          (match) => match[1],
+        );
+        requests.push(`multiget ${hrefs.length}`);
+        return respond(
+          207,
+          multistatus(
+            hrefs.map((href) => {
+              const object = objects.get(href);
+              return object
+                ? member(
+                    // Some servers answer with absolute URLs
+                    `${SERVER_URL}${href}`,
+                    `<d:getetag>${object.etag}</d:getetag><cal:calendar-data>${escapeXml(object.data)}</cal:calendar-data>`,
+                  )
+                : `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+            }),
+          ),
+        );
+      }
+      if (init.method === 'PROPFIND' && init.headers.depth === '0') {
+        requests.push('getctag');
+        return respond(
+          207,
+          multistatus([
+            member(COLLECTION, `<cs:getctag>ctag-${revision}</cs:getctag>`),
+          ]),
+        );
+      }
+      if (init.method === 'PROPFIND') {
+        requests.push('getetag');
+        return respond(
+          207,
+          multistatus([
+            member(
+              COLLECTION,
+              '<d:resourcetype><d:collection/></d:resourcetype>',
+            ),
+            ...[...objects].map(([href, object]) =>
+              member(href, `<d:getetag>${object.etag}</d:getetag>`),
+            ),
+          ]),
+        );
+      }
+      return respond(400);
+    },
+  };
+
+  return {
+    client: client as unknown as CalDavClient,
+    requests,
+    put,
+    remove,
+    expireTokens: () => {
+      revision++;
+      oldestToken = revision;
+    },
+    setDown: (value: boolean) => {
+      down = value;
+    },
+  };
+}
+
+const summaries = (objects: Array<{ data: string }>) =>
+  objects.map((object) => /SUMMARY:(.*)/.exec(object.data)?.[1]).sort();
+
+describe('CalDavSyncEngine', () => {
+  let engine: CalDavSyncEngine;
+
+  beforeEach(() => {
+    engine = new CalDavSyncEngine();
+  });
+
+  it('should fetch only what changed since the last sync', async () => {
+    const server = createFakeServer();
+    server.put('a.ics', event('a', 'R&D review'));
+    server.put('b.ics', event('b', 'Standup'));
+
+    const first = await engine.sync(server.client, COLLECTION);
+    assert.deepStrictEqual(summaries(first), ['R&D review', 'Standup']);
+    assert.strictEqual(first[0].href, `${COLLECTION}a.ics`);
+
+    server.put('b.ics', event('b', 'Standup (moved)'));
+    server.remove('a.ics');
+    server.put('c.ics', event('c', 'Retro'));
+    server.requests.length = 0;
+
+    const second = await engine.sync(server.client, COLLECTION);
+    assert.deepStrictEqual(summaries(second), ['Retro', 'Standup (moved)']);
+    assert.deepStrictEqual(server.requests, ['sync-collection', 'multiget 2']);
+  });
+
+  it('should not fetch anything when nothing changed', async () => {
+    const server = createFakeServer();
+    server.put('a.ics', event('a', 'Review'));
+    await engine.sync(server.client, COLLECTION);
+    server.requests.length = 0;
+
+    await engine.sync(server.client, COLLECTION);
+
+    assert.deepStrictEqual(server.requests, ['sync-collection']);
+  });
+
+  it('should start over when the sync token expired', async () => {
+    const server = createFakeServer();
+    server.put('a.ics', event('a', 'Review'));
+    await engine.sync(server.client, COLLECTION);
+
+    server.expireTokens();
+    server.requests.length = 0;
+    const objects = await engine.sync(server.client, COLLECTION);
+
+    assert.deepStrictEqual(summaries(objects), ['Review']);
+    assert.deepStrictEqual(server.requests, [
+      'sync-collection',
+      'sync-collection',
+      'multiget 1',
+    ]);
+  });
+
+  it('should fall back to CTag and ETag comparison', async () => {
+    const server = createFakeServer({ supportsSync: false });
+    server.put('a.ics', event('a', 'Review'));
+    server.put('b.ics', event('b', 'Standup'));
+    await engine.sync(server.client, COLLECTION);
+
+    server.requests.length = 0;
+    await engine.sync(server.client, COLLECTION);
+    assert.deepStrictEqual(server.requests, ['getctag']);
+
+    server.put('b.ics', event('b', 'Standup (moved)'));
+    server.remove('a.ics');
+    server.requests.length = 0;
+    const objects = await engine.sync(server.client, COLLECTION);
+
+    assert.deepStrictEqual(summaries(objects), ['Standup (moved)']);
+    assert.deepStrictEqual(server.requests, [
+      'getctag',
+      'getetag',
+      'multiget 1',
+    ]);
+  });
+
+  it('should serve the cached copy while the server is down', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'caldav-sync-'));
+    try {
+      const server = createFakeServer({ supportsSync: false });
+      server.put('a.ics', event('a', 'Review'));
+      await new CalDavSyncEngine(new ComponentCache({ directory })).sync(
+        server.client,
+        COLLECTION,
+      );
+
+      // A fresh engine, as after a restart, starts from the cache
+      const restarted = new CalDavSyncEngine(new ComponentCache({ directory }));
+      server.requests.length = 0;
+      await restarted.sync(server.client, COLLECTION);
+      assert.deepStrictEqual(server.requests, ['getctag']);
+
+      server.setDown(true);
+      const objects = await restarted.sync(server.client, COLLECTION);
+      assert.deepStrictEqual(summaries(objects), ['Review']);
+
+      await assert.rejects(
+        new CalDavSyncEngine().sync(server.client, COLLECTION),
+        /CalDAV server unavailable/,
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should write the cache only when the collection changed', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'caldav-sync-'));
+    try {
+      const cache = new ComponentCache({ directory });
+      const saveCollection = cache.saveCollection.bind(cache);
+      let saves = 0;
+      cache.saveCollection = async (...args) => {
+        saves++;
+        await saveCollection(...args);
+      };
+      const synced = new CalDavSyncEngine(cache);
+      const server = createFakeServer({ supportsSync: false });
+      server.put('a.ics', event('a', 'Review'));
+
+      await synced.sync(server.client, COLLECTION);
+      await synced.sync(server.client, COLLECTION);
+      assert.strictEqual(saves, 1);
+
+      server.put('a.ics', event('a', 'Review (moved)'));
+      await synced.sync(server.client, COLLECTION);
+      assert.strictEqual(saves, 2);
+
+      // Deletions are written even when forget got there first
+      server.remove('a.ics');
+      synced.forget(server.client, COLLECTION, `${COLLECTION}a.ics`);
+      await synced.sync(server.client, COLLECTION);
+      assert.strictEqual(saves, 3);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should forget deleted objects while the server is down', async () => {
+    const server = createFakeServer();
+    server.put('a.ics', event('a', 'Review'));
+    server.put('b.ics', event('b', 'Standup'));
+    await engine.sync(server.client, COLLECTION);
+
+    engine.forget(server.client, COLLECTION, `${COLLECTION}a.ics`);
+    server.setDown(true);
+    const objects = await engine.sync(server.client, COLLECTION);
+    assert.deepStrictEqual(summaries(objects), ['Standup']);
+  });
+
+  it('should keep the copies of accounts apart', async () => {
+    const server = createFakeServer();
+    server.put('a.ics', event('a', 'Review'));
+    await engine.sync(server.client, COLLECTION);
+
+    engine.clear(server.client);
+
+    assert.strictEqual(engine.getCollectionCount(), 0);
+  });
+});
+
+/** Adds the PROPFIND answers calendar discovery needs. */
+function withDiscovery(server: ReturnType<typeof createFakeServer>) {
+  let down = false;
+  const client = Object.assign(server.client, {
+    async propfind({ url }: { url: string }) {
+      if (down) throw new TypeError('fetch failed');
+      if (url === SERVER_URL) {
+        return [
+          {
+            props: {
+              currentUserPrincipal: { href: '/principals/john/' },
+            },
+          },
+        ];
+      }
+      if (url === `${SERVER_URL}/principals/john/`) {
+        return [{ props: { calendarHomeSet: { href: HOME } } }];
+      }
+      return [
+        { href: HOME, props: { resourcetype: {} } },
+        {
+          href: COLLECTION,
+          props: { displayname: 'Work', resourcetype: { calendar: {} } },
+        },
+      ];
+    },
+  });
+  return {
+    client,
+    setDown: (value: boolean) => {
+      down = value;
+      server.setDown(value);
+    },
+  };
+}
+
+describe('CalDavRequestHandler with sync', () => {
+  it('should answer reads from the synced collection', async () => {
+    const server = createFakeServer();
+    server.put('a.ics', event('a', 'Review'));
+    server.put('b.ics', event('b', 'Standup'));
+    const { client } = withDiscovery(server);
+    const handler = new CalDavRequestHandler(undefined, { sync: true });
+
+    const response = await handler.handleRequest({
+      uri: 'caldav://principals/john/work/b',
+      client,
+    });
+
+    assert.strictEqual(response.status, 200);
+    assert.ok(response.content.includes('SUMMARY:Standup'));
+    assert.ok(!response.content.includes('SUMMARY:Review'));
+  });
+
+  it('should read from the disk cache after a restart without the server', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'caldav-handler-'));
+    try {
+      const server = createFakeServer();
+      server.put('b.ics', event('b', 'Standup'));
+      const { client, setDown } = withDiscovery(server);
+      const uri = 'caldav://principals/john/work/b';
+      await new CalDavRequestHandler(undefined, {
+        cache: { directory },
+      }).handleRequest({ uri, client });
+
+      setDown(true);
+      const handler = new CalDavRequestHandler(undefined, {
+        cache: { directory },
+      });
+      const response = await handler.handleRequest({ uri, client });
+
+      assert.strictEqual(response.status, 200);
+      assert.ok(response.content.includes('SUMMARY:Standup'));
+
+      const purge = await handler.handleToolCall({
+        name: 'purge_cache',
+        arguments: {},
+        client,
+      });
+      assert.strictEqual(JSON.parse(purge.content).collections, 1);
+      const after = await handler.handleRequest({ uri, client });
+      assert.strictEqual(after.status, 400);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
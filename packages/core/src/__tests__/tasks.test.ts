@@ -0,0 +1,126 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { completeTask, reopenTask, setTaskProgress } from '../tasks';
+
+describe('Task transitions', () => {
+  const now = new Date('2024-01-18T08:30:00Z');
+  const task = (...extra: string[]) =>
+    [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VTODO',
+      'UID:todo1@example.com',
+      'SUMMARY:Write report',
+      'DUE:20240120T170000Z',
+      'X-APPLE-SORT-ORDER:42',
+      ...extra,
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+  describe('completeTask', () => {
+    it('should set status, completion time and percentage', () => {
+      const result = completeTask(
+        task('STATUS:IN-PROCESS'),
+        'todo1@example.com',
+        now,
+      );
+
+      assert.strictEqual(result.status, 'COMPLETED');
+      assert.ok(result.data.includes('STATUS:COMPLETED'));
+      assert.ok(result.data.includes('COMPLETED:20240118T083000Z'));
+      assert.ok(result.data.includes('PERCENT-COMPLETE:100'));
+      assert.ok(result.data.includes('LAST-MODIFIED:20240118T083000Z'));
+      assert.ok(result.data.includes('SEQUENCE:1'));
+      assert.ok(result.data.includes('X-APPLE-SORT-ORDER:42'));
+      assert.ok(!result.data.includes('STATUS:IN-PROCESS'));
+    });
+
+    it('should advance a recurring task instead of closing it', () => {
+      const result = completeTask(
+        task(
+          'DTSTART;TZID=Europe/Berlin:20240116T090000',
+          'RRULE:FREQ=WEEKLY;COUNT=3',
+        ),
+        'todo1@example.com',
+        now,
+      );
+
+      assert.strictEqual(result.status, 'NEEDS-ACTION');
+      assert.strictEqual(result.advancedTo, '20240127T170000Z');
+      assert.ok(
+        result.data.includes('DTSTART;TZID=Europe/Berlin:20240123T090000'),
+      );
+      assert.ok(result.data.includes('DUE:20240127T170000Z'));
+      assert.ok(result.data.includes('RRULE:FREQ=WEEKLY;COUNT=2'));
+      assert.ok(!result.data.includes('COMPLETED:'));
+    });
+
+    it('should complete the series after its last occurrence', () => {
+      const result = completeTask(
+        task('DTSTART:20240116T090000Z', 'RRULE:FREQ=DAILY;COUNT=1'),
+        'todo1@example.com',
+        now,
+      );
+
+      assert.strictEqual(result.status, 'COMPLETED');
+      assert.strictEqual(result.advancedTo, undefined);
+    });
+
+    it('should refuse components that are not tasks', () => {
+      const event = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:event1@example.com',
+        'DTSTART:20240116T090000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      assert.throws(
+        () => completeTask(event, 'event1@example.com', now),
+        /not a VTODO/,
+      );
+    });
+  });
+
+  describe('reopenTask', () => {
+    it('should reset a completed task', () => {
+      const result = reopenTask(
+        task(
+          'STATUS:COMPLETED',
+          'COMPLETED:20240117T100000Z',
+          'PERCENT-COMPLETE:100',
+        ),
+        'todo1@example.com',
+        now,
+      );
+
+      assert.strictEqual(result.status, 'NEEDS-ACTION');
+      assert.ok(result.data.includes('STATUS:NEEDS-ACTION'));
+      assert.ok(result.data.includes('PERCENT-COMPLETE:0'));
+      assert.ok(!result.data.includes('COMPLETED:2024'));
+    });
+  });
+
+  describe('setTaskProgress', () => {
+    it('should mark partially done tasks as in process', () => {
+      const result = setTaskProgress(task(), 'todo1@example.com', 40, now);
+
+      assert.strictEqual(result.status, 'IN-PROCESS');
+      assert.ok(result.data.includes('PERCENT-COMPLETE:40'));
+    });
+
+    it('should complete tasks at 100 percent', () => {
+      const result = setTaskProgress(task(), 'todo1@example.com', 100, now);
+      assert.strictEqual(result.status, 'COMPLETED');
+    });
+
+    it('should reject out of range values', () => {
+      assert.throws(
+        () => setTaskProgress(task(), 'todo1@example.com', 120, now),
+        /between 0 and 100/,
+      );
+    });
+  });
+});
@@ -103,11 +103,12 @@ describe('Template functions', () => {
   describe('getAllTemplates', () => {
     it('should return all templates', () => {
       const templates = getAllTemplates();
-      assert.strictEqual(templates.length, 5);
+      assert.strictEqual(templates.length, 6);
       assert.ok(templates.find((t) => t.name === 'components-range'));
       assert.ok(templates.find((t) => t.name === 'components-by-cat'));
       assert.ok(templates.find((t) => t.name === 'component-by-uid'));
       assert.ok(templates.find((t) => t.name === 'components-query'));
+      assert.ok(templates.find((t) => t.name === 'freebusy'));
       assert.ok(templates.find((t) => t.name === 'metadata-list-cals'));
     });
   });
@@ -0,0 +1,150 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { formatCalDavDateTime, parseDateInput, parseICalDate } from '../ical';
+import {
+  formatInTimeZone,
+  registerTimeZones,
+  resolveTimeZone,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from '../timezone';
+
+const wallClock = (value: string) => new Date(`${value}Z`);
+
+describe('Time zone functions', () => {
+  describe('resolveTimeZone', () => {
+    it('should resolve IANA, vendor-prefixed and Windows names', () => {
+      assert.strictEqual(resolveTimeZone('Europe/Berlin')?.id, 'Europe/Berlin');
+      assert.strictEqual(
+        resolveTimeZone('/mozilla.org/20050126_1/Europe/Berlin')?.id,
+        'Europe/Berlin',
+      );
+      assert.strictEqual(
+        resolveTimeZone('W. Europe Standard Time')?.id,
+        'Europe/Berlin',
+      );
+    });
+
+    it('should return null for unknown zones', () => {
+      assert.strictEqual(resolveTimeZone('Mars/Olympus_Mons'), null);
+    });
+
+    it('should resolve zones defined by VTIMEZONE', () => {
+      registerTimeZones(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VTIMEZONE',
+          'TZID:Custom Central',
+          'BEGIN:STANDARD',
+          'DTSTART:19701025T030000',
+          'TZOFFSETFROM:+0200',
+          'TZOFFSETTO:+0100',
+          'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+          'END:STANDARD',
+          'BEGIN:DAYLIGHT',
+          'DTSTART:19700329T020000',
+          'TZOFFSETFROM:+0100',
+          'TZOFFSETTO:+0200',
+          'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+          'END:DAYLIGHT',
+          'END:VTIMEZONE',
+          'END:VCALENDAR',
+        ].join('\r\n'),
+      );
+
+      assert.strictEqual(
+        parseICalDate('20240115T090000 (Custom Central)').toISOString(),
+        '2024-01-15T08:00:00.000Z',
+      );
+      assert.strictEqual(
+        parseICalDate('20240715T090000 (Custom Central)').toISOString(),
+        '2024-07-15T07:00:00.000Z',
+      );
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    const berlin = resolveTimeZone('Europe/Berlin');
+    assert.ok(berlin);
+
+    it('should apply standard and daylight saving offsets', () => {
+      assert.strictEqual(
+        zonedTimeToUtc(wallClock('2024-01-15T09:00:00'), berlin).toISOString(),
+        '2024-01-15T08:00:00.000Z',
+      );
+      assert.strictEqual(
+        zonedTimeToUtc(wallClock('2024-07-15T09:00:00'), berlin).toISOString(),
+        '2024-07-15T07:00:00.000Z',
+      );
+    });
+
+    it('should move times in a DST gap forward', () => {
+      // 02:30 does not exist on 2024-03-31 in Berlin
+      assert.strictEqual(
+        zonedTimeToUtc(wallClock('2024-03-31T02:30:00'), berlin).toISOString(),
+        '2024-03-31T01:30:00.000Z',
+      );
+    });
+
+    it('should resolve repeated times to their first occurrence', () => {
+      assert.strictEqual(
+        zonedTimeToUtc(wallClock('2024-10-27T02:30:00'), berlin).toISOString(),
+        '2024-10-27T00:30:00.000Z',
+      );
+    });
+
+    it('should round-trip through utcToZonedTime', () => {
+      const instant = new Date('2024-07-15T07:00:00Z');
+      assert.strictEqual(
+        utcToZonedTime(instant, berlin).toISOString(),
+        '2024-07-15T09:00:00.000Z',
+      );
+    });
+  });
+
+  describe('formatInTimeZone', () => {
+    it('should format with the offset in effect', () => {
+      const instant = new Date('2024-07-15T07:00:00Z');
+      assert.strictEqual(
+        formatInTimeZone(instant, 'Europe/Berlin'),
+        '2024-07-15T09:00:00+02:00',
+      );
+      assert.strictEqual(
+        formatInTimeZone(instant, 'America/New_York'),
+        '2024-07-15T03:00:00-04:00',
+      );
+      assert.strictEqual(
+        formatInTimeZone(instant, 'UTC'),
+        '2024-07-15T07:00:00Z',
+      );
+    });
+  });
+
+  describe('parseDateInput', () => {
+    it('should interpret local times in the given zone', () => {
+      assert.strictEqual(
+        parseDateInput('2024-01-15T09:00', 'Europe/Berlin').toISOString(),
+        '2024-01-15T08:00:00.000Z',
+      );
+      assert.strictEqual(
+        parseDateInput('2024-01-15', 'America/New_York').toISOString(),
+        '2024-01-15T05:00:00.000Z',
+      );
+    });
+
+    it('should keep explicit offsets', () => {
+      assert.strictEqual(
+        formatCalDavDateTime('2024-01-15T09:00:00+02:00', 'Europe/Berlin'),
+        '2024-01-15T07:00:00Z',
+      );
+    });
+
+    it('should reject unknown zones and invalid values', () => {
+      assert.throws(
+        () => parseDateInput('2024-01-15', 'Mars/Olympus_Mons'),
+        /Unknown time zone: Mars\/Olympus_Mons/,
+      );
+      assert.throws(() => parseDateInput('next tuesday'), /Invalid date\/time/);
+    });
+  });
+});
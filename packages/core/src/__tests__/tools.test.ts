@@ -0,0 +1,119 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  CALDAV_TOOLS,
+  getAllTools,
+  getTool,
+  validateToolArguments,
+} from '../tools';
+
+describe('Tool functions', () => {
+  describe('validateToolArguments', () => {
+    it('should validate create_component arguments', () => {
+      const result = validateToolArguments('create_component', {
+        calendarId: 'work',
+        comp: 'VEVENT',
+        summary: 'Planning',
+        start: '2024-01-15T09:00:00Z',
+        categories: ['Work'],
+      });
+
+      assert.strictEqual(result.isValid, true);
+      assert.strictEqual(result.errors.length, 0);
+    });
+
+    it('should fail validation for missing required arguments', () => {
+      const result = validateToolArguments('create_component', {
+        comp: 'VEVENT',
+      });
+
+      assert.strictEqual(result.isValid, false);
+      assert.ok(result.errors.some((e) => e.includes('calendarId')));
+      assert.ok(result.errors.some((e) => e.includes('summary')));
+    });
+
+    it('should fail validation for invalid enum value', () => {
+      const result = validateToolArguments('create_component', {
+        calendarId: 'work',
+        comp: 'VCARD',
+        summary: 'Planning',
+      });
+
+      assert.strictEqual(result.isValid, false);
+      assert.ok(
+        result.errors.some((e) => e.includes('Invalid value for comp')),
+      );
+    });
+
+    it('should fail validation for wrong argument types', () => {
+      const result = validateToolArguments('create_component', {
+        calendarId: 'work',
+        comp: 'VTODO',
+        summary: 'Planning',
+        categories: 'Work',
+      });
+
+      assert.strictEqual(result.isValid, false);
+      assert.ok(result.errors.some((e) => e.includes('categories')));
+    });
+
+    it('should fail for unknown arguments', () => {
+      const result = validateToolArguments('create_component', {
+        calendarId: 'work',
+        comp: 'VTODO',
+        summary: 'Planning',
+        color: 'red',
+      });
+
+      assert.strictEqual(result.isValid, false);
+      assert.ok(result.errors.some((e) => e.includes('Unknown argument')));
+    });
+
+    it('should fail for unknown tool', () => {
+      const result = validateToolArguments('unknown_tool', {});
+      assert.strictEqual(result.isValid, false);
+      assert.ok(result.errors.some((e) => e.includes('Unknown tool')));
+    });
+  });
+
+  describe('getTool', () => {
+    it('should return tool by name', () => {
+      const tool = getTool('create_component');
+      assert.ok(tool);
+      assert.strictEqual(tool.name, 'create_component');
+    });
+
+    it('should return undefined for unknown tool', () => {
+      assert.strictEqual(getTool('unknown'), undefined);
+    });
+  });
+
+  describe('getAllTools', () => {
+    it('should return all tools', () => {
+      const tools = getAllTools();
+      assert.ok(tools.find((t) => t.name === 'create_component'));
+    });
+  });
+});
+
+describe('CALDAV_TOOLS', () => {
+  it('should have correct tool structure', () => {
+    for (const tool of CALDAV_TOOLS) {
+      assert.ok(tool.name);
+      assert.ok(tool.description);
+      assert.strictEqual(tool.inputSchema.type, 'object');
+
+      for (const required of tool.inputSchema.required ?? []) {
+        assert.ok(tool.inputSchema.properties[required]);
+      }
+      for (const property of Object.values(tool.inputSchema.properties)) {
+        assert.ok(property.description);
+      }
+    }
+  });
+
+  it('should have unique tool names', () => {
+    const names = CALDAV_TOOLS.map((t) => t.name);
+    assert.strictEqual(names.length, new Set(names).size);
+  });
+});
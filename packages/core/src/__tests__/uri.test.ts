@@ -7,6 +7,7 @@ import {
   getTimeRange,
   isMetadataRequest,
   parseCalDavUri,
+  parseTextFilter,
 } from '../uri';
 
 describe('CalDavUriParser', () => {
@@ -44,6 +45,48 @@ describe('CalDavUriParser', () => {
       assert.strictEqual(result.variables.uid, 'event123');
     });
 
+    it('should parse freebusy URI', () => {
+      const uri =
+        'caldav://users/john/calendar1/_freebusy?start=2024-01-01&end=2024-01-08&format=json';
+      const result = parseCalDavUri(uri);
+
+      assert.strictEqual(result.templateName, 'freebusy');
+      assert.strictEqual(result.variables.principal, 'users/john');
+      assert.strictEqual(result.variables.calendarId, 'calendar1');
+      assert.strictEqual(result.variables.start, '2024-01-01');
+      assert.strictEqual(result.variables.end, '2024-01-08');
+      assert.strictEqual(result.variables.format, 'json');
+    });
+
+    it('should parse components-query URI for tasks', () => {
+      const uri = `caldav://users/john/calendar1/VTODO?filter=${encodeURIComponent("status == 'NEEDS-ACTION'")}`;
+      const result = parseCalDavUri(uri);
+
+      assert.strictEqual(result.templateName, 'components-query');
+      assert.strictEqual(result.variables.comp, 'VTODO');
+      assert.strictEqual(result.variables.jmes, "status == 'NEEDS-ACTION'");
+    });
+
+    it('should parse components-query URI without an expression', () => {
+      const result = parseCalDavUri(
+        'caldav://users/john/calendar1/VTODO?status=COMPLETED&completedStart=2024-01-01',
+      );
+
+      assert.strictEqual(result.templateName, 'components-query');
+      assert.strictEqual(result.variables.status, 'COMPLETED');
+      assert.strictEqual(result.variables.completedStart, '2024-01-01');
+    });
+
+    it('should parse component-by-uid URI with a format', () => {
+      const result = parseCalDavUri(
+        'caldav://users/john/calendar1/event-1?format=jcal',
+      );
+
+      assert.strictEqual(result.templateName, 'component-by-uid');
+      assert.strictEqual(result.variables.uid, 'event-1');
+      assert.strictEqual(result.variables.format, 'jcal');
+    });
+
     it('should parse metadata-list-cals URI', () => {
       const uri = 'caldav://users/john/_meta/calendars';
       const result = parseCalDavUri(uri);
@@ -83,6 +126,32 @@ describe('CalDavUriParser', () => {
       );
     });
 
+    it('should include optional query variables when given', () => {
+      const uri = buildCalDavUri('components-range', {
+        principal: 'john',
+        calendarId: 'calendar1',
+        comp: 'VEVENT',
+        start: '2024-01-01',
+        end: '2024-01-31',
+        expand: 'true',
+      });
+      assert.strictEqual(
+        uri,
+        'caldav://john/calendar1/VEVENT?start=2024-01-01&end=2024-01-31&expand=true',
+      );
+      assert.strictEqual(parseCalDavUri(uri).variables.expand, 'true');
+    });
+
+    it('should drop an optional first query variable', () => {
+      const uri = buildCalDavUri('component-by-uid', {
+        principal: 'users/john',
+        calendarId: 'calendar1',
+        uid: 'event-1',
+      });
+
+      assert.strictEqual(uri, 'caldav://users%2Fjohn/calendar1/event-1');
+    });
+
     it('should throw error for unknown template', () => {
       assert.throws(() => buildCalDavUri('unknown', {}), /Unknown template/);
     });
@@ -143,4 +212,20 @@ describe('CalDavUriParser', () => {
       assert.strictEqual(parsed.variables.end, originalVars.end);
     });
   });
+
+  describe('parseTextFilter', () => {
+    it('should read properties, parameters and negation', () => {
+      assert.deepStrictEqual(parseTextFilter('summary:Weekly: sync'), {
+        property: 'SUMMARY',
+        value: 'Weekly: sync',
+      });
+      assert.deepStrictEqual(parseTextFilter('!ATTENDEE;partstat:declined'), {
+        property: 'ATTENDEE',
+        value: 'declined',
+        parameter: 'PARTSTAT',
+        negate: true,
+      });
+      assert.throws(() => parseTextFilter('review'), /Invalid text filter/);
+    });
+  });
 });
@@ -0,0 +1,81 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { parseYaml } from '../yaml';
+
+describe('parseYaml', () => {
+  it('should parse nested mappings and scalars', () => {
+    const source = [
+      '# CalDAV account',
+      'serverUrl: https://cal.example.com/dav # comment',
+      'sync: true',
+      'pollInterval: 30000',
+      'credentials:',
+      '  username: "john"',
+      "  password: 'it''s # secret'",
+      'timeZone: ~',
+    ].join('\n');
+
+    assert.deepStrictEqual(parseYaml(source), {
+      serverUrl: 'https://cal.example.com/dav',
+      sync: true,
+      pollInterval: 30000,
+      credentials: { username: 'john', password: "it's # secret" },
+      timeZone: null,
+    });
+  });
+
+  it('should parse block and flow sequences', () => {
+    const source = [
+      'accounts:',
+      '- name: work',
+      '  calendars: [work, "team, shared"]',
+      '- name: home',
+      'tags:',
+      '  - a',
+      '  - b',
+    ].join('\n');
+
+    assert.deepStrictEqual(parseYaml(source), {
+      accounts: [
+        { name: 'work', calendars: ['work', 'team, shared'] },
+        { name: 'home' },
+      ],
+      tags: ['a', 'b'],
+    });
+  });
+
+  it('should parse flow mappings', () => {
+    const source = [
+      'credentials:',
+      '  password: { env: CALDAV_PASSWORD }',
+      '  clientSecret: { command: "pass show caldav, work" }',
+      'empty: {}',
+    ].join('\n');
+
+    assert.deepStrictEqual(parseYaml(source), {
+      credentials: {
+        password: { env: 'CALDAV_PASSWORD' },
+        clientSecret: { command: 'pass show caldav, work' },
+      },
+      empty: {},
+    });
+    assert.throws(
+      () => parseYaml('a: { b: 1, b: 2 }'),
+      /line 1: duplicate key b/,
+    );
+    assert.throws(() => parseYaml('a: { b: 1'), /unterminated flow mapping/);
+  });
+
+  it('should report what it cannot read with the line', () => {
+    assert.throws(
+      () => parseYaml('a: 1\n   b: 2'),
+      /Invalid YAML at line 2: unexpected indentation/,
+    );
+    assert.throws(() => parseYaml('a: 1\na: 2'), /line 2: duplicate key a/);
+    assert.throws(
+      () => parseYaml('password: &anchor x'),
+      /unsupported syntax &anchor x/,
+    );
+    assert.throws(() => parseYaml('a: "open'), /unterminated string/);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  type CalDavClient,
+  type CalDavClientOptions,
+  createCalDavClient,
+} from './caldav';
+import { type CalDavAccessPolicy, validateAccessPolicy } from './policy';
+import { parseCalDavUri } from './uri';
+
+/**
+ * Connection options of one of several accounts, told apart by name. The
+ * policy applies to this account on top of the server-wide one.
+ */
+export type CalDavAccountOptions = CalDavClientOptions & {
+  name: string;
+  policy?: CalDavAccessPolicy;
+};
+
+export interface CalDavAccount {
+  name: string;
+  client: CalDavClient;
+  policy?: CalDavAccessPolicy;
+}
+
+/** Name of the account when the server is given a single one */
+export const DEFAULT_ACCOUNT = 'default';
+
+const ACCOUNT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Turns the options the server was created with into a list of named
+ * accounts: a single account is called "default". Names must be unique and
+ * safe to use in URIs and tool arguments.
+ */
+export function normalizeAccountOptions(
+  options: CalDavClientOptions | CalDavAccountOptions[],
+): CalDavAccountOptions[] {
+  const accounts = Array.isArray(options)
+    ? options
+    : [{ ...options, name: DEFAULT_ACCOUNT }];
+  if (accounts.length === 0) {
+    throw new Error('At least one account is required');
+  }
+  const names = new Set<string>();
+  for (const account of accounts) {
+    if (!ACCOUNT_NAME.test(account.name ?? '')) {
+      throw new Error(
+        `Invalid account name: ${account.name}. Use letters, digits, ".", "_" and "-"`,
+      );
+    }
+    if (names.has(account.name)) {
+      throw new Error(`Duplicate account name: ${account.name}`);
+    }
+    names.add(account.name);
+    if (account.policy) validateAccessPolicy(account.policy);
+  }
+  return accounts;
+}
+
+/** Logs in to every account, in order. */
+export async function connectAccounts(
+  options: CalDavClientOptions | CalDavAccountOptions[],
+): Promise<CalDavAccount[]> {
+  const accounts: CalDavAccount[] = [];
+  for (const { name, policy, ...clientOptions } of normalizeAccountOptions(
+    options,
+  )) {
+    try {
+      accounts.push({
+        name,
+        client: await createCalDavClient(clientOptions as CalDavClientOptions),
+        ...(policy ? { policy } : {}),
+      });
+    } catch (error) {
+      throw new Error(
+        `Login to account ${name} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return accounts;
+}
+
+/** The account with the given name, or the first one when none is given. */
+export function selectAccount(
+  accounts: CalDavAccount[],
+  name?: string,
+): CalDavAccount {
+  if (name === undefined || name === '') return accounts[0];
+  const account = accounts.find((a) => a.name === name);
+  if (!account) {
+    throw new Error(
+      `Unknown account: ${name}. Available: ${accounts.map((a) => a.name).join(', ')}`,
+    );
+  }
+  return account;
+}
+
+/**
+ * The account a `caldav://` URI selects with its account parameter. URIs
+ * that do not parse go to the first account, which reports the error.
+ */
+export function selectAccountForUri(
+  accounts: CalDavAccount[],
+  uri: string,
+): CalDavAccount {
+  let name: string | undefined;
+  try {
+    name = parseCalDavUri(uri).variables.account;
+  } catch {
+    name = undefined;
+  }
+  return selectAccount(accounts, name);
+}
@@ -0,0 +1,276 @@
+import type { CalendarComponent } from './filters';
+import { parseICalDate, parseICalWallClock } from './ical';
+import { expandComponents } from './recurrence';
+import { type TimeZone, resolveTimeZone, utcToZonedTime } from './timezone';
+
+export interface AgendaOptions {
+  start: Date;
+  end: Date;
+  /** Zone the times and day boundaries are shown in (default UTC) */
+  timeZone?: string;
+}
+
+interface AgendaEntry {
+  /** Wall-clock time used for ordering, in the UTC fields */
+  sortKey: number;
+  line: string;
+}
+
+interface AgendaDay {
+  allDay: AgendaEntry[];
+  timed: AgendaEntry[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+function stripTzid(value: string): string {
+  return value.replace(/\s*\([^)]+\)\s*$/, '');
+}
+
+function isDateValue(value: string): boolean {
+  return /^\d{8}$/.test(stripTzid(value));
+}
+
+/**
+ * Wall-clock time of a stored date value in the agenda zone. Floating times
+ * and dates have no zone of their own and are shown as written.
+ */
+function localTime(value: string, zone: TimeZone): Date {
+  const plain = stripTzid(value);
+  if (isDateValue(value) || (!plain.endsWith('Z') && plain === value.trim())) {
+    return parseICalWallClock(value);
+  }
+  return utcToZonedTime(parseICalDate(value), zone);
+}
+
+function dayKey(local: Date): string {
+  return local.toISOString().slice(0, 10);
+}
+
+function formatTime(local: Date): string {
+  return local.toISOString().slice(11, 16);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').replace(/([\\`*_[\]#<>])/g, '\\$1');
+}
+
+function title(component: CalendarComponent): string {
+  const summary = escapeMarkdown(component.summary || '(no title)');
+  return component.status?.toUpperCase() === 'CANCELLED'
+    ? `~~${summary}~~`
+    : `**${summary}**`;
+}
+
+function details(component: CalendarComponent): string {
+  const parts: string[] = [];
+  if (component.location) {
+    parts.push(`@ ${escapeMarkdown(component.location)}`);
+  }
+  if (component.status?.toUpperCase() === 'TENTATIVE')
+    parts.push('(tentative)');
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
+function isDone(task: CalendarComponent): boolean {
+  return (
+    task.status?.toUpperCase() === 'COMPLETED' || task.completed !== undefined
+  );
+}
+
+function taskLine(
+  component: CalendarComponent,
+  zone: TimeZone,
+  showDueDay: boolean,
+): string {
+  const status = component.status?.toUpperCase();
+  const done = isDone(component);
+  const summary = escapeMarkdown(component.summary || '(no title)');
+  const parts = [
+    `- [${done ? 'x' : ' '}] ${status === 'CANCELLED' ? `~~${summary}~~` : summary}`,
+  ];
+  const priority = Number(component.priority);
+  // 0 means undefined priority (RFC 5545 section 3.8.1.9)
+  if (priority > 0) parts.push(`(priority ${priority})`);
+  if (typeof component.due === 'string') {
+    const due = localTime(component.due, zone);
+    const day = showDueDay ? `${dayKey(due)} ` : '';
+    parts.push(
+      isDateValue(component.due)
+        ? `due ${dayKey(due)}`
+        : `due ${day}${formatTime(due)}`,
+    );
+  }
+  if (typeof component['percent-complete'] === 'string' && !done) {
+    parts.push(`${component['percent-complete']}%`);
+  }
+  return parts.join(' ');
+}
+
+function addEntry(
+  days: Map<string, AgendaDay>,
+  key: string,
+  kind: keyof AgendaDay,
+  entry: AgendaEntry,
+) {
+  let day = days.get(key);
+  if (!day) {
+    day = { allDay: [], timed: [] };
+    days.set(key, day);
+  }
+  day[kind].push(entry);
+}
+
+/** Adds an event or journal entry to every day of the range it covers. */
+function addEvent(
+  days: Map<string, AgendaDay>,
+  component: CalendarComponent,
+  zone: TimeZone,
+  rangeStart: string,
+  rangeEnd: string,
+) {
+  const dtstart = component.dtstart as string;
+  const start = localTime(dtstart, zone);
+  const label = `${title(component)}${details(component)}`;
+
+  if (isDateValue(dtstart)) {
+    const end =
+      typeof component.dtend === 'string'
+        ? localTime(component.dtend, zone)
+        : new Date(start.getTime() + DAY);
+    // DTEND of an all-day event is exclusive
+    for (let day = start.getTime(); day < end.getTime(); day += DAY) {
+      const key = dayKey(new Date(day));
+      if (key < rangeStart || key > rangeEnd) continue;
+      addEntry(days, key, 'allDay', { sortKey: day, line: `- ${label}` });
+    }
+    if (end.getTime() <= start.getTime() && dayKey(start) >= rangeStart) {
+      addEntry(days, dayKey(start), 'allDay', {
+        sortKey: start.getTime(),
+        line: `- ${label}`,
+      });
+    }
+    return;
+  }
+
+  const key = dayKey(start);
+  let time =
+    key < rangeStart ? `${key} ${formatTime(start)}` : formatTime(start);
+  if (typeof component.dtend === 'string') {
+    const end = localTime(component.dtend, zone);
+    time +=
+      dayKey(end) === dayKey(start)
+        ? `–${formatTime(end)}`
+        : `–${dayKey(end)} ${formatTime(end)}`;
+  }
+  // Events that started before the range are listed on its first day
+  addEntry(days, key < rangeStart ? rangeStart : key, 'timed', {
+    sortKey: start.getTime(),
+    line: `- ${time} ${label}`,
+  });
+}
+
+/**
+ * Renders components as a Markdown agenda: one section per day in the
+ * given zone with all-day entries first, tasks as checklist items on the
+ * day they are due, and tasks without any date in a section of their own.
+ * Recurring events are expanded to their instances in the range.
+ */
+export function renderAgenda(
+  components: CalendarComponent[],
+  options: AgendaOptions,
+): string {
+  const timeZone = options.timeZone ?? 'UTC';
+  const zone = resolveTimeZone(timeZone);
+  if (!zone) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  const rangeStart = dayKey(utcToZonedTime(options.start, zone));
+  // The end is exclusive
+  const rangeEnd = dayKey(
+    utcToZonedTime(new Date(options.end.getTime() - 1), zone),
+  );
+
+  const tasks = components.filter((c) => c.componentType === 'VTODO');
+  // Overrides are matched to their masters before anything is dropped, so
+  // an instance moved out of the range does not show up at its old time
+  const events = expandComponents(
+    components.filter((c) => c.componentType !== 'VTODO'),
+    options.start,
+    options.end,
+  );
+
+  const days = new Map<string, AgendaDay>();
+  for (const component of events) {
+    addEvent(days, component, zone, rangeStart, rangeEnd);
+  }
+
+  const undated: AgendaEntry[] = [];
+  for (const task of tasks) {
+    const anchor = typeof task.due === 'string' ? task.due : task.dtstart;
+    if (!anchor) {
+      // Undefined priority (0) sorts last
+      undated.push({
+        sortKey: Number(task.priority) || 10,
+        line: taskLine(task, zone, false),
+      });
+      continue;
+    }
+    const local = localTime(anchor, zone);
+    const key = dayKey(local);
+    if (key > rangeEnd) continue;
+    // Overdue open tasks stay visible on the first day of the agenda
+    if (key < rangeStart && isDone(task)) continue;
+    addEntry(
+      days,
+      key < rangeStart ? rangeStart : key,
+      isDateValue(anchor) ? 'allDay' : 'timed',
+      {
+        sortKey: local.getTime(),
+        line: taskLine(task, zone, key < rangeStart),
+      },
+    );
+  }
+
+  const lines = [`# Agenda ${rangeStart} – ${rangeEnd} (${timeZone})`];
+  const byTime = (a: AgendaEntry, b: AgendaEntry) => a.sortKey - b.sortKey;
+  for (const key of [...days.keys()].sort()) {
+    const day = days.get(key) as AgendaDay;
+    const weekday = WEEKDAYS[new Date(`${key}T00:00:00Z`).getUTCDay()];
+    lines.push('', `## ${weekday}, ${key}`);
+    if (day.allDay.length > 0) {
+      lines.push(
+        '',
+        '### All day',
+        ...day.allDay.sort(byTime).map((e) => e.line),
+      );
+    }
+    if (day.timed.length > 0) {
+      lines.push('', ...day.timed.sort(byTime).map((e) => e.line));
+    }
+  }
+  if (undated.length > 0) {
+    lines.push(
+      '',
+      '## No date',
+      '',
+      ...undated.sort(byTime).map((e) => e.line),
+    );
+  }
+  if (days.size === 0 && undated.length === 0) {
+    lines.push('', '_Nothing scheduled._');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,214 @@
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DiscoveryResult } from './discovery';
+import type { CalendarObject } from './objects';
+
+export interface ComponentCacheOptions {
+  /** Directory the cache files are written to */
+  directory: string;
+  /** Upper bound for all cached collections together (default 50 MiB) */
+  maxBytes?: number;
+}
+
+/** What is kept of a collection between runs */
+export interface CachedCollection {
+  href: string;
+  syncToken?: string;
+  supportsSync: boolean;
+  ctag?: string;
+  objects: CalendarObject[];
+}
+
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+// Names of the account directories, as made by hash()
+const ACCOUNT_DIRECTORY = /^[0-9a-f]{32}$/;
+
+// Calendars are private; nobody but the owner may read the copies
+const DIRECTORY_MODE = 0o700;
+const FILE_MODE = 0o600;
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * On-disk JSON cache of calendar objects with their ETags and the state
+ * needed to sync them (CTag, sync token). Every account gets a directory
+ * of its own, named after a hash of its `serverUrl:username` key; when the
+ * cache outgrows its limit the least recently used collections are dropped.
+ */
+export class ComponentCache {
+  private readonly directory: string;
+  private readonly maxBytes: number;
+
+  constructor(options: ComponentCacheOptions) {
+    if (!options.directory) {
+      throw new Error('Cache directory is required');
+    }
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (!(this.maxBytes > 0)) {
+      throw new Error('Cache size limit must be positive');
+    }
+  }
+
+  async loadCollection(
+    account: string,
+    href: string,
+  ): Promise<CachedCollection | null> {
+    const file = this.collectionFile(account, href);
+    const collection = await this.readJson<CachedCollection>(file);
+    if (collection?.href !== href) return null;
+    // The modification time doubles as last use for eviction
+    const now = new Date();
+    await utimes(file, now, now).catch(() => undefined);
+    return collection;
+  }
+
+  async saveCollection(
+    account: string,
+    collection: CachedCollection,
+  ): Promise<void> {
+    const file = this.collectionFile(account, collection.href);
+    const content = JSON.stringify(collection);
+    if (Buffer.byteLength(content) > this.maxBytes) {
+      // Larger than the whole cache; keeping an old copy would be wrong
+      await rm(file, { force: true });
+      return;
+    }
+    await mkdir(join(this.accountDirectory(account), 'collections'), {
+      recursive: true,
+      mode: DIRECTORY_MODE,
+    });
+    await writeFile(file, content, { mode: FILE_MODE });
+    await this.evict(file);
+  }
+
+  async loadDiscovery(account: string): Promise<DiscoveryResult | null> {
+    return await this.readJson<DiscoveryResult>(this.discoveryFile(account));
+  }
+
+  async saveDiscovery(
+    account: string,
+    discovery: DiscoveryResult,
+  ): Promise<void> {
+    await mkdir(this.accountDirectory(account), {
+      recursive: true,
+      mode: DIRECTORY_MODE,
+    });
+    await writeFile(this.discoveryFile(account), JSON.stringify(discovery), {
+      mode: FILE_MODE,
+    });
+  }
+
+  /**
+   * Removes the cached data of one account, or of all accounts. Returns the
+   * number of collections removed. Anything else in the directory is left
+   * alone, as it may be shared with other files.
+   */
+  async purge(account?: string): Promise<number> {
+    const accounts = account
+      ? [this.accountDirectory(account)]
+      : (await this.accountDirectories()).map((name) =>
+          join(this.directory, name),
+        );
+
+    let removed = 0;
+    for (const directory of accounts) {
+      removed += (await this.listDirectory(join(directory, 'collections')))
+        .length;
+      await rm(directory, { recursive: true, force: true });
+    }
+    return removed;
+  }
+
+  /** Total size of the cached collections in bytes */
+  async size(): Promise<number> {
+    const files = await this.collectionFiles();
+    return files.reduce((total, file) => total + file.size, 0);
+  }
+
+  private accountDirectory(account: string): string {
+    return join(this.directory, hash(account));
+  }
+
+  private collectionFile(account: string, href: string): string {
+    return join(
+      this.accountDirectory(account),
+      'collections',
+      `${hash(href)}.json`,
+    );
+  }
+
+  private discoveryFile(account: string): string {
+    return join(this.accountDirectory(account), 'discovery.json');
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as T;
+    } catch {
+      // Missing or damaged files are a cache miss
+      return null;
+    }
+  }
+
+  private async listDirectory(directory: string): Promise<string[]> {
+    try {
+      return await readdir(directory);
+    } catch {
+      return [];
+    }
+  }
+
+  private async accountDirectories(): Promise<string[]> {
+    const names = await this.listDirectory(this.directory);
+    const directories: string[] = [];
+    for (const name of names) {
+      if (!ACCOUNT_DIRECTORY.test(name)) continue;
+      const stats = await stat(join(this.directory, name)).catch(() => null);
+      if (stats?.isDirectory()) directories.push(name);
+    }
+    return directories;
+  }
+
+  private async collectionFiles(): Promise<
+    Array<{ path: string; size: number; used: number }>
+  > {
+    const files: Array<{ path: string; size: number; used: number }> = [];
+    for (const account of await this.accountDirectories()) {
+      const directory = join(this.directory, account, 'collections');
+      for (const name of await this.listDirectory(directory)) {
+        const path = join(directory, name);
+        const stats = await stat(path).catch(() => null);
+        if (stats) {
+          files.push({ path, size: stats.size, used: stats.mtimeMs });
+        }
+      }
+    }
+    return files;
+  }
+
+  /** Drops least recently used collections until the cache fits again. */
+  private async evict(keep: string): Promise<void> {
+    const files = await this.collectionFiles();
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    files.sort((a, b) => a.used - b.used);
+    for (const file of files) {
+      if (total <= this.maxBytes) break;
+      if (file.path === keep) continue;
+      await rm(file.path, { force: true });
+      total -= file.size;
+    }
+  }
+}
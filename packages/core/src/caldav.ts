@@ -1,16 +1,22 @@
-import { createDAVClient } from 'tsdav';
+import { DAVClient } from 'tsdav';
+import {
+  type CalDavSecret,
+  type OAuthToken,
+  requestAccessToken,
+  resolveSecret,
+} from './credentials';
 
 export interface CalDavCredentialsOAuth {
   tokenUrl: string;
   username: string;
-  refreshToken: string;
+  refreshToken: CalDavSecret;
   clientId: string;
-  clientSecret: string;
+  clientSecret: CalDavSecret;
 }
 
 export interface CalDavCredentialsBasic {
   username: string;
-  password: string;
+  password: CalDavSecret;
 }
 
 export type CalDavCredentials = CalDavCredentialsOAuth | CalDavCredentialsBasic;
@@ -38,12 +44,175 @@ export type CalDavClientOptions =
   | CalDavClientOptionsOAuth
   | CalDavClientOptionsBasic;
 
+/** Start of the error raised when the server keeps rejecting credentials */
+export const AUTHENTICATION_FAILED = 'CalDAV authentication failed';
+
+// Access tokens are renewed this long before they expire
+const TOKEN_EXPIRY_MARGIN = 60000;
+
+// Client methods that send requests, wrapped to renew credentials on 401
+const REQUEST_METHODS = [
+  'davRequest',
+  'propfind',
+  'calendarQuery',
+  'calendarMultiGet',
+  'createObject',
+  'updateObject',
+  'deleteObject',
+  'makeCalendar',
+  'syncCollection',
+] as const;
+
+/** Whether a response, or any of a list of responses, is a 401. */
+function isUnauthorized(result: unknown): boolean {
+  const responses = Array.isArray(result) ? result : [result];
+  return responses.some(
+    (response) =>
+      typeof response === 'object' &&
+      response !== null &&
+      (response as { status?: unknown }).status === 401,
+  );
+}
+
+/** Replaces the authorization header a caller passed along explicitly. */
+function withAuthHeaders(
+  params: unknown,
+  authHeaders: Record<string, string>,
+): unknown {
+  const headers = (params as { headers?: Record<string, string> } | undefined)
+    ?.headers;
+  if (!headers) return params;
+  const rest = Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => name.toLowerCase() !== 'authorization',
+    ),
+  );
+  return {
+    ...(params as object),
+    headers:
+      Object.keys(rest).length < Object.keys(headers).length
+        ? { ...rest, ...authHeaders }
+        : headers,
+  };
+}
+
+/**
+ * Logs in to a CalDAV server. Secrets are read from their providers at
+ * login and again whenever the credentials are renewed, see
+ * renewOnUnauthorized.
+ */
 export const createCalDavClient = async (options: CalDavClientOptions) => {
-  const base = { defaultAccountType: 'caldav' as const, ...options };
-  if (base.authMethod === 'OAuth') {
-    return await createDAVClient({ ...base, authMethod: 'Oauth' });
-  }
-  return await createDAVClient(base);
+  let token: OAuthToken | undefined;
+
+  const authenticate = async (): Promise<Record<string, string>> => {
+    const { credentials } = options;
+    if (options.authMethod === 'OAuth') {
+      const oauth = credentials as CalDavCredentialsOAuth;
+      token = await requestAccessToken({
+        tokenUrl: oauth.tokenUrl,
+        clientId: oauth.clientId,
+        // A refresh token the server rotated replaces the configured one
+        refreshToken:
+          token?.refreshToken ??
+          (await resolveSecret(oauth.refreshToken, 'refresh token')),
+        clientSecret: await resolveSecret(oauth.clientSecret, 'client secret'),
+      });
+      return { authorization: `Bearer ${token.accessToken}` };
+    }
+    const password = await resolveSecret(
+      (credentials as CalDavCredentialsBasic).password,
+      'password',
+    );
+    return {
+      authorization: `Basic ${Buffer.from(`${credentials.username}:${password}`).toString('base64')}`,
+    };
+  };
+
+  // The class-based client keeps serverUrl, credentials and authHeaders
+  // accessible, which conditional writes (If-Match) need to merge headers.
+  // Only the username is handed over; secrets stay with their providers.
+  const client = new DAVClient({
+    serverUrl: options.serverUrl,
+    credentials: { username: options.credentials.username },
+    defaultAccountType: options.defaultAccountType ?? 'caldav',
+    authMethod: 'Custom',
+    authFunction: authenticate,
+  });
+  await client.login();
+
+  renewOnUnauthorized(client, authenticate, {
+    username: options.credentials.username,
+    expiresAt: () => token?.expiresAt,
+  });
+  return client;
 };
 
+/**
+ * Wraps the request methods of a client so that a 401 makes it
+ * authenticate again and send the request once more, and so that
+ * credentials are renewed ahead of their expiry. Requests failing at the
+ * same time share one renewal.
+ */
+export function renewOnUnauthorized(
+  client: { authHeaders?: Record<string, string> },
+  authenticate: () => Promise<Record<string, string>>,
+  options: { username: string; expiresAt?: () => number | undefined },
+): void {
+  let renewal: Promise<void> | undefined;
+  const renew = () => {
+    renewal ??= authenticate()
+      .then((headers) => {
+        client.authHeaders = headers;
+      })
+      .finally(() => {
+        renewal = undefined;
+      });
+    return renewal;
+  };
+
+  const methods = client as unknown as Record<
+    string,
+    ((params: unknown) => Promise<unknown>) | undefined
+  >;
+  for (const name of REQUEST_METHODS) {
+    const method = methods[name];
+    if (!method) continue;
+    const send = method.bind(client);
+    methods[name] = async (params) => {
+      const expiresAt = options.expiresAt?.();
+      if (
+        expiresAt !== undefined &&
+        Date.now() >= expiresAt - TOKEN_EXPIRY_MARGIN
+      ) {
+        await renew();
+      }
+      const used = client.authHeaders;
+      const result = await send(params);
+      if (!isUnauthorized(result)) return result;
+
+      // Another request may have renewed the credentials meanwhile
+      if (client.authHeaders === used) await renew();
+      if (client.authHeaders?.authorization === used?.authorization) {
+        throw new Error(
+          `${AUTHENTICATION_FAILED}: the server rejected the credentials of ${options.username}`,
+        );
+      }
+      const retried = await send(
+        withAuthHeaders(params, client.authHeaders ?? {}),
+      );
+      if (isUnauthorized(retried)) {
+        throw new Error(
+          `${AUTHENTICATION_FAILED}: the server rejected the renewed credentials of ${options.username}`,
+        );
+      }
+      return retried;
+    };
+  }
+}
+
 export type CalDavClient = Awaited<ReturnType<typeof createCalDavClient>>;
+
+/** Identifies the account a client talks to, for per-account state */
+export function accountKey(client: CalDavClient): string {
+  return `${client.serverUrl}:${client.credentials.username || 'anonymous'}`;
+}
@@ -0,0 +1,60 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { formatUsage, loadConfig, parseArguments } from './config';
+import { startHttpServer } from './http';
+import {
+  SERVER_VERSION,
+  createCalDavMcpServer,
+  createCalDavMcpServerFactory,
+} from './index';
+
+/**
+ * Entry point of the `mcp-server-caldav` bin. When serving over stdio,
+ * stdout carries the MCP messages, so messages for people go to stderr.
+ */
+export async function main(
+  argv: string[] = process.argv.slice(2),
+  env: Record<string, string | undefined> = process.env,
+): Promise<number> {
+  try {
+    const args = parseArguments(argv);
+    if (args.help) {
+      process.stdout.write(formatUsage());
+      return 0;
+    }
+    if (args.version) {
+      process.stdout.write(`${SERVER_VERSION}\n`);
+      return 0;
+    }
+
+    const config = await loadConfig(args, env);
+    if (config.transport === 'http') {
+      const createServer = await createCalDavMcpServerFactory(
+        config.accounts,
+        config.server,
+      );
+      const http = await startHttpServer(createServer, config.http);
+      process.stderr.write(
+        `mcp-server-caldav: listening on ${http.url}/mcp (SSE: ${http.url}/sse)\n`,
+      );
+      const shutdown = () => {
+        http.close().then(() => process.exit(0));
+      };
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+      return 0;
+    }
+
+    const server = await createCalDavMcpServer(config.accounts, config.server);
+    await server.connect(new StdioServerTransport());
+    return 0;
+  } catch (error) {
+    process.stderr.write(
+      `mcp-server-caldav: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return 1;
+  }
+}
+
+main().then((code) => {
+  if (code !== 0) process.exit(code);
+});
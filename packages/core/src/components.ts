@@ -0,0 +1,423 @@
+import { randomUUID } from 'node:crypto';
+import {
+  escapeText,
+  foldLine,
+  isDateOnly,
+  parseDateInput,
+  parseICalDate,
+  toICalDateTime,
+} from './ical';
+import type { ComponentType } from './types';
+
+export interface ComponentInput {
+  componentType: ComponentType;
+  uid?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  categories?: string[];
+  start?: string;
+  end?: string;
+  due?: string;
+  status?: string;
+  priority?: number;
+}
+
+export function generateUid(): string {
+  return `${randomUUID()}@mcp-server-caldav`;
+}
+
+function dateProperty(name: string, value: string, timeZone: string): string {
+  const formatted = toICalDateTime(value, timeZone);
+  return isDateOnly(value)
+    ? `${name};VALUE=DATE:${formatted}`
+    : `${name}:${formatted}`;
+}
+
+export function validateComponentInput(
+  input: ComponentInput,
+  timeZone = 'UTC',
+): string[] {
+  const errors: string[] = [];
+  const { componentType, start, end, due } = input;
+
+  if (!input.summary?.trim()) {
+    errors.push('summary must not be empty');
+  }
+  if (componentType === 'VEVENT' && !start) {
+    errors.push('VEVENT requires a start date/time');
+  }
+  if (componentType !== 'VEVENT' && end) {
+    errors.push(`${componentType} does not support an end date/time`);
+  }
+  if (componentType !== 'VTODO' && due) {
+    errors.push(`${componentType} does not support a due date/time`);
+  }
+  if (
+    input.priority !== undefined &&
+    (!Number.isInteger(input.priority) ||
+      input.priority < 0 ||
+      input.priority > 9)
+  ) {
+    errors.push('priority must be an integer between 0 and 9');
+  }
+
+  const instants: Record<string, Date> = {};
+  for (const [name, value] of Object.entries({ start, end, due })) {
+    if (!value) continue;
+    try {
+      instants[name] = parseDateInput(value, timeZone);
+    } catch {
+      errors.push(`Invalid date/time for ${name}: ${value}`);
+    }
+  }
+
+  const limit = instants.end ?? instants.due;
+  if (instants.start && limit && limit < instants.start) {
+    errors.push(`${end ? 'end' : 'due'} must not be before start`);
+  }
+
+  return errors;
+}
+
+export function buildICalendarObject(
+  input: ComponentInput,
+  now = new Date(),
+  timeZone = 'UTC',
+): string {
+  const errors = validateComponentInput(input, timeZone);
+  if (errors.length > 0) {
+    throw new Error(`Invalid component: ${errors.join(', ')}`);
+  }
+
+  const { componentType } = input;
+  const stamp = toICalDateTime(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MCP CalDAV Server//EN',
+    `BEGIN:${componentType}`,
+    `UID:${input.uid ?? generateUid()}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${stamp}`,
+    `LAST-MODIFIED:${stamp}`,
+    `SUMMARY:${escapeText(input.summary)}`,
+  ];
+
+  if (input.start) lines.push(dateProperty('DTSTART', input.start, timeZone));
+  if (input.end) lines.push(dateProperty('DTEND', input.end, timeZone));
+  if (input.due) lines.push(dateProperty('DUE', input.due, timeZone));
+  if (input.description)
+    lines.push(`DESCRIPTION:${escapeText(input.description)}`);
+  if (input.location) lines.push(`LOCATION:${escapeText(input.location)}`);
+  if (input.categories?.length) {
+    lines.push(
+      `CATEGORIES:${input.categories.map((c) => escapeText(c)).join(',')}`,
+    );
+  }
+  if (input.status) lines.push(`STATUS:${input.status.toUpperCase()}`);
+  if (input.priority !== undefined) lines.push(`PRIORITY:${input.priority}`);
+
+  lines.push(`END:${componentType}`, 'END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+export interface ComponentPatch {
+  summary?: string;
+  description?: string;
+  location?: string;
+  categories?: string[];
+  start?: string;
+  end?: string;
+  due?: string;
+  status?: string;
+  priority?: number;
+}
+
+interface ContentLine {
+  raw: string;
+  unfolded: string;
+}
+
+function splitContentLines(ical: string): ContentLine[] {
+  const lines: ContentLine[] = [];
+  for (const physical of ical.split(/\r?\n/)) {
+    const last = lines[lines.length - 1];
+    if (last && /^[ \t]/.test(physical)) {
+      // Continuation lines stay attached so untouched properties keep their
+      // original folding
+      last.raw += `\r\n${physical}`;
+      last.unfolded += physical.slice(1);
+    } else if (physical) {
+      lines.push({ raw: physical, unfolded: physical });
+    }
+  }
+  return lines;
+}
+
+function propertyName(line: string): string {
+  return line.split(/[;:]/, 1)[0].toUpperCase();
+}
+
+export function parseContentLine(line: string): {
+  name: string;
+  params: string;
+  value: string;
+} {
+  // The value starts at the first colon outside quoted parameter values
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  const head = colon === -1 ? line : line.slice(0, colon);
+  const name = propertyName(head);
+  return {
+    name,
+    params: head.slice(name.length),
+    value: colon === -1 ? '' : line.slice(colon + 1),
+  };
+}
+
+function findComponentBlock(
+  lines: ContentLine[],
+  uid: string,
+): { begin: number; end: number } | null {
+  let fallback: { begin: number; end: number } | null = null;
+  let depth = 0;
+  let begin = -1;
+  let matchesUid = false;
+  let isOverride = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].unfolded;
+    if (line.startsWith('BEGIN:')) {
+      depth++;
+      if (depth === 2) {
+        begin = i;
+        matchesUid = false;
+        isOverride = false;
+      }
+    } else if (line.startsWith('END:')) {
+      if (depth === 2 && matchesUid) {
+        const block = { begin, end: i };
+        // Prefer the master component over RECURRENCE-ID overrides
+        if (!isOverride) return block;
+        fallback ??= block;
+      }
+      depth--;
+    } else if (depth === 2) {
+      const name = propertyName(line);
+      if (name === 'UID') {
+        matchesUid = line.slice(line.indexOf(':') + 1) === uid;
+      } else if (name === 'RECURRENCE-ID') {
+        isOverride = true;
+      }
+    }
+  }
+
+  return fallback;
+}
+
+/**
+ * Replaces, adds or removes top-level properties of the component with the
+ * given UID while leaving every other line of the object untouched. Values
+ * are complete content lines (e.g. `DUE;VALUE=DATE:20240115`); `null`
+ * removes the property.
+ */
+export function setComponentProperties(
+  ical: string,
+  uid: string,
+  changes: Record<string, string | null>,
+): string {
+  const lines = splitContentLines(ical);
+  const block = findComponentBlock(lines, uid);
+  if (!block) {
+    throw new Error(`Component not found in calendar object: ${uid}`);
+  }
+
+  const pending = new Map(
+    Object.entries(changes).map(([name, value]) => [name.toUpperCase(), value]),
+  );
+  // DTEND and DUE exclude DURATION (RFC 5545, sections 3.6.1 and 3.6.2),
+  // so setting either side drops the other
+  if (
+    (pending.get('DTEND') || pending.get('DUE')) &&
+    !pending.has('DURATION')
+  ) {
+    pending.set('DURATION', null);
+  }
+  if (pending.get('DURATION')) {
+    for (const name of ['DTEND', 'DUE']) {
+      if (!pending.has(name)) pending.set(name, null);
+    }
+  }
+  const names = new Set(pending.keys());
+  const output: string[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const { raw, unfolded } = lines[i];
+
+    if (i === block.end) {
+      // Properties that did not exist yet go right before END
+      for (const value of pending.values()) {
+        if (value !== null) output.push(foldLine(value));
+      }
+    } else if (i > block.begin && i < block.end) {
+      // Nested components such as VALARM are copied verbatim
+      if (unfolded.startsWith('BEGIN:')) depth++;
+      else if (unfolded.startsWith('END:')) depth--;
+      else if (depth === 0 && names.has(propertyName(unfolded))) {
+        const name = propertyName(unfolded);
+        const value = pending.get(name);
+        if (value) output.push(foldLine(value));
+        // Repeated occurrences of a replaced property are dropped
+        pending.delete(name);
+        continue;
+      }
+    }
+
+    output.push(raw);
+  }
+
+  return `${output.join('\r\n')}\r\n`;
+}
+
+export function patchICalendarObject(
+  ical: string,
+  uid: string,
+  patch: ComponentPatch,
+  now = new Date(),
+  timeZone = 'UTC',
+): string {
+  const changes: Record<string, string | null> = {};
+  const text = (name: string, value: string | undefined) => {
+    if (value === undefined) return;
+    changes[name] = value === '' ? null : `${name}:${escapeText(value)}`;
+  };
+  const date = (name: string, value: string | undefined) => {
+    if (value === undefined) return;
+    changes[name] = value === '' ? null : dateProperty(name, value, timeZone);
+  };
+
+  text('SUMMARY', patch.summary);
+  text('DESCRIPTION', patch.description);
+  text('LOCATION', patch.location);
+  date('DTSTART', patch.start);
+  date('DTEND', patch.end);
+  date('DUE', patch.due);
+
+  if (patch.categories !== undefined) {
+    changes.CATEGORIES = patch.categories.length
+      ? `CATEGORIES:${patch.categories.map((c) => escapeText(c)).join(',')}`
+      : null;
+  }
+  if (patch.status !== undefined) {
+    changes.STATUS = patch.status
+      ? `STATUS:${patch.status.toUpperCase()}`
+      : null;
+  }
+  if (patch.priority !== undefined) {
+    if (
+      !Number.isInteger(patch.priority) ||
+      patch.priority < 0 ||
+      patch.priority > 9
+    ) {
+      throw new Error('priority must be an integer between 0 and 9');
+    }
+    changes.PRIORITY = `PRIORITY:${patch.priority}`;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new Error('Patch does not change any property');
+  }
+
+  return applyComponentChanges(ical, uid, changes, now);
+}
+
+/**
+ * Returns the unfolded top-level property lines of the component with the
+ * given UID, without its BEGIN/END lines and nested components.
+ */
+export function getComponentProperties(ical: string, uid: string): string[] {
+  const lines = splitContentLines(ical);
+  const block = findComponentBlock(lines, uid);
+  if (!block) {
+    throw new Error(`Component not found in calendar object: ${uid}`);
+  }
+
+  const properties: string[] = [];
+  let depth = 0;
+  for (const { unfolded } of lines.slice(block.begin + 1, block.end)) {
+    if (unfolded.startsWith('BEGIN:')) depth++;
+    else if (unfolded.startsWith('END:')) depth--;
+    else if (depth === 0) properties.push(unfolded);
+  }
+  return properties;
+}
+
+const TIMING_PROPERTIES = ['DTSTART', 'DTEND', 'DUE', 'DURATION'];
+
+/**
+ * Like setComponentProperties, but also records the modification by bumping
+ * SEQUENCE and refreshing LAST-MODIFIED and DTSTAMP. Throws when changed
+ * dates leave the end or due date before the start.
+ */
+export function applyComponentChanges(
+  ical: string,
+  uid: string,
+  changes: Record<string, string | null>,
+  now = new Date(),
+): string {
+  const updated = setComponentProperties(ical, uid, {
+    ...changes,
+    ...revisionProperties(ical, uid, now),
+  });
+  const names = Object.keys(changes).map((name) => name.toUpperCase());
+  if (names.some((name) => TIMING_PROPERTIES.includes(name))) {
+    checkDateOrder(updated, uid);
+  }
+  return updated;
+}
+
+// A date the change left alone may now lie on the wrong side of one it set
+function checkDateOrder(ical: string, uid: string): void {
+  const dates: Record<string, Date> = {};
+  for (const line of getComponentProperties(ical, uid)) {
+    const { name, params, value } = parseContentLine(line);
+    if (name !== 'DTSTART' && name !== 'DTEND' && name !== 'DUE') continue;
+    const tzid = /;TZID="?([^;:"]+)"?/i.exec(params);
+    dates[name] = parseICalDate(tzid ? `${value} (${tzid[1]})` : value);
+  }
+
+  const limit = dates.DTEND ?? dates.DUE;
+  if (dates.DTSTART && limit && limit < dates.DTSTART) {
+    throw new Error(`${dates.DTEND ? 'end' : 'due'} must not be before start`);
+  }
+}
+
+function revisionProperties(
+  ical: string,
+  uid: string,
+  now: Date,
+): Record<string, string> {
+  const sequenceLine = getComponentProperties(ical, uid).find(
+    (line) => propertyName(line) === 'SEQUENCE',
+  );
+  const sequence = sequenceLine
+    ? Number.parseInt(sequenceLine.split(':')[1], 10) || 0
+    : 0;
+  const stamp = toICalDateTime(now.toISOString());
+
+  return {
+    SEQUENCE: `SEQUENCE:${sequence + 1}`,
+    'LAST-MODIFIED': `LAST-MODIFIED:${stamp}`,
+    DTSTAMP: `DTSTAMP:${stamp}`,
+  };
+}
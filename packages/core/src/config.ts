@@ -0,0 +1,806 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+import {
+  type CalDavAccountOptions,
+  DEFAULT_ACCOUNT,
+  normalizeAccountOptions,
+} from './accounts';
+import type { CalDavClientOptions } from './caldav';
+import type { CalDavSecret } from './credentials';
+import type { HttpServerOptions } from './http';
+import type { CalDavServerOptions } from './index';
+import { type CalDavAccessPolicy, validateAccessPolicy } from './policy';
+import { isValidTimeZone } from './timezone';
+import type { ComponentType } from './types';
+import { type YamlValue, parseYaml } from './yaml';
+
+export interface CalDavConfig {
+  accounts: CalDavAccountOptions[];
+  server: CalDavServerOptions;
+  transport: 'stdio' | 'http';
+  http: HttpServerOptions;
+}
+
+/**
+ * Lists are comma-separated on the command line and in the environment.
+ * Secrets are strings there; in the config file they may instead name
+ * where to read them from: `{ file }`, `{ env }` or `{ command }`.
+ */
+type SettingType = 'string' | 'boolean' | 'number' | 'list' | 'secret';
+
+interface Setting {
+  /** Dotted path of the setting in the config file */
+  path: string;
+  flag: string;
+  env: string;
+  type: SettingType;
+  description: string;
+  /** Part of an account, so also allowed in each entry of "accounts" */
+  account?: boolean;
+  /** Names a file or directory, found next to the config file it is set in */
+  file?: boolean;
+}
+
+export const CONFIG_SETTINGS: Setting[] = [
+  {
+    path: 'serverUrl',
+    flag: '--server-url',
+    env: 'CALDAV_SERVER_URL',
+    type: 'string',
+    description: 'URL of the CalDAV server',
+    account: true,
+  },
+  {
+    path: 'authMethod',
+    flag: '--auth-method',
+    env: 'CALDAV_AUTH_METHOD',
+    type: 'string',
+    description: 'Basic (default) or OAuth',
+    account: true,
+  },
+  {
+    path: 'credentials.username',
+    flag: '--username',
+    env: 'CALDAV_USERNAME',
+    type: 'string',
+    description: 'Account user name',
+    account: true,
+  },
+  {
+    path: 'credentials.password',
+    flag: '--password',
+    env: 'CALDAV_PASSWORD',
+    type: 'secret',
+    description:
+      'Password for Basic auth; prefer the environment, flags show up in process lists',
+    account: true,
+  },
+  {
+    path: 'credentials.tokenUrl',
+    flag: '--token-url',
+    env: 'CALDAV_TOKEN_URL',
+    type: 'string',
+    description: 'OAuth token endpoint',
+    account: true,
+  },
+  {
+    path: 'credentials.refreshToken',
+    flag: '--refresh-token',
+    env: 'CALDAV_REFRESH_TOKEN',
+    type: 'secret',
+    description: 'OAuth refresh token',
+    account: true,
+  },
+  {
+    path: 'credentials.clientId',
+    flag: '--client-id',
+    env: 'CALDAV_CLIENT_ID',
+    type: 'string',
+    description: 'OAuth client id',
+    account: true,
+  },
+  {
+    path: 'credentials.clientSecret',
+    flag: '--client-secret',
+    env: 'CALDAV_CLIENT_SECRET',
+    type: 'secret',
+    description: 'OAuth client secret',
+    account: true,
+  },
+  {
+    path: 'timeZone',
+    flag: '--time-zone',
+    env: 'CALDAV_TIME_ZONE',
+    type: 'string',
+    description: 'IANA time zone for dates without an offset (default UTC)',
+  },
+  {
+    path: 'sync',
+    flag: '--sync',
+    env: 'CALDAV_SYNC',
+    type: 'boolean',
+    description: 'Keep synced copies of the calendars in memory',
+  },
+  {
+    path: 'cache.directory',
+    flag: '--cache-dir',
+    env: 'CALDAV_CACHE_DIR',
+    type: 'string',
+    description: 'Keep synced copies on disk in this directory',
+    file: true,
+  },
+  {
+    path: 'cache.maxBytes',
+    flag: '--cache-max-bytes',
+    env: 'CALDAV_CACHE_MAX_BYTES',
+    type: 'number',
+    description: 'Size limit of the disk cache (default 50 MiB)',
+  },
+  {
+    path: 'pollInterval',
+    flag: '--poll-interval',
+    env: 'CALDAV_POLL_INTERVAL',
+    type: 'number',
+    description: 'Milliseconds between checks for subscribed resources',
+  },
+  {
+    path: 'policy.readOnly',
+    flag: '--read-only',
+    env: 'CALDAV_READ_ONLY',
+    type: 'boolean',
+    description: 'Refuse every change to calendars',
+  },
+  {
+    path: 'policy.allowCalendars',
+    flag: '--allow-calendars',
+    env: 'CALDAV_ALLOW_CALENDARS',
+    type: 'list',
+    description: 'Calendar ids agents may use (default all)',
+  },
+  {
+    path: 'policy.denyCalendars',
+    flag: '--deny-calendars',
+    env: 'CALDAV_DENY_CALENDARS',
+    type: 'list',
+    description: 'Calendar ids hidden from agents',
+  },
+  {
+    path: 'policy.readOnlyCalendars',
+    flag: '--read-only-calendars',
+    env: 'CALDAV_READ_ONLY_CALENDARS',
+    type: 'list',
+    description: 'Calendar ids agents may read but not change',
+  },
+  {
+    path: 'policy.componentTypes',
+    flag: '--component-types',
+    env: 'CALDAV_COMPONENT_TYPES',
+    type: 'list',
+    description: 'Component types agents may use, e.g. VEVENT,VTODO',
+  },
+  {
+    path: 'transport',
+    flag: '--transport',
+    env: 'CALDAV_TRANSPORT',
+    type: 'string',
+    description: 'stdio (default) or http',
+  },
+  {
+    path: 'http.host',
+    flag: '--host',
+    env: 'CALDAV_HTTP_HOST',
+    type: 'string',
+    description: 'Address the HTTP server listens on (default 127.0.0.1)',
+  },
+  {
+    path: 'http.port',
+    flag: '--port',
+    env: 'CALDAV_HTTP_PORT',
+    type: 'number',
+    description: 'Port the HTTP server listens on (default 3000)',
+  },
+  {
+    path: 'http.allowedOrigins',
+    flag: '--allowed-origins',
+    env: 'CALDAV_HTTP_ALLOWED_ORIGINS',
+    type: 'list',
+    description: 'Origins browsers may connect from, comma-separated',
+  },
+  {
+    path: 'http.bearerToken',
+    flag: '--bearer-token',
+    env: 'CALDAV_HTTP_BEARER_TOKEN',
+    type: 'string',
+    description: 'Token HTTP clients must send as "Authorization: Bearer"',
+  },
+  {
+    path: 'http.bearerTokenFile',
+    flag: '--bearer-token-file',
+    env: 'CALDAV_HTTP_BEARER_TOKEN_FILE',
+    type: 'string',
+    description: 'File holding the bearer token, reread when it changes',
+    file: true,
+  },
+  {
+    path: 'http.sessionTimeout',
+    flag: '--session-timeout',
+    env: 'CALDAV_HTTP_SESSION_TIMEOUT',
+    type: 'number',
+    description: 'Milliseconds after which idle HTTP sessions end',
+  },
+];
+
+type ConfigObject = { [key: string]: YamlValue };
+
+function isObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(object: ConfigObject, path: string): YamlValue | undefined {
+  let current: YamlValue | undefined = object;
+  for (const part of path.split('.')) {
+    if (!isObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+function setPath(object: ConfigObject, path: string, value: YamlValue) {
+  const parts = path.split('.');
+  let current = object;
+  for (const part of parts.slice(0, -1)) {
+    if (!isObject(current[part])) current[part] = {};
+    current = current[part] as ConfigObject;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+function hasType(value: YamlValue, type: SettingType): boolean {
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number';
+    case 'list':
+      return (
+        typeof value === 'string' ||
+        (Array.isArray(value) && value.every((v) => typeof v === 'string'))
+      );
+    case 'secret':
+      return (
+        typeof value === 'string' ||
+        (isObject(value) &&
+          Object.keys(value).length === 1 &&
+          ['file', 'env', 'command'].some(
+            (source) => typeof value[source] === 'string' && value[source],
+          ))
+      );
+    default:
+      return typeof value === 'string';
+  }
+}
+
+function convert(setting: Setting, raw: string, source: string): YamlValue {
+  if (setting.type === 'boolean') {
+    if (/^(true|1|yes)$/i.test(raw)) return true;
+    if (/^(false|0|no)$/i.test(raw)) return false;
+    throw new Error(`${source} must be true or false, got "${raw}"`);
+  }
+  if (setting.type === 'number') {
+    const value = Number(raw);
+    if (raw.trim() === '' || Number.isNaN(value)) {
+      throw new Error(`${source} must be a number, got "${raw}"`);
+    }
+    return value;
+  }
+  if (setting.type === 'list') {
+    return raw
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return raw;
+}
+
+const BOOLEAN_ARGUMENT = /^(true|false|yes|no)$/i;
+
+export interface ParsedArguments {
+  values: ConfigObject;
+  configFile?: string;
+  help: boolean;
+  version: boolean;
+}
+
+/** Parses `--flag value` and `--flag=value` arguments. */
+export function parseArguments(argv: string[]): ParsedArguments {
+  const parsed: ParsedArguments = { values: {}, help: false, version: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const argument = argv[i];
+    const [flag, inline] = argument.includes('=')
+      ? [
+          argument.slice(0, argument.indexOf('=')),
+          argument.slice(argument.indexOf('=') + 1),
+        ]
+      : [argument, undefined];
+
+    if (flag === '--help' || flag === '-h') {
+      parsed.help = true;
+      continue;
+    }
+    if (flag === '--version' || flag === '-v') {
+      parsed.version = true;
+      continue;
+    }
+
+    const takeValue = () => {
+      if (inline !== undefined) return inline;
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      i++;
+      return next;
+    };
+
+    if (flag === '--config' || flag === '-c') {
+      parsed.configFile = takeValue();
+      continue;
+    }
+
+    const setting = CONFIG_SETTINGS.find((s) => s.flag === flag);
+    if (!setting) {
+      throw new Error(`Unknown option: ${flag}. See --help`);
+    }
+    // Boolean flags on their own switch the setting on, and may be
+    // followed by true or false
+    let raw: string;
+    if (setting.type === 'boolean' && inline === undefined) {
+      const next = argv[i + 1];
+      if (next !== undefined && BOOLEAN_ARGUMENT.test(next)) {
+        raw = next;
+        i++;
+      } else {
+        raw = 'true';
+      }
+    } else {
+      raw = takeValue();
+    }
+    setPath(parsed.values, setting.path, convert(setting, raw, flag));
+  }
+
+  return parsed;
+}
+
+/** Reads the settings given as `CALDAV_*` environment variables. */
+export function readEnvironment(
+  env: Record<string, string | undefined>,
+): ConfigObject {
+  const values: ConfigObject = {};
+  for (const setting of CONFIG_SETTINGS) {
+    const raw = env[setting.env];
+    if (raw === undefined || raw === '') continue;
+    setPath(values, setting.path, convert(setting, raw, setting.env));
+  }
+  return values;
+}
+
+/** Parses a config file as JSON or YAML, by its extension. */
+export function parseConfigFile(path: string, content: string): ConfigObject {
+  const extension = extname(path).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(
+      `Unsupported config file type "${extension}", use .json, .yaml or .yml`,
+    );
+  }
+  let value: unknown;
+  try {
+    value = extension === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  if (value === null) return {};
+  if (!isObject(value)) {
+    throw new Error(`Config file ${path} must contain a mapping of settings`);
+  }
+  return value;
+}
+
+function merge(target: ConfigObject, source: ConfigObject): ConfigObject {
+  for (const [key, value] of Object.entries(source)) {
+    target[key] =
+      isObject(value) && isObject(target[key])
+        ? merge({ ...(target[key] as ConfigObject) }, value)
+        : value;
+  }
+  return target;
+}
+
+function where(setting: Setting): string {
+  return `${setting.flag}, ${setting.env} or "${setting.path}" in the config file`;
+}
+
+const ACCOUNT_SETTINGS = CONFIG_SETTINGS.filter((s) => s.account);
+const POLICY_SETTINGS = CONFIG_SETTINGS.filter((s) =>
+  s.path.startsWith('policy.'),
+);
+
+/**
+ * Makes the paths in a config file absolute, relative to the file's
+ * directory; paths from flags and the environment stay relative to the
+ * working directory.
+ */
+function resolveFilePaths(values: ConfigObject, directory: string): void {
+  const resolveIn = (object: ConfigObject, settings: Setting[]) => {
+    for (const setting of settings) {
+      const value = getPath(object, setting.path);
+      if (setting.file && typeof value === 'string') {
+        setPath(object, setting.path, resolve(directory, value));
+      } else if (
+        setting.type === 'secret' &&
+        isObject(value) &&
+        typeof value.file === 'string'
+      ) {
+        setPath(object, setting.path, {
+          ...value,
+          file: resolve(directory, value.file),
+        });
+      }
+    }
+  };
+
+  resolveIn(values, CONFIG_SETTINGS);
+  if (Array.isArray(values.accounts)) {
+    for (const entry of values.accounts) {
+      if (isObject(entry)) resolveIn(entry, ACCOUNT_SETTINGS);
+    }
+  }
+}
+
+/**
+ * Checks merged settings and builds the client and server options from
+ * them. All problems are reported at once, each with the places the
+ * setting can be given.
+ */
+export function validateConfig(values: ConfigObject): CalDavConfig {
+  const errors: string[] = [];
+  const collectUnknown = (
+    object: ConfigObject,
+    prefix: string,
+    settings: Setting[],
+    label = prefix,
+  ) => {
+    const known = new Set(settings.map((s) => s.path));
+    for (const [key, value] of Object.entries(object)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (known.has(path)) continue;
+      if (isObject(value) && [...known].some((k) => k.startsWith(`${path}.`))) {
+        collectUnknown(value, path, settings, label ? `${label}.${key}` : key);
+      } else {
+        errors.push(`Unknown setting "${label ? `${label}.${key}` : key}"`);
+      }
+    }
+  };
+
+  // Account settings are read from the top level or from each entry of
+  // "accounts", whose errors name the entry instead of flags and variables
+  const get = (path: string, from = values, label = path) => {
+    const setting = CONFIG_SETTINGS.find((s) => s.path === path) as Setting;
+    const value = getPath(from, path);
+    if (value === undefined || value === null) return undefined;
+    if (!hasType(value, setting.type)) {
+      errors.push(
+        setting.type === 'secret'
+          ? `"${label}" must be a string or one of { file }, { env } and { command }`
+          : `"${label}" must be a ${setting.type}`,
+      );
+      return undefined;
+    }
+    return value;
+  };
+  const required = (path: string, from = values, prefix?: string) => {
+    const value = get(path, from, prefix ? `${prefix}.${path}` : path);
+    if (value === undefined || value === '') {
+      const setting = CONFIG_SETTINGS.find((s) => s.path === path) as Setting;
+      errors.push(
+        prefix
+          ? `Missing ${prefix}.${path}`
+          : `Missing ${path}: set ${where(setting)}`,
+      );
+    }
+    return value as string;
+  };
+  const secret = (path: string, from: ConfigObject, prefix?: string) => {
+    const value = required(path, from, prefix) as string | ConfigObject;
+    // Files not placed by their config file are found relative to the
+    // working directory, like the cache
+    if (isObject(value) && typeof value.file === 'string') {
+      return { file: resolve(value.file) };
+    }
+    return value as CalDavSecret;
+  };
+
+  const readAccount = (
+    from: ConfigObject,
+    prefix?: string,
+  ): CalDavClientOptions | undefined => {
+    const label = (path: string) => (prefix ? `${prefix}.${path}` : path);
+    const serverUrl = required('serverUrl', from, prefix);
+    if (serverUrl) {
+      try {
+        const url = new URL(serverUrl);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+          errors.push(
+            `${label('serverUrl')} must be an http(s) URL, got "${serverUrl}"`,
+          );
+        }
+      } catch {
+        errors.push(`${label('serverUrl')} is not a valid URL: "${serverUrl}"`);
+      }
+    }
+
+    const authMethod =
+      (get('authMethod', from, label('authMethod')) as string | undefined) ??
+      'Basic';
+    if (authMethod.toLowerCase() === 'basic') {
+      return {
+        serverUrl,
+        authMethod: 'Basic',
+        credentials: {
+          username: required('credentials.username', from, prefix),
+          password: secret('credentials.password', from, prefix),
+        },
+      };
+    }
+    if (authMethod.toLowerCase() === 'oauth') {
+      return {
+        serverUrl,
+        authMethod: 'OAuth',
+        credentials: {
+          username: required('credentials.username', from, prefix),
+          tokenUrl: required('credentials.tokenUrl', from, prefix),
+          refreshToken: secret('credentials.refreshToken', from, prefix),
+          clientId: required('credentials.clientId', from, prefix),
+          clientSecret: secret('credentials.clientSecret', from, prefix),
+        },
+      };
+    }
+    errors.push(
+      `${label('authMethod')} must be Basic or OAuth, got "${authMethod}"`,
+    );
+    return undefined;
+  };
+
+  const list = (path: string, from = values, label = path) => {
+    const value = get(path, from, label) as string | string[] | undefined;
+    return typeof value === 'string'
+      ? value.split(',').map((item) => item.trim())
+      : value;
+  };
+
+  // The server-wide policy, or that of one entry of "accounts"
+  const readPolicy = (
+    from: ConfigObject,
+    prefix?: string,
+  ): CalDavAccessPolicy | undefined => {
+    const label = (path: string) => (prefix ? `${prefix}.${path}` : path);
+    const policy: CalDavAccessPolicy = {};
+    const readOnly = get('policy.readOnly', from, label('policy.readOnly')) as
+      | boolean
+      | undefined;
+    if (readOnly !== undefined) policy.readOnly = readOnly;
+    const policyList = (path: string) => list(path, from, label(path));
+    const allowCalendars = policyList('policy.allowCalendars');
+    if (allowCalendars) policy.allowCalendars = allowCalendars;
+    const denyCalendars = policyList('policy.denyCalendars');
+    if (denyCalendars) policy.denyCalendars = denyCalendars;
+    const readOnlyCalendars = policyList('policy.readOnlyCalendars');
+    if (readOnlyCalendars) policy.readOnlyCalendars = readOnlyCalendars;
+    const componentTypes = policyList('policy.componentTypes');
+    if (componentTypes) {
+      policy.componentTypes = componentTypes as ComponentType[];
+      try {
+        validateAccessPolicy(policy);
+      } catch (error) {
+        errors.push(
+          prefix
+            ? `${label('policy')}: ${(error as Error).message}`
+            : (error as Error).message,
+        );
+      }
+    }
+    return Object.keys(policy).length > 0 ? policy : undefined;
+  };
+
+  const { accounts: accountList, ...settings } = values;
+  collectUnknown(settings, '', CONFIG_SETTINGS);
+
+  const accounts: CalDavAccountOptions[] = [];
+  if (accountList === undefined || accountList === null) {
+    const client = readAccount(values);
+    if (client) accounts.push({ ...client, name: DEFAULT_ACCOUNT });
+  } else if (!Array.isArray(accountList) || accountList.length === 0) {
+    errors.push('"accounts" must be a non-empty list of accounts');
+  } else {
+    if (ACCOUNT_SETTINGS.some((s) => getPath(values, s.path) !== undefined)) {
+      errors.push(
+        'Set the server and credentials in each entry of "accounts", not at the top level',
+      );
+    }
+    for (const [index, entry] of accountList.entries()) {
+      const prefix = `accounts[${index}]`;
+      if (!isObject(entry)) {
+        errors.push(`${prefix} must be a mapping of account settings`);
+        continue;
+      }
+      const { name, policy: accountPolicy, ...accountSettings } = entry;
+      collectUnknown(accountSettings, '', ACCOUNT_SETTINGS, prefix);
+      if (typeof name !== 'string' || name === '') {
+        errors.push(`Missing ${prefix}.name`);
+      }
+      const client = readAccount(accountSettings, prefix);
+      let policy: CalDavAccessPolicy | undefined;
+      if (accountPolicy !== undefined) {
+        collectUnknown({ policy: accountPolicy }, '', POLICY_SETTINGS, prefix);
+        policy = readPolicy(entry, prefix);
+      }
+      if (client && typeof name === 'string' && name !== '') {
+        accounts.push({ ...client, name, ...(policy ? { policy } : {}) });
+      }
+    }
+    // Names are checked like the server checks them
+    try {
+      if (accounts.length > 0) normalizeAccountOptions(accounts);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  const server: CalDavServerOptions = {};
+  const timeZone = get('timeZone') as string | undefined;
+  if (timeZone !== undefined) {
+    if (isValidTimeZone(timeZone)) server.timeZone = timeZone;
+    else errors.push(`Unknown time zone: ${timeZone}`);
+  }
+  const sync = get('sync') as boolean | undefined;
+  if (sync !== undefined) server.sync = sync;
+  const cacheDirectory = get('cache.directory') as string | undefined;
+  const cacheMaxBytes = get('cache.maxBytes') as number | undefined;
+  if (cacheMaxBytes !== undefined && !(cacheMaxBytes > 0)) {
+    errors.push('cache.maxBytes must be positive');
+  }
+  if (cacheDirectory) {
+    server.cache = { directory: resolve(cacheDirectory) };
+    if (cacheMaxBytes !== undefined) server.cache.maxBytes = cacheMaxBytes;
+  } else if (cacheMaxBytes !== undefined) {
+    errors.push('cache.maxBytes requires cache.directory');
+  }
+  const pollInterval = get('pollInterval') as number | undefined;
+  if (pollInterval !== undefined) {
+    if (pollInterval > 0) server.pollInterval = pollInterval;
+    else errors.push('pollInterval must be positive');
+  }
+
+  const policy = readPolicy(values);
+  if (policy) server.policy = policy;
+
+  const transport = (get('transport') as string | undefined) ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    errors.push(`transport must be stdio or http, got "${transport}"`);
+  }
+  const http: HttpServerOptions = {};
+  const host = get('http.host') as string | undefined;
+  if (host) http.host = host;
+  const port = get('http.port') as number | undefined;
+  if (port !== undefined) {
+    if (Number.isInteger(port) && port >= 0 && port <= 65535) http.port = port;
+    else errors.push(`http.port must be a port number, got ${port}`);
+  }
+  const origins = list('http.allowedOrigins');
+  if (origins !== undefined) http.allowedOrigins = origins;
+  const bearerToken = get('http.bearerToken') as string | undefined;
+  const bearerTokenFile = get('http.bearerTokenFile') as string | undefined;
+  if (bearerToken && bearerTokenFile) {
+    errors.push(
+      'Set either http.bearerToken or http.bearerTokenFile, not both',
+    );
+  }
+  if (bearerToken) http.bearerToken = bearerToken;
+  if (bearerTokenFile) http.bearerTokenFile = resolve(bearerTokenFile);
+  const sessionTimeout = get('http.sessionTimeout') as number | undefined;
+  if (sessionTimeout !== undefined) {
+    if (sessionTimeout > 0) http.sessionTimeout = sessionTimeout;
+    else errors.push('http.sessionTimeout must be positive');
+  }
+
+  if (errors.length > 0 || accounts.length === 0) {
+    throw new Error(
+      `Invalid configuration:\n${errors.map((e) => `  - ${e}`).join('\n')}`,
+    );
+  }
+  return {
+    accounts,
+    server,
+    transport: transport as CalDavConfig['transport'],
+    http,
+  };
+}
+
+/**
+ * Loads the configuration from a config file, the environment and the
+ * command line, in increasing order of precedence. The config file is
+ * taken from --config or CALDAV_CONFIG.
+ */
+export async function loadConfig(
+  args: ParsedArguments,
+  env: Record<string, string | undefined>,
+): Promise<CalDavConfig> {
+  const configFile = args.configFile ?? env.CALDAV_CONFIG;
+  let fileValues: ConfigObject = {};
+  if (configFile) {
+    let content: string;
+    try {
+      content = await readFile(configFile, 'utf8');
+    } catch (error) {
+      throw new Error(
+        `Failed to read config file ${configFile}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+    fileValues = parseConfigFile(configFile, content);
+    resolveFilePaths(fileValues, dirname(resolve(configFile)));
+  }
+
+  return validateConfig(
+    merge(merge(fileValues, readEnvironment(env)), args.values),
+  );
+}
+
+const PLACEHOLDERS: Record<SettingType, string> = {
+  string: '<value>',
+  number: '<n>',
+  list: '<a,b>',
+  secret: '<value>',
+  boolean: '[true|false]',
+};
+
+export function formatUsage(): string {
+  const label = (s: Setting) => `${s.flag} ${PLACEHOLDERS[s.type]}`;
+  const width = Math.max(...CONFIG_SETTINGS.map((s) => label(s).length)) + 2;
+  const option = (flags: string, description: string) =>
+    `  ${flags.padEnd(width)}${description}`;
+  return [
+    'Usage: mcp-server-caldav [options]',
+    '',
+    'Serves CalDAV accounts to MCP clients over stdio or HTTP.',
+    '',
+    'Options:',
+    option('-c, --config', 'JSON or YAML config file (CALDAV_CONFIG)'),
+    ...CONFIG_SETTINGS.map((s) =>
+      option(label(s), `${s.description} (${s.env})`),
+    ),
+    option('-h, --help', 'Show this help'),
+    option('-v, --version', 'Show the version'),
+    '',
+    'Flags take precedence over environment variables, which take precedence',
+    'over the config file. In the config file, settings nest at the dots:',
+    'credentials.username is "username" under "credentials".',
+    '',
+    'A true/false flag on its own switches the setting on; --read-only false',
+    'or --read-only=false switches it off.',
+    '',
+    'Relative paths in the config file are found next to it; those given as',
+    'flags or environment variables, relative to the working directory.',
+    '',
+    'To serve several accounts, list them under "accounts" in the config file,',
+    'each with a "name" and its own serverUrl, authMethod and credentials.',
+    'An account may also have a "policy" of its own, which restricts it',
+    'further than the server-wide policy does.',
+    '',
+    'In the config file, the password, refresh token and client secret can be',
+    'read from elsewhere instead: { file: path }, { env: NAME } or',
+    '{ command: "pass show caldav" } (the first line it prints).',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,137 @@
+import { exec } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+
+const execAsync = promisify(exec);
+
+/**
+ * A secret given as is, or read whenever credentials are needed: from a
+ * file, from an environment variable, from the first line a command prints
+ * (e.g. `pass show caldav`), or from a function of your own.
+ */
+export type CalDavSecret =
+  | string
+  | { file: string }
+  | { env: string }
+  | { command: string }
+  | (() => string | Promise<string>);
+
+// Long enough for a password manager waiting on an unlock prompt
+const COMMAND_TIMEOUT = 60000;
+
+function failure(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Reads a secret from its provider; `name` says which one in errors. */
+export async function resolveSecret(
+  secret: CalDavSecret,
+  name: string,
+): Promise<string> {
+  let value: string;
+  if (typeof secret === 'string') {
+    value = secret;
+  } else if (typeof secret === 'function') {
+    try {
+      value = await secret();
+    } catch (error) {
+      throw new Error(`Failed to get ${name}: ${failure(error)}`);
+    }
+  } else if ('file' in secret) {
+    try {
+      value = (await readFile(secret.file, 'utf8')).replace(/[\r\n]+$/, '');
+    } catch (error) {
+      throw new Error(
+        `Failed to read ${name} from ${secret.file}: ${failure(error)}`,
+      );
+    }
+  } else if ('env' in secret) {
+    value = process.env[secret.env] ?? '';
+    if (!value) {
+      throw new Error(
+        `Failed to read ${name}: environment variable ${secret.env} is not set`,
+      );
+    }
+  } else if ('command' in secret) {
+    try {
+      const { stdout } = await execAsync(secret.command, {
+        timeout: COMMAND_TIMEOUT,
+      });
+      value = stdout.split(/\r?\n/)[0];
+    } catch (error) {
+      // The message of a failed command includes its stderr, not the secret
+      throw new Error(
+        `Failed to get ${name} from command "${secret.command}": ${failure(error)}`,
+      );
+    }
+  } else {
+    throw new Error(`Invalid ${name}: expected a string, file, env or command`);
+  }
+  if (!value) {
+    throw new Error(`Failed to get ${name}: the secret is empty`);
+  }
+  return value;
+}
+
+export interface OAuthToken {
+  accessToken: string;
+  /** Milliseconds since the epoch at which the token expires, if known */
+  expiresAt?: number;
+  /** Refresh token to use next time, when the server rotates it */
+  refreshToken?: string;
+}
+
+/**
+ * Trades a refresh token for an access token at the token endpoint
+ * (RFC 6749, section 6).
+ */
+export async function requestAccessToken(credentials: {
+  tokenUrl: string;
+  refreshToken: string;
+  clientId: string;
+  clientSecret: string;
+}): Promise<OAuthToken> {
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: credentials.refreshToken,
+    client_id: credentials.clientId,
+    client_secret: credentials.clientSecret,
+  });
+  let response: Response;
+  try {
+    response = await fetch(credentials.tokenUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+  } catch (error) {
+    throw new Error(`OAuth token refresh failed: ${failure(error)}`);
+  }
+
+  const text = await response.text();
+  let tokens: Record<string, unknown> = {};
+  try {
+    tokens = JSON.parse(text);
+  } catch {
+    // Reported below, with the status
+  }
+  if (!response.ok || typeof tokens.access_token !== 'string') {
+    const reason =
+      typeof tokens.error === 'string'
+        ? tokens.error
+        : `status ${response.status}`;
+    throw new Error(`OAuth token refresh failed: ${reason}`);
+  }
+
+  return {
+    accessToken: tokens.access_token,
+    expiresAt:
+      typeof tokens.expires_in === 'number'
+        ? Date.now() + tokens.expires_in * 1000
+        : undefined,
+    refreshToken:
+      typeof tokens.refresh_token === 'string'
+        ? tokens.refresh_token
+        : undefined,
+  };
+}
@@ -1,4 +1,6 @@
+import { DAVNamespaceShort } from 'tsdav';
 import type { CalDavClient } from './caldav';
+import { resolveHref } from './objects';
 
 export interface CalendarCollection {
   calendarId: string;
@@ -13,6 +15,10 @@ export interface DiscoveryResult {
   collections: CalendarCollection[];
 }
 
+interface ComponentProp {
+  _attributes?: { name?: string };
+}
+
 export class CalDavDiscovery {
   constructor(private client: CalDavClient) {}
 
@@ -31,62 +37,48 @@ export class CalDavDiscovery {
   private async getCurrentUserPrincipal(): Promise<string> {
     const response = await this.client.propfind({
       url: this.client.serverUrl,
-      props: [
-        {
-          name: 'current-user-principal',
-          namespace: 'DAV:',
-        },
-      ],
+      props: {
+        [`${DAVNamespaceShort.DAV}:current-user-principal`]: {},
+      },
       depth: '0',
     });
 
-    const principal = response.find((r) => r.props?.['current-user-principal']);
-    if (!principal?.props?.['current-user-principal']?.href) {
+    // tsdav strips namespaces from the properties and camel-cases them
+    const principal = response.find((r) => r.props?.currentUserPrincipal);
+    if (!principal?.props?.currentUserPrincipal?.href) {
       throw new Error('Unable to determine current user principal');
     }
 
-    return principal.props['current-user-principal'].href;
+    return principal.props.currentUserPrincipal.href;
   }
 
   private async getCalendarHomeSet(principal: string): Promise<string> {
     const response = await this.client.propfind({
-      url: principal,
-      props: [
-        {
-          name: 'calendar-home-set',
-          namespace: 'urn:ietf:params:xml:ns:caldav',
-        },
-      ],
+      url: resolveHref(this.client, principal),
+      props: {
+        [`${DAVNamespaceShort.CALDAV}:calendar-home-set`]: {},
+      },
       depth: '0',
     });
 
-    const homeSet = response.find((r) => r.props?.['calendar-home-set']);
-    if (!homeSet?.props?.['calendar-home-set']?.href) {
+    const homeSet = response.find((r) => r.props?.calendarHomeSet);
+    if (!homeSet?.props?.calendarHomeSet?.href) {
       throw new Error('Unable to determine calendar home set');
     }
 
-    return homeSet.props['calendar-home-set'].href;
+    return homeSet.props.calendarHomeSet.href;
   }
 
   private async getCalendarCollections(
     home: string,
   ): Promise<CalendarCollection[]> {
     const response = await this.client.propfind({
-      url: home,
-      props: [
-        {
-          name: 'displayname',
-          namespace: 'DAV:',
-        },
-        {
-          name: 'resourcetype',
-          namespace: 'DAV:',
-        },
-        {
-          name: 'supported-calendar-component-set',
-          namespace: 'urn:ietf:params:xml:ns:caldav',
-        },
-      ],
+      url: resolveHref(this.client, home),
+      props: {
+        [`${DAVNamespaceShort.DAV}:displayname`]: {},
+        [`${DAVNamespaceShort.DAV}:resourcetype`]: {},
+        [`${DAVNamespaceShort.CALDAV}:supported-calendar-component-set`]: {},
+      },
       depth: '1',
     });
 
@@ -97,9 +89,12 @@ export class CalDavDiscovery {
       const isCalendar = resourceType?.calendar !== undefined;
 
       if (isCalendar && item.href !== home) {
-        const displayName = item.props?.displayname || 'Unnamed Calendar';
+        // Names made of digits arrive as numbers
+        const displayName = item.props?.displayname
+          ? String(item.props.displayname)
+          : 'Unnamed Calendar';
         const componentSet = this.parseComponentSet(
-          item.props?.['supported-calendar-component-set'],
+          item.props?.supportedCalendarComponentSet,
         );
 
         const calendarId = this.extractCalendarId(item.href, home);
@@ -117,22 +112,21 @@ export class CalDavDiscovery {
   }
 
   private parseComponentSet(
-    componentSetProp:
-      | { comp?: { name?: string } | Array<{ name?: string }> }
-      | undefined,
+    componentSetProp: { comp?: ComponentProp | ComponentProp[] } | undefined,
   ): string[] {
     if (!componentSetProp?.comp) {
       return ['VEVENT', 'VTODO', 'VJOURNAL']; // Default components
     }
 
+    // The component name is an XML attribute: <C:comp name="VEVENT"/>
     if (Array.isArray(componentSetProp.comp)) {
       return componentSetProp.comp
-        .map((c) => c.name)
+        .map((c) => c._attributes?.name)
         .filter(Boolean) as string[];
     }
 
-    if (componentSetProp.comp.name) {
-      return [componentSetProp.comp.name];
+    if (componentSetProp.comp._attributes?.name) {
+      return [componentSetProp.comp._attributes.name];
     }
 
     return ['VEVENT', 'VTODO', 'VJOURNAL'];
@@ -1,5 +1,24 @@
-import { parseICalDate } from './ical';
-import type { ComponentType } from './types';
+import { escapeText, foldLine, parseDuration, parseICalDate } from './ical';
+import {
+  type ICalComponent,
+  type ICalProperty,
+  attachSource,
+  getProperty,
+  getPropertyValues,
+  parseICalendar,
+  referencedTimeZones,
+  serializeComponent,
+  serializeProperty,
+  sourceOf,
+} from './icalendar';
+import { compileJmesPath, isTruthy } from './jmespath';
+import { isRecurring, occursInRange } from './recurrence';
+import type { QueryFilters, TextFilter, TimeRange } from './report';
+import { registerTimeZones } from './timezone';
+import { COMPONENT_TYPES, type ComponentType } from './types';
+
+// Latest instant a Date can represent
+const MAX_TIME = 8.64e15;
 
 export interface CalendarComponent {
   uid: string;
@@ -17,37 +36,27 @@ export interface CalendarComponent {
 
 export function parseICalendarData(icalData: string): CalendarComponent[] {
   const components: CalendarComponent[] = [];
-  const unfoldedData = icalData.replace(/\r?\n[ \t]/g, '');
-  const lines = unfoldedData.split(/\r?\n/);
-
-  let currentComponent: Partial<CalendarComponent> | null = null;
-  let inComponent = false;
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) continue;
+  if (icalData.includes('BEGIN:VTIMEZONE')) {
+    // Makes custom TZIDs resolvable when dates are compared later
+    registerTimeZones(icalData);
+  }
 
-    if (
-      trimmedLine.startsWith('BEGIN:VEVENT') ||
-      trimmedLine.startsWith('BEGIN:VTODO') ||
-      trimmedLine.startsWith('BEGIN:VJOURNAL')
-    ) {
-      currentComponent = {};
-      const componentType = trimmedLine.split(':')[1];
-      currentComponent.componentType = componentType;
-      inComponent = true;
-    } else if (
-      trimmedLine.startsWith('END:VEVENT') ||
-      trimmedLine.startsWith('END:VTODO') ||
-      trimmedLine.startsWith('END:VJOURNAL')
-    ) {
-      if (currentComponent?.uid) {
-        components.push(currentComponent as CalendarComponent);
+  for (const root of parseICalendar(icalData)) {
+    const calendar = root.name.toUpperCase() === 'VCALENDAR' ? root : undefined;
+    for (const node of calendar ? calendar.components : [root]) {
+      const componentType = node.name.toUpperCase() as ComponentType;
+      if (!COMPONENT_TYPES.includes(componentType)) continue;
+
+      // Only the component's own properties count; nested VALARMs keep
+      // theirs in the source tree
+      const component: Partial<CalendarComponent> = { componentType };
+      for (const property of node.properties) {
+        parseProperty(property, component);
       }
-      currentComponent = null;
-      inComponent = false;
-    } else if (inComponent && currentComponent) {
-      parseProperty(trimmedLine, currentComponent);
+      if (!component.uid) continue;
+
+      attachSource(component, { component: node, calendar });
+      components.push(component as CalendarComponent);
     }
   }
 
@@ -55,19 +64,17 @@ export function parseICalendarData(icalData: string): CalendarComponent[] {
 }
 
 function parseProperty(
-  line: string,
+  property: ICalProperty,
   component: Partial<CalendarComponent>,
 ): void {
-  const colonIndex = line.indexOf(':');
-  if (colonIndex === -1) return;
-
-  const propPart = line.substring(0, colonIndex);
-  const value = line.substring(colonIndex + 1);
-
-  const [propName, ...paramParts] = propPart.split(';');
-  const params = parseParameters(paramParts);
+  const { value } = property;
+  const propName = property.name.toUpperCase();
+  const params: Record<string, string> = {};
+  for (const param of property.params) {
+    params[param.name.toUpperCase()] = param.value.replace(/^"|"$/g, '');
+  }
 
-  switch (propName.toUpperCase()) {
+  switch (propName) {
     case 'UID':
       component.uid = value;
       break;
@@ -80,8 +87,11 @@ function parseProperty(
     case 'DTEND':
       component.dtend = parseDateTime(value, params);
       break;
+    case 'DUE':
+      component.due = parseDateTime(value, params);
+      break;
     case 'CATEGORIES': {
-      const parts = value.split(/(?<!\\),/);
+      const parts = getPropertyValues(property);
       component.categories = parts.map((cat) => unescapeValue(cat.trim()));
       break;
     }
@@ -97,22 +107,26 @@ function parseProperty(
     case 'LOCATION':
       component.location = unescapeValue(value);
       break;
+    case 'RECURRENCE-ID':
+      component['recurrence-id'] = parseDateTime(value, params);
+      break;
+    case 'EXDATE':
+    case 'RDATE': {
+      // Both may appear several times; keep every value with its TZID
+      const key = propName.toLowerCase();
+      const values = value
+        .split(',')
+        .map((v) => parseDateTime(v, params))
+        .join(',');
+      const existing = component[key];
+      component[key] = existing ? `${existing},${values}` : values;
+      break;
+    }
     default:
       component[propName.toLowerCase()] = unescapeValue(value);
   }
 }
 
-function parseParameters(paramParts: string[]): Record<string, string> {
-  const params: Record<string, string> = {};
-  for (const param of paramParts) {
-    const [key, value] = param.split('=');
-    if (key && value) {
-      params[key.toUpperCase()] = value;
-    }
-  }
-  return params;
-}
-
 function parseDateTime(value: string, params: Record<string, string>): string {
   if (params.TZID) {
     return `${value} (${params.TZID})`;
@@ -150,8 +164,25 @@ export function filterByTimeRange(
   const endDate = end ? new Date(end) : null;
 
   return components.filter((comp) => {
+    if (
+      comp.componentType === 'VTODO' &&
+      !(comp.dtstart && isRecurring(comp))
+    ) {
+      return todoInRange(
+        comp,
+        startDate ? startDate.getTime() : -MAX_TIME,
+        endDate ? endDate.getTime() : MAX_TIME,
+      );
+    }
     if (!comp.dtstart) return false;
 
+    if (isRecurring(comp)) {
+      // Inclusive bounds like the single-instance check below
+      const from = startDate ? startDate.getTime() - 1 : -MAX_TIME;
+      const to = endDate ? endDate.getTime() + 1 : MAX_TIME;
+      return occursInRange(comp, new Date(from), new Date(to));
+    }
+
     const compStart = parseICalDate(comp.dtstart);
     const isAllDay = /^\d{8}$/.test((comp.dtstart || '').replace(/[^\d]/g, ''));
     const compEnd = comp.dtend
@@ -167,6 +198,43 @@ export function filterByTimeRange(
   });
 }
 
+// RFC 4791 section 9.9: a task overlaps the range by whichever of
+// DTSTART, DURATION, DUE, COMPLETED and CREATED it has; with none it
+// always does
+function todoInRange(
+  comp: CalendarComponent,
+  start: number,
+  end: number,
+): boolean {
+  const time = (value: unknown) =>
+    typeof value === 'string' ? parseICalDate(value).getTime() : undefined;
+  const dtstart = time(comp.dtstart);
+  const due = time(comp.due);
+  const completed = time(comp.completed);
+  const created = time(comp.created);
+
+  if (dtstart !== undefined) {
+    if (typeof comp.duration === 'string') {
+      const finish = dtstart + parseDuration(comp.duration);
+      return start <= finish && (end > dtstart || end >= finish);
+    }
+    if (due !== undefined) {
+      return (start < due || start <= dtstart) && (end > dtstart || end >= due);
+    }
+    return start <= dtstart && end > dtstart;
+  }
+  if (due !== undefined) return start < due && end >= due;
+  if (completed !== undefined && created !== undefined) {
+    return (
+      (start <= created || start <= completed) &&
+      (end >= created || end >= completed)
+    );
+  }
+  if (completed !== undefined) return start <= completed && end >= completed;
+  if (created !== undefined) return end > created;
+  return true;
+}
+
 export function filterByStatus(
   components: CalendarComponent[],
   status: string,
@@ -182,103 +250,87 @@ export function filterByUid(
   return components.filter((comp) => comp.uid === uid);
 }
 
-export function filterByJmesExpression(
+/**
+ * Case-insensitive substring match like a CalDAV text-match; components
+ * without the property never match, negated or not.
+ */
+export function filterByText(
   components: CalendarComponent[],
-  jmesFilter: string,
+  filter: TextFilter,
 ): CalendarComponent[] {
-  try {
-    if (jmesFilter.includes('==')) {
-      const [path, expectedValue] = jmesFilter.split('==').map((s) => s.trim());
-      const cleanExpected = expectedValue.replace(/['"]/g, '');
-
-      return components.filter((comp) => {
-        const actualValue = getNestedProperty(
-          comp as unknown as Record<string, unknown>,
-          path,
-        );
-        return actualValue === cleanExpected;
-      });
-    }
-
-    if (jmesFilter.includes('contains')) {
-      const match = jmesFilter.match(/contains\(([^,]+),\s*['"]([^'"]+)['"]\)/);
-      if (match) {
-        const [, path, searchValue] = match;
-        return components.filter((comp) => {
-          const actualValue = getNestedProperty(
-            comp as unknown as Record<string, unknown>,
-            path.trim(),
-          );
-          return (
-            typeof actualValue === 'string' && actualValue.includes(searchValue)
-          );
-        });
-      }
-    }
-
-    if (jmesFilter.includes('length(')) {
-      const match = jmesFilter.match(/length\(([^)]+)\)\s*([><=]+)\s*(\d+)/);
-      if (match) {
-        const [, path, operator, countStr] = match;
-        const expectedCount = Number.parseInt(countStr, 10);
-
-        return components.filter((comp) => {
-          const arrayValue = getNestedProperty(
-            comp as unknown as Record<string, unknown>,
-            path.trim(),
-          );
-          if (!Array.isArray(arrayValue)) return false;
-
-          switch (operator) {
-            case '>':
-              return arrayValue.length > expectedCount;
-            case '<':
-              return arrayValue.length < expectedCount;
-            case '>=':
-              return arrayValue.length >= expectedCount;
-            case '<=':
-              return arrayValue.length <= expectedCount;
-            case '==':
-              return arrayValue.length === expectedCount;
-            default:
-              return false;
-          }
-        });
-      }
-    }
-
-    return components;
-  } catch (error) {
-    console.warn(
-      `JMES filter parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+  const key = filter.property.toLowerCase();
+  const needle = filter.value.toLowerCase();
+  const matches = (text: string) =>
+    text.toLowerCase().includes(needle) !== Boolean(filter.negate);
+
+  if (filter.parameter) {
+    // Parameters are only kept in the source tree
+    const name = filter.property.toUpperCase();
+    const parameter = filter.parameter.toUpperCase();
+    return components.filter((comp) =>
+      (sourceOf(comp)?.component.properties ?? []).some(
+        (property) =>
+          property.name.toUpperCase() === name &&
+          property.params.some(
+            (param) =>
+              param.name.toUpperCase() === parameter &&
+              matches(param.value.replace(/^"|"$/g, '')),
+          ),
+      ),
     );
-    return components;
   }
+
+  return components.filter((comp) => {
+    const value = comp[key];
+    if (value === undefined) return false;
+    return matches(Array.isArray(value) ? value.join(',') : String(value));
+  });
 }
 
-function getNestedProperty(
-  obj: Record<string, unknown>,
-  path: string,
-): unknown {
-  const keys = path.split('.');
-  let current: unknown = obj;
-
-  for (const key of keys) {
-    if (key.includes('[') && key.includes(']')) {
-      const [arrayKey, indexStr] = key.split('[');
-      const index = Number.parseInt(indexStr.replace(']', ''), 10);
-      const container = current as Record<string, unknown> | undefined;
-      const arr = (container?.[arrayKey] as unknown[] | undefined) ?? undefined;
-      current = arr?.[index];
-    } else {
-      const container = current as Record<string, unknown> | undefined;
-      current = container?.[key];
-    }
+export function filterByUndefinedProperty(
+  components: CalendarComponent[],
+  property: string,
+): CalendarComponent[] {
+  const key = property.toLowerCase();
+  return components.filter((comp) => comp[key] === undefined);
+}
 
-    if (current === undefined) break;
-  }
+/** Keeps components whose date property lies in [start, end). */
+export function filterByPropertyRange(
+  components: CalendarComponent[],
+  property: string,
+  range: TimeRange,
+): CalendarComponent[] {
+  const key = property.toLowerCase();
+  const start = range.start ? new Date(range.start).getTime() : -MAX_TIME;
+  const end = range.end ? new Date(range.end).getTime() : MAX_TIME;
+  return components.filter((comp) => {
+    const value = comp[key];
+    if (typeof value !== 'string') return false;
+    const time = parseICalDate(value).getTime();
+    return time >= start && time < end;
+  });
+}
 
-  return current;
+/**
+ * Keeps the components for which the JMESPath expression is truthy, e.g.
+ * `priority <= \`2\` && status == 'NEEDS-ACTION'`. Throws for invalid
+ * expressions.
+ */
+export function filterByJmesExpression(
+  components: CalendarComponent[],
+  jmesFilter: string,
+): CalendarComponent[] {
+  const matches = compileJmesPath(jmesFilter);
+  return components.filter((comp) => {
+    try {
+      return isTruthy(matches(comp));
+    } catch (error) {
+      throw new Error(
+        `Filter expression failed for ${comp.uid}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  });
 }
 
 export function combineFilters(
@@ -320,53 +372,143 @@ export function combineFilters(
   return filtered;
 }
 
-export function componentsToICalendar(components: CalendarComponent[]): string {
-  const icalLines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//MCP CalDAV Server//EN',
-  ];
-
-  for (const comp of components) {
-    const compType =
-      comp.componentType ||
-      (comp.dtstart ? 'VEVENT' : comp.status ? 'VTODO' : 'VJOURNAL');
-
-    icalLines.push(`BEGIN:${compType}`);
-
-    if (comp.uid) icalLines.push(`UID:${comp.uid}`);
-    if (comp.summary) icalLines.push(`SUMMARY:${escapeValue(comp.summary)}`);
-    if (comp.dtstart)
-      icalLines.push(`DTSTART:${comp.dtstart.replace(/[^0-9TZ]/g, '')}`);
-    if (comp.dtend)
-      icalLines.push(`DTEND:${comp.dtend.replace(/[^0-9TZ]/g, '')}`);
-    if (comp.description)
-      icalLines.push(`DESCRIPTION:${escapeValue(comp.description)}`);
-    if (comp.location) icalLines.push(`LOCATION:${escapeValue(comp.location)}`);
-    if (comp.status) icalLines.push(`STATUS:${comp.status}`);
-    if (comp.priority) icalLines.push(`PRIORITY:${comp.priority}`);
-    if (comp.categories?.length) {
-      icalLines.push(
-        `CATEGORIES:${comp.categories.map((c) => escapeValue(c)).join(',')}`,
-      );
+/** Applies the filters a CalDAV query could not evaluate on the server. */
+export function applyQueryFilters(
+  components: CalendarComponent[],
+  filters: QueryFilters,
+): CalendarComponent[] {
+  let filtered = combineFilters(components, {
+    category: filters.categoryFilter,
+    timeRange: filters.timeRange,
+    status: filters.status,
+    uid: filters.uid,
+  });
+  for (const filter of filters.textFilters ?? []) {
+    filtered = filterByText(filtered, filter);
+  }
+  for (const property of filters.undefinedProperties ?? []) {
+    filtered = filterByUndefinedProperty(filtered, property);
+  }
+  if (filters.dueRange) {
+    filtered = filterByPropertyRange(filtered, 'due', filters.dueRange);
+  }
+  if (filters.completedRange) {
+    filtered = filterByPropertyRange(
+      filtered,
+      'completed',
+      filters.completedRange,
+    );
+  }
+  // Last, so that expressions run on as few components as possible
+  if (filters.jmesFilter) {
+    filtered = filterByJmesExpression(filtered, filters.jmesFilter);
+  }
+  return filtered;
+}
+
+// Turns a stored value like `20240115T090000 (Europe/Berlin)` back into
+// a property line with its TZID parameter
+function dateTimeLine(name: string, value: string): string {
+  const match = /^(\S+?)\s*\(([^)]+)\)\s*$/.exec(value.trim());
+  const [date, tzid] = match ? [match[1], match[2]] : [value.trim(), null];
+  const params = [
+    /^\d{8}$/.test(date) ? ';VALUE=DATE' : '',
+    tzid ? `;TZID=${tzid}` : '',
+  ].join('');
+  return `${name}${params}:${date}`;
+}
+
+// Only used for components that were not parsed from iCalendar data
+function buildComponentLines(comp: CalendarComponent): string[] {
+  const compType =
+    comp.componentType ||
+    (comp.dtstart ? 'VEVENT' : comp.status ? 'VTODO' : 'VJOURNAL');
+  const icalLines = [`BEGIN:${compType}`];
+
+  if (comp.uid) icalLines.push(`UID:${comp.uid}`);
+  if (comp.summary) icalLines.push(`SUMMARY:${escapeText(comp.summary)}`);
+  if (comp.dtstart) icalLines.push(dateTimeLine('DTSTART', comp.dtstart));
+  if (comp.dtend) icalLines.push(dateTimeLine('DTEND', comp.dtend));
+  if (comp.due) icalLines.push(dateTimeLine('DUE', String(comp.due)));
+  if (comp.description)
+    icalLines.push(`DESCRIPTION:${escapeText(comp.description)}`);
+  if (comp.location) icalLines.push(`LOCATION:${escapeText(comp.location)}`);
+  if (comp['recurrence-id'])
+    icalLines.push(
+      dateTimeLine('RECURRENCE-ID', String(comp['recurrence-id'])),
+    );
+  if (comp.rrule) icalLines.push(`RRULE:${comp.rrule}`);
+  for (const key of ['rdate', 'exdate']) {
+    const values = comp[key];
+    if (typeof values !== 'string') continue;
+    for (const value of values.split(',')) {
+      icalLines.push(dateTimeLine(key.toUpperCase(), value));
     }
+  }
+  if (comp.status) icalLines.push(`STATUS:${comp.status}`);
+  if (comp.priority) icalLines.push(`PRIORITY:${comp.priority}`);
+  if (comp.categories?.length) {
+    icalLines.push(
+      `CATEGORIES:${comp.categories.map((c) => escapeText(c)).join(',')}`,
+    );
+  }
+
+  icalLines.push(`END:${compType}`);
+  return icalLines.map(foldLine);
+}
 
-    icalLines.push(`END:${compType}`);
+/**
+ * Serializes components into one VCALENDAR. Parsed components are written
+ * back exactly as they were read, including parameters, nested components
+ * and unknown properties, together with the VTIMEZONEs they reference.
+ * When all components come from the same object its calendar properties
+ * are kept as well.
+ */
+export function componentsToICalendar(components: CalendarComponent[]): string {
+  const sources = components.map((comp) => sourceOf(comp));
+  const calendars = new Set(sources.map((source) => source?.calendar));
+  const [calendar] = calendars;
+
+  const icalLines = ['BEGIN:VCALENDAR'];
+  if (calendars.size === 1 && calendar) {
+    icalLines.push(...calendar.properties.map(serializeProperty));
+  } else {
+    icalLines.push('VERSION:2.0', 'PRODID:-//MCP CalDAV Server//EN');
   }
 
+  const tzids = new Set(
+    sources.flatMap((source) =>
+      source ? [...referencedTimeZones(source.component)] : [],
+    ),
+  );
+  const timezones = new Map<string, ICalComponent>();
+  for (const source of sources) {
+    for (const child of source?.calendar?.components ?? []) {
+      if (child.name.toUpperCase() !== 'VTIMEZONE') continue;
+      const tzid = getProperty(child, 'TZID')?.value;
+      if (tzid && tzids.has(tzid) && !timezones.has(tzid)) {
+        timezones.set(tzid, child);
+      }
+    }
+  }
+  for (const timezone of timezones.values()) {
+    icalLines.push(...serializeComponent(timezone));
+  }
+
+  components.forEach((comp, index) => {
+    const source = sources[index];
+    icalLines.push(
+      ...(source
+        ? serializeComponent(source.component)
+        : buildComponentLines(comp)),
+    );
+  });
+
   icalLines.push('END:VCALENDAR');
 
   return icalLines.join('\r\n');
 }
 
-function escapeValue(value: string): string {
-  return value
-    .replace(/\\/g, '\\\\')
-    .replace(/;/g, '\\;')
-    .replace(/,/g, '\\,')
-    .replace(/\r\n|\n|\r/g, '\\n');
-}
-
 // Backward-compatible object to match previous class static API
 export const CalDavFilters = {
   parseICalendarData,
@@ -374,7 +516,11 @@ export const CalDavFilters = {
   filterByTimeRange,
   filterByStatus,
   filterByUid,
+  filterByText,
+  filterByUndefinedProperty,
+  filterByPropertyRange,
   filterByJmesExpression,
   combineFilters,
+  applyQueryFilters,
   componentsToICalendar,
 };
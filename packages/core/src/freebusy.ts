@@ -0,0 +1,124 @@
+import type { CalendarComponent } from './filters';
+import { parseDuration, parseICalDate, toICalDateTime } from './ical';
+
+export interface BusyPeriod {
+  start: Date;
+  end: Date;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function mergeBusyPeriods(periods: BusyPeriod[]): BusyPeriod[] {
+  const sorted = [...periods]
+    .filter((p) => p.end > p.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: BusyPeriod[] = [];
+  for (const period of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) last.end = period.end;
+    } else {
+      merged.push({ start: period.start, end: period.end });
+    }
+  }
+  return merged;
+}
+
+function clip(period: BusyPeriod, start: Date, end: Date): BusyPeriod | null {
+  const clipped = {
+    start: period.start < start ? start : period.start,
+    end: period.end > end ? end : period.end,
+  };
+  return clipped.end > clipped.start ? clipped : null;
+}
+
+/**
+ * Parses the FREEBUSY properties of VFREEBUSY components into busy periods.
+ * FBTYPE=FREE periods are ignored; tentative and unavailable time counts as
+ * busy.
+ */
+export function parseFreeBusy(ical: string): BusyPeriod[] {
+  const periods: BusyPeriod[] = [];
+  const lines = ical.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  for (const line of lines) {
+    if (!/^FREEBUSY[;:]/i.test(line)) continue;
+
+    const colon = line.indexOf(':');
+    const params = line.slice(0, colon).toUpperCase();
+    if (params.includes('FBTYPE=FREE')) continue;
+
+    for (const value of line.slice(colon + 1).split(',')) {
+      const [startValue, endValue] = value.trim().split('/');
+      if (!startValue || !endValue) continue;
+
+      const start = parseICalDate(startValue);
+      const end = endValue.startsWith('P')
+        ? new Date(start.getTime() + parseDuration(endValue))
+        : parseICalDate(endValue);
+      periods.push({ start, end });
+    }
+  }
+
+  return mergeBusyPeriods(periods);
+}
+
+/**
+ * Derives busy periods from events for servers without free-busy-query
+ * support. Transparent and cancelled events do not block time.
+ */
+export function busyPeriodsFromComponents(
+  components: CalendarComponent[],
+  start: Date,
+  end: Date,
+): BusyPeriod[] {
+  const periods: BusyPeriod[] = [];
+
+  for (const comp of components) {
+    if (comp.componentType && comp.componentType !== 'VEVENT') continue;
+    if (!comp.dtstart) continue;
+    if (comp.status === 'CANCELLED') continue;
+    if (String(comp.transp ?? '').toUpperCase() === 'TRANSPARENT') continue;
+
+    const compStart = parseICalDate(comp.dtstart);
+    const isAllDay = /^\d{8}$/.test(comp.dtstart.replace(/\s*\(.*\)$/, ''));
+    const compEnd = comp.dtend
+      ? parseICalDate(comp.dtend)
+      : typeof comp.duration === 'string'
+        ? new Date(compStart.getTime() + parseDuration(comp.duration))
+        : new Date(compStart.getTime() + (isAllDay ? DAY : 0));
+
+    const clipped = clip({ start: compStart, end: compEnd }, start, end);
+    if (clipped) periods.push(clipped);
+  }
+
+  return mergeBusyPeriods(periods);
+}
+
+export function buildFreeBusyCalendar(
+  periods: BusyPeriod[],
+  start: Date,
+  end: Date,
+  now = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MCP CalDAV Server//EN',
+    'BEGIN:VFREEBUSY',
+    `DTSTAMP:${toICalDateTime(now.toISOString())}`,
+    `DTSTART:${toICalDateTime(start.toISOString())}`,
+    `DTEND:${toICalDateTime(end.toISOString())}`,
+  ];
+
+  for (const period of periods) {
+    lines.push(
+      `FREEBUSY;FBTYPE=BUSY:${toICalDateTime(period.start.toISOString())}/${toICalDateTime(period.end.toISOString())}`,
+    );
+  }
+
+  lines.push('END:VFREEBUSY', 'END:VCALENDAR');
+
+  return lines.join('\r\n');
+}
@@ -1,21 +1,107 @@
-import type { CalDavClient } from './caldav';
-import { CalDavDiscovery, type DiscoveryResult } from './discovery';
+import { DAVNamespaceShort } from 'tsdav';
+import type { CalDavAccount } from './accounts';
+import { renderAgenda } from './agenda';
+import { ComponentCache, type ComponentCacheOptions } from './cache';
+import { AUTHENTICATION_FAILED, type CalDavClient, accountKey } from './caldav';
+import {
+  type ComponentPatch,
+  buildICalendarObject,
+  generateUid,
+  patchICalendarObject,
+} from './components';
+import {
+  CalDavDiscovery,
+  type CalendarCollection,
+  type DiscoveryResult,
+} from './discovery';
 import { CalDavFilters, type CalendarComponent } from './filters';
-import { type CalendarQueryOptions, buildCalendarQuery } from './report';
-import type { ComponentType } from './types';
+import {
+  type BusyPeriod,
+  buildFreeBusyCalendar,
+  busyPeriodsFromComponents,
+  parseFreeBusy,
+} from './freebusy';
+import { parseDateInput, toICalDateTime } from './ical';
+import { parseICalendar } from './icalendar';
+import { toJCal, toJsonComponent } from './jcal';
+import { compileJmesPath } from './jmespath';
+import {
+  type CalendarObject,
+  buildObjectHref,
+  createCalendarObject,
+  deleteCalendarObject,
+  deleteCollection,
+  freeBusyQuery,
+  makeCalendar,
+  patchCollection,
+  resolveHref,
+  transferCalendarObject,
+  updateCalendarObject,
+} from './objects';
+import {
+  ACCESS_DENIED,
+  type CalDavAccessPolicy,
+  applyAccessPolicy,
+  assertComponentAllowed,
+  assertWritable,
+  combineAccessPolicies,
+  isCalendarVisible,
+  isCalendarWritable,
+  isComponentAllowed,
+  validateAccessPolicy,
+} from './policy';
+import { buildPromptPlan } from './prompts';
+import { expandComponents } from './recurrence';
+import {
+  type CalendarCollectionProps,
+  type CalendarQueryOptions,
+  buildCalendarQuery,
+  buildDavFilter,
+  buildFreeBusyQuery,
+  buildMkCalendar,
+  buildPropPatch,
+  translateQueryOptions,
+} from './report';
+import { type CalDavResource, buildCalendarResources } from './resources';
+import { findFreeSlots } from './slots';
+import { CalDavSyncEngine } from './sync';
+import {
+  type TaskTransition,
+  completeTask,
+  reopenTask,
+  setTaskProgress,
+} from './tasks';
+import { formatInTimeZone, isValidTimeZone } from './timezone';
+import { validateToolArguments } from './tools';
+import { COMPONENT_TYPES, type ComponentType } from './types';
 import {
   type ParsedCalDavUri,
+  buildCalDavUri,
   getComponentType,
   getFilterParams,
+  getPropertyRange,
   getTimeRange,
   isMetadataRequest,
   parseCalDavUri,
+  parseTextFilter,
 } from './uri';
 
 export interface CalDavRequestContext {
   uri: string;
   client: CalDavClient;
   timeout?: number;
+  /**
+   * Every account of a server with several; the calendar list of a URI
+   * without an account parameter then covers all of them
+   */
+  accounts?: CalDavAccount[];
+}
+
+export interface CalDavToolContext {
+  name: string;
+  arguments: Record<string, unknown>;
+  client: CalDavClient;
+  timeout?: number;
 }
 
 export interface CalDavResponse {
@@ -24,6 +110,44 @@ export interface CalDavResponse {
   status: number;
 }
 
+export interface CalDavPromptResult {
+  description: string;
+  messages: Array<{
+    role: 'user';
+    content:
+      | { type: 'text'; text: string }
+      | {
+          type: 'resource';
+          resource: { uri: string; mimeType: string; text: string };
+        };
+  }>;
+}
+
+export interface CalDavHandlerOptions {
+  /**
+   * IANA time zone for dates and local times given without an offset;
+   * defaults to UTC
+   */
+  timeZone?: string;
+  /**
+   * Answer reads from a local copy of each collection that is kept current
+   * with sync-collection (RFC 6578), or CTag/ETag comparison where the
+   * server does not support it, instead of querying the server every time
+   */
+  sync?: boolean;
+  /**
+   * Keep the synced collections and the discovery result on disk, so that
+   * they survive restarts and reads still work while the server is
+   * unreachable; turns on sync
+   */
+  cache?: ComponentCacheOptions;
+  /**
+   * Calendars and component types the agent may see and change; hidden
+   * calendars are left out of listings as well as refused
+   */
+  policy?: CalDavAccessPolicy;
+}
+
 export class CalDavRequestHandler {
   private discoveryCache = new Map<
     string,
@@ -31,7 +155,39 @@ export class CalDavRequestHandler {
   >();
   private readonly CACHE_TTL = 300000; // 5 minutes
 
-  constructor(private defaultTimeout = 30000) {}
+  private readonly timeZone: string;
+  private readonly syncEngine?: CalDavSyncEngine;
+  private readonly componentCache?: ComponentCache;
+  private readonly policy: CalDavAccessPolicy;
+  // Policies of single accounts by account key, on top of the one above
+  private readonly accountPolicies = new Map<string, CalDavAccessPolicy>();
+  private discoveryListeners: Array<(client: CalDavClient) => void> = [];
+  // Collections of the last discovery per account, kept across expiry and
+  // purges so that changes can be told apart from refreshes
+  private lastCollections = new Map<string, string>();
+
+  constructor(
+    private defaultTimeout = 30000,
+    options: CalDavHandlerOptions = {},
+  ) {
+    const timeZone = options.timeZone ?? 'UTC';
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+    this.timeZone = timeZone;
+    this.policy = options.policy ?? {};
+    validateAccessPolicy(this.policy);
+    if (options.cache) this.componentCache = new ComponentCache(options.cache);
+    if (options.sync || this.componentCache) {
+      this.syncEngine = new CalDavSyncEngine(this.componentCache);
+    }
+  }
+
+  /** Restricts one account further than the server-wide policy does. */
+  setAccountPolicy(client: CalDavClient, policy: CalDavAccessPolicy): void {
+    validateAccessPolicy(policy);
+    this.accountPolicies.set(accountKey(client), policy);
+  }
 
   async handleRequest(context: CalDavRequestContext): Promise<CalDavResponse> {
     try {
@@ -39,7 +195,20 @@ export class CalDavRequestHandler {
       const discovery = await this.getDiscoveryResult(context.client);
 
       if (isMetadataRequest(parsed.templateName)) {
-        return await this.handleMetadataRequest(parsed, discovery);
+        return await this.handleMetadataRequest(
+          parsed,
+          discovery,
+          context.client,
+          parsed.variables.account ? undefined : context.accounts,
+        );
+      }
+      if (parsed.templateName === 'freebusy') {
+        return await this.handleFreeBusyRequest(
+          parsed,
+          discovery,
+          context.client,
+          context.timeout || this.defaultTimeout,
+        );
       }
       return await this.handleCalendarRequest(
         parsed,
@@ -48,22 +217,233 @@ export class CalDavRequestHandler {
         context.timeout,
       );
     } catch (error) {
-      return {
-        content: JSON.stringify({
-          error: error instanceof Error ? error.message : 'Unknown error',
-          timestamp: new Date().toISOString(),
-        }),
-        mimeType: 'application/json',
-        status: 400,
-      };
+      return this.createErrorResponse(error);
+    }
+  }
+
+  /**
+   * Concrete resources for the calendars of the client's account; with an
+   * account name, their URIs select that account.
+   */
+  async listResources(
+    client: CalDavClient,
+    account?: string,
+  ): Promise<CalDavResource[]> {
+    return buildCalendarResources(
+      await this.getDiscoveryResult(client),
+      new Date(),
+      account,
+    );
+  }
+
+  /**
+   * Resolves a prompt and embeds the resources it refers to, read like any
+   * other resource of the client's account.
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string | undefined>,
+    client: CalDavClient,
+  ): Promise<CalDavPromptResult> {
+    const plan = buildPromptPlan(
+      name,
+      args,
+      await this.getDiscoveryResult(client),
+      this.timeZone,
+    );
+
+    const messages: CalDavPromptResult['messages'] = [
+      { role: 'user', content: { type: 'text', text: plan.instructions } },
+    ];
+    for (const resource of plan.resources) {
+      const response = await this.handleRequest({ uri: resource.uri, client });
+      if (response.status >= 400) {
+        throw new Error(
+          `Failed to read ${resource.uri}: ${JSON.parse(response.content).error}`,
+        );
+      }
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: resource.uri,
+            mimeType: response.mimeType,
+            text: response.content,
+          },
+        },
+      });
+    }
+
+    return { description: plan.description, messages };
+  }
+
+  /**
+   * Registers a listener called when the discovered calendars change;
+   * returns a function that removes it again.
+   */
+  onDiscoveryChange(listener: (client: CalDavClient) => void): () => void {
+    this.discoveryListeners.push(listener);
+    return () => {
+      this.discoveryListeners = this.discoveryListeners.filter(
+        (l) => l !== listener,
+      );
+    };
+  }
+
+  /** Hrefs of the collections the result of a URI is read from. */
+  async getCollectionsForUri(
+    uri: string,
+    client: CalDavClient,
+  ): Promise<string[]> {
+    const parsed = parseCalDavUri(uri);
+    const discovery = await this.getDiscoveryResult(client);
+    if (isMetadataRequest(parsed.templateName)) {
+      return [discovery.home];
+    }
+    return [this.findCalendar(discovery, parsed.variables.calendarId).href];
+  }
+
+  async handleToolCall(context: CalDavToolContext): Promise<CalDavResponse> {
+    try {
+      const validation = validateToolArguments(context.name, context.arguments);
+      if (!validation.isValid) {
+        throw new Error(
+          `Invalid tool arguments: ${validation.errors.join(', ')}`,
+        );
+      }
+
+      // Purging works without the server
+      if (context.name === 'purge_cache') {
+        return await this.purgeCache(context.arguments, context.client);
+      }
+
+      const discovery = await this.getDiscoveryResult(context.client);
+
+      switch (context.name) {
+        case 'create_component':
+          return await this.createComponent(
+            context.arguments,
+            discovery,
+            context.client,
+          );
+        case 'update_component':
+          return await this.updateComponent(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+          );
+        case 'complete_task':
+          return await this.updateTask(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+            (data, uid) => completeTask(data, uid),
+          );
+        case 'reopen_task':
+          return await this.updateTask(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+            (data, uid) => reopenTask(data, uid),
+          );
+        case 'set_task_progress':
+          return await this.updateTask(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+            (data, uid) =>
+              setTaskProgress(data, uid, context.arguments.percent as number),
+          );
+        case 'move_component':
+          return await this.moveComponent(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+          );
+        case 'create_calendar':
+          return await this.createCalendar(
+            context.arguments,
+            discovery,
+            context.client,
+          );
+        case 'update_calendar':
+          return await this.updateCalendar(
+            context.arguments,
+            discovery,
+            context.client,
+          );
+        case 'delete_calendar':
+          return await this.deleteCalendar(
+            context.arguments,
+            discovery,
+            context.client,
+          );
+        case 'find_free_slots':
+          return await this.findFreeSlots(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+          );
+        case 'delete_component':
+          return await this.deleteComponent(
+            context.arguments,
+            discovery,
+            context.client,
+            context.timeout || this.defaultTimeout,
+          );
+        default:
+          throw new Error(`Unknown tool: ${context.name}`);
+      }
+    } catch (error) {
+      return this.createErrorResponse(error);
     }
   }
 
+  private createErrorResponse(
+    error: unknown,
+    status = error instanceof Error && error.message.startsWith(ACCESS_DENIED)
+      ? 403
+      : 400,
+  ): CalDavResponse {
+    return {
+      content: JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      }),
+      mimeType: 'application/json',
+      status,
+    };
+  }
+
+  /** The server-wide policy combined with that of the client's account */
+  private policyFor(client: CalDavClient): CalDavAccessPolicy {
+    return combineAccessPolicies(
+      this.policy,
+      this.accountPolicies.get(accountKey(client)),
+    );
+  }
+
+  /** The calendars of the client's account that the policy lets be seen. */
   private async getDiscoveryResult(
     client: CalDavClient,
   ): Promise<DiscoveryResult> {
-    // Key cache on both server URL and username to prevent session leakage
-    const cacheKey = `${client.serverUrl}:${client.credentials.username || 'anonymous'}`;
+    return applyAccessPolicy(
+      this.policyFor(client),
+      await this.discoverCalendars(client),
+    );
+  }
+
+  private async discoverCalendars(
+    client: CalDavClient,
+  ): Promise<DiscoveryResult> {
+    const cacheKey = this.getCacheKey(client);
     const cached = this.discoveryCache.get(cacheKey);
 
     if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
@@ -71,30 +451,148 @@ export class CalDavRequestHandler {
     }
 
     const discovery = new CalDavDiscovery(client);
-    const result = await discovery.discover();
+    let result: DiscoveryResult;
+    try {
+      result = await discovery.discover();
+    } catch (error) {
+      // fetch throws TypeError when the server cannot be reached
+      const stored =
+        error instanceof TypeError
+          ? await this.componentCache?.loadDiscovery(accountKey(client))
+          : null;
+      if (!stored) throw error;
+      return stored;
+    }
+    await this.componentCache
+      ?.saveDiscovery(accountKey(client), result)
+      .catch(() => undefined);
 
     this.discoveryCache.set(cacheKey, {
       result,
       timestamp: Date.now(),
     });
+    const previous = this.lastCollections.get(cacheKey);
+    const collections = JSON.stringify(result.collections);
+    this.lastCollections.set(cacheKey, collections);
+    if (previous !== undefined && previous !== collections) {
+      for (const listener of this.discoveryListeners) listener(client);
+    }
 
     return result;
   }
 
+  private getCacheKey(client: CalDavClient): string {
+    // Key cache on both server URL and username to prevent session leakage
+    return accountKey(client);
+  }
+
+  private invalidateCache(client: CalDavClient): void {
+    this.discoveryCache.delete(this.getCacheKey(client));
+  }
+
+  /** Discovers the calendars again instead of using the cached result. */
+  async refreshDiscovery(client: CalDavClient): Promise<DiscoveryResult> {
+    this.invalidateCache(client);
+    return await this.getDiscoveryResult(client);
+  }
+
+  private async purgeCache(
+    args: Record<string, unknown>,
+    client: CalDavClient,
+  ): Promise<CalDavResponse> {
+    // Purging deletes files, which a read-only server does not do either
+    assertWritable(this.policyFor(client));
+    const allAccounts = args.allAccounts === true;
+    if (allAccounts) {
+      for (const policy of this.accountPolicies.values()) {
+        assertWritable(policy);
+      }
+    }
+    const collections =
+      (await this.componentCache?.purge(
+        allAccounts ? undefined : accountKey(client),
+      )) ?? 0;
+    this.syncEngine?.clear(allAccounts ? undefined : client);
+    if (allAccounts) this.discoveryCache.clear();
+    else this.invalidateCache(client);
+
+    return {
+      content: JSON.stringify(
+        {
+          purged: true,
+          scope: allAccounts ? 'all' : 'account',
+          collections,
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: 200,
+    };
+  }
+
   private async handleMetadataRequest(
     parsed: ParsedCalDavUri,
     discovery: DiscoveryResult,
+    client: CalDavClient,
+    accounts?: CalDavAccount[],
   ): Promise<CalDavResponse> {
+    const listCalendars = (result: DiscoveryResult, account?: CalDavAccount) =>
+      result.collections.map((col) => ({
+        ...(account ? { account: account.name } : {}),
+        id: col.calendarId,
+        displayName: col.displayName,
+        componentSet: col.componentSet,
+        href: col.href,
+        readOnly: !isCalendarWritable(
+          this.policyFor(account?.client ?? client),
+          col.calendarId,
+        ),
+      }));
+
+    if (parsed.templateName === 'metadata-list-cals' && accounts) {
+      const discoveries: Array<{
+        account: CalDavAccount;
+        result: DiscoveryResult;
+      }> = [];
+      for (const account of accounts) {
+        try {
+          discoveries.push({
+            account,
+            result: await this.getDiscoveryResult(account.client),
+          });
+        } catch (error) {
+          throw new Error(
+            `Discovery failed for account ${account.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+      }
+      const metadata = {
+        accounts: discoveries.map(({ account, result }) => ({
+          name: account.name,
+          principal: result.principal,
+          home: result.home,
+        })),
+        calendars: discoveries.flatMap(({ account, result }) =>
+          listCalendars(result, account),
+        ),
+        timestamp: new Date().toISOString(),
+      };
+
+      return {
+        content: JSON.stringify(metadata, null, 2),
+        mimeType: 'application/json',
+        status: 200,
+      };
+    }
+
     if (parsed.templateName === 'metadata-list-cals') {
+      const account = parsed.variables.account;
       const metadata = {
+        ...(account ? { account } : {}),
         principal: discovery.principal,
         home: discovery.home,
-        calendars: discovery.collections.map((col) => ({
-          id: col.calendarId,
-          displayName: col.displayName,
-          componentSet: col.componentSet,
-          href: col.href,
-        })),
+        calendars: listCalendars(discovery),
         timestamp: new Date().toISOString(),
       };
 
@@ -115,58 +613,161 @@ export class CalDavRequestHandler {
     timeout?: number,
   ): Promise<CalDavResponse> {
     const { variables } = parsed;
-
-    // Validate calendar exists
-    const calendar = discovery.collections.find(
-      (col) => col.calendarId === variables.calendarId,
-    );
-    if (!calendar) {
-      throw new Error(`Calendar not found: ${variables.calendarId}`);
-    }
+    const calendar = this.findCalendar(discovery, variables.calendarId);
+    if (variables.comp)
+      assertComponentAllowed(this.policyFor(client), variables.comp);
 
     // Build query options
     const queryOptions: CalendarQueryOptions = {
-      componentType: getComponentType(variables) as ComponentType | undefined,
-      timeRange: getTimeRange(variables),
+      // The category template names VTODO literally
+      componentType:
+        getComponentType(variables) ??
+        (parsed.templateName === 'components-by-cat' ? 'VTODO' : undefined),
+      timeRange: this.normalizeTimeRange(getTimeRange(variables)),
     };
 
+    const expand = variables.expand === 'true';
+    if (expand) {
+      if (!queryOptions.timeRange?.start || !queryOptions.timeRange.end) {
+        throw new Error('expand requires both start and end');
+      }
+      queryOptions.expand = true;
+    }
+
     const filterParams = getFilterParams(variables);
     if (filterParams.category)
       queryOptions.categoryFilter = filterParams.category;
     if (filterParams.uid) queryOptions.uid = filterParams.uid;
-    if (filterParams.jmesFilter)
+    if (filterParams.status) queryOptions.status = filterParams.status;
+    if (filterParams.text) {
+      queryOptions.textFilters = [parseTextFilter(filterParams.text)];
+    }
+    if (filterParams.missing) {
+      queryOptions.undefinedProperties = filterParams.missing
+        .split(',')
+        .map((property) => property.trim())
+        .filter(Boolean);
+    }
+    const dueRange = getPropertyRange(variables, 'due');
+    if (dueRange.start || dueRange.end) {
+      queryOptions.dueRange = this.normalizeTimeRange(dueRange);
+    }
+    const completedRange = getPropertyRange(variables, 'completed');
+    if (completedRange.start || completedRange.end) {
+      queryOptions.completedRange = this.normalizeTimeRange(completedRange);
+    }
+    if (filterParams.jmesFilter) {
+      // Reject syntax errors before querying the server
+      compileJmesPath(filterParams.jmesFilter);
       queryOptions.jmesFilter = filterParams.jmesFilter;
+    }
 
-    // Execute CalDAV query
-    const calendarData = await this.executeCalendarQuery(
-      client,
-      calendar.href,
-      queryOptions,
-      timeout || this.defaultTimeout,
-    );
-
-    // Apply additional client-side filtering if needed
-    let components = CalDavFilters.parseICalendarData(calendarData);
+    let components: CalendarComponent[];
+    if (this.syncEngine) {
+      const calendarData = await this.readSyncedCollection(
+        client,
+        calendar.href,
+        timeout || this.defaultTimeout,
+      );
+      // The local copy holds the whole collection, so every filter applies
+      const { componentType } = queryOptions;
+      components = CalDavFilters.applyQueryFilters(
+        CalDavFilters.parseICalendarData(calendarData).filter(
+          (component) =>
+            !componentType || component.componentType === componentType,
+        ),
+        translateQueryOptions({ ...queryOptions, componentType: undefined })
+          .clientSide,
+      );
+    } else if (queryOptions.componentType) {
+      // Execute CalDAV query
+      const calendarData = await this.executeCalendarQuery(
+        client,
+        calendar.href,
+        queryOptions,
+        timeout || this.defaultTimeout,
+      );
 
-    if (filterParams.category) {
-      components = CalDavFilters.filterByCategory(
-        components,
-        filterParams.category,
+      // Apply what the server could not filter
+      components = CalDavFilters.applyQueryFilters(
+        CalDavFilters.parseICalendarData(calendarData),
+        translateQueryOptions(queryOptions).clientSide,
+      );
+    } else {
+      const objects = await this.fetchEachComponentType(
+        client,
+        calendar,
+        queryOptions,
+        timeout || this.defaultTimeout,
+      );
+      // Without a component type every filter is left to the client
+      components = CalDavFilters.applyQueryFilters(
+        CalDavFilters.parseICalendarData(
+          objects.map((object) => object.data).join('\n'),
+        ),
+        translateQueryOptions(queryOptions).clientSide,
       );
     }
-    if (filterParams.uid) {
-      components = CalDavFilters.filterByUid(components, filterParams.uid);
-    }
-    if (filterParams.jmesFilter) {
-      components = CalDavFilters.filterByJmesExpression(
+
+    // Reads by UID may find components of types the policy hides
+    components = components.filter((component) =>
+      isComponentAllowed(this.policyFor(client), component.componentType),
+    );
+
+    if (expand) {
+      components = expandComponents(
         components,
-        filterParams.jmesFilter,
+        new Date(queryOptions.timeRange?.start as string),
+        new Date(queryOptions.timeRange?.end as string),
       );
     }
 
+    if (variables.format === 'agenda') {
+      const { timeRange } = queryOptions;
+      if (!timeRange?.start || !timeRange.end) {
+        throw new Error('agenda requires both start and end');
+      }
+      const timeZone = variables.tz || this.timeZone;
+      if (!isValidTimeZone(timeZone)) {
+        throw new Error(`Unknown time zone: ${timeZone}`);
+      }
+      return {
+        content: renderAgenda(components, {
+          start: new Date(timeRange.start),
+          end: new Date(timeRange.end),
+          timeZone,
+        }),
+        mimeType: 'text/markdown',
+        status: 200,
+      };
+    }
+
     // Convert back to iCalendar format
     const filteredCalendar = CalDavFilters.componentsToICalendar(components);
 
+    if (variables.format === 'jcal') {
+      const [calendarTree] = parseICalendar(filteredCalendar);
+      return {
+        content: JSON.stringify(toJCal(calendarTree), null, 2),
+        mimeType: 'application/calendar+json',
+        status: 200,
+      };
+    }
+    if (variables.format === 'json') {
+      return {
+        content: JSON.stringify(
+          {
+            calendarId: calendar.calendarId,
+            components: components.map(toJsonComponent),
+          },
+          null,
+          2,
+        ),
+        mimeType: 'application/json',
+        status: 200,
+      };
+    }
+
     return {
       content: filteredCalendar,
       mimeType: 'text/calendar',
@@ -174,98 +775,1018 @@ export class CalDavRequestHandler {
     };
   }
 
+  private async handleFreeBusyRequest(
+    parsed: ParsedCalDavUri,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+  ): Promise<CalDavResponse> {
+    const { variables } = parsed;
+    const calendar = this.findCalendar(discovery, variables.calendarId);
+    // Busy time is what the events of the calendar reveal
+    assertComponentAllowed(this.policyFor(client), 'VEVENT');
+    const start = parseDateInput(variables.start, this.timeZone);
+    const end = parseDateInput(variables.end, this.timeZone);
+    if (end <= start) {
+      throw new Error('end must be after start');
+    }
+
+    let periods: BusyPeriod[];
+    let source: 'free-busy-query' | 'events';
+
+    const report = await freeBusyQuery(
+      client,
+      calendar.href,
+      buildFreeBusyQuery(start.toISOString(), end.toISOString()),
+    ).catch(() => null);
+
+    if (report?.ok && report.body.includes('BEGIN:VFREEBUSY')) {
+      periods = parseFreeBusy(report.body);
+      source = 'free-busy-query';
+    } else {
+      // Not every server implements free-busy-query, so compute busy time
+      // from the events in the range instead
+      periods = await this.fetchBusyPeriods(
+        client,
+        calendar.href,
+        start,
+        end,
+        timeout,
+      );
+      source = 'events';
+    }
+
+    if (variables.format === 'json') {
+      return {
+        content: JSON.stringify(
+          {
+            calendarId: calendar.calendarId,
+            start: start.toISOString(),
+            end: end.toISOString(),
+            source,
+            busy: periods.map((period) => ({
+              start: period.start.toISOString(),
+              end: period.end.toISOString(),
+            })),
+          },
+          null,
+          2,
+        ),
+        mimeType: 'application/json',
+        status: 200,
+      };
+    }
+
+    return {
+      content: buildFreeBusyCalendar(periods, start, end),
+      mimeType: 'text/calendar',
+      status: 200,
+    };
+  }
+
+  private async fetchBusyPeriods(
+    client: CalDavClient,
+    calendarHref: string,
+    start: Date,
+    end: Date,
+    timeout: number,
+  ): Promise<BusyPeriod[]> {
+    const objects = await this.fetchCalendarObjects(
+      client,
+      calendarHref,
+      {
+        componentType: 'VEVENT',
+        timeRange: { start: start.toISOString(), end: end.toISOString() },
+      },
+      timeout,
+    );
+    const components = objects.flatMap((object) =>
+      CalDavFilters.parseICalendarData(object.data),
+    );
+    // Recurring events block every occurrence, not just the first
+    return busyPeriodsFromComponents(
+      expandComponents(components, start, end),
+      start,
+      end,
+    );
+  }
+
+  private async findFreeSlots(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+  ): Promise<CalDavResponse> {
+    const calendarIds = args.calendarIds as string[];
+    if (calendarIds.length === 0) {
+      throw new Error('calendarIds must name at least one calendar');
+    }
+    const timeZone = (args.timeZone as string | undefined) ?? this.timeZone;
+    if (!isValidTimeZone(timeZone)) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+    const start = parseDateInput(args.start as string, timeZone);
+    const end = parseDateInput(args.end as string, timeZone);
+
+    const calendars = calendarIds.map((id) => this.findCalendar(discovery, id));
+    assertComponentAllowed(this.policyFor(client), 'VEVENT');
+    const busy = (
+      await Promise.all(
+        calendars.map((calendar) =>
+          this.fetchBusyPeriods(client, calendar.href, start, end, timeout),
+        ),
+      )
+    ).flat();
+
+    const slots = findFreeSlots(busy, {
+      start,
+      end,
+      duration: args.duration as number,
+      workdayStart: args.workdayStart as string | undefined,
+      workdayEnd: args.workdayEnd as string | undefined,
+      workingDays: args.workingDays as string[] | undefined,
+      buffer: args.buffer as number | undefined,
+      limit: args.limit as number | undefined,
+      timeZone,
+    });
+
+    return {
+      content: JSON.stringify(
+        {
+          calendarIds: calendars.map((calendar) => calendar.calendarId),
+          start: start.toISOString(),
+          end: end.toISOString(),
+          duration: args.duration,
+          timeZone,
+          slots: slots.map((slot) => ({
+            start: formatInTimeZone(slot.start, timeZone),
+            end: formatInTimeZone(slot.end, timeZone),
+            score: slot.score,
+          })),
+          timestamp: new Date().toISOString(),
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: 200,
+    };
+  }
+
+  private findCalendar(
+    discovery: DiscoveryResult,
+    calendarId: string,
+  ): CalendarCollection {
+    const calendar = discovery.collections.find(
+      (col) => col.calendarId === calendarId,
+    );
+    if (!calendar) {
+      throw new Error(`Calendar not found: ${calendarId}`);
+    }
+    return calendar;
+  }
+
+  private buildComponentUri(
+    discovery: DiscoveryResult,
+    calendarId: string,
+    uid: string,
+    account?: unknown,
+  ): string {
+    return buildCalDavUri('component-by-uid', {
+      principal: discovery.principal.replace(/^\/+|\/+$/g, ''),
+      calendarId,
+      uid,
+      // Keep the account the tool was called for, so the URI reads from it
+      ...(typeof account === 'string' ? { account } : {}),
+    });
+  }
+
+  private async createComponent(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+  ): Promise<CalDavResponse> {
+    const calendarId = args.calendarId as string;
+    const componentType = args.comp as ComponentType;
+    const calendar = this.findCalendar(discovery, calendarId);
+    const policy = this.policyFor(client);
+    assertWritable(policy, calendarId);
+    assertComponentAllowed(policy, componentType);
+
+    if (!calendar.componentSet.includes(componentType)) {
+      throw new Error(
+        `Calendar ${calendarId} does not accept ${componentType} components`,
+      );
+    }
+
+    const uid = generateUid();
+    const data = buildICalendarObject(
+      {
+        componentType,
+        uid,
+        summary: args.summary as string,
+        start: args.start as string | undefined,
+        end: args.end as string | undefined,
+        due: args.due as string | undefined,
+        description: args.description as string | undefined,
+        location: args.location as string | undefined,
+        categories: args.categories as string[] | undefined,
+      },
+      new Date(),
+      this.timeZone,
+    );
+
+    const href = buildObjectHref(calendar.href, uid);
+    const result = await createCalendarObject(client, href, data);
+    if (!result.ok) {
+      throw new Error(
+        `CalDAV create failed with status ${result.status} for ${href}`,
+      );
+    }
+
+    return {
+      content: JSON.stringify(
+        {
+          uid,
+          href,
+          etag: result.etag ?? null,
+          uri: this.buildComponentUri(discovery, calendarId, uid, args.account),
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: result.status,
+    };
+  }
+
+  private async updateComponent(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+  ): Promise<CalDavResponse> {
+    const patch: ComponentPatch = {
+      summary: args.summary as string | undefined,
+      description: args.description as string | undefined,
+      location: args.location as string | undefined,
+      categories: args.categories as string[] | undefined,
+      start: args.start as string | undefined,
+      end: args.end as string | undefined,
+      due: args.due as string | undefined,
+      status: args.status as string | undefined,
+      priority: args.priority as number | undefined,
+    };
+
+    return await this.modifyComponent(
+      args,
+      discovery,
+      client,
+      timeout,
+      (data, uid) => ({
+        data: patchICalendarObject(data, uid, patch, new Date(), this.timeZone),
+      }),
+    );
+  }
+
+  private async updateTask(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+    transition: (data: string, uid: string) => TaskTransition,
+  ): Promise<CalDavResponse> {
+    return await this.modifyComponent(
+      args,
+      discovery,
+      client,
+      timeout,
+      (data, uid) => {
+        const { data: updated, ...details } = transition(data, uid);
+        return { data: updated, details };
+      },
+    );
+  }
+
+  /**
+   * Read-modify-write of a single component guarded by If-Match, so a
+   * concurrent change on the server surfaces as a 412 conflict instead of
+   * being overwritten.
+   */
+  private async modifyComponent(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+    modify: (
+      data: string,
+      uid: string,
+    ) => { data: string; details?: Record<string, unknown> },
+  ): Promise<CalDavResponse> {
+    const calendarId = args.calendarId as string;
+    const uid = args.uid as string;
+    const calendar = this.findCalendar(discovery, calendarId);
+    assertWritable(this.policyFor(client), calendarId);
+    const object = await this.findObjectByUid(client, calendar, uid, timeout);
+
+    // A caller that read the component earlier can pin the version it saw
+    const expectedEtag = (args.etag as string | undefined) ?? object.etag;
+    if (expectedEtag !== object.etag) {
+      return this.createConflictResponse(object);
+    }
+
+    const { data, details } = modify(object.data, uid);
+
+    const result = await updateCalendarObject(
+      client,
+      object.href,
+      data,
+      expectedEtag,
+    );
+    if (result.status === 412) {
+      // Someone else changed the resource between our read and write
+      const current = await this.findObjectByUid(
+        client,
+        calendar,
+        uid,
+        timeout,
+      );
+      return this.createConflictResponse(current);
+    }
+    if (!result.ok) {
+      throw new Error(
+        `CalDAV update failed with status ${result.status} for ${object.href}`,
+      );
+    }
+
+    return {
+      content: JSON.stringify(
+        {
+          uid,
+          href: object.href,
+          etag: result.etag ?? null,
+          uri: this.buildComponentUri(discovery, calendarId, uid, args.account),
+          ...details,
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: result.status,
+    };
+  }
+
+  private createConflictResponse(current: CalendarObject): CalDavResponse {
+    return {
+      content: JSON.stringify(
+        {
+          error:
+            'Precondition failed: the component was modified on the server. Review the current version and retry with its etag.',
+          conflict: {
+            href: current.href,
+            etag: current.etag ?? null,
+            data: current.data,
+          },
+          timestamp: new Date().toISOString(),
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: 412,
+    };
+  }
+
+  private async deleteComponent(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+  ): Promise<CalDavResponse> {
+    const calendarId = args.calendarId as string;
+    const uid = args.uid as string | undefined;
+    const etag = args.etag as string | undefined;
+    const calendar = this.findCalendar(discovery, calendarId);
+    const policy = this.policyFor(client);
+    assertWritable(policy, calendarId);
+
+    if (Boolean(uid) === Boolean(args.href)) {
+      throw new Error('Exactly one of uid or href is required');
+    }
+    // An href does not say what it holds, while a UID is only found in
+    // components the policy lets be seen
+    if (args.href && policy.componentTypes) {
+      throw new Error(
+        `${ACCESS_DENIED}: delete by href while component types are restricted`,
+      );
+    }
+
+    let href = args.href as string | undefined;
+    let expectedEtag = etag;
+    if (uid) {
+      const matches = await this.findObjectsByUid(
+        client,
+        calendar,
+        uid,
+        timeout,
+      );
+      if (matches.length === 0) {
+        return this.createErrorResponse(
+          new Error(`Component not found: ${uid}`),
+          404,
+        );
+      }
+      if (matches.length > 1) {
+        // Deleting one of several resources sharing a UID is never what the
+        // caller meant, so make them pick an href explicitly
+        throw new Error(
+          `Ambiguous UID ${uid}: found in ${matches.map((m) => m.href).join(', ')}`,
+        );
+      }
+      href = matches[0].href;
+      if (etag && etag !== matches[0].etag) {
+        return this.createConflictResponse(matches[0]);
+      }
+      expectedEtag = matches[0].etag;
+    } else if (href) {
+      // Check the path the server will see, with dot segments resolved.
+      // Only objects directly in the calendar qualify: the collection
+      // itself is removed with delete_calendar
+      const path = new URL(href, client.serverUrl).pathname;
+      const calendarPath = new URL(
+        calendar.href,
+        client.serverUrl,
+      ).pathname.replace(/\/?$/, '/');
+      const name = path.startsWith(calendarPath)
+        ? path.slice(calendarPath.length)
+        : '';
+      if (!name || name.includes('/') || !name.endsWith('.ics')) {
+        throw new Error(`Resource ${href} is not in calendar ${calendarId}`);
+      }
+      href = path;
+    }
+
+    const target = href as string;
+    const result = await deleteCalendarObject(client, target, expectedEtag);
+
+    if (result.status === 404) {
+      return this.createErrorResponse(
+        new Error(`Component not found: ${uid ?? target}`),
+        404,
+      );
+    }
+    if (result.status === 412) {
+      const current = (
+        await this.fetchCalendarObjects(client, calendar.href, {}, timeout)
+      ).find((object) => object.href === target);
+      if (!current) {
+        return this.createErrorResponse(
+          new Error(`Component not found: ${uid ?? target}`),
+          404,
+        );
+      }
+      return this.createConflictResponse(current);
+    }
+    if (!result.ok) {
+      throw new Error(
+        `CalDAV delete failed with status ${result.status} for ${target}`,
+      );
+    }
+
+    this.syncEngine?.forget(client, calendar.href, target);
+
+    return {
+      content: JSON.stringify(
+        {
+          deleted: true,
+          href: target,
+          uid: uid ?? null,
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: result.status,
+    };
+  }
+
+  private async moveComponent(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+    timeout: number,
+  ): Promise<CalDavResponse> {
+    const uid = args.uid as string;
+    const mode = (args.mode as 'move' | 'copy' | undefined) ?? 'move';
+    const source = this.findCalendar(discovery, args.calendarId as string);
+    const target = this.findCalendar(
+      discovery,
+      args.targetCalendarId as string,
+    );
+    if (source.href === target.href) {
+      throw new Error('Source and target calendar must differ');
+    }
+    // Copying only reads from the source
+    const policy = this.policyFor(client);
+    if (mode === 'move') assertWritable(policy, source.calendarId);
+    assertWritable(policy, target.calendarId);
+
+    // Everything is validated before the first write so a refused move
+    // leaves both calendars untouched
+    const object = await this.findObjectByUid(client, source, uid, timeout);
+    const etag = (args.etag as string | undefined) ?? object.etag;
+    if (etag !== object.etag) {
+      return this.createConflictResponse(object);
+    }
+
+    const component = CalDavFilters.parseICalendarData(object.data).find(
+      (comp) => comp.uid === uid,
+    );
+    const componentType = component?.componentType;
+    if (!componentType || !target.componentSet.includes(componentType)) {
+      throw new Error(
+        `Calendar ${target.calendarId} does not accept ${componentType ?? 'this'} components`,
+      );
+    }
+    const existing = await this.findObjectsByUid(client, target, uid, timeout);
+    if (existing.length > 0) {
+      throw new Error(
+        `Calendar ${target.calendarId} already contains a component with UID ${uid}`,
+      );
+    }
+
+    const targetHref = buildObjectHref(target.href, uid);
+    const davMethod = mode === 'move' ? 'MOVE' : 'COPY';
+    let method: string = davMethod;
+    let result = await transferCalendarObject(
+      client,
+      object.href,
+      targetHref,
+      davMethod,
+      etag,
+    );
+
+    // Servers that cannot MOVE/COPY between collections get PUT (+ DELETE)
+    if ([403, 405, 501, 502].includes(result.status)) {
+      method = mode === 'move' ? 'PUT+DELETE' : 'PUT';
+      result = await createCalendarObject(client, targetHref, object.data);
+      if (!result.ok) {
+        throw new Error(
+          `CalDAV create failed with status ${result.status} for ${targetHref}`,
+        );
+      }
+
+      if (mode === 'move') {
+        const removed = await deleteCalendarObject(client, object.href, etag);
+        if (!removed.ok) {
+          // Undo the copy rather than leave the component in both calendars
+          await deleteCalendarObject(client, targetHref, result.etag);
+          if (removed.status === 412) {
+            const current = await this.findObjectByUid(
+              client,
+              source,
+              uid,
+              timeout,
+            );
+            return this.createConflictResponse(current);
+          }
+          throw new Error(
+            `CalDAV delete failed with status ${removed.status} for ${object.href}`,
+          );
+        }
+      }
+    } else if (result.status === 412) {
+      const current = await this.findObjectByUid(client, source, uid, timeout);
+      return this.createConflictResponse(current);
+    } else if (!result.ok) {
+      throw new Error(
+        `CalDAV ${method} failed with status ${result.status} for ${object.href}`,
+      );
+    }
+
+    // The target picks the component up on its next sync
+    if (mode === 'move') {
+      this.syncEngine?.forget(client, source.href, object.href);
+    }
+
+    return {
+      content: JSON.stringify(
+        {
+          uid,
+          mode,
+          method,
+          from: { calendarId: source.calendarId, href: object.href },
+          to: {
+            calendarId: target.calendarId,
+            href: targetHref,
+            etag: result.etag ?? null,
+            uri: this.buildComponentUri(
+              discovery,
+              target.calendarId,
+              uid,
+              args.account,
+            ),
+          },
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: result.status,
+    };
+  }
+
+  private async createCalendar(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+  ): Promise<CalDavResponse> {
+    const displayName = args.displayName as string;
+    const calendarId =
+      (args.calendarId as string | undefined) ??
+      (displayName
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') ||
+        Date.now().toString(36));
+
+    if (!/^[A-Za-z0-9._-]+$/.test(calendarId)) {
+      throw new Error(`Invalid calendar identifier: ${calendarId}`);
+    }
+    const policy = this.policyFor(client);
+    assertWritable(policy);
+    if (!isCalendarVisible(policy, calendarId)) {
+      throw new Error(
+        `${ACCESS_DENIED}: calendar ${calendarId} is not allowed`,
+      );
+    }
+    if (discovery.collections.some((col) => col.calendarId === calendarId)) {
+      throw new Error(`Calendar already exists: ${calendarId}`);
+    }
+
+    const props = this.getCollectionProps(args);
+    for (const type of props.componentSet ?? []) {
+      assertComponentAllowed(policy, type);
+    }
+    // Without a component set the calendar would take every type
+    if (!props.componentSet && policy.componentTypes) {
+      props.componentSet = [...policy.componentTypes];
+    }
+    const home = discovery.home.endsWith('/')
+      ? discovery.home
+      : `${discovery.home}/`;
+    const href = `${home}${calendarId}/`;
+
+    const result = await makeCalendar(client, href, buildMkCalendar(props));
+    if (!result.ok) {
+      throw new Error(
+        `CalDAV MKCALENDAR failed with status ${result.status} for ${href}`,
+      );
+    }
+
+    const refreshed = await this.refreshDiscovery(client);
+    return this.createCalendarResponse(refreshed, calendarId, result.status);
+  }
+
+  private async updateCalendar(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+  ): Promise<CalDavResponse> {
+    const calendarId = args.calendarId as string;
+    const calendar = this.findCalendar(discovery, calendarId);
+    assertWritable(this.policyFor(client), calendarId);
+    const props = this.getCollectionProps(args);
+    if (Object.keys(props).length === 0) {
+      throw new Error(
+        'Nothing to update: pass displayName, color or description',
+      );
+    }
+
+    const result = await patchCollection(
+      client,
+      calendar.href,
+      buildPropPatch(props),
+    );
+    if (!result.ok) {
+      throw new Error(
+        `CalDAV PROPPATCH failed with status ${result.status} for ${calendar.href}`,
+      );
+    }
+
+    const refreshed = await this.refreshDiscovery(client);
+    return this.createCalendarResponse(refreshed, calendarId, result.status);
+  }
+
+  private async deleteCalendar(
+    args: Record<string, unknown>,
+    discovery: DiscoveryResult,
+    client: CalDavClient,
+  ): Promise<CalDavResponse> {
+    const calendarId = args.calendarId as string;
+    const calendar = this.findCalendar(discovery, calendarId);
+    assertWritable(this.policyFor(client), calendarId);
+
+    // Deleting a collection removes every component in it, so the caller
+    // has to repeat the identifier rather than pass a boolean flag
+    if (args.confirm !== calendarId) {
+      throw new Error(
+        `Refusing to delete calendar ${calendarId}: set confirm to "${calendarId}" to proceed`,
+      );
+    }
+
+    const result = await deleteCollection(client, calendar.href);
+    if (result.status === 404) {
+      await this.refreshDiscovery(client);
+      return this.createErrorResponse(
+        new Error(`Calendar not found: ${calendarId}`),
+        404,
+      );
+    }
+    if (!result.ok) {
+      throw new Error(
+        `CalDAV delete failed with status ${result.status} for ${calendar.href}`,
+      );
+    }
+
+    await this.refreshDiscovery(client);
+
+    return {
+      content: JSON.stringify(
+        { deleted: true, calendarId, href: calendar.href },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status: result.status,
+    };
+  }
+
+  private getCollectionProps(
+    args: Record<string, unknown>,
+  ): CalendarCollectionProps {
+    const props: CalendarCollectionProps = {};
+    if (args.displayName !== undefined)
+      props.displayName = args.displayName as string;
+    if (args.description !== undefined)
+      props.description = args.description as string;
+    if (args.color !== undefined) {
+      const color = args.color as string;
+      if (!/^#[0-9A-Fa-f]{6}([0-9A-Fa-f]{2})?$/.test(color)) {
+        throw new Error(`Invalid color ${color}: expected #RRGGBB`);
+      }
+      props.color = color;
+    }
+    if (args.componentSet !== undefined) {
+      props.componentSet = args.componentSet as ComponentType[];
+    }
+    return props;
+  }
+
+  private createCalendarResponse(
+    discovery: DiscoveryResult,
+    calendarId: string,
+    status: number,
+  ): CalDavResponse {
+    const calendar = this.findCalendar(discovery, calendarId);
+    return {
+      content: JSON.stringify(
+        {
+          id: calendar.calendarId,
+          displayName: calendar.displayName,
+          componentSet: calendar.componentSet,
+          href: calendar.href,
+        },
+        null,
+        2,
+      ),
+      mimeType: 'application/json',
+      status,
+    };
+  }
+
+  private async findObjectsByUid(
+    client: CalDavClient,
+    calendar: CalendarCollection,
+    uid: string,
+    timeout: number,
+  ): Promise<CalendarObject[]> {
+    const objects = await this.fetchEachComponentType(
+      client,
+      calendar,
+      { uid },
+      timeout,
+    );
+    // Components of types the policy hides are not found
+    const policy = this.policyFor(client);
+    return objects.filter((object) =>
+      CalDavFilters.parseICalendarData(object.data).some(
+        (comp) =>
+          comp.uid === uid && isComponentAllowed(policy, comp.componentType),
+      ),
+    );
+  }
+
+  private async findObjectByUid(
+    client: CalDavClient,
+    calendar: CalendarCollection,
+    uid: string,
+    timeout: number,
+  ): Promise<CalendarObject> {
+    const matches = await this.findObjectsByUid(client, calendar, uid, timeout);
+
+    if (matches.length === 0) {
+      throw new Error(`Component not found: ${uid}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(
+        `Ambiguous UID ${uid}: found in ${matches.map((m) => m.href).join(', ')}`,
+      );
+    }
+    return matches[0];
+  }
+
+  /**
+   * Queries each component type the calendar may hold in turn, since
+   * filters only reach the server inside a component filter
+   */
+  private async fetchEachComponentType(
+    client: CalDavClient,
+    calendar: CalendarCollection,
+    options: CalendarQueryOptions,
+    timeout: number,
+  ): Promise<CalendarObject[]> {
+    const policy = this.policyFor(client);
+    const objects = new Map<string, CalendarObject>();
+    for (const componentType of COMPONENT_TYPES) {
+      if (
+        !calendar.componentSet.includes(componentType) ||
+        !isComponentAllowed(policy, componentType)
+      ) {
+        continue;
+      }
+      const matches = await this.fetchCalendarObjects(
+        client,
+        calendar.href,
+        { ...options, componentType },
+        timeout,
+      );
+      // An object holding several types is found once for each
+      for (const object of matches) objects.set(object.href, object);
+    }
+    return [...objects.values()];
+  }
+
   private async executeCalendarQuery(
     client: CalDavClient,
     calendarUrl: string,
     options: CalendarQueryOptions,
     timeout: number,
   ): Promise<string> {
+    const objects = await this.fetchCalendarObjects(
+      client,
+      calendarUrl,
+      options,
+      timeout,
+    );
+    const calendarData = objects.map((object) => object.data).join('\n');
+
+    return calendarData || this.createEmptyCalendar();
+  }
+
+  private async readSyncedCollection(
+    client: CalDavClient,
+    calendarHref: string,
+    timeout: number,
+  ): Promise<string> {
+    const syncEngine = this.syncEngine as CalDavSyncEngine;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Request timeout')), timeout);
+      });
+      const objects = await Promise.race([
+        syncEngine.sync(client, calendarHref),
+        timeoutPromise,
+      ]);
+      return (
+        objects.map((object) => object.data).join('\n') ||
+        this.createEmptyCalendar()
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Request timeout') {
+        throw new Error('CalDAV server request timed out');
+      }
+      if (
+        error instanceof Error &&
+        error.message.startsWith(AUTHENTICATION_FAILED)
+      ) {
+        throw error;
+      }
+      throw new Error(
+        `CalDAV sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async fetchCalendarObjects(
+    client: CalDavClient,
+    calendarUrl: string,
+    options: CalendarQueryOptions,
+    timeout: number,
+  ): Promise<CalendarObject[]> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
     try {
       // Create a timeout promise that rejects after the specified timeout
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), timeout);
+        timer = setTimeout(() => reject(new Error('Request timeout')), timeout);
       });
 
       // Execute the REPORT request
       const reportPromise = client.calendarQuery({
-        url: calendarUrl,
-        props: [
-          {
-            name: 'getetag',
-            namespace: 'DAV:',
-          },
-          {
-            name: 'calendar-data',
-            namespace: 'urn:ietf:params:xml:ns:caldav',
-          },
-        ],
+        url: resolveHref(client, calendarUrl),
+        props: {
+          [`${DAVNamespaceShort.DAV}:getetag`]: {},
+          [`${DAVNamespaceShort.CALDAV}:calendar-data`]:
+            this.buildCalendarDataProp(options),
+        },
         filters: this.buildFiltersFromOptions(options),
       });
 
       const result = await Promise.race([reportPromise, timeoutPromise]);
 
-      // Extract calendar data from results
-      const calendarData = (
-        result as Array<{ props?: Record<string, unknown> }>
+      // Extract calendar objects from results
+      return (
+        result as Array<{ href?: string; props?: Record<string, unknown> }>
       )
-        .map((item) => item.props?.['calendar-data'] as string | undefined)
-        .filter((v): v is string => typeof v === 'string' && v.length > 0)
-        .join('\n');
-
-      return calendarData || this.createEmptyCalendar();
+        .map((item): CalendarObject | undefined => {
+          // tsdav camel-cases the property; CDATA sections stay wrapped
+          const data = item.props?.calendarData as
+            | string
+            | { _cdata?: string }
+            | undefined;
+          const text = typeof data === 'string' ? data : data?._cdata;
+          if (!text) return undefined;
+          return {
+            href: item.href ?? '',
+            etag: item.props?.getetag as string | undefined,
+            data: text,
+          };
+        })
+        .filter((item): item is CalendarObject => item !== undefined);
     } catch (error) {
       if (error instanceof Error && error.message === 'Request timeout') {
         throw new Error('CalDAV server request timed out');
       }
+      // Rejected credentials are worth saying as they are
+      if (
+        error instanceof Error &&
+        error.message.startsWith(AUTHENTICATION_FAILED)
+      ) {
+        throw error;
+      }
       throw new Error(
         `CalDAV query failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
       );
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private buildFiltersFromOptions(options: CalendarQueryOptions): {
-    type: 'comp-filter';
-    name: 'VCALENDAR';
-    compFilters?: Array<{
-      name: string;
-      isNotDefined?: boolean;
-      timeRange?: { start?: string; end?: string };
-    }>;
-    timeRange?: { start?: string; end?: string };
+  private normalizeTimeRange(timeRange: { start?: string; end?: string }): {
+    start?: string;
+    end?: string;
   } {
-    const filters: {
-      type: 'comp-filter';
-      name: 'VCALENDAR';
-      compFilters?: Array<{
-        name: string;
-        isNotDefined?: boolean;
-        timeRange?: { start?: string; end?: string };
-      }>;
-      timeRange?: { start?: string; end?: string };
-    } = { type: 'comp-filter', name: 'VCALENDAR' };
-
-    if (options.componentType) {
-      const comp: {
-        name: string;
-        isNotDefined?: boolean;
-        timeRange?: { start?: string; end?: string };
-      } = { name: options.componentType, isNotDefined: false };
-      if (options.timeRange?.start || options.timeRange?.end) {
-        comp.timeRange = {
-          start: options.timeRange.start,
-          end: options.timeRange.end,
-        };
-      }
-      filters.compFilters = [comp];
-    } else if (options.timeRange?.start || options.timeRange?.end) {
-      // Some servers require a component filter even for time-range-only queries
-      filters.timeRange = {
-        start: options.timeRange.start,
-        end: options.timeRange.end,
-      };
-    }
+    // Servers only understand UTC, so local times are resolved here once
+    const toUtc = (value?: string) =>
+      value ? parseDateInput(value, this.timeZone).toISOString() : undefined;
+    return { start: toUtc(timeRange.start), end: toUtc(timeRange.end) };
+  }
 
-    return filters;
+  private buildCalendarDataProp(
+    options: CalendarQueryOptions,
+  ): Record<string, unknown> {
+    const { timeRange } = options;
+    if (!options.expand || !timeRange?.start || !timeRange.end) return {};
+
+    // Servers that support it return one component per instance, with
+    // overrides applied; the client-side expansion then has nothing to do
+    return {
+      [`${DAVNamespaceShort.CALDAV}:expand`]: {
+        _attributes: {
+          start: toICalDateTime(timeRange.start),
+          end: toICalDateTime(timeRange.end),
+        },
+      },
+    };
+  }
+
+  private buildFiltersFromOptions(
+    options: CalendarQueryOptions,
+  ): Record<string, unknown> {
+    return buildDavFilter(translateQueryOptions(options).filter);
   }
 
   private createEmptyCalendar(): string {
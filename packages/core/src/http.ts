@@ -0,0 +1,361 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import {
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+  createServer,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  /** Address to listen on (default 127.0.0.1) */
+  host?: string;
+  /** Port to listen on (default 3000, 0 picks a free one) */
+  port?: number;
+  /**
+   * Origins browsers may call from; requests with any other Origin header
+   * are rejected. '*' allows every origin.
+   */
+  allowedOrigins?: string[];
+  /** Token clients must send as `Authorization: Bearer <token>` */
+  bearerToken?: string;
+  /** File holding the token, read again whenever it changes */
+  bearerTokenFile?: string;
+  /** Milliseconds after which idle sessions are closed (default 30 min) */
+  sessionTimeout?: number;
+}
+
+export interface CalDavHttpServer {
+  /** Base URL the server listens on */
+  url: string;
+  httpServer: Server;
+  getSessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastSeen: number;
+  /** Responses still open, like a stream waiting for notifications */
+  openResponses: number;
+}
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+function isLoopback(host: string): boolean {
+  return (
+    host === 'localhost' ||
+    host === '::1' ||
+    host.startsWith('127.') ||
+    host === '::ffff:127.0.0.1'
+  );
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {},
+) {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    }),
+  );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  const body = Buffer.concat(chunks).toString('utf8');
+  if (body === '') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new Error('Request body is not valid JSON');
+  }
+}
+
+/** Reads the bearer token, from the options or their file. */
+class BearerToken {
+  private cached?: { mtime: number; token: string };
+
+  constructor(
+    private token?: string,
+    private file?: string,
+  ) {}
+
+  get required(): boolean {
+    return Boolean(this.token || this.file);
+  }
+
+  async load(): Promise<string> {
+    if (this.token) return this.token;
+    const mtime = (await stat(this.file as string)).mtimeMs;
+    if (this.cached?.mtime === mtime) return this.cached.token;
+    const token = (await readFile(this.file as string, 'utf8')).trim();
+    if (!token) {
+      throw new Error(`Bearer token file ${this.file} is empty`);
+    }
+    this.cached = { mtime, token };
+    return token;
+  }
+
+  async accepts(header: string | undefined): Promise<boolean> {
+    const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+    if (!match) return false;
+    const expected = Buffer.from(await this.load());
+    const given = Buffer.from(match[1].trim());
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
+
+/**
+ * Serves MCP over HTTP: Streamable HTTP at /mcp and, for older clients,
+ * SSE at /sse with messages posted to /messages. Every session gets a
+ * server of its own from `createMcpServer`. Requests must carry the bearer
+ * token when one is configured, and browser requests must come from an
+ * allowed origin; listening beyond loopback requires a token.
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpServerOptions = {},
+): Promise<CalDavHttpServer> {
+  const host = options.host ?? '127.0.0.1';
+  const port = options.port ?? DEFAULT_PORT;
+  const allowedOrigins = options.allowedOrigins ?? [];
+  const sessionTimeout = options.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+  const bearer = new BearerToken(options.bearerToken, options.bearerTokenFile);
+
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${port}`);
+  }
+  if (!bearer.required && !isLoopback(host)) {
+    throw new Error(
+      `A bearer token is required to listen on ${host}; set a token or listen on 127.0.0.1`,
+    );
+  }
+  // Fail at startup rather than on the first request
+  if (bearer.required) await bearer.load();
+
+  const sessions = new Map<string, Session>();
+
+  // A session is busy until its last response is closed, and idle from then
+  const track = (session: Session, res: ServerResponse) => {
+    session.lastSeen = Date.now();
+    session.openResponses++;
+    res.once('close', () => {
+      session.openResponses--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  const connect = async (
+    transport: StreamableHTTPServerTransport | SSEServerTransport,
+  ) => {
+    await createMcpServer().connect(transport);
+    // Connecting replaced the handler with the server's own cleanup
+    const serverClose = transport.onclose;
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+      serverClose?.();
+    };
+  };
+
+  const corsHeaders = (origin: string | undefined): Record<string, string> =>
+    origin
+      ? {
+          'access-control-allow-origin': allowedOrigins.includes('*')
+            ? '*'
+            : origin,
+          'access-control-expose-headers': 'mcp-session-id',
+          vary: 'origin',
+        }
+      : {};
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const origin = req.headers.origin;
+
+    // Browsers send Origin; anything else is not a cross-site request
+    if (
+      origin &&
+      !allowedOrigins.includes('*') &&
+      !allowedOrigins.includes(origin)
+    ) {
+      sendJsonRpcError(res, 403, `Origin not allowed: ${origin}`);
+      return;
+    }
+    const cors = corsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        ...cors,
+        'access-control-allow-methods': 'GET, POST, DELETE, OPTIONS',
+        'access-control-allow-headers':
+          'authorization, content-type, mcp-session-id, last-event-id',
+        'access-control-max-age': '600',
+      });
+      res.end();
+      return;
+    }
+
+    if (bearer.required && !(await bearer.accepts(req.headers.authorization))) {
+      sendJsonRpcError(res, 401, 'Unauthorized', {
+        ...cors,
+        'www-authenticate': 'Bearer',
+      });
+      return;
+    }
+    for (const [name, value] of Object.entries(cors)) {
+      res.setHeader(name, value);
+    }
+
+    if (url.pathname === MCP_PATH) {
+      const sessionId = req.headers['mcp-session-id'];
+      const session =
+        typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+      if (session) {
+        if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 400, 'Session uses the SSE transport');
+          return;
+        }
+        track(session, res);
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId !== undefined) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'No valid session ID provided');
+        return;
+      }
+
+      const transport: StreamableHTTPServerTransport =
+        new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, {
+              transport,
+              lastSeen: Date.now(),
+              openResponses: 0,
+            });
+          },
+        });
+      await connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+      const session: Session = {
+        transport,
+        lastSeen: Date.now(),
+        openResponses: 0,
+      };
+      // The session lives as long as this stream
+      track(session, res);
+      sessions.set(transport.sessionId, session);
+      await connect(transport);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!(session?.transport instanceof SSEServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      track(session, res);
+      await session.transport.handlePostMessage(
+        req,
+        res,
+        await readJsonBody(req),
+      );
+      return;
+    }
+
+    sendJsonRpcError(res, 404, 'Not found');
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJsonRpcError(
+        res,
+        400,
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    });
+  });
+
+  // Idle sessions would otherwise keep their servers around forever
+  const sweeper = setInterval(
+    () => {
+      const cutoff = Date.now() - sessionTimeout;
+      for (const [id, session] of sessions) {
+        if (session.openResponses > 0 || session.lastSeen >= cutoff) continue;
+        sessions.delete(id);
+        void session.transport.close();
+      }
+    },
+    Math.min(sessionTimeout, 60000),
+  );
+  sweeper.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address() as AddressInfo;
+  const urlHost =
+    address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${urlHost}:${address.port}`,
+    httpServer,
+    getSessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweeper);
+      for (const session of sessions.values()) {
+        await session.transport.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve, reject) =>
+        httpServer.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+}
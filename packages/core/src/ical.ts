@@ -1,15 +1,60 @@
 // iCalendar-related helpers used across the codebase
 
-export function formatCalDavDateTime(dateTime: string): string {
-  // Handle both date and datetime formats
-  if (dateTime.includes('T')) {
-    // Full datetime - ensure it ends with Z for UTC
-    return dateTime.endsWith('Z') ? dateTime : `${dateTime}Z`;
+import { resolveTimeZone, zonedTimeToUtc } from './timezone';
+
+/**
+ * Normalizes a date or date/time to UTC for CalDAV time-range requests.
+ * Values with `Z` or an offset are converted; dates and local times are
+ * interpreted in the given time zone.
+ */
+export function formatCalDavDateTime(
+  dateTime: string,
+  timeZone = 'UTC',
+): string {
+  return parseDateInput(dateTime, timeZone)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Parses an ISO 8601 date or date/time given by a client. Local times and
+ * plain dates are taken as wall-clock time in `timeZone`.
+ */
+export function parseDateInput(value: string, timeZone = 'UTC'): Date {
+  const local =
+    /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/.exec(
+      value,
+    );
+  if (local) {
+    const zone = resolveTimeZone(timeZone);
+    if (!zone) {
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+    const wallClock = new Date(
+      Date.UTC(
+        Number(local[1]),
+        Number(local[2]) - 1,
+        Number(local[3]),
+        Number(local[4] ?? 0),
+        Number(local[5] ?? 0),
+        Number(local[6] ?? 0),
+      ),
+    );
+    return zonedTimeToUtc(wallClock, zone);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()) || !/(Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    throw new Error(`Invalid date/time: ${value}`);
   }
-  return `${dateTime}T00:00:00Z`;
+  return date;
 }
 
-export function parseICalDate(raw: string): Date {
+/**
+ * Parses an iCalendar DATE or DATE-TIME into its wall-clock fields, held in
+ * the UTC fields of the result, ignoring any TZID annotation.
+ */
+export function parseICalWallClock(raw: string): Date {
   const trimmed = raw.replace(/\s*\([^)]+\)\s*$/, '');
   if (/^\d{8}T\d{6}Z?$/.test(trimmed)) {
     const z = trimmed.endsWith('Z') ? trimmed : `${trimmed}Z`;
@@ -27,3 +72,83 @@ export function parseICalDate(raw: string): Date {
   }
   return new Date(trimmed);
 }
+
+/**
+ * Parses an iCalendar DATE or DATE-TIME, as stored by the parser (with a
+ * `(TZID)` suffix for zoned times), into the instant it denotes. Floating
+ * times and TZIDs that cannot be resolved are taken as UTC.
+ */
+export function parseICalDate(raw: string): Date {
+  const wallClock = parseICalWallClock(raw);
+  const tzid = /\(([^)]+)\)\s*$/.exec(raw);
+  const zone = tzid ? resolveTimeZone(tzid[1]) : null;
+  return zone ? zonedTimeToUtc(wallClock, zone) : wallClock;
+}
+
+export function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export function toICalDateTime(value: string, timeZone = 'UTC'): string {
+  if (isDateOnly(value)) {
+    return value.replace(/-/g, '');
+  }
+
+  // Serialize as UTC so the stored value does not depend on server locale
+  return parseDateInput(value, timeZone)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, 'Z')
+    .replace(/[-:]/g, '');
+}
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\n|\r/g, '\\n');
+}
+
+export function foldLine(line: string): string {
+  // RFC 5545 limits content lines to 75 octets, excluding the line break
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+export function parseDuration(value: string): number {
+  // RFC 5545 durations, e.g. PT1H30M, P1D, -PT15M, P2W
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    (Number(weeks ?? 0) * 7 * 24 * 3600 +
+      Number(days ?? 0) * 24 * 3600 +
+      Number(hours ?? 0) * 3600 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)) *
+    1000;
+  return sign === '-' ? -total : total;
+}
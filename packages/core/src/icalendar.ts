@@ -0,0 +1,193 @@
+import { parseContentLine } from './components';
+import { foldLine } from './ical';
+
+/**
+ * A parameter as written on the wire. Values keep their quotes, so that
+ * serializing yields the same bytes; use getParameter for the plain value.
+ */
+export interface ICalParameter {
+  name: string;
+  value: string;
+}
+
+/** A content line; `value` is the raw, still escaped property value. */
+export interface ICalProperty {
+  name: string;
+  params: ICalParameter[];
+  value: string;
+}
+
+export interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const char of value) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+export function parseProperty(line: string): ICalProperty {
+  const parsed = parseContentLine(line);
+  return {
+    // Keep the name as written; parseContentLine upper-cases it
+    name: line.slice(0, parsed.name.length),
+    params: splitOutsideQuotes(parsed.params, ';')
+      .filter(Boolean)
+      .map((param) => {
+        const equals = param.indexOf('=');
+        return equals === -1
+          ? { name: param, value: '' }
+          : { name: param.slice(0, equals), value: param.slice(equals + 1) };
+      }),
+    value: parsed.value,
+  };
+}
+
+/**
+ * Parses iCalendar data into its component tree. Several concatenated
+ * objects yield several top-level components; components left open at the
+ * end of the data are closed implicitly.
+ */
+export function parseICalendar(data: string): ICalComponent[] {
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    const name = property.name.toUpperCase();
+
+    if (name === 'BEGIN') {
+      const component: ICalComponent = {
+        name: property.value.trim(),
+        properties: [],
+        components: [],
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.components.push(component);
+      else roots.push(component);
+      stack.push(component);
+    } else if (name === 'END') {
+      const index = stack
+        .map((c) => c.name.toUpperCase())
+        .lastIndexOf(property.value.trim().toUpperCase());
+      if (index !== -1) stack.length = index;
+    } else {
+      // Lines outside of any component are not valid iCalendar
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  }
+
+  return roots;
+}
+
+export function serializeProperty(property: ICalProperty): string {
+  const params = property.params
+    .map((param) => `;${param.name}${param.value ? `=${param.value}` : ''}`)
+    .join('');
+  return foldLine(`${property.name}${params}:${property.value}`);
+}
+
+/** Serializes a component as content lines, folded at 75 octets. */
+export function serializeComponent(component: ICalComponent): string[] {
+  return [
+    `BEGIN:${component.name}`,
+    ...component.properties.map(serializeProperty),
+    ...component.components.flatMap(serializeComponent),
+    `END:${component.name}`,
+  ];
+}
+
+export function serializeICalendar(components: ICalComponent[]): string {
+  return `${components.flatMap(serializeComponent).join('\r\n')}\r\n`;
+}
+
+export function getProperty(
+  component: ICalComponent,
+  name: string,
+): ICalProperty | undefined {
+  const upper = name.toUpperCase();
+  return component.properties.find((p) => p.name.toUpperCase() === upper);
+}
+
+export function getProperties(
+  component: ICalComponent,
+  name: string,
+): ICalProperty[] {
+  const upper = name.toUpperCase();
+  return component.properties.filter((p) => p.name.toUpperCase() === upper);
+}
+
+/** Returns the unquoted parameter value, or undefined when absent. */
+export function getParameter(
+  property: ICalProperty,
+  name: string,
+): string | undefined {
+  const upper = name.toUpperCase();
+  const param = property.params.find((p) => p.name.toUpperCase() === upper);
+  return param?.value.replace(/^"|"$/g, '');
+}
+
+/**
+ * Splits a multi-valued property (CATEGORIES, EXDATE, ...) on commas that
+ * are not escaped. Values stay escaped.
+ */
+export function getPropertyValues(property: ICalProperty): string[] {
+  return property.value.split(/(?<!\\),/);
+}
+
+export function cloneComponent(component: ICalComponent): ICalComponent {
+  return {
+    name: component.name,
+    properties: component.properties.map((p) => ({
+      ...p,
+      params: p.params.map((param) => ({ ...param })),
+    })),
+    components: component.components.map(cloneComponent),
+  };
+}
+
+/** Collects the TZIDs referenced anywhere in a component. */
+export function referencedTimeZones(component: ICalComponent): Set<string> {
+  const tzids = new Set<string>();
+  for (const property of component.properties) {
+    const tzid = getParameter(property, 'TZID');
+    if (tzid) tzids.add(tzid);
+  }
+  for (const child of component.components) {
+    for (const tzid of referencedTimeZones(child)) tzids.add(tzid);
+  }
+  return tzids;
+}
+
+export interface ComponentSource {
+  component: ICalComponent;
+  /** The VCALENDAR the component was read from */
+  calendar?: ICalComponent;
+}
+
+// Parsed components are plain objects for filtering; the tree they were
+// read from is kept on the side so responses can be serialized losslessly
+const sources = new WeakMap<object, ComponentSource>();
+
+export function attachSource(target: object, source: ComponentSource): void {
+  sources.set(target, source);
+}
+
+export function sourceOf(target: object): ComponentSource | undefined {
+  return sources.get(target);
+}
@@ -1,46 +1,268 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 
-import { type CalDavClientOptions, createCalDavClient } from './caldav';
-import { CalDavRequestHandler } from './handler';
+import {
+  type CalDavAccount,
+  type CalDavAccountOptions,
+  connectAccounts,
+  selectAccount,
+  selectAccountForUri,
+} from './accounts';
+import type { CalDavClientOptions } from './caldav';
+import { type CalDavHandlerOptions, CalDavRequestHandler } from './handler';
+import { CALDAV_PROMPTS } from './prompts';
+import {
+  type CalDavSubscriptionOptions,
+  CalDavSubscriptions,
+  DEFAULT_POLL_INTERVAL,
+} from './subscriptions';
 import { CALDAV_TEMPLATES } from './templates';
+import { CALDAV_TOOLS, READ_ONLY_TOOLS } from './tools';
+import {
+  buildCalDavUri,
+  extractCalendarPath,
+  isMetadataRequest,
+  parseCalDavUri,
+} from './uri';
+
+export const SERVER_VERSION = '0.1.0';
+
+export type CalDavServerOptions = CalDavHandlerOptions &
+  CalDavSubscriptionOptions;
 
+/**
+ * Creates an MCP server for one CalDAV account, or for a list of named
+ * accounts; the first of those is used when a URI or tool call does not
+ * name one.
+ */
 export const createCalDavMcpServer = async (
-  calDavClientOptions: CalDavClientOptions,
+  calDavClientOptions: CalDavClientOptions | CalDavAccountOptions[],
+  serverOptions: CalDavServerOptions = {},
+) => {
+  const createServer = await createCalDavMcpServerFactory(
+    calDavClientOptions,
+    serverOptions,
+  );
+  return createServer();
+};
+
+/**
+ * Logs in once and returns a function creating MCP servers that share the
+ * CalDAV clients and their caches. Every connection needs a server of its
+ * own, as each server serves exactly one transport.
+ */
+export const createCalDavMcpServerFactory = async (
+  calDavClientOptions: CalDavClientOptions | CalDavAccountOptions[],
+  serverOptions: CalDavServerOptions = {},
+) => {
+  const accounts = await connectAccounts(calDavClientOptions);
+  const requestHandler = new CalDavRequestHandler(undefined, serverOptions);
+  for (const account of accounts) {
+    if (account.policy) {
+      requestHandler.setAccountPolicy(account.client, account.policy);
+    }
+  }
+  return () => buildMcpServer(accounts, requestHandler, serverOptions);
+};
+
+const buildMcpServer = (
+  accounts: CalDavAccount[],
+  requestHandler: CalDavRequestHandler,
+  serverOptions: CalDavServerOptions,
 ) => {
-  const calDavClient = await createCalDavClient(calDavClientOptions);
-  const requestHandler = new CalDavRequestHandler();
+  // A single account keeps its URIs free of account parameters
+  const multipleAccounts = accounts.length > 1;
+
+  const server = new McpServer(
+    {
+      name: 'caldav',
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        prompts: {},
+        resources: { subscribe: true, listChanged: true },
+        tools: {},
+      },
+    },
+  );
+
+  const subscriptions = new Map(
+    accounts.map((account) => [
+      account.name,
+      new CalDavSubscriptions(
+        requestHandler,
+        account.client,
+        async (uri) => {
+          await server.server.sendResourceUpdated({ uri });
+        },
+        serverOptions,
+      ),
+    ]),
+  );
+  const subscriptionsFor = (uri: string) =>
+    subscriptions.get(
+      selectAccountForUri(accounts, uri).name,
+    ) as CalDavSubscriptions;
 
-  const server = new McpServer({
-    name: 'caldav',
-    version: '0.1.0',
+  const stopListening = requestHandler.onDiscoveryChange(() => {
+    void server.server.sendResourceListChanged();
   });
+  // Rediscover calendars once a client has asked for the list, so that it
+  // learns about calendars being added or removed
+  let discoveryTimer: ReturnType<typeof setInterval> | undefined;
 
-  // Register resource templates
-  server.setRequestHandler('resources/templates/list', async () => {
-    return {
-      resourceTemplates: CALDAV_TEMPLATES,
-    };
+  server.server.onclose = () => {
+    for (const accountSubscriptions of subscriptions.values()) {
+      accountSubscriptions.close();
+    }
+    stopListening();
+    if (discoveryTimer) clearInterval(discoveryTimer);
+  };
+
+  // List the discovered calendars as concrete resources
+  server.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources = [];
+    for (const account of accounts) {
+      resources.push(
+        ...(await requestHandler.listResources(
+          account.client,
+          multipleAccounts ? account.name : undefined,
+        )),
+      );
+    }
+    if (!discoveryTimer) {
+      discoveryTimer = setInterval(() => {
+        for (const account of accounts) {
+          requestHandler
+            .refreshDiscovery(account.client)
+            .catch(() => undefined);
+        }
+      }, serverOptions.pollInterval ?? DEFAULT_POLL_INTERVAL);
+      discoveryTimer.unref?.();
+    }
+    return { resources };
   });
 
+  // Register resource templates
+  server.server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    async () => {
+      return {
+        resourceTemplates: CALDAV_TEMPLATES,
+      };
+    },
+  );
+
   // Handle resource read requests
-  server.setRequestHandler('resources/read', async (request) => {
+  server.server.setRequestHandler(
+    ReadResourceRequestSchema,
+    async (request) => {
+      if (!request.params.uri) {
+        throw new Error('URI parameter is required');
+      }
+
+      const response = await requestHandler.handleRequest({
+        uri: request.params.uri,
+        client: selectAccountForUri(accounts, request.params.uri).client,
+        accounts: multipleAccounts ? accounts : undefined,
+      });
+
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: response.mimeType,
+            text: response.content,
+          },
+        ],
+      };
+    },
+  );
+
+  // Watch resources for changes
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
     if (!request.params.uri) {
       throw new Error('URI parameter is required');
     }
+    await subscriptionsFor(request.params.uri).subscribe(request.params.uri);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    if (!request.params.uri) {
+      throw new Error('URI parameter is required');
+    }
+    subscriptionsFor(request.params.uri).unsubscribe(request.params.uri);
+    return {};
+  });
+
+  // Register prompts
+  server.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: CALDAV_PROMPTS,
+    };
+  });
 
-    const response = await requestHandler.handleRequest({
-      uri: request.params.uri,
-      client: calDavClient,
+  server.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    if (!request.params.name) {
+      throw new Error('Prompt name is required');
+    }
+
+    const args = request.params.arguments ?? {};
+    const prompt = await requestHandler.getPrompt(
+      request.params.name,
+      args,
+      selectAccount(accounts, args.account).client,
+    );
+    return { ...prompt };
+  });
+
+  // Register tools
+  server.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools:
+        serverOptions.policy?.readOnly ||
+        accounts.every((account) => account.policy?.readOnly)
+          ? CALDAV_TOOLS.filter((tool) => READ_ONLY_TOOLS.includes(tool.name))
+          : CALDAV_TOOLS,
+    };
+  });
+
+  // Handle tool calls
+  server.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    if (!request.params.name) {
+      throw new Error('Tool name is required');
+    }
+
+    const args = request.params.arguments ?? {};
+    const response = await requestHandler.handleToolCall({
+      name: request.params.name,
+      arguments: args,
+      client: selectAccount(
+        accounts,
+        typeof args.account === 'string' ? args.account : undefined,
+      ).client,
     });
 
     return {
-      contents: [
+      content: [
         {
-          uri: request.params.uri,
-          mimeType: response.mimeType,
+          type: 'text',
           text: response.content,
         },
       ],
+      isError: response.status >= 400,
     };
   });
 
@@ -48,15 +270,25 @@ export const createCalDavMcpServer = async (
 };
 
 // Export types and classes for external use
+export type { CalDavAccount, CalDavAccountOptions } from './accounts';
+export type { ComponentCacheOptions } from './cache';
 export type { CalDavClientOptions } from './caldav';
+export type { CalDavSecret } from './credentials';
+export type { CalDavHandlerOptions } from './handler';
+export type { CalDavAccessPolicy } from './policy';
+export type { CalDavSubscriptionOptions } from './subscriptions';
+export type { CalDavHttpServer, HttpServerOptions } from './http';
+export { startHttpServer } from './http';
 export { CalDavRequestHandler } from './handler';
+export { CALDAV_PROMPTS } from './prompts';
 export { CALDAV_TEMPLATES } from './templates';
+export { CALDAV_TOOLS } from './tools';
 export {
   parseCalDavUri,
   buildCalDavUri,
   extractCalendarPath,
   isMetadataRequest,
-} from './uri';
+};
 
 // Compatibility shim for previous CalDavUriParser class-based API
 export const CalDavUriParser = {
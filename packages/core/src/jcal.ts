@@ -0,0 +1,261 @@
+import type { CalendarComponent } from './filters';
+import { parseICalDate } from './ical';
+import type { ICalComponent, ICalProperty } from './icalendar';
+import { formatInTimeZone, resolveTimeZone } from './timezone';
+
+/** RFC 7265: [name, parameters, type, ...values] */
+export type JCalProperty = [
+  string,
+  Record<string, string | string[]>,
+  string,
+  ...unknown[],
+];
+
+/** RFC 7265: [name, properties, subcomponents] */
+export type JCalComponent = [string, JCalProperty[], JCalComponent[]];
+
+// Value types of the properties defined by RFC 5545 and RFC 7986; every
+// other property is "unknown" as RFC 7265 section 5 requires
+const DEFAULT_TYPES: Record<string, string> = {
+  action: 'text',
+  attach: 'uri',
+  attendee: 'cal-address',
+  calscale: 'text',
+  categories: 'text',
+  class: 'text',
+  color: 'text',
+  comment: 'text',
+  completed: 'date-time',
+  contact: 'text',
+  created: 'date-time',
+  description: 'text',
+  dtend: 'date-time',
+  dtstamp: 'date-time',
+  dtstart: 'date-time',
+  due: 'date-time',
+  duration: 'duration',
+  exdate: 'date-time',
+  exrule: 'recur',
+  freebusy: 'period',
+  geo: 'float',
+  image: 'uri',
+  'last-modified': 'date-time',
+  location: 'text',
+  method: 'text',
+  name: 'text',
+  organizer: 'cal-address',
+  'percent-complete': 'integer',
+  priority: 'integer',
+  prodid: 'text',
+  rdate: 'date-time',
+  'recurrence-id': 'date-time',
+  'refresh-interval': 'duration',
+  'related-to': 'text',
+  repeat: 'integer',
+  'request-status': 'text',
+  resources: 'text',
+  rrule: 'recur',
+  sequence: 'integer',
+  source: 'uri',
+  status: 'text',
+  summary: 'text',
+  transp: 'text',
+  trigger: 'duration',
+  tzid: 'text',
+  tzname: 'text',
+  tzoffsetfrom: 'utc-offset',
+  tzoffsetto: 'utc-offset',
+  tzurl: 'uri',
+  uid: 'text',
+  url: 'uri',
+  version: 'text',
+};
+
+// Text properties whose commas separate several values
+const MULTI_VALUED_TEXT = new Set(['categories', 'resources']);
+
+const RECUR_NUMBERS = new Set([
+  'count',
+  'interval',
+  'bysecond',
+  'byminute',
+  'byhour',
+  'bymonthday',
+  'byyearday',
+  'byweekno',
+  'bymonth',
+  'bysetpos',
+]);
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+function splitUnescaped(value: string, separator: ',' | ';'): string[] {
+  return value.split(separator === ',' ? /(?<!\\),/ : /(?<!\\);/);
+}
+
+/** `20240115T090000Z` to `2024-01-15T09:00:00Z`, `20240115` to `2024-01-15` */
+function isoDateTime(value: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(
+    value.trim(),
+  );
+  if (!match) return value;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  return match[4] === undefined
+    ? date
+    : `${date}T${match[4]}:${match[5]}:${match[6]}${match[7]}`;
+}
+
+function isoOffset(value: string): string {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) return value;
+  return `${match[1]}${match[2]}:${match[3]}${match[4] ? `:${match[4]}` : ''}`;
+}
+
+function recurValue(value: string): Record<string, unknown> {
+  const rule: Record<string, unknown> = {};
+  for (const part of value.split(';')) {
+    const [key, raw = ''] = part.split('=');
+    if (!key) continue;
+    const name = key.toLowerCase();
+    const values = raw.split(',').map((item) => {
+      if (name === 'until') return isoDateTime(item);
+      return RECUR_NUMBERS.has(name) ? Number(item) : item;
+    });
+    rule[name] = values.length === 1 ? values[0] : values;
+  }
+  return rule;
+}
+
+function convertValues(name: string, type: string, raw: string): unknown[] {
+  switch (type) {
+    case 'date':
+    case 'date-time':
+      return raw.split(',').map(isoDateTime);
+    case 'period':
+      return raw.split(',').map((period) => {
+        const [start, end] = period.split('/');
+        return [
+          isoDateTime(start),
+          /^[+-]?P/.test(end) ? end : isoDateTime(end),
+        ];
+      });
+    case 'utc-offset':
+      return [isoOffset(raw)];
+    case 'recur':
+      return [recurValue(raw)];
+    case 'integer':
+      return raw.split(',').map((item) => Number.parseInt(item, 10));
+    case 'float':
+      // GEO is the only structured float property
+      return name === 'geo'
+        ? [raw.split(';').map(Number)]
+        : raw.split(',').map(Number);
+    case 'boolean':
+      return [raw.toUpperCase() === 'TRUE'];
+    case 'text':
+      if (name === 'request-status') {
+        return [splitUnescaped(raw, ';').map(unescapeText)];
+      }
+      return MULTI_VALUED_TEXT.has(name)
+        ? splitUnescaped(raw, ',').map(unescapeText)
+        : [unescapeText(raw)];
+    default:
+      return [raw];
+  }
+}
+
+function convertParameters(
+  property: ICalProperty,
+): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {};
+  for (const param of property.params) {
+    const name = param.name.toLowerCase();
+    // The value type is the third element instead
+    if (name === 'value') continue;
+    const values = (param.value.match(/"[^"]*"|[^,]+/g) ?? ['']).map((v) =>
+      v.replace(/^"|"$/g, ''),
+    );
+    params[name] = values.length === 1 ? values[0] : values;
+  }
+  return params;
+}
+
+function toJCalProperty(property: ICalProperty): JCalProperty {
+  const name = property.name.toLowerCase();
+  const valueParam = property.params.find(
+    (param) => param.name.toUpperCase() === 'VALUE',
+  );
+  const type = valueParam
+    ? valueParam.value.replace(/^"|"$/g, '').toLowerCase()
+    : (DEFAULT_TYPES[name] ?? 'unknown');
+
+  return [
+    name,
+    convertParameters(property),
+    type,
+    ...convertValues(name, type, property.value),
+  ];
+}
+
+/** Converts a component tree to jCal (RFC 7265). */
+export function toJCal(component: ICalComponent): JCalComponent {
+  return [
+    component.name.toLowerCase(),
+    component.properties.map(toJCalProperty),
+    component.components.map(toJCal),
+  ];
+}
+
+const DATE_FIELDS = [
+  'dtstart',
+  'dtend',
+  'due',
+  'recurrence-id',
+  'dtstamp',
+  'created',
+  'last-modified',
+  'completed',
+];
+
+/**
+ * Stored date values to ISO 8601: UTC times keep the `Z`, zoned times get
+ * the offset in effect, floating times and dates stay without one.
+ */
+function isoValue(value: string): string {
+  const match = /^(\S+?)\s*\(([^)]+)\)\s*$/.exec(value.trim());
+  if (match && resolveTimeZone(match[2]) && /T/.test(match[1])) {
+    return formatInTimeZone(parseICalDate(value), match[2]);
+  }
+  return isoDateTime(match ? match[1] : value);
+}
+
+/**
+ * The simplified JSON shape: the fields of CalendarComponent as parsed,
+ * with date fields (dtstart, dtend, due, recurrence-id, dtstamp, created,
+ * last-modified, completed) as ISO 8601 strings, exdate and rdate as
+ * arrays of them, and the TZID of dtstart as `timeZone`.
+ */
+export function toJsonComponent(
+  component: CalendarComponent,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...component };
+  for (const field of DATE_FIELDS) {
+    const value = component[field];
+    if (typeof value === 'string') result[field] = isoValue(value);
+  }
+  for (const field of ['exdate', 'rdate']) {
+    const value = component[field];
+    if (typeof value === 'string') {
+      result[field] = value
+        .split(',')
+        .map((item) => item.split('/').map(isoValue).join('/'));
+    }
+  }
+  const tzid = /\(([^)]+)\)\s*$/.exec(component.dtstart ?? '');
+  if (tzid) result.timeZone = tzid[1];
+  return result;
+}
@@ -0,0 +1,636 @@
+import { parseICalDate } from './ical';
+
+/**
+ * A subset of JMESPath (https://jmespath.org/specification.html) used to
+ * filter components. Supported:
+ *
+ * - identifiers, sub-expressions (`a.b`), indexes (`a[0]`, `a[-1]`)
+ * - projections: `a[*].b`, `a[].b`, `*.b`, filters `a[?b == 'x'].c`
+ * - pipes `|`, `||`, `&&`, `!` and parentheses
+ * - comparisons `==`, `!=`, `<`, `<=`, `>`, `>=`; ordering works on numbers
+ *   and on dates (iCalendar values or ISO 8601 strings)
+ * - literals: `` `json` ``, 'raw strings'
+ * - functions: contains, ends_with, join, length, not_null, starts_with,
+ *   to_number, to_string, type
+ *
+ * Deviating from JMESPath, "double quoted" text is a string literal rather
+ * than a quoted identifier, bare numbers are number literals and
+ * identifiers may contain hyphens (`recurrence-id`). Multi-select lists
+ * and hashes, slices and expression references are not supported.
+ */
+
+type TokenType =
+  | 'identifier'
+  | 'literal'
+  | 'number'
+  | 'dot'
+  | 'star'
+  | 'flatten'
+  | 'filter'
+  | 'lbracket'
+  | 'rbracket'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'current'
+  | 'pipe'
+  | 'or'
+  | 'and'
+  | 'not'
+  | 'comparator'
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  value?: unknown;
+  position: number;
+}
+
+type Comparator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Node =
+  | { type: 'current' }
+  | { type: 'literal'; value: unknown }
+  | { type: 'field'; name: string }
+  | { type: 'subexpression'; left: Node; right: Node }
+  | { type: 'index'; left: Node; index: number }
+  | { type: 'projection'; left: Node; right: Node }
+  | { type: 'valueProjection'; left: Node; right: Node }
+  | { type: 'filterProjection'; left: Node; condition: Node; right: Node }
+  | { type: 'flatten'; left: Node }
+  | { type: 'pipe'; left: Node; right: Node }
+  | { type: 'or'; left: Node; right: Node }
+  | { type: 'and'; left: Node; right: Node }
+  | { type: 'not'; expression: Node }
+  | { type: 'comparator'; operator: Comparator; left: Node; right: Node }
+  | { type: 'function'; name: string; args: Node[] };
+
+// Binding powers as in the reference implementation
+const BINDING_POWER: Partial<Record<TokenType, number>> = {
+  pipe: 1,
+  or: 2,
+  and: 3,
+  comparator: 5,
+  flatten: 9,
+  star: 20,
+  filter: 21,
+  dot: 40,
+  not: 45,
+  lbracket: 55,
+  lparen: 60,
+};
+
+function syntaxError(message: string, position: number): Error {
+  return new Error(
+    `Invalid filter expression: ${message} at position ${position}`,
+  );
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (quote: string): string => {
+    const start = i;
+    i++;
+    while (i < expression.length && expression[i] !== quote) {
+      if (expression[i] === '\\') i++;
+      i++;
+    }
+    if (i >= expression.length) {
+      throw syntaxError(`Unterminated ${quote}`, start);
+    }
+    i++;
+    return expression.slice(start + 1, i - 1);
+  };
+
+  while (i < expression.length) {
+    const char = expression[i];
+    const position = i;
+    const two = expression.slice(i, i + 2);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(expression.slice(i));
+      const name = (match as RegExpExecArray)[0];
+      tokens.push({ type: 'identifier', value: name, position });
+      i += name.length;
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(two[1]))) {
+      const match = /^-?[0-9]+(\.[0-9]+)?/.exec(expression.slice(i));
+      const text = (match as RegExpExecArray)[0];
+      tokens.push({ type: 'number', value: Number(text), position });
+      i += text.length;
+    } else if (char === '`') {
+      const raw = readQuoted('`').replace(/\\`/g, '`');
+      try {
+        tokens.push({ type: 'literal', value: JSON.parse(raw), position });
+      } catch {
+        throw syntaxError(`Invalid JSON literal \`${raw}\``, position);
+      }
+    } else if (char === "'") {
+      const raw = readQuoted("'").replace(/\\'/g, "'");
+      tokens.push({ type: 'literal', value: raw, position });
+    } else if (char === '"') {
+      const raw = readQuoted('"');
+      try {
+        tokens.push({
+          type: 'literal',
+          value: JSON.parse(`"${raw}"`),
+          position,
+        });
+      } catch {
+        throw syntaxError(`Invalid string "${raw}"`, position);
+      }
+    } else if (two === '[]') {
+      tokens.push({ type: 'flatten', position });
+      i += 2;
+    } else if (two === '[?') {
+      tokens.push({ type: 'filter', position });
+      i += 2;
+    } else if (two === '||' || two === '&&') {
+      tokens.push({ type: two === '||' ? 'or' : 'and', position });
+      i += 2;
+    } else if (['==', '!=', '<=', '>='].includes(two)) {
+      tokens.push({ type: 'comparator', value: two, position });
+      i += 2;
+    } else if (char === '<' || char === '>') {
+      tokens.push({ type: 'comparator', value: char, position });
+      i++;
+    } else {
+      const single: Record<string, TokenType> = {
+        '.': 'dot',
+        '*': 'star',
+        '[': 'lbracket',
+        ']': 'rbracket',
+        '(': 'lparen',
+        ')': 'rparen',
+        ',': 'comma',
+        '@': 'current',
+        '|': 'pipe',
+        '!': 'not',
+      };
+      const type = single[char];
+      if (!type) throw syntaxError(`Unexpected character '${char}'`, i);
+      tokens.push({ type, position });
+      i++;
+    }
+  }
+
+  tokens.push({ type: 'eof', position: expression.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression(0);
+    if (this.peek().type !== 'eof') {
+      this.fail(this.peek());
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: TokenType): Token {
+    const token = this.next();
+    if (token.type !== type) this.fail(token);
+    return token;
+  }
+
+  private fail(token: Token): never {
+    throw syntaxError(
+      token.type === 'eof'
+        ? 'Unexpected end of expression'
+        : `Unexpected ${describe(token)}`,
+      token.position,
+    );
+  }
+
+  private expression(rbp: number): Node {
+    let left = this.nud(this.next());
+    while (rbp < (BINDING_POWER[this.peek().type] ?? 0)) {
+      left = this.led(this.next(), left);
+    }
+    return left;
+  }
+
+  private nud(token: Token): Node {
+    switch (token.type) {
+      case 'literal':
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (this.peek().type === 'lparen') {
+          this.next();
+          return this.functionCall(token.value as string);
+        }
+        return { type: 'field', name: token.value as string };
+      case 'current':
+        return { type: 'current' };
+      case 'not':
+        return {
+          type: 'not',
+          expression: this.expression(BINDING_POWER.not as number),
+        };
+      case 'lparen': {
+        const node = this.expression(0);
+        this.expect('rparen');
+        return node;
+      }
+      case 'star':
+        return {
+          type: 'valueProjection',
+          left: { type: 'current' },
+          right: this.projectionRhs(BINDING_POWER.star as number),
+        };
+      case 'flatten':
+      case 'filter':
+      case 'lbracket':
+        return this.led(token, { type: 'current' });
+      default:
+        return this.fail(token);
+    }
+  }
+
+  private led(token: Token, left: Node): Node {
+    switch (token.type) {
+      case 'dot':
+        if (this.peek().type === 'star') {
+          this.next();
+          return {
+            type: 'valueProjection',
+            left,
+            right: this.projectionRhs(BINDING_POWER.star as number),
+          };
+        }
+        return {
+          type: 'subexpression',
+          left,
+          right: this.dotRhs(),
+        };
+      case 'pipe':
+      case 'or':
+      case 'and':
+        return {
+          type: token.type,
+          left,
+          right: this.expression(BINDING_POWER[token.type] as number),
+        };
+      case 'comparator':
+        return {
+          type: 'comparator',
+          operator: token.value as Comparator,
+          left,
+          right: this.expression(BINDING_POWER.comparator as number),
+        };
+      case 'flatten':
+        return {
+          type: 'projection',
+          left: { type: 'flatten', left },
+          right: this.projectionRhs(BINDING_POWER.flatten as number),
+        };
+      case 'filter': {
+        const condition = this.expression(0);
+        this.expect('rbracket');
+        return {
+          type: 'filterProjection',
+          left,
+          condition,
+          right: this.projectionRhs(BINDING_POWER.filter as number),
+        };
+      }
+      case 'lbracket': {
+        const inner = this.next();
+        if (inner.type === 'number' && Number.isInteger(inner.value)) {
+          this.expect('rbracket');
+          return { type: 'index', left, index: inner.value as number };
+        }
+        if (inner.type === 'star') {
+          this.expect('rbracket');
+          return {
+            type: 'projection',
+            left,
+            right: this.projectionRhs(BINDING_POWER.star as number),
+          };
+        }
+        return this.fail(inner);
+      }
+      default:
+        return this.fail(token);
+    }
+  }
+
+  private dotRhs(): Node {
+    const token = this.next();
+    if (token.type !== 'identifier') this.fail(token);
+    if (this.peek().type === 'lparen') {
+      this.next();
+      return this.functionCall(token.value as string);
+    }
+    return { type: 'field', name: token.value as string };
+  }
+
+  private projectionRhs(rbp: number): Node {
+    const next = this.peek();
+    // Anything binding weaker than a projection ends it
+    if ((BINDING_POWER[next.type] ?? 0) < 10) return { type: 'current' };
+    if (next.type === 'lbracket' || next.type === 'filter') {
+      return this.expression(rbp);
+    }
+    if (next.type === 'dot') {
+      this.next();
+      return this.dotRhs();
+    }
+    return this.fail(next);
+  }
+
+  private functionCall(name: string): Node {
+    const args: Node[] = [];
+    if (this.peek().type !== 'rparen') {
+      args.push(this.expression(0));
+      while (this.peek().type === 'comma') {
+        this.next();
+        args.push(this.expression(0));
+      }
+    }
+    this.expect('rparen');
+    if (!(name in FUNCTIONS)) {
+      throw new Error(`Invalid filter expression: unknown function ${name}()`);
+    }
+    const { arity } = FUNCTIONS[name];
+    if (args.length < arity[0] || args.length > arity[1]) {
+      throw new Error(
+        `Invalid filter expression: ${name}() takes ${
+          arity[0] === arity[1] ? arity[0] : `${arity[0]} or more`
+        } argument(s)`,
+      );
+    }
+    return { type: 'function', name, args };
+  }
+}
+
+function describe(token: Token): string {
+  if (token.type === 'identifier') return `identifier '${token.value}'`;
+  if (token.type === 'literal' || token.type === 'number') {
+    return `literal ${JSON.stringify(token.value)}`;
+  }
+  return `'${token.type === 'comparator' ? token.value : token.type}'`;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+/** JMESPath truthiness: false, null and empty strings, arrays and objects */
+export function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return false;
+  if (value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeOf(a) !== typeOf(b) || typeof a !== 'object' || a === null) {
+    // Missing fields compare equal to null
+    return (a ?? null) === (b ?? null);
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b as object);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) =>
+      deepEqual(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      ),
+    )
+  );
+}
+
+function toInstant(value: string): number | null {
+  if (/^\d{8}(T\d{6}Z?)?(\s*\([^)]+\))?$/.test(value)) {
+    return parseICalDate(value).getTime();
+  }
+  if (/^\d{4}-\d{2}-\d{2}([T ][\d:.]+)?(Z|[+-]\d{2}:?\d{2})?$/.test(value)) {
+    const date = new Date(/T|\s/.test(value) ? value : `${value}T00:00:00Z`);
+    return Number.isNaN(date.getTime()) ? null : date.getTime();
+  }
+  return null;
+}
+
+function compare(operator: Comparator, left: unknown, right: unknown): unknown {
+  if (operator === '==') return deepEqual(left, right);
+  if (operator === '!=') return !deepEqual(left, right);
+
+  let a: number | null = null;
+  let b: number | null = null;
+  if (typeof left === 'number' && typeof right === 'number') {
+    a = left;
+    b = right;
+  } else if (typeof left === 'string' && typeof right === 'string') {
+    a = toInstant(left);
+    b = toInstant(right);
+  }
+  // Ordering anything but numbers or dates yields null, like JMESPath
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function expectType(name: string, value: unknown, ...types: string[]): void {
+  if (!types.includes(typeOf(value))) {
+    throw new Error(
+      `${name}() expected ${types.join(' or ')}, got ${typeOf(value)}`,
+    );
+  }
+}
+
+// Functions that get null for a string argument return null, so filters
+// on optional properties do not fail for components without them
+const FUNCTIONS: Record<
+  string,
+  { arity: [number, number]; call: (args: unknown[]) => unknown }
+> = {
+  contains: {
+    arity: [2, 2],
+    call: ([subject, search]) => {
+      if (subject === null || subject === undefined) return null;
+      expectType('contains', subject, 'string', 'array');
+      if (typeof subject === 'string') {
+        return typeof search === 'string' && subject.includes(search);
+      }
+      return (subject as unknown[]).some((item) => deepEqual(item, search));
+    },
+  },
+  ends_with: {
+    arity: [2, 2],
+    call: ([subject, suffix]) => {
+      if (subject === null || subject === undefined) return null;
+      expectType('ends_with', subject, 'string');
+      expectType('ends_with', suffix, 'string');
+      return (subject as string).endsWith(suffix as string);
+    },
+  },
+  join: {
+    arity: [2, 2],
+    call: ([glue, list]) => {
+      expectType('join', glue, 'string');
+      if (list === null || list === undefined) return null;
+      expectType('join', list, 'array');
+      return (list as unknown[]).join(glue as string);
+    },
+  },
+  length: {
+    arity: [1, 1],
+    call: ([subject]) => {
+      if (subject === null || subject === undefined) return null;
+      expectType('length', subject, 'string', 'array', 'object');
+      return typeof subject === 'string'
+        ? [...subject].length
+        : Object.keys(subject as object).length;
+    },
+  },
+  not_null: {
+    arity: [1, Number.POSITIVE_INFINITY],
+    call: (args) =>
+      args.find((arg) => arg !== null && arg !== undefined) ?? null,
+  },
+  starts_with: {
+    arity: [2, 2],
+    call: ([subject, prefix]) => {
+      if (subject === null || subject === undefined) return null;
+      expectType('starts_with', subject, 'string');
+      expectType('starts_with', prefix, 'string');
+      return (subject as string).startsWith(prefix as string);
+    },
+  },
+  to_number: {
+    arity: [1, 1],
+    call: ([value]) => {
+      if (typeof value === 'number') return value;
+      const number = typeof value === 'string' ? Number(value) : Number.NaN;
+      return typeof value === 'string' && value.trim() && !Number.isNaN(number)
+        ? number
+        : null;
+    },
+  },
+  to_string: {
+    arity: [1, 1],
+    call: ([value]) =>
+      typeof value === 'string' ? value : JSON.stringify(value ?? null),
+  },
+  type: {
+    arity: [1, 1],
+    call: ([value]) => typeOf(value),
+  },
+};
+
+function evaluate(node: Node, value: unknown): unknown {
+  switch (node.type) {
+    case 'current':
+      return value;
+    case 'literal':
+      return node.value;
+    case 'field':
+      return typeOf(value) === 'object'
+        ? ((value as Record<string, unknown>)[node.name] ?? null)
+        : null;
+    case 'subexpression':
+      return evaluate(node.right, evaluate(node.left, value));
+    case 'index': {
+      const list = evaluate(node.left, value);
+      if (!Array.isArray(list)) return null;
+      return list.at(node.index) ?? null;
+    }
+    case 'flatten': {
+      const list = evaluate(node.left, value);
+      return Array.isArray(list) ? list.flat() : null;
+    }
+    case 'projection':
+    case 'valueProjection':
+    case 'filterProjection': {
+      const base = evaluate(node.left, value);
+      let items: unknown[];
+      if (node.type === 'valueProjection') {
+        if (typeOf(base) !== 'object') return null;
+        items = Object.values(base as object);
+      } else {
+        if (!Array.isArray(base)) return null;
+        items = base;
+      }
+      if (node.type === 'filterProjection') {
+        items = items.filter((item) =>
+          isTruthy(evaluate(node.condition, item)),
+        );
+      }
+      return items
+        .map((item) => evaluate(node.right, item))
+        .filter((item) => item !== null && item !== undefined);
+    }
+    case 'pipe':
+      return evaluate(node.right, evaluate(node.left, value));
+    case 'or': {
+      const left = evaluate(node.left, value);
+      return isTruthy(left) ? left : evaluate(node.right, value);
+    }
+    case 'and': {
+      const left = evaluate(node.left, value);
+      return isTruthy(left) ? evaluate(node.right, value) : left;
+    }
+    case 'not':
+      return !isTruthy(evaluate(node.expression, value));
+    case 'comparator':
+      return compare(
+        node.operator,
+        evaluate(node.left, value),
+        evaluate(node.right, value),
+      );
+    case 'function':
+      return FUNCTIONS[node.name].call(
+        node.args.map((arg) => evaluate(arg, value)),
+      );
+  }
+}
+
+/**
+ * Parses an expression once and returns a function evaluating it against
+ * a value. Syntax errors throw here, type errors in function arguments
+ * when evaluating.
+ */
+export function compileJmesPath(
+  expression: string,
+): (value: unknown) => unknown {
+  if (!expression.trim()) {
+    throw new Error('Invalid filter expression: expression is empty');
+  }
+  const ast = new Parser(tokenize(expression)).parse();
+  return (value) => evaluate(ast, value);
+}
+
+export function searchJmesPath(value: unknown, expression: string): unknown {
+  return compileJmesPath(expression)(value);
+}
@@ -0,0 +1,236 @@
+import type { CalDavClient } from './caldav';
+
+export interface CalendarObject {
+  href: string;
+  etag?: string;
+  data: string;
+}
+
+export interface WriteResult {
+  status: number;
+  ok: boolean;
+  etag?: string;
+}
+
+const ICALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+const XML_CONTENT_TYPE = 'application/xml; charset=utf-8';
+
+// tsdav replaces its auth headers when a request passes its own, so every
+// helper below merges client.authHeaders back in explicitly
+
+export function resolveHref(client: CalDavClient, href: string): string {
+  // Discovery returns server-relative hrefs, fetch needs absolute URLs
+  return new URL(href, client.serverUrl).href;
+}
+
+export function buildObjectHref(collectionHref: string, uid: string): string {
+  const base = collectionHref.endsWith('/')
+    ? collectionHref
+    : `${collectionHref}/`;
+  const filename = uid.replace(/[^A-Za-z0-9._@-]/g, '_');
+  return `${base}${encodeURIComponent(filename)}.ics`;
+}
+
+function toWriteResult(response: Response): WriteResult {
+  return {
+    status: response.status,
+    ok: response.ok,
+    etag: response.headers.get('etag') ?? undefined,
+  };
+}
+
+export async function createCalendarObject(
+  client: CalDavClient,
+  href: string,
+  data: string,
+): Promise<WriteResult> {
+  const response = await client.createObject({
+    url: resolveHref(client, href),
+    data,
+    headers: {
+      ...client.authHeaders,
+      'Content-Type': ICALENDAR_CONTENT_TYPE,
+      // Never overwrite an existing resource when creating
+      'if-none-match': '*',
+    },
+  });
+  return toWriteResult(response);
+}
+
+export async function updateCalendarObject(
+  client: CalDavClient,
+  href: string,
+  data: string,
+  etag?: string,
+): Promise<WriteResult> {
+  const response = await client.updateObject({
+    url: resolveHref(client, href),
+    data,
+    // tsdav turns the etag into an If-Match precondition
+    etag,
+    headers: {
+      ...client.authHeaders,
+      'Content-Type': ICALENDAR_CONTENT_TYPE,
+    },
+  });
+  return toWriteResult(response);
+}
+
+export async function deleteCalendarObject(
+  client: CalDavClient,
+  href: string,
+  etag?: string,
+): Promise<WriteResult> {
+  const response = await client.deleteObject({
+    url: resolveHref(client, href),
+    etag,
+    headers: { ...client.authHeaders },
+  });
+  return toWriteResult(response);
+}
+
+async function sendDavRequest(
+  client: CalDavClient,
+  href: string,
+  method: 'MKCALENDAR' | 'PROPPATCH' | 'PROPFIND' | 'MOVE' | 'COPY' | 'REPORT',
+  headers: Record<string, string>,
+  body?: string,
+): Promise<WriteResult & { body: string }> {
+  // davRequest merges the auth headers itself
+  const [response] = await client.davRequest({
+    url: resolveHref(client, href),
+    init: { method, headers, body },
+    convertIncoming: false,
+    parseOutgoing: false,
+  });
+  return {
+    status: response.status,
+    ok: response.ok,
+    body: typeof response.raw === 'string' ? response.raw : '',
+  };
+}
+
+export async function freeBusyQuery(
+  client: CalDavClient,
+  href: string,
+  xml: string,
+): Promise<WriteResult & { body: string }> {
+  return await sendDavRequest(
+    client,
+    href,
+    'REPORT',
+    { 'Content-Type': XML_CONTENT_TYPE, depth: '1' },
+    xml,
+  );
+}
+
+export async function syncCollection(
+  client: CalDavClient,
+  href: string,
+  xml: string,
+): Promise<WriteResult & { body: string }> {
+  // RFC 6578 defines the report for Depth 0 only; sync-level says the rest
+  return await sendDavRequest(
+    client,
+    href,
+    'REPORT',
+    { 'Content-Type': XML_CONTENT_TYPE, depth: '0' },
+    xml,
+  );
+}
+
+export async function multigetObjects(
+  client: CalDavClient,
+  href: string,
+  xml: string,
+): Promise<WriteResult & { body: string }> {
+  return await sendDavRequest(
+    client,
+    href,
+    'REPORT',
+    { 'Content-Type': XML_CONTENT_TYPE, depth: '1' },
+    xml,
+  );
+}
+
+export async function propfindCollection(
+  client: CalDavClient,
+  href: string,
+  xml: string,
+  depth: '0' | '1',
+): Promise<WriteResult & { body: string }> {
+  return await sendDavRequest(
+    client,
+    href,
+    'PROPFIND',
+    { 'Content-Type': XML_CONTENT_TYPE, depth },
+    xml,
+  );
+}
+
+export async function makeCalendar(
+  client: CalDavClient,
+  href: string,
+  xml: string,
+): Promise<WriteResult> {
+  const { status, ok } = await sendDavRequest(
+    client,
+    href,
+    'MKCALENDAR',
+    { 'Content-Type': XML_CONTENT_TYPE },
+    xml,
+  );
+  return { status, ok };
+}
+
+export async function patchCollection(
+  client: CalDavClient,
+  href: string,
+  xml: string,
+): Promise<WriteResult> {
+  const result = await sendDavRequest(
+    client,
+    href,
+    'PROPPATCH',
+    { 'Content-Type': XML_CONTENT_TYPE },
+    xml,
+  );
+
+  // PROPPATCH answers 207 even when individual properties were rejected
+  const failed = [...result.body.matchAll(/HTTP\/1\.[01] (\d{3})/g)]
+    .map((match) => Number.parseInt(match[1], 10))
+    .find((status) => status >= 300);
+  if (failed) {
+    return { status: failed, ok: false };
+  }
+  return { status: result.status, ok: result.ok };
+}
+
+export async function deleteCollection(
+  client: CalDavClient,
+  href: string,
+): Promise<WriteResult> {
+  const response = await client.deleteObject({
+    url: resolveHref(client, href),
+    headers: { ...client.authHeaders },
+  });
+  return toWriteResult(response);
+}
+
+export async function transferCalendarObject(
+  client: CalDavClient,
+  href: string,
+  destinationHref: string,
+  method: 'MOVE' | 'COPY',
+  etag?: string,
+): Promise<WriteResult> {
+  const headers: Record<string, string> = {
+    destination: resolveHref(client, destinationHref),
+    // Never clobber a resource that already exists at the destination
+    overwrite: 'F',
+  };
+  if (etag) headers['if-match'] = etag;
+
+  const { status, ok } = await sendDavRequest(client, href, method, headers);
+  return { status, ok };
+}
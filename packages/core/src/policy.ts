@@ -0,0 +1,138 @@
+import type { DiscoveryResult } from './discovery';
+import { COMPONENT_TYPES, type ComponentType } from './types';
+
+/**
+ * Limits what an agent can see and change. Calendars that are not allowed
+ * or are denied are hidden as if they did not exist; so are components of
+ * types that are not allowed.
+ */
+export interface CalDavAccessPolicy {
+  /** Calendar ids that can be used; every calendar when omitted */
+  allowCalendars?: string[];
+  /** Calendar ids that are hidden, even when allowed */
+  denyCalendars?: string[];
+  /** Calendar ids that can be read but not changed */
+  readOnlyCalendars?: string[];
+  /** Component types that can be read and written; all when omitted */
+  componentTypes?: ComponentType[];
+  /** Refuse every change */
+  readOnly?: boolean;
+}
+
+/** Start of the error raised for anything the policy does not allow */
+export const ACCESS_DENIED = 'Access denied';
+
+export function validateAccessPolicy(policy: CalDavAccessPolicy): void {
+  for (const type of policy.componentTypes ?? []) {
+    if (!COMPONENT_TYPES.includes(type)) {
+      throw new Error(
+        `Unknown component type in access policy: ${type}. Must be one of: ${COMPONENT_TYPES.join(', ')}`,
+      );
+    }
+  }
+}
+
+/**
+ * An account's own policy on top of the server-wide one: what either
+ * refuses stays refused.
+ */
+export function combineAccessPolicies(
+  server: CalDavAccessPolicy,
+  account?: CalDavAccessPolicy,
+): CalDavAccessPolicy {
+  if (!account) return server;
+  const both = <T>(a?: T[], b?: T[]) =>
+    a && b ? a.filter((item) => b.includes(item)) : (a ?? b);
+  const either = <T>(a?: T[], b?: T[]) =>
+    a && b ? [...new Set([...a, ...b])] : (a ?? b);
+
+  const combined: CalDavAccessPolicy = {};
+  const allowCalendars = both(server.allowCalendars, account.allowCalendars);
+  if (allowCalendars) combined.allowCalendars = allowCalendars;
+  const denyCalendars = either(server.denyCalendars, account.denyCalendars);
+  if (denyCalendars) combined.denyCalendars = denyCalendars;
+  const readOnlyCalendars = either(
+    server.readOnlyCalendars,
+    account.readOnlyCalendars,
+  );
+  if (readOnlyCalendars) combined.readOnlyCalendars = readOnlyCalendars;
+  const componentTypes = both(server.componentTypes, account.componentTypes);
+  if (componentTypes) combined.componentTypes = componentTypes;
+  if (server.readOnly || account.readOnly) combined.readOnly = true;
+  return combined;
+}
+
+export function isCalendarVisible(
+  policy: CalDavAccessPolicy,
+  calendarId: string,
+): boolean {
+  if (policy.allowCalendars && !policy.allowCalendars.includes(calendarId)) {
+    return false;
+  }
+  return !policy.denyCalendars?.includes(calendarId);
+}
+
+export function isComponentAllowed(
+  policy: CalDavAccessPolicy,
+  componentType: string | undefined,
+): boolean {
+  if (!policy.componentTypes) return true;
+  return (
+    componentType !== undefined &&
+    (policy.componentTypes as string[]).includes(componentType)
+  );
+}
+
+export function isCalendarWritable(
+  policy: CalDavAccessPolicy,
+  calendarId: string,
+): boolean {
+  return !policy.readOnly && !policy.readOnlyCalendars?.includes(calendarId);
+}
+
+/**
+ * The discovered calendars as the policy lets them be seen: hidden
+ * calendars are left out, and component sets are cut down to the allowed
+ * types, leaving out calendars that hold none of them.
+ */
+export function applyAccessPolicy(
+  policy: CalDavAccessPolicy,
+  discovery: DiscoveryResult,
+): DiscoveryResult {
+  return {
+    ...discovery,
+    collections: discovery.collections
+      .filter((calendar) => isCalendarVisible(policy, calendar.calendarId))
+      .map((calendar) => ({
+        ...calendar,
+        componentSet: calendar.componentSet.filter((type) =>
+          isComponentAllowed(policy, type),
+        ),
+      }))
+      .filter((calendar) => calendar.componentSet.length > 0),
+  };
+}
+
+export function assertComponentAllowed(
+  policy: CalDavAccessPolicy,
+  componentType: string,
+): void {
+  if (!isComponentAllowed(policy, componentType)) {
+    throw new Error(
+      `${ACCESS_DENIED}: ${componentType} components are not allowed`,
+    );
+  }
+}
+
+/** Refuses changes, to a calendar or, without one, to the account. */
+export function assertWritable(
+  policy: CalDavAccessPolicy,
+  calendarId?: string,
+): void {
+  if (policy.readOnly) {
+    throw new Error(`${ACCESS_DENIED}: the server is read-only`);
+  }
+  if (calendarId !== undefined && !isCalendarWritable(policy, calendarId)) {
+    throw new Error(`${ACCESS_DENIED}: calendar ${calendarId} is read-only`);
+  }
+}
@@ -0,0 +1,292 @@
+import type { CalendarCollection, DiscoveryResult } from './discovery';
+import { OPEN_TASKS_FILTER } from './resources';
+import { type TimeZone, resolveTimeZone, utcToZonedTime } from './timezone';
+import { buildCalDavUri } from './uri';
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface CalDavPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/** A prompt with its arguments resolved, before its resources are read */
+export interface PromptPlan {
+  description: string;
+  instructions: string;
+  resources: Array<{ uri: string; mimeType: string }>;
+}
+
+const CALENDARS_ARGUMENT: PromptArgument = {
+  name: 'calendarIds',
+  description:
+    'Comma-separated calendar identifiers (defaults to every calendar that holds the components)',
+  required: false,
+};
+
+const ACCOUNT_ARGUMENT: PromptArgument = {
+  name: 'account',
+  description:
+    'Account whose calendars to use, when the server has several (defaults to the first)',
+  required: false,
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const CALDAV_PROMPTS: CalDavPrompt[] = [
+  {
+    name: 'daily_briefing',
+    description:
+      "Summarize one day: the day's agenda and the open tasks, with conflicts and preparation called out",
+    arguments: [
+      CALENDARS_ARGUMENT,
+      {
+        name: 'date',
+        description: 'Day to brief on as YYYY-MM-DD (defaults to today)',
+        required: false,
+      },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'plan_week',
+    description:
+      'Plan a week around the existing events: free time, open tasks and where to schedule them',
+    arguments: [
+      CALENDARS_ARGUMENT,
+      {
+        name: 'start',
+        description: 'First day of the week as YYYY-MM-DD (defaults to today)',
+        required: false,
+      },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+  {
+    name: 'triage_tasks',
+    description:
+      'Review the open tasks: what is overdue, what to do next, and what to reprioritize, defer or drop',
+    arguments: [CALENDARS_ARGUMENT, ACCOUNT_ARGUMENT],
+  },
+  {
+    name: 'meeting_prep',
+    description:
+      'Prepare for a meeting: purpose, attendees, material to read and open questions',
+    arguments: [
+      {
+        name: 'calendarId',
+        description: 'Calendar holding the meeting',
+        required: true,
+      },
+      {
+        name: 'uid',
+        description: 'UID of the meeting event',
+        required: true,
+      },
+      ACCOUNT_ARGUMENT,
+    ],
+  },
+];
+
+export function getPrompt(name: string): CalDavPrompt | undefined {
+  return CALDAV_PROMPTS.find((prompt) => prompt.name === name);
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  return isoDay(new Date(new Date(`${day}T00:00:00Z`).getTime() + days * DAY));
+}
+
+function parseDay(value: string | undefined, zone: TimeZone): string {
+  if (!value) return isoDay(utcToZonedTime(new Date(), zone));
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+  ) {
+    throw new Error(`Invalid date: ${value}. Expected YYYY-MM-DD`);
+  }
+  return value;
+}
+
+function selectCalendars(
+  discovery: DiscoveryResult,
+  calendarIds: string | undefined,
+  comp: string,
+): CalendarCollection[] {
+  if (!calendarIds) {
+    return discovery.collections.filter((c) => c.componentSet.includes(comp));
+  }
+  return calendarIds
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => {
+      const calendar = discovery.collections.find((c) => c.calendarId === id);
+      if (!calendar) {
+        throw new Error(`Calendar not found: ${id}`);
+      }
+      return calendar;
+    })
+    .filter((c) => c.componentSet.includes(comp));
+}
+
+/**
+ * Resolves a prompt against the discovered calendars: checks its arguments,
+ * picks the calendars and builds the URIs of the resources it embeds.
+ * Dates without a zone are days in the given time zone, as in resource URIs.
+ */
+export function buildPromptPlan(
+  name: string,
+  args: Record<string, string | undefined>,
+  discovery: DiscoveryResult,
+  timeZone: string,
+): PromptPlan {
+  const prompt = getPrompt(name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  for (const argument of prompt.arguments) {
+    if (argument.required && !args[argument.name]) {
+      throw new Error(`Missing required argument: ${argument.name}`);
+    }
+  }
+  const zone = resolveTimeZone(timeZone);
+  if (!zone) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  const principal = discovery.principal.replace(/^\/+|\/+$/g, '');
+  // Resources are read from the account the prompt was asked for
+  const selection: Record<string, string> = args.account
+    ? { account: args.account }
+    : {};
+  const agenda = (
+    calendar: CalendarCollection,
+    start: string,
+    end: string,
+  ) => ({
+    uri: buildCalDavUri('components-range', {
+      principal,
+      calendarId: calendar.calendarId,
+      comp: 'VEVENT',
+      start,
+      end,
+      format: 'agenda',
+      ...selection,
+    }),
+    mimeType: 'text/markdown',
+  });
+  const openTasks = (calendar: CalendarCollection) => ({
+    uri: buildCalDavUri('components-query', {
+      principal,
+      calendarId: calendar.calendarId,
+      comp: 'VTODO',
+      jmes: OPEN_TASKS_FILTER,
+      format: 'json',
+      ...selection,
+    }),
+    mimeType: 'application/json',
+  });
+
+  switch (name) {
+    case 'daily_briefing': {
+      const day = parseDay(args.date, zone);
+      const next = addDays(day, 1);
+      return {
+        description: `Briefing for ${day}`,
+        instructions: [
+          `Give me a briefing for ${day} (${timeZone}) from the calendar data below.`,
+          'Walk through the day in order, point out overlapping events, tight transitions and anything that needs preparation.',
+          `Then list the open tasks that are due on or before ${day} and suggest which of them fit into the gaps of the day.`,
+        ].join(' '),
+        resources: [
+          ...selectCalendars(discovery, args.calendarIds, 'VEVENT').map((c) =>
+            agenda(c, day, next),
+          ),
+          ...selectCalendars(discovery, args.calendarIds, 'VTODO').map(
+            openTasks,
+          ),
+        ],
+      };
+    }
+    case 'plan_week': {
+      const start = parseDay(args.start, zone);
+      const end = addDays(start, 7);
+      const events = selectCalendars(discovery, args.calendarIds, 'VEVENT');
+      return {
+        description: `Week plan from ${start}`,
+        instructions: [
+          `Help me plan the week from ${start} to ${addDays(start, 6)} (${timeZone}) using the calendar data below.`,
+          'Summarize the commitments of each day, find the longer blocks of free time, and propose when to work on the open tasks, most urgent and important first.',
+          'Flag days that are overbooked and suggest what could move.',
+        ].join(' '),
+        resources: [
+          ...events.map((c) => agenda(c, start, end)),
+          ...events.map((c) => ({
+            uri: buildCalDavUri('freebusy', {
+              principal,
+              calendarId: c.calendarId,
+              start,
+              end,
+              format: 'json',
+              ...selection,
+            }),
+            mimeType: 'application/json',
+          })),
+          ...selectCalendars(discovery, args.calendarIds, 'VTODO').map(
+            openTasks,
+          ),
+        ],
+      };
+    }
+    case 'triage_tasks': {
+      const today = parseDay(undefined, zone);
+      return {
+        description: 'Open task triage',
+        instructions: [
+          `Triage my open tasks below; today is ${today} (${timeZone}).`,
+          'Group them into overdue, due soon, and no due date.',
+          'Recommend the next three to work on, and name tasks to reprioritize, defer or drop, with a short reason each.',
+          'Propose changes as update_component or complete_task calls, but do not make them without my confirmation.',
+        ].join(' '),
+        resources: selectCalendars(discovery, args.calendarIds, 'VTODO').map(
+          openTasks,
+        ),
+      };
+    }
+    case 'meeting_prep': {
+      const calendar = selectCalendars(discovery, args.calendarId, 'VEVENT')[0];
+      if (!calendar) {
+        throw new Error(`Calendar does not hold events: ${args.calendarId}`);
+      }
+      return {
+        description: `Preparation for meeting ${args.uid}`,
+        instructions: [
+          'Help me prepare for the meeting below.',
+          'Summarize its purpose, time, place and attendees, list what I should prepare or read beforehand, and draft questions for open points in its description.',
+        ].join(' '),
+        resources: [
+          {
+            uri: buildCalDavUri('component-by-uid', {
+              principal,
+              calendarId: calendar.calendarId,
+              uid: args.uid as string,
+              format: 'json',
+              ...selection,
+            }),
+            mimeType: 'application/json',
+          },
+        ],
+      };
+    }
+  }
+  throw new Error(`Unknown prompt: ${name}`);
+}
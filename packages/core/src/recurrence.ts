@@ -0,0 +1,800 @@
+import type { CalendarComponent } from './filters';
+import { parseDuration, parseICalDate, parseICalWallClock } from './ical';
+import {
+  type ComponentSource,
+  attachSource,
+  cloneComponent,
+  sourceOf,
+} from './icalendar';
+import {
+  type TimeZone,
+  resolveTimeZone,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from './timezone';
+
+export type Frequency =
+  | 'SECONDLY'
+  | 'MINUTELY'
+  | 'HOURLY'
+  | 'DAILY'
+  | 'WEEKLY'
+  | 'MONTHLY'
+  | 'YEARLY';
+
+export interface WeekdayRule {
+  /** 0 = Sunday, as in Date#getUTCDay */
+  weekday: number;
+  /** Ordinal within the month or year, e.g. -1 for the last one */
+  n?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  bySecond?: number[];
+  byMinute?: number[];
+  byHour?: number[];
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byYearDay?: number[];
+  byWeekNo?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  /** Week start, 0 = Sunday; defaults to Monday */
+  wkst: number;
+}
+
+const FREQUENCIES: readonly Frequency[] = [
+  'SECONDLY',
+  'MINUTELY',
+  'HOURLY',
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const SECOND = 1000;
+const DAY = 24 * 60 * 60 * SECOND;
+const WEEK = 7 * DAY;
+
+// Stops rules that can never match (e.g. BYMONTHDAY=30;BYMONTH=2) from
+// looping forever
+const MAX_PERIODS = 50000;
+const MAX_INSTANCES = 5000;
+
+function parseNumberList(
+  key: string,
+  value: string,
+  min: number,
+  max: number,
+  allowNegative: boolean,
+): number[] {
+  return value.split(',').map((part) => {
+    const n = Number(part);
+    const valid =
+      Number.isInteger(n) &&
+      Math.abs(n) <= max &&
+      (n >= min || (allowNegative && n < 0));
+    if (!valid) {
+      throw new Error(`Invalid recurrence rule part: ${key}=${value}`);
+    }
+    return n;
+  });
+}
+
+function parseWeekday(key: string, value: string): number {
+  const index = WEEKDAYS.indexOf(value);
+  if (index === -1) {
+    throw new Error(`Invalid recurrence rule part: ${key}=${value}`);
+  }
+  return index;
+}
+
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [key, val = ''] = part.split('=');
+      return [key.toUpperCase(), val.toUpperCase()] as const;
+    }),
+  );
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported recurrence frequency: ${freq ?? 'none'}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Number.parseInt(parts.get('INTERVAL') ?? '1', 10) || 1,
+    wkst: 1,
+  };
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+      case 'INTERVAL':
+        break;
+      case 'COUNT':
+        rule.count = Number.parseInt(val, 10);
+        break;
+      case 'UNTIL':
+        rule.until = parseICalDate(val);
+        break;
+      case 'WKST':
+        rule.wkst = parseWeekday(key, val);
+        break;
+      case 'BYSECOND':
+        rule.bySecond = parseNumberList(key, val, 0, 60, false);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseNumberList(key, val, 0, 59, false);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseNumberList(key, val, 0, 23, false);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseNumberList(key, val, 1, 31, true);
+        break;
+      case 'BYYEARDAY':
+        rule.byYearDay = parseNumberList(key, val, 1, 366, true);
+        break;
+      case 'BYWEEKNO':
+        rule.byWeekNo = parseNumberList(key, val, 1, 53, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseNumberList(key, val, 1, 12, false);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseNumberList(key, val, 1, 366, true);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map((entry) => {
+          const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(entry);
+          if (!match) {
+            throw new Error(`Invalid recurrence rule part: ${key}=${val}`);
+          }
+          const weekday = parseWeekday(key, match[2]);
+          return match[1]
+            ? { weekday, n: Number.parseInt(match[1], 10) }
+            : { weekday };
+        });
+        break;
+      default:
+        if (!key.startsWith('X-')) {
+          throw new Error(`Unsupported recurrence rule part: ${key}`);
+        }
+    }
+  }
+
+  return rule;
+}
+
+function weekOneStart(year: number, wkst: number): number {
+  const jan1 = Date.UTC(year, 0, 1);
+  const offset = (new Date(jan1).getUTCDay() - wkst + 7) % 7;
+  // Week 1 is the first week with at least four days in the year
+  return offset <= 3 ? jan1 - offset * DAY : jan1 + (7 - offset) * DAY;
+}
+
+function weekNumber(
+  day: number,
+  wkst: number,
+): { week: number; weeks: number } {
+  let year = new Date(day).getUTCFullYear();
+  let start = weekOneStart(year, wkst);
+  if (day < start) {
+    year--;
+    start = weekOneStart(year, wkst);
+  } else if (day >= weekOneStart(year + 1, wkst)) {
+    year++;
+    start = weekOneStart(year, wkst);
+  }
+  return {
+    week: Math.floor((day - start) / WEEK) + 1,
+    weeks: (weekOneStart(year + 1, wkst) - start) / WEEK,
+  };
+}
+
+function matchesOrdinal(values: number[], value: number, length: number) {
+  return values.some((n) => (n > 0 ? n === value : length + n + 1 === value));
+}
+
+function matchesWeekday(
+  entry: WeekdayRule,
+  day: number,
+  rule: RecurrenceRule,
+): boolean {
+  const date = new Date(day);
+  if (date.getUTCDay() !== entry.weekday) return false;
+  if (entry.n === undefined) return true;
+  if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') return true;
+
+  // Ordinals count within the month for MONTHLY (and YEARLY with BYMONTH),
+  // otherwise within the year
+  const year = date.getUTCFullYear();
+  const inMonth = rule.freq === 'MONTHLY' || rule.byMonth !== undefined;
+  const scopeStart = inMonth
+    ? Date.UTC(year, date.getUTCMonth(), 1)
+    : Date.UTC(year, 0, 1);
+  const scopeEnd = inMonth
+    ? Date.UTC(year, date.getUTCMonth() + 1, 1)
+    : Date.UTC(year + 1, 0, 1);
+
+  return entry.n > 0
+    ? Math.floor((day - scopeStart) / WEEK) + 1 === entry.n
+    : Math.floor((scopeEnd - DAY - day) / WEEK) + 1 === -entry.n;
+}
+
+function matchesDay(day: number, rule: RecurrenceRule): boolean {
+  const date = new Date(day);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (rule.byMonth && !rule.byMonth.includes(month + 1)) return false;
+  if (rule.byWeekNo) {
+    const { week, weeks } = weekNumber(day, rule.wkst);
+    if (!matchesOrdinal(rule.byWeekNo, week, weeks)) return false;
+  }
+  if (rule.byYearDay) {
+    const yearStart = Date.UTC(year, 0, 1);
+    const length = (Date.UTC(year + 1, 0, 1) - yearStart) / DAY;
+    const yearDay = (day - yearStart) / DAY + 1;
+    if (!matchesOrdinal(rule.byYearDay, yearDay, length)) return false;
+  }
+  if (rule.byMonthDay) {
+    const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    if (!matchesOrdinal(rule.byMonthDay, date.getUTCDate(), length)) {
+      return false;
+    }
+  }
+  if (rule.byDay && !rule.byDay.some((e) => matchesWeekday(e, day, rule))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Fills in the BYxxx parts that RFC 5545 derives from DTSTART when a rule
+ * leaves them out, e.g. FREQ=MONTHLY repeats on the DTSTART day of month.
+ */
+function withDefaults(rule: RecurrenceRule, dtstart: Date): RecurrenceRule {
+  const expanded = { ...rule };
+  const rank = FREQUENCIES.indexOf(rule.freq);
+
+  if (!rule.byWeekNo && !rule.byYearDay && !rule.byMonthDay && !rule.byDay) {
+    if (rule.freq === 'YEARLY') {
+      expanded.byMonth ??= [dtstart.getUTCMonth() + 1];
+      expanded.byMonthDay = [dtstart.getUTCDate()];
+    } else if (rule.freq === 'MONTHLY') {
+      expanded.byMonthDay = [dtstart.getUTCDate()];
+    } else if (rule.freq === 'WEEKLY') {
+      expanded.byDay = [{ weekday: dtstart.getUTCDay() }];
+    }
+  }
+  if (rank > FREQUENCIES.indexOf('HOURLY')) {
+    expanded.byHour ??= [dtstart.getUTCHours()];
+  }
+  if (rank > FREQUENCIES.indexOf('MINUTELY')) {
+    expanded.byMinute ??= [dtstart.getUTCMinutes()];
+  }
+  if (rank > FREQUENCIES.indexOf('SECONDLY')) {
+    expanded.bySecond ??= [dtstart.getUTCSeconds()];
+  }
+  return expanded;
+}
+
+function periodDays(rule: RecurrenceRule, dtstart: Date, index: number) {
+  const year = dtstart.getUTCFullYear();
+  const month = dtstart.getUTCMonth();
+  const startDay = Date.UTC(year, month, dtstart.getUTCDate());
+  const step = index * rule.interval;
+
+  let from: number;
+  let to: number;
+  switch (rule.freq) {
+    case 'YEARLY':
+      from = Date.UTC(year + step, 0, 1);
+      to = Date.UTC(year + step + 1, 0, 1);
+      break;
+    case 'MONTHLY':
+      from = Date.UTC(year, month + step, 1);
+      to = Date.UTC(year, month + step + 1, 1);
+      break;
+    case 'WEEKLY':
+      from =
+        startDay -
+        ((dtstart.getUTCDay() - rule.wkst + 7) % 7) * DAY +
+        step * WEEK;
+      to = from + WEEK;
+      break;
+    default:
+      from = startDay + step * DAY;
+      to = from + DAY;
+  }
+
+  const days: number[] = [];
+  for (let day = from; day < to; day += DAY) days.push(day);
+  return days;
+}
+
+function product(hours: number[], minutes: number[], seconds: number[]) {
+  const times: number[] = [];
+  for (const h of hours) {
+    for (const m of minutes) {
+      for (const s of seconds) times.push((h * 3600 + m * 60 + s) * SECOND);
+    }
+  }
+  return times.sort((a, b) => a - b);
+}
+
+/**
+ * Returns the first instant of one FREQ period and its sorted candidate
+ * instants, after applying every BYxxx part including BYSETPOS.
+ */
+function periodCandidates(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  index: number,
+): { start: number; candidates: number[] } {
+  let days: number[];
+  let times: number[];
+
+  if (
+    rule.freq === 'HOURLY' ||
+    rule.freq === 'MINUTELY' ||
+    rule.freq === 'SECONDLY'
+  ) {
+    const unit = { HOURLY: 3600, MINUTELY: 60, SECONDLY: 1 }[rule.freq];
+    const instant = dtstart.getTime() + index * rule.interval * unit * SECOND;
+    const date = new Date(instant);
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+    const second = date.getUTCSeconds();
+    const period = { start: instant, candidates: [] };
+    days = [instant - (instant % DAY)];
+
+    if (rule.byHour && !rule.byHour.includes(hour)) return period;
+    if (
+      rule.freq !== 'HOURLY' &&
+      rule.byMinute &&
+      !rule.byMinute.includes(minute)
+    ) {
+      return period;
+    }
+    if (
+      rule.freq === 'SECONDLY' &&
+      rule.bySecond &&
+      !rule.bySecond.includes(second)
+    ) {
+      return period;
+    }
+    times = product(
+      [hour],
+      rule.freq === 'HOURLY' ? (rule.byMinute ?? [minute]) : [minute],
+      rule.freq === 'SECONDLY' ? [second] : (rule.bySecond ?? [second]),
+    );
+  } else {
+    days = periodDays(rule, dtstart, index);
+    times = product(
+      rule.byHour ?? [0],
+      rule.byMinute ?? [0],
+      rule.bySecond ?? [0],
+    );
+  }
+
+  const candidates: number[] = [];
+  for (const day of days) {
+    if (!matchesDay(day, rule)) continue;
+    for (const time of times) candidates.push(day + time);
+  }
+
+  if (!rule.bySetPos) return { start: days[0], candidates };
+  const length = candidates.length;
+  return {
+    start: days[0],
+    candidates: [
+      ...new Set(
+        rule.bySetPos
+          .map((pos) => candidates[pos > 0 ? pos - 1 : length + pos])
+          .filter((value) => value !== undefined),
+      ),
+    ].sort((a, b) => a - b),
+  };
+}
+
+const LAST_INSTANT = Date.UTC(9999, 11, 31, 23, 59, 59);
+
+/**
+ * Yields the instances of a rule in order, starting with DTSTART, which
+ * RFC 5545 counts as the first instance even when it does not match the
+ * rule. Date/times are handled as wall-clock values in their UTC fields.
+ * Iteration ends before the first period starting at or after `to`.
+ */
+function* occurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  to = LAST_INSTANT,
+): Generator<Date> {
+  const expanded = withDefaults(rule, dtstart);
+  const until = Math.min(rule.until?.getTime() ?? LAST_INSTANT, LAST_INSTANT);
+  let remaining = rule.count ?? Number.POSITIVE_INFINITY;
+
+  if (remaining <= 0 || dtstart.getTime() > until) return;
+  remaining--;
+  yield dtstart;
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    const period = periodCandidates(expanded, dtstart, index);
+    if (period.start > until || period.start >= to) return;
+
+    for (const candidate of period.candidates) {
+      if (candidate <= dtstart.getTime()) continue;
+      if (candidate > until || remaining <= 0) return;
+      remaining--;
+      yield new Date(candidate);
+    }
+  }
+}
+
+/**
+ * Returns the occurrence that follows `current` in a series starting at
+ * `dtstart`, or null once COUNT or UNTIL is exhausted. Occurrences that do
+ * not exist (e.g. the 31st in a 30-day month) are skipped as RFC 5545
+ * requires.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  current: Date,
+): Date | null {
+  for (const occurrence of occurrences(rule, dtstart)) {
+    if (occurrence > current) return occurrence;
+  }
+  return null;
+}
+
+/**
+ * Returns the instance start times of a rule that fall in [from, to).
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  from: Date,
+  to: Date,
+): Date[] {
+  const instances: Date[] = [];
+  for (const occurrence of occurrences(rule, dtstart, to.getTime())) {
+    if (occurrence >= to) break;
+    if (occurrence < from) continue;
+    if (instances.length >= MAX_INSTANCES) {
+      throw new Error(
+        `Recurrence expands to more than ${MAX_INSTANCES} instances; narrow the time range`,
+      );
+    }
+    instances.push(occurrence);
+  }
+  return instances;
+}
+
+export function isRecurring(component: CalendarComponent): boolean {
+  return (
+    !component['recurrence-id'] &&
+    (typeof component.rrule === 'string' || typeof component.rdate === 'string')
+  );
+}
+
+function stripTzid(value: string): string {
+  return value.replace(/\s*\([^)]+\)\s*$/, '');
+}
+
+function isDateValue(value: string): boolean {
+  return /^\d{8}$/.test(stripTzid(value));
+}
+
+function splitDateList(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  // Each value carries its own TZID annotation, see parseICalendarData
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Formats an instance time the same way as the master's value, keeping
+ * date-only values, floating times and TZID annotations intact.
+ */
+function formatLike(wallClock: Date, original: string): string {
+  const tzid = /\s*\(([^)]+)\)\s*$/.exec(original);
+  const value = stripTzid(original);
+  const iso = wallClock.toISOString();
+  const formatted = isDateValue(value)
+    ? iso.slice(0, 10).replace(/-/g, '')
+    : `${iso.slice(0, 19).replace(/[-:]/g, '')}${value.endsWith('Z') ? 'Z' : ''}`;
+  return tzid ? `${formatted} (${tzid[1]})` : formatted;
+}
+
+interface ComponentSpan {
+  /** Wall-clock start, in the UTC fields */
+  local: Date;
+  start: Date;
+  duration: number;
+  zone: TimeZone | null;
+}
+
+function componentSpan(component: CalendarComponent): ComponentSpan | null {
+  if (!component.dtstart) return null;
+  const start = parseICalDate(component.dtstart);
+  const endValue = component.dtend ?? component.due;
+  let duration = 0;
+  if (typeof endValue === 'string') {
+    duration = parseICalDate(endValue).getTime() - start.getTime();
+  } else if (typeof component.duration === 'string') {
+    duration = parseDuration(component.duration);
+  } else if (isDateValue(component.dtstart)) {
+    duration = DAY;
+  }
+  const tzid = /\(([^)]+)\)\s*$/.exec(component.dtstart);
+  return {
+    local: parseICalWallClock(component.dtstart),
+    start,
+    duration,
+    zone: tzid ? resolveTimeZone(tzid[1]) : null,
+  };
+}
+
+function overlaps(start: Date, duration: number, from: Date, to: Date) {
+  // RFC 4791 time-range semantics; zero-length instances count at their start
+  return duration > 0
+    ? start < to && start.getTime() + duration > from.getTime()
+    : start >= from && start < to;
+}
+
+const RECURRENCE_PROPERTIES = new Set([
+  'RRULE',
+  'RDATE',
+  'EXDATE',
+  'RECURRENCE-ID',
+]);
+const DATE_PROPERTIES = new Set(['DTSTART', 'DTEND', 'DUE']);
+
+interface Instance {
+  local: Date;
+  start: Date;
+}
+
+// Widest UTC offset in use, so wall-clock bounds cover every zone
+const MAX_OFFSET = 14 * 60 * 60 * SECOND;
+
+function* instances(
+  component: CalendarComponent,
+  from: Date,
+  to: Date,
+): Generator<Instance> {
+  const span = componentSpan(component);
+  if (!span) return;
+
+  // Rules repeat in wall-clock time; each instance is then converted to
+  // the instant it denotes in the zone of DTSTART
+  const toInstant = (local: Date) =>
+    span.zone ? zonedTimeToUtc(local, span.zone) : local;
+
+  // Date-only EXDATEs exclude every instance on that day
+  const excludedTimes = new Set<number>();
+  const excludedDays = new Set<string>();
+  for (const value of splitDateList(component.exdate)) {
+    if (isDateValue(value)) excludedDays.add(stripTzid(value));
+    else excludedTimes.add(parseICalDate(value).getTime());
+  }
+
+  let locals: Iterable<Date> = [span.local];
+  if (typeof component.rrule === 'string') {
+    const rule = parseRecurrenceRule(component.rrule);
+    if (rule.until && span.zone && !isDateValue(component.dtstart as string)) {
+      // UNTIL is in UTC when DTSTART has a time zone
+      rule.until = utcToZonedTime(rule.until, span.zone);
+    }
+    locals = occurrences(rule, span.local, to.getTime() + MAX_OFFSET);
+  }
+  const starts = (function* () {
+    for (const local of locals) yield { local, start: toInstant(local) };
+  })();
+
+  // RDATE may hold PERIOD values; only their start matters here. A value
+  // in UTC or with its own TZID is taken in that zone, then seen on the
+  // wall clock of DTSTART like the rule's instances
+  const rdates = splitDateList(component.rdate).map((value): Instance => {
+    const tzid = /\s*\([^)]+\)\s*$/.exec(value)?.[0] ?? '';
+    const first = stripTzid(value).split('/')[0];
+    if (!tzid && !first.endsWith('Z')) {
+      const local = parseICalWallClock(first);
+      return { local, start: toInstant(local) };
+    }
+    const start = parseICalDate(`${first}${tzid}`);
+    return {
+      local: span.zone ? utcToZonedTime(start, span.zone) : start,
+      start,
+    };
+  });
+
+  const seen = new Set<number>();
+  for (const iterable of [starts, rdates]) {
+    for (const { local, start } of iterable) {
+      if (start >= to && iterable === starts) break;
+      if (seen.has(start.getTime())) continue;
+      seen.add(start.getTime());
+
+      const day = local.toISOString().slice(0, 10).replace(/-/g, '');
+      if (excludedTimes.has(start.getTime()) || excludedDays.has(day)) {
+        continue;
+      }
+      if (overlaps(start, span.duration, from, to)) yield { local, start };
+    }
+  }
+}
+
+function collectInstances(
+  component: CalendarComponent,
+  from: Date,
+  to: Date,
+): Instance[] {
+  const collected: Instance[] = [];
+  for (const instance of instances(component, from, to)) {
+    if (collected.length >= MAX_INSTANCES) {
+      throw new Error(
+        `Recurrence expands to more than ${MAX_INSTANCES} instances; narrow the time range`,
+      );
+    }
+    collected.push(instance);
+  }
+  return collected.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Returns the start times of every instance of a recurring component
+ * (RRULE plus RDATE, minus EXDATE) that overlaps [from, to).
+ */
+export function instanceStarts(
+  component: CalendarComponent,
+  from: Date,
+  to: Date,
+): Date[] {
+  return collectInstances(component, from, to).map(({ start }) => start);
+}
+
+export function occursInRange(
+  component: CalendarComponent,
+  from: Date,
+  to: Date,
+): boolean {
+  return !instances(component, from, to).next().done;
+}
+
+// Rewrites the master's source tree into the instance, so the instance is
+// serialized with the master's parameters, alarms and other properties
+function instanceSource(
+  source: ComponentSource,
+  instance: CalendarComponent,
+): ComponentSource {
+  const component = cloneComponent(source.component);
+  component.properties = component.properties.filter(
+    (p) => !RECURRENCE_PROPERTIES.has(p.name.toUpperCase()),
+  );
+  for (const property of component.properties) {
+    const value = instance[property.name.toLowerCase()];
+    if (DATE_PROPERTIES.has(property.name.toUpperCase()) && value) {
+      property.value = stripTzid(String(value));
+    }
+  }
+
+  const dtstart = component.properties.findIndex(
+    (p) => p.name.toUpperCase() === 'DTSTART',
+  );
+  if (dtstart !== -1) {
+    const { params, value } = component.properties[dtstart];
+    component.properties.splice(dtstart + 1, 0, {
+      name: 'RECURRENCE-ID',
+      params: params.map((param) => ({ ...param })),
+      value,
+    });
+  }
+  return { component, calendar: source.calendar };
+}
+
+function instantiate(
+  master: CalendarComponent,
+  instance: Instance,
+  masterLocal: Date,
+): CalendarComponent {
+  const { rrule, rdate, exdate, ...copy } = master;
+  const shift = instance.local.getTime() - masterLocal.getTime();
+  const dtstart = master.dtstart as string;
+
+  copy.dtstart = formatLike(instance.local, dtstart);
+  copy['recurrence-id'] = formatLike(instance.local, dtstart);
+  // End and due keep their wall-clock distance from the start
+  for (const key of ['dtend', 'due']) {
+    const value = master[key];
+    if (typeof value === 'string') {
+      copy[key] = formatLike(
+        new Date(parseICalWallClock(value).getTime() + shift),
+        value,
+      );
+    }
+  }
+
+  const source = sourceOf(master);
+  if (source) attachSource(copy, instanceSource(source, copy));
+  return copy;
+}
+
+/**
+ * Replaces recurring components by their concrete instances in [start, end),
+ * applying RECURRENCE-ID overrides. Non-recurring components are kept when
+ * they overlap the range, or as they are when they have no DTSTART.
+ */
+export function expandComponents(
+  components: CalendarComponent[],
+  start: Date,
+  end: Date,
+): CalendarComponent[] {
+  const overrides = new Map<string, CalendarComponent[]>();
+  for (const component of components) {
+    if (!component['recurrence-id']) continue;
+    const list = overrides.get(component.uid) ?? [];
+    list.push(component);
+    overrides.set(component.uid, list);
+  }
+
+  const inRange = (component: CalendarComponent) => {
+    const span = componentSpan(component);
+    return span !== null && overlaps(span.start, span.duration, start, end);
+  };
+
+  const expanded: CalendarComponent[] = [];
+  for (const component of components) {
+    if (component['recurrence-id']) continue;
+    if (!isRecurring(component)) {
+      // Undated tasks and journals have nothing to expand or place
+      if (!component.dtstart || inRange(component)) expanded.push(component);
+      continue;
+    }
+
+    const exceptions = overrides.get(component.uid) ?? [];
+    overrides.delete(component.uid);
+    const replaced = new Set(
+      exceptions.map((e) =>
+        parseICalDate(e['recurrence-id'] as string).getTime(),
+      ),
+    );
+    const masterLocal = parseICalWallClock(component.dtstart as string);
+
+    for (const instance of collectInstances(component, start, end)) {
+      if (replaced.has(instance.start.getTime())) continue;
+      expanded.push(instantiate(component, instance, masterLocal));
+    }
+    // Overrides may move an instance into or out of the range
+    expanded.push(...exceptions.filter(inRange));
+  }
+
+  // Servers that expand themselves return instances without their master
+  for (const exceptions of overrides.values()) {
+    expanded.push(...exceptions.filter(inRange));
+  }
+
+  // Components without a start go last
+  const startOf = (component: CalendarComponent) =>
+    component.dtstart
+      ? parseICalDate(component.dtstart).getTime()
+      : Number.POSITIVE_INFINITY;
+  return expanded.sort((a, b) => {
+    const [first, second] = [startOf(a), startOf(b)];
+    return first === second ? 0 : first - second;
+  });
+}
@@ -1,15 +1,78 @@
-import { formatCalDavDateTime } from './ical';
+import { DAVNamespaceShort } from 'tsdav';
+import { formatCalDavDateTime, toICalDateTime } from './ical';
 import type { ComponentType } from './types';
 
+export interface TimeRange {
+  start?: string;
+  end?: string;
+}
+
+/** A case-insensitive substring match on a text property */
+export interface TextFilter {
+  property: string;
+  value: string;
+  /** Match components whose property does not contain the value */
+  negate?: boolean;
+  /** Match this parameter of the property instead, e.g. PARTSTAT of ATTENDEE */
+  parameter?: string;
+}
+
 export interface CalendarQueryOptions {
   componentType?: ComponentType;
-  timeRange?: {
-    start?: string;
-    end?: string;
-  };
+  timeRange?: TimeRange;
   categoryFilter?: string;
   uid?: string;
+  status?: string;
+  textFilters?: TextFilter[];
+  /** Properties the components must not have, e.g. DUE for undated tasks */
+  undefinedProperties?: string[];
+  dueRange?: TimeRange;
+  completedRange?: TimeRange;
   jmesFilter?: string;
+  /** Ask the server to expand recurring components within timeRange */
+  expand?: boolean;
+}
+
+/** The filtering part of the query options */
+export type QueryFilters = Omit<
+  CalendarQueryOptions,
+  'componentType' | 'expand'
+>;
+
+// RFC 4791 section 9.7; text matches are substring matches
+export interface TextMatch {
+  value: string;
+  collation?: 'i;ascii-casemap' | 'i;octet';
+  negate?: boolean;
+}
+
+export interface ParamFilter {
+  name: string;
+  isNotDefined?: boolean;
+  textMatch?: TextMatch;
+}
+
+export interface PropFilter {
+  name: string;
+  isNotDefined?: boolean;
+  timeRange?: TimeRange;
+  textMatch?: TextMatch;
+  paramFilters?: ParamFilter[];
+}
+
+export interface CompFilter {
+  name: string;
+  isNotDefined?: boolean;
+  timeRange?: TimeRange;
+  propFilters?: PropFilter[];
+  compFilters?: CompFilter[];
+}
+
+export interface QueryTranslation {
+  /** The filter element of the REPORT */
+  filter: CompFilter;
+  /** Filters the server cannot evaluate, to apply to what it returns */
+  clientSide: QueryFilters;
 }
 
 function escapeXml(text: string): string {
@@ -21,94 +84,250 @@ function escapeXml(text: string): string {
     .replace(/'/g, '&#39;');
 }
 
-export function buildCalendarQuery(options: CalendarQueryOptions): string {
-  const { componentType, timeRange, categoryFilter, uid, jmesFilter } = options;
+function hasTimeRange(range?: TimeRange): range is TimeRange {
+  return Boolean(range?.start || range?.end);
+}
 
-  // Start building the REPORT XML
-  const xmlParts = [
-    '<?xml version="1.0" encoding="utf-8"?>',
-    '<C:calendar-query xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:D="DAV:">',
-    '  <D:prop>',
-    '    <D:getetag/>',
-    '    <C:calendar-data/>',
-    '  </D:prop>',
-  ];
+/**
+ * Translates query options into a CalDAV filter. Everything that can be
+ * expressed goes to the server; the rest is returned as client-side filters.
+ */
+export function translateQueryOptions(
+  options: CalendarQueryOptions,
+): QueryTranslation {
+  const { componentType, expand, ...filters } = options;
+  const calendar: CompFilter = { name: 'VCALENDAR' };
+
+  if (!componentType) {
+    // VCALENDAR has no dates and none of the filtered properties, and
+    // sibling comp-filters must all match, so nothing more can be sent
+    return { filter: calendar, clientSide: filters };
+  }
 
-  // Add filter section if needed
-  if (componentType || timeRange || categoryFilter || uid || jmesFilter) {
-    xmlParts.push('  <C:filter>');
-
-    if (componentType) {
-      xmlParts.push(`    <C:comp-filter name="VCALENDAR">`);
-      xmlParts.push(`      <C:comp-filter name="${componentType}">`);
-
-      // Add time range filter for the component
-      if (timeRange?.start || timeRange?.end) {
-        const startAttr = timeRange.start
-          ? ` start="${formatCalDavDateTime(timeRange.start)}"`
-          : '';
-        const endAttr = timeRange.end
-          ? ` end="${formatCalDavDateTime(timeRange.end)}"`
-          : '';
-        xmlParts.push(`        <C:time-range${startAttr}${endAttr}/>`);
-      }
+  const clientSide: QueryFilters = {};
+  // Expressions have no CalDAV equivalent
+  if (filters.jmesFilter) clientSide.jmesFilter = filters.jmesFilter;
+
+  const propFilters: PropFilter[] = [];
+  const text = (name: string, value: string, negate?: boolean) =>
+    propFilters.push({
+      name,
+      textMatch: { value, collation: 'i;ascii-casemap', negate },
+    });
+
+  if (filters.categoryFilter) text('CATEGORIES', filters.categoryFilter);
+  if (filters.uid) {
+    text('UID', filters.uid);
+    // The server matches substrings; only the exact UID is wanted
+    clientSide.uid = filters.uid;
+  }
+  if (filters.status) text('STATUS', filters.status.toUpperCase());
+  for (const filter of filters.textFilters ?? []) {
+    if (filter.parameter) {
+      propFilters.push({
+        name: filter.property.toUpperCase(),
+        paramFilters: [
+          {
+            name: filter.parameter.toUpperCase(),
+            textMatch: {
+              value: filter.value,
+              collation: 'i;ascii-casemap',
+              negate: filter.negate,
+            },
+          },
+        ],
+      });
+    } else {
+      text(filter.property.toUpperCase(), filter.value, filter.negate);
+    }
+  }
+  for (const name of filters.undefinedProperties ?? []) {
+    propFilters.push({ name: name.toUpperCase(), isNotDefined: true });
+  }
+  if (hasTimeRange(filters.dueRange)) {
+    propFilters.push({ name: 'DUE', timeRange: filters.dueRange });
+  }
+  if (hasTimeRange(filters.completedRange)) {
+    propFilters.push({ name: 'COMPLETED', timeRange: filters.completedRange });
+  }
 
-      // Add category filter
-      if (categoryFilter) {
-        xmlParts.push(`        <C:prop-filter name="CATEGORIES">`);
-        xmlParts.push(
-          `          <C:text-match collation="i;ascii-casemap">${escapeXml(categoryFilter)}</C:text-match>`,
-        );
-        xmlParts.push('        </C:prop-filter>');
-      }
+  const component: CompFilter = { name: componentType };
+  if (hasTimeRange(filters.timeRange)) component.timeRange = filters.timeRange;
+  if (propFilters.length > 0) component.propFilters = propFilters;
+  calendar.compFilters = [component];
 
-      // Add UID filter for single component lookup
-      if (uid) {
-        xmlParts.push(`        <C:prop-filter name="UID">`);
-        xmlParts.push(
-          `          <C:text-match collation="i;ascii-casemap">${escapeXml(uid)}</C:text-match>`,
-        );
-        xmlParts.push('        </C:prop-filter>');
-      }
+  return { filter: calendar, clientSide };
+}
 
-      // Note: JMES filter would need custom server-side processing
-      // For now, we'll retrieve all components and filter client-side
-      if (jmesFilter) {
-        // This is a placeholder - actual JMES filtering would happen post-retrieval
-        xmlParts.push(`        <!-- JMES filter: ${escapeXml(jmesFilter)} -->`);
-      }
+function timeRangeXml(range: TimeRange, indent: string): string {
+  const startAttr = range.start
+    ? ` start="${formatCalDavDateTime(range.start)}"`
+    : '';
+  const endAttr = range.end ? ` end="${formatCalDavDateTime(range.end)}"` : '';
+  return `${indent}<C:time-range${startAttr}${endAttr}/>`;
+}
 
-      xmlParts.push('      </C:comp-filter>');
-      xmlParts.push('    </C:comp-filter>');
-    } else {
-      // Default filter for all calendar components
-      xmlParts.push(`    <C:comp-filter name="VCALENDAR">`);
-
-      if (timeRange?.start || timeRange?.end) {
-        const startAttr = timeRange.start
-          ? ` start="${formatCalDavDateTime(timeRange.start)}"`
-          : '';
-        const endAttr = timeRange.end
-          ? ` end="${formatCalDavDateTime(timeRange.end)}"`
-          : '';
-        xmlParts.push(`      <C:time-range${startAttr}${endAttr}/>`);
-      }
+function textMatchXml(match: TextMatch, indent: string): string {
+  const negate = match.negate ? ' negate-condition="yes"' : '';
+  return `${indent}<C:text-match collation="${match.collation ?? 'i;ascii-casemap'}"${negate}>${escapeXml(match.value)}</C:text-match>`;
+}
 
-      xmlParts.push('    </C:comp-filter>');
+function paramFilterXml(filter: ParamFilter, indent: string): string[] {
+  const xmlParts = [`${indent}<C:param-filter name="${filter.name}">`];
+  if (filter.isNotDefined) xmlParts.push(`${indent}  <C:is-not-defined/>`);
+  else if (filter.textMatch) {
+    xmlParts.push(textMatchXml(filter.textMatch, `${indent}  `));
+  }
+  xmlParts.push(`${indent}</C:param-filter>`);
+  return xmlParts;
+}
+
+function propFilterXml(filter: PropFilter, indent: string): string[] {
+  const inner = `${indent}  `;
+  const xmlParts = [`${indent}<C:prop-filter name="${filter.name}">`];
+  if (filter.isNotDefined) xmlParts.push(`${inner}<C:is-not-defined/>`);
+  else {
+    if (filter.timeRange) xmlParts.push(timeRangeXml(filter.timeRange, inner));
+    if (filter.textMatch) xmlParts.push(textMatchXml(filter.textMatch, inner));
+    for (const param of filter.paramFilters ?? []) {
+      xmlParts.push(...paramFilterXml(param, inner));
     }
+  }
+  xmlParts.push(`${indent}</C:prop-filter>`);
+  return xmlParts;
+}
+
+function compFilterXml(filter: CompFilter, indent: string): string[] {
+  const inner = `${indent}  `;
+  const xmlParts = [`${indent}<C:comp-filter name="${filter.name}">`];
+  if (filter.isNotDefined) xmlParts.push(`${inner}<C:is-not-defined/>`);
+  else {
+    if (filter.timeRange) xmlParts.push(timeRangeXml(filter.timeRange, inner));
+    for (const prop of filter.propFilters ?? []) {
+      xmlParts.push(...propFilterXml(prop, inner));
+    }
+    for (const comp of filter.compFilters ?? []) {
+      xmlParts.push(...compFilterXml(comp, inner));
+    }
+  }
+  xmlParts.push(`${indent}</C:comp-filter>`);
+  return xmlParts;
+}
+
+const C = DAVNamespaceShort.CALDAV;
+
+type CompactElement = Record<string, unknown>;
+
+function compactTimeRange(range: TimeRange): CompactElement {
+  const attributes: Record<string, string> = {};
+  if (range.start) attributes.start = toICalDateTime(range.start);
+  if (range.end) attributes.end = toICalDateTime(range.end);
+  return { _attributes: attributes };
+}
+
+function compactTextMatch(match: TextMatch): CompactElement {
+  const attributes: Record<string, string> = {
+    collation: match.collation ?? 'i;ascii-casemap',
+  };
+  if (match.negate) attributes['negate-condition'] = 'yes';
+  return { _attributes: attributes, _text: match.value };
+}
+
+function compactParamFilter(filter: ParamFilter): CompactElement {
+  const element: CompactElement = { _attributes: { name: filter.name } };
+  if (filter.isNotDefined) element[`${C}:is-not-defined`] = {};
+  else if (filter.textMatch) {
+    element[`${C}:text-match`] = compactTextMatch(filter.textMatch);
+  }
+  return element;
+}
+
+function compactPropFilter(filter: PropFilter): CompactElement {
+  const element: CompactElement = { _attributes: { name: filter.name } };
+  if (filter.isNotDefined) {
+    element[`${C}:is-not-defined`] = {};
+    return element;
+  }
+  if (filter.timeRange) {
+    element[`${C}:time-range`] = compactTimeRange(filter.timeRange);
+  }
+  if (filter.textMatch) {
+    element[`${C}:text-match`] = compactTextMatch(filter.textMatch);
+  }
+  if (filter.paramFilters?.length) {
+    element[`${C}:param-filter`] = filter.paramFilters.map(compactParamFilter);
+  }
+  return element;
+}
 
-    xmlParts.push('  </C:filter>');
+function compactCompFilter(filter: CompFilter): CompactElement {
+  const element: CompactElement = { _attributes: { name: filter.name } };
+  if (filter.isNotDefined) {
+    element[`${C}:is-not-defined`] = {};
+    return element;
   }
+  if (filter.timeRange) {
+    element[`${C}:time-range`] = compactTimeRange(filter.timeRange);
+  }
+  if (filter.propFilters?.length) {
+    element[`${C}:prop-filter`] = filter.propFilters.map(compactPropFilter);
+  }
+  if (filter.compFilters?.length) {
+    element[`${C}:comp-filter`] = filter.compFilters.map(compactCompFilter);
+  }
+  return element;
+}
 
-  xmlParts.push('</C:calendar-query>');
+/** The filter in the compact XML form tsdav's calendarQuery expects. */
+export function buildDavFilter(filter: CompFilter): CompactElement {
+  return { [`${C}:comp-filter`]: compactCompFilter(filter) };
+}
+
+export function buildCalendarQuery(options: CalendarQueryOptions): string {
+  const { timeRange } = options;
+
+  // Start building the REPORT XML
+  const xmlParts = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<C:calendar-query xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:D="DAV:">',
+    '  <D:prop>',
+    '    <D:getetag/>',
+  ];
+
+  // Expansion needs both ends of the range (RFC 4791, section 9.6.5)
+  if (options.expand && timeRange?.start && timeRange.end) {
+    xmlParts.push(
+      '    <C:calendar-data>',
+      `      <C:expand start="${formatCalDavDateTime(timeRange.start)}" end="${formatCalDavDateTime(timeRange.end)}"/>`,
+      '    </C:calendar-data>',
+    );
+  } else {
+    xmlParts.push('    <C:calendar-data/>');
+  }
+  xmlParts.push(
+    '  </D:prop>',
+    '  <C:filter>',
+    ...compFilterXml(translateQueryOptions(options).filter, '    '),
+    '  </C:filter>',
+    '</C:calendar-query>',
+  );
 
   return xmlParts.join('\n');
 }
 
+export function buildFreeBusyQuery(start: string, end: string): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<C:free-busy-query xmlns:C="urn:ietf:params:xml:ns:caldav">',
+    `  <C:time-range start="${toICalDateTime(start)}" end="${toICalDateTime(end)}"/>`,
+    '</C:free-busy-query>',
+  ].join('\n');
+}
+
 export function buildPropFind(props: string[], depth = '0'): string {
   const xmlParts = [
     '<?xml version="1.0" encoding="utf-8"?>',
-    `<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">`,
+    `<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:CS="http://calendarserver.org/ns/">`,
     '  <D:prop>',
   ];
 
@@ -117,6 +336,8 @@ export function buildPropFind(props: string[], depth = '0'): string {
       const [namespace, name] = prop.split(':');
       if (namespace === 'caldav' || namespace === 'C') {
         xmlParts.push(`    <C:${name}/>`);
+      } else if (namespace === 'calendarserver' || namespace === 'CS') {
+        xmlParts.push(`    <CS:${name}/>`);
       } else {
         xmlParts.push(`    <D:${name}/>`);
       }
@@ -131,6 +352,81 @@ export function buildPropFind(props: string[], depth = '0'): string {
   return xmlParts.join('\n');
 }
 
+export interface CalendarCollectionProps {
+  displayName?: string;
+  color?: string;
+  description?: string;
+  componentSet?: ComponentType[];
+}
+
+function buildCollectionProps(
+  props: CalendarCollectionProps,
+  indent: string,
+): string[] {
+  const xmlParts: string[] = [];
+
+  if (props.displayName !== undefined) {
+    xmlParts.push(
+      `${indent}<D:displayname>${escapeXml(props.displayName)}</D:displayname>`,
+    );
+  }
+  if (props.description !== undefined) {
+    xmlParts.push(
+      `${indent}<C:calendar-description>${escapeXml(props.description)}</C:calendar-description>`,
+    );
+  }
+  if (props.color !== undefined) {
+    xmlParts.push(
+      `${indent}<A:calendar-color>${escapeXml(props.color)}</A:calendar-color>`,
+    );
+  }
+  if (props.componentSet?.length) {
+    xmlParts.push(`${indent}<C:supported-calendar-component-set>`);
+    for (const comp of props.componentSet) {
+      xmlParts.push(`${indent}  <C:comp name="${comp}"/>`);
+    }
+    xmlParts.push(`${indent}</C:supported-calendar-component-set>`);
+  }
+
+  return xmlParts;
+}
+
+export function buildMkCalendar(props: CalendarCollectionProps): string {
+  const xmlParts = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<C:mkcalendar xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:D="DAV:" xmlns:A="http://apple.com/ns/ical/">',
+    '  <D:set>',
+    '    <D:prop>',
+    ...buildCollectionProps(props, '      '),
+    '    </D:prop>',
+    '  </D:set>',
+    '</C:mkcalendar>',
+  ];
+
+  return xmlParts.join('\n');
+}
+
+export function buildPropPatch(props: CalendarCollectionProps): string {
+  // The supported component set is fixed at creation time (RFC 4791 5.2.3)
+  const { componentSet, ...mutable } = props;
+  if (componentSet) {
+    throw new Error('supported-calendar-component-set cannot be changed');
+  }
+
+  const xmlParts = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<D:propertyupdate xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav" xmlns:A="http://apple.com/ns/ical/">',
+    '  <D:set>',
+    '    <D:prop>',
+    ...buildCollectionProps(mutable, '      '),
+    '    </D:prop>',
+    '  </D:set>',
+    '</D:propertyupdate>',
+  ];
+
+  return xmlParts.join('\n');
+}
+
 export function buildMultiget(hrefs: string[]): string {
   const xmlParts = [
     '<?xml version="1.0" encoding="utf-8"?>',
@@ -150,10 +446,58 @@ export function buildMultiget(hrefs: string[]): string {
   return xmlParts.join('\n');
 }
 
+/** RFC 6578 sync-collection; without a token the server lists everything */
+export function buildSyncCollection(syncToken?: string): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<D:sync-collection xmlns:D="DAV:">',
+    syncToken
+      ? `  <D:sync-token>${escapeXml(syncToken)}</D:sync-token>`
+      : '  <D:sync-token/>',
+    '  <D:sync-level>1</D:sync-level>',
+    '  <D:prop>',
+    '    <D:getetag/>',
+    '  </D:prop>',
+    '</D:sync-collection>',
+  ].join('\n');
+}
+
+function decodeXml(text: string): string {
+  const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(text);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, code: string) =>
+      String.fromCodePoint(Number.parseInt(code, 10)),
+    )
+    .replace(/&amp;/g, '&');
+}
+
+// Servers pick their own prefixes (D:, d:, ns0:, none at all)
+function elementText(xml: string, name: string): string | undefined {
+  const match = new RegExp(
+    `<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>(.*?)</(?:[\\w-]+:)?${name}>`,
+    's',
+  ).exec(xml);
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+/** The new token of a sync-collection response */
+export function parseSyncToken(xmlResponse: string): string | undefined {
+  return elementText(xmlResponse, 'sync-token') || undefined;
+}
+
 export function parseMultiStatusResponse(xmlResponse: string): Array<{
   href: string;
   status: string;
   etag?: string;
+  ctag?: string;
   calendarData?: string;
   error?: string;
 }> {
@@ -162,6 +506,7 @@ export function parseMultiStatusResponse(xmlResponse: string): Array<{
     href: string;
     status: string;
     etag?: string;
+    ctag?: string;
     calendarData?: string;
     error?: string;
   }> = [];
@@ -169,39 +514,28 @@ export function parseMultiStatusResponse(xmlResponse: string): Array<{
   try {
     // Extract response elements (simplified regex parsing)
     const responseMatches = xmlResponse.matchAll(
-      /<D:response[^>]*>(.*?)<\/D:response>/gs,
+      /<(?:[\w-]+:)?response(?:\s[^>]*)?>(.*?)<\/(?:[\w-]+:)?response>/gs,
     );
 
     for (const responseMatch of responseMatches) {
       const responseContent = responseMatch[1];
 
-      // Extract href
-      const hrefMatch = responseContent.match(/<D:href[^>]*>(.*?)<\/D:href>/s);
-      const href = hrefMatch ? hrefMatch[1].trim() : '';
-
-      // Extract status
-      const statusMatch = responseContent.match(
-        /<D:status[^>]*>(.*?)<\/D:status>/s,
-      );
-      const status = statusMatch ? statusMatch[1].trim() : '';
-
-      // Extract etag if present
-      const etagMatch = responseContent.match(
-        /<D:getetag[^>]*>(.*?)<\/D:getetag>/s,
-      );
-      const etag = etagMatch ? etagMatch[1].trim() : undefined;
-
-      // Extract calendar data if present
-      const calDataMatch = responseContent.match(
-        /<C:calendar-data[^>]*>(.*?)<\/C:calendar-data>/s,
+      // A status outside of any propstat applies to the whole resource,
+      // e.g. 404 for members removed since the last sync
+      const resourceStatus = elementText(
+        responseContent.replace(
+          /<(?:[\w-]+:)?propstat[\s>].*?<\/(?:[\w-]+:)?propstat>/gs,
+          '',
+        ),
+        'status',
       );
-      const calendarData = calDataMatch ? calDataMatch[1].trim() : undefined;
 
       results.push({
-        href,
-        status,
-        etag,
-        calendarData,
+        href: elementText(responseContent, 'href') ?? '',
+        status: resourceStatus ?? elementText(responseContent, 'status') ?? '',
+        etag: elementText(responseContent, 'getetag'),
+        ctag: elementText(responseContent, 'getctag'),
+        calendarData: elementText(responseContent, 'calendar-data'),
       });
     }
   } catch (error) {
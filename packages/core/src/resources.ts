@@ -0,0 +1,86 @@
+import type { DiscoveryResult } from './discovery';
+import { buildCalDavUri } from './uri';
+
+export interface CalDavResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+// Length of the "upcoming" window in days
+const UPCOMING_DAYS = 7;
+
+/** JMESPath filter for tasks that are neither completed nor cancelled */
+export const OPEN_TASKS_FILTER =
+  "status != 'COMPLETED' && status != 'CANCELLED' && !completed";
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Concrete resources for the discovered calendars: the calendar list, and
+ * for each calendar its events of the next days and its open tasks, as far
+ * as the calendar holds those components. The window starts at the current
+ * UTC day, so the URIs move along with the date. With an account name the
+ * URIs select that account and the names start with it.
+ */
+export function buildCalendarResources(
+  discovery: DiscoveryResult,
+  now: Date = new Date(),
+  account?: string,
+): CalDavResource[] {
+  const principal = discovery.principal.replace(/^\/+|\/+$/g, '');
+  const selection: Record<string, string> = account ? { account } : {};
+  const prefix = account ? `${account}: ` : '';
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+  const end = new Date(start.getTime() + UPCOMING_DAYS * 24 * 60 * 60 * 1000);
+
+  const resources: CalDavResource[] = [
+    {
+      uri: buildCalDavUri('metadata-list-cals', { principal, ...selection }),
+      name: `${prefix}Calendars`,
+      description: `Metadata of all ${discovery.collections.length} calendars: ids, names, supported components and hrefs`,
+      mimeType: 'application/json',
+    },
+  ];
+
+  for (const calendar of discovery.collections) {
+    const name = `${prefix}${calendar.displayName || calendar.calendarId}`;
+    if (calendar.componentSet.includes('VEVENT')) {
+      resources.push({
+        uri: buildCalDavUri('components-range', {
+          principal,
+          calendarId: calendar.calendarId,
+          comp: 'VEVENT',
+          start: isoDay(start),
+          end: isoDay(end),
+          expand: 'true',
+          ...selection,
+        }),
+        name: `${name}: next ${UPCOMING_DAYS} days`,
+        description: `Events in calendar "${name}" from ${isoDay(start)} for ${UPCOMING_DAYS} days, recurring events expanded`,
+        mimeType: 'text/calendar',
+      });
+    }
+    if (calendar.componentSet.includes('VTODO')) {
+      resources.push({
+        uri: buildCalDavUri('components-query', {
+          principal,
+          calendarId: calendar.calendarId,
+          comp: 'VTODO',
+          jmes: OPEN_TASKS_FILTER,
+          ...selection,
+        }),
+        name: `${name}: open tasks`,
+        description: `Tasks in calendar "${name}" that are neither completed nor cancelled`,
+        mimeType: 'text/calendar',
+      });
+    }
+  }
+
+  return resources;
+}
@@ -0,0 +1,165 @@
+import { type BusyPeriod, mergeBusyPeriods } from './freebusy';
+import { resolveTimeZone, utcToZonedTime, zonedTimeToUtc } from './timezone';
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface SlotSearchOptions {
+  start: Date;
+  end: Date;
+  /** Slot length in minutes */
+  duration: number;
+  /** Working hours as HH:MM; defaults to 09:00-17:00 */
+  workdayStart?: string;
+  workdayEnd?: string;
+  /** Two-letter weekday codes; defaults to Monday to Friday */
+  workingDays?: string[];
+  /** Minutes kept free before and after every busy period */
+  buffer?: number;
+  /** Granularity of candidate start times in minutes */
+  step?: number;
+  limit?: number;
+  /** IANA zone the working hours are in; defaults to UTC */
+  timeZone?: string;
+}
+
+export interface FreeSlot {
+  start: Date;
+  end: Date;
+  score: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+function parseTimeOfDay(value: string, name: string): number {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid ${name}: ${value}. Expected HH:MM`);
+  }
+  return (Number(match[1]) * 60 + Number(match[2])) * MINUTE;
+}
+
+function workingWindows(options: SlotSearchOptions): BusyPeriod[] {
+  const dayStart = parseTimeOfDay(
+    options.workdayStart ?? '09:00',
+    'workdayStart',
+  );
+  const dayEnd = parseTimeOfDay(options.workdayEnd ?? '17:00', 'workdayEnd');
+  if (dayEnd <= dayStart) {
+    throw new Error('workdayEnd must be after workdayStart');
+  }
+  const days = new Set(
+    (options.workingDays ?? ['MO', 'TU', 'WE', 'TH', 'FR']).map((d) =>
+      d.toUpperCase(),
+    ),
+  );
+
+  const timeZone = options.timeZone ?? 'UTC';
+  const zone = resolveTimeZone(timeZone);
+  if (!zone) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+
+  // Days are walked in wall-clock time so that working hours stay put
+  // across DST changes
+  const localStart = utcToZonedTime(options.start, zone);
+  const localEnd = utcToZonedTime(options.end, zone).getTime();
+  const windows: BusyPeriod[] = [];
+  const first = Date.UTC(
+    localStart.getUTCFullYear(),
+    localStart.getUTCMonth(),
+    localStart.getUTCDate(),
+  );
+  for (let day = first; day < localEnd; day += DAY) {
+    if (!days.has(WEEKDAYS[new Date(day).getUTCDay()])) continue;
+
+    const start = Math.max(
+      zonedTimeToUtc(new Date(day + dayStart), zone).getTime(),
+      options.start.getTime(),
+    );
+    const end = Math.min(
+      zonedTimeToUtc(new Date(day + dayEnd), zone).getTime(),
+      options.end.getTime(),
+    );
+    if (end > start) {
+      windows.push({ start: new Date(start), end: new Date(end) });
+    }
+  }
+  return windows;
+}
+
+function subtract(windows: BusyPeriod[], busy: BusyPeriod[]): BusyPeriod[] {
+  const free: BusyPeriod[] = [];
+  for (const window of windows) {
+    let cursor = window.start.getTime();
+    for (const period of busy) {
+      if (period.end <= window.start || period.start >= window.end) continue;
+      if (period.start.getTime() > cursor) {
+        free.push({ start: new Date(cursor), end: period.start });
+      }
+      cursor = Math.max(cursor, period.end.getTime());
+    }
+    if (cursor < window.end.getTime()) {
+      free.push({ start: new Date(cursor), end: window.end });
+    }
+  }
+  return free;
+}
+
+/**
+ * Finds slots of the requested length inside working hours that do not
+ * overlap any busy period (widened by the buffer). Working hours are
+ * evaluated in the given time zone.
+ *
+ * Slots are ranked so that ones adjacent to existing commitments or to the
+ * edge of the working day come first, since they leave the remaining free
+ * time in one piece; ties go to the earlier slot.
+ */
+export function findFreeSlots(
+  busy: BusyPeriod[],
+  options: SlotSearchOptions,
+): FreeSlot[] {
+  const { duration, buffer = 0, step = 15, limit = 10 } = options;
+  if (!(duration > 0)) {
+    throw new Error('duration must be a positive number of minutes');
+  }
+  if (buffer < 0) {
+    throw new Error('buffer must not be negative');
+  }
+  if (options.end <= options.start) {
+    throw new Error('end must be after start');
+  }
+
+  const blocked = mergeBusyPeriods(
+    busy.map((period) => ({
+      start: new Date(period.start.getTime() - buffer * MINUTE),
+      end: new Date(period.end.getTime() + buffer * MINUTE),
+    })),
+  );
+  const length = duration * MINUTE;
+  const stepMs = step * MINUTE;
+
+  const slots: FreeSlot[] = [];
+  for (const gap of subtract(workingWindows(options), blocked)) {
+    const gapStart = gap.start.getTime();
+    const gapEnd = gap.end.getTime();
+    const first = Math.ceil(gapStart / stepMs) * stepMs;
+
+    for (let start = first; start + length <= gapEnd; start += stepMs) {
+      const before = start - gapStart;
+      const after = gapEnd - start - length;
+      // 1 when the slot touches either end of the gap, falling towards 0
+      // the more it splits the gap into two leftover pieces
+      const score = 1 - Math.min(before, after) / (gapEnd - gapStart);
+      slots.push({
+        start: new Date(start),
+        end: new Date(start + length),
+        score: Math.round(score * 100) / 100,
+      });
+    }
+  }
+
+  return slots
+    .sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())
+    .slice(0, limit);
+}
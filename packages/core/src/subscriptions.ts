@@ -0,0 +1,192 @@
+import { createHash } from 'node:crypto';
+import type { CalDavClient } from './caldav';
+import type { CalDavRequestHandler, CalDavResponse } from './handler';
+import { propfindCollection } from './objects';
+import {
+  buildPropFind,
+  parseMultiStatusResponse,
+  parseSyncToken,
+} from './report';
+
+export interface CalDavSubscriptionOptions {
+  /** Milliseconds between checks of a subscribed collection (default 60s) */
+  pollInterval?: number;
+}
+
+interface Subscription {
+  collections: string[];
+  /** Digest of the last result, to notify only when it changes */
+  digest: string;
+}
+
+interface CollectionPoll {
+  timer: ReturnType<typeof setInterval>;
+  uris: Set<string>;
+  /** CTag and sync token from the last check */
+  state?: string;
+  polling: boolean;
+}
+
+export const DEFAULT_POLL_INTERVAL = 60000;
+
+/**
+ * Digest of a result, leaving out what changes on every read: the
+ * timestamp of JSON results and the DTSTAMP of generated iCalendar data.
+ */
+function digest(response: CalDavResponse): string {
+  let content = response.content;
+  if (response.mimeType === 'application/json') {
+    try {
+      const { timestamp: _, ...rest } = JSON.parse(content);
+      content = JSON.stringify(rest);
+    } catch {
+      // Digested as it is
+    }
+  } else if (response.mimeType === 'text/calendar') {
+    content = content.replace(/^DTSTAMP[:;].*$/gm, '');
+  }
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Watches subscribed `caldav://` URIs for changes. Every collection a URI
+ * reads from is polled once, however many URIs depend on it: its CTag and
+ * sync token are checked on every tick, and only when one of them moved are
+ * the dependent URIs read again. A URI is reported when its result differs
+ * from the last one.
+ */
+export class CalDavSubscriptions {
+  private subscriptions = new Map<string, Subscription>();
+  private polls = new Map<string, CollectionPoll>();
+  private readonly pollInterval: number;
+
+  constructor(
+    private handler: CalDavRequestHandler,
+    private client: CalDavClient,
+    private notify: (uri: string) => void | Promise<void>,
+    options: CalDavSubscriptionOptions = {},
+  ) {
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    if (!(this.pollInterval > 0)) {
+      throw new Error('Poll interval must be positive');
+    }
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    if (this.subscriptions.has(uri)) return;
+
+    const collections = await this.handler.getCollectionsForUri(
+      uri,
+      this.client,
+    );
+    const response = await this.handler.handleRequest({
+      uri,
+      client: this.client,
+    });
+    this.subscriptions.set(uri, {
+      collections,
+      digest: digest(response),
+    });
+
+    for (const href of collections) {
+      let poll = this.polls.get(href);
+      if (!poll) {
+        const timer = setInterval(() => {
+          void this.poll(href);
+        }, this.pollInterval);
+        // Subscriptions alone should not keep the process running
+        timer.unref?.();
+        poll = { timer, uris: new Set(), polling: false };
+        this.polls.set(href, poll);
+        poll.state = await this.collectionState(href);
+      }
+      poll.uris.add(uri);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription) return;
+    this.subscriptions.delete(uri);
+
+    for (const href of subscription.collections) {
+      const poll = this.polls.get(href);
+      if (!poll) continue;
+      poll.uris.delete(uri);
+      if (poll.uris.size === 0) {
+        clearInterval(poll.timer);
+        this.polls.delete(href);
+      }
+    }
+  }
+
+  /** Stops polling and drops every subscription. */
+  close(): void {
+    for (const poll of this.polls.values()) clearInterval(poll.timer);
+    this.polls.clear();
+    this.subscriptions.clear();
+  }
+
+  getSubscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  getPollCount(): number {
+    return this.polls.size;
+  }
+
+  /** Checks a collection once and reports the URIs whose result changed. */
+  async poll(href: string): Promise<void> {
+    const poll = this.polls.get(href);
+    // A slow server must not pile up checks of the same collection
+    if (!poll || poll.polling) return;
+    poll.polling = true;
+
+    try {
+      const state = await this.collectionState(href);
+      // Without CTag or sync token every check reads the URIs again
+      if (state !== undefined && state === poll.state) return;
+      poll.state = state;
+
+      for (const uri of [...poll.uris]) {
+        const subscription = this.subscriptions.get(uri);
+        if (!subscription) continue;
+        const response = await this.handler.handleRequest({
+          uri,
+          client: this.client,
+        });
+        if (response.status >= 400) {
+          // Most likely the server being away; read again on the next tick
+          poll.state = undefined;
+          continue;
+        }
+        const next = digest(response);
+        if (next === subscription.digest) continue;
+        subscription.digest = next;
+        await this.notify(uri);
+      }
+    } catch {
+      // Checked again on the next tick
+    } finally {
+      poll.polling = false;
+    }
+  }
+
+  private async collectionState(href: string): Promise<string | undefined> {
+    try {
+      const response = await propfindCollection(
+        this.client,
+        href,
+        buildPropFind(['CS:getctag', 'sync-token']),
+        '0',
+      );
+      if (!response.ok) return undefined;
+      const ctag = parseMultiStatusResponse(response.body)[0]?.ctag;
+      const syncToken = parseSyncToken(response.body);
+      if (!ctag && !syncToken) return undefined;
+      return `${ctag ?? ''} ${syncToken ?? ''}`;
+    } catch {
+      return undefined;
+    }
+  }
+}
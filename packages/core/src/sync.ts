@@ -0,0 +1,341 @@
+import type { CachedCollection, ComponentCache } from './cache';
+import { AUTHENTICATION_FAILED, type CalDavClient, accountKey } from './caldav';
+import {
+  type CalendarObject,
+  multigetObjects,
+  propfindCollection,
+  resolveHref,
+  syncCollection,
+} from './objects';
+import {
+  buildMultiget,
+  buildPropFind,
+  buildSyncCollection,
+  parseMultiStatusResponse,
+  parseSyncToken,
+} from './report';
+
+interface CollectionState {
+  /** Token of the last sync-collection, undefined before the first one */
+  syncToken?: string;
+  /** Cleared once the server rejects sync-collection */
+  supportsSync: boolean;
+  ctag?: string;
+  /** Local copy of the collection by object href */
+  objects: Map<string, CalendarObject>;
+  /** Fingerprint of the copy in the cache, if there is one */
+  cached?: string;
+}
+
+// Hrefs per calendar-multiget request
+const MULTIGET_BATCH = 100;
+
+// Truncated sync-collection responses (507) are continued at most this often
+const MAX_SYNC_ROUNDS = 20;
+
+// Servers may answer with absolute URLs for hrefs requested as paths
+function hrefPath(client: CalDavClient, href: string): string {
+  return new URL(resolveHref(client, href)).pathname;
+}
+
+function hasStatus(status: string, code: number): boolean {
+  return new RegExp(`\\s${code}(\\s|$)`).test(status);
+}
+
+const UNAVAILABLE = 'CalDAV server unavailable';
+
+/**
+ * Sends a request, turning network failures and server errors into an
+ * "unavailable" error that lets the last known copy be served instead.
+ */
+async function request<T extends { status: number }>(
+  send: () => Promise<T>,
+): Promise<T> {
+  let response: T;
+  try {
+    response = await send();
+  } catch (error) {
+    // The server answered; serving the last copy would hide the problem
+    if (
+      error instanceof Error &&
+      error.message.startsWith(AUTHENTICATION_FAILED)
+    ) {
+      throw error;
+    }
+    throw new Error(
+      `${UNAVAILABLE}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+  // 501 says the request is not supported, not that the server is down
+  if (response.status >= 500 && response.status !== 501) {
+    throw new Error(`${UNAVAILABLE} (status ${response.status})`);
+  }
+  return response;
+}
+
+function toCached(href: string, state: CollectionState): CachedCollection {
+  return {
+    href,
+    syncToken: state.syncToken,
+    supportsSync: state.supportsSync,
+    ctag: state.ctag,
+    objects: [...state.objects.values()],
+  };
+}
+
+function fromCached(collection: CachedCollection): CollectionState {
+  const state: CollectionState = {
+    syncToken: collection.syncToken,
+    supportsSync: collection.supportsSync,
+    ctag: collection.ctag,
+    objects: new Map(collection.objects.map((object) => [object.href, object])),
+  };
+  state.cached = fingerprint(state);
+  return state;
+}
+
+// Tells whether the cache needs writing; a body only changes with its ETag
+function fingerprint(state: CollectionState): string {
+  return JSON.stringify([
+    state.syncToken,
+    state.supportsSync,
+    state.ctag,
+    [...state.objects.values()].map((object) => [
+      object.href,
+      object.etag ?? object.data,
+    ]),
+  ]);
+}
+
+/**
+ * Keeps a local copy of calendar collections current. Changes are fetched
+ * with sync-collection (RFC 6578) where the server supports it, otherwise
+ * by comparing the collection CTag and the ETags of its members; object
+ * bodies are always fetched with calendar-multiget. With a cache the copies
+ * survive restarts and are served while the server is unreachable.
+ */
+export class CalDavSyncEngine {
+  private collections = new Map<string, CollectionState>();
+
+  constructor(private cache?: ComponentCache) {}
+
+  /** Brings the local copy up to date and returns the collection's objects. */
+  async sync(
+    client: CalDavClient,
+    collectionHref: string,
+  ): Promise<CalendarObject[]> {
+    const account = accountKey(client);
+    const key = `${account}:${collectionHref}`;
+    let state = this.collections.get(key);
+    if (!state) {
+      const cached = await this.cache?.loadCollection(account, collectionHref);
+      if (cached) state = fromCached(cached);
+    }
+    const known = state !== undefined;
+    const current: CollectionState = state ?? {
+      supportsSync: true,
+      objects: new Map<string, CalendarObject>(),
+    };
+
+    try {
+      if (current.supportsSync) {
+        current.supportsSync = await this.syncWithToken(
+          client,
+          collectionHref,
+          current,
+        );
+      }
+      if (!current.supportsSync) {
+        await this.syncWithEtags(client, collectionHref, current);
+      }
+    } catch (error) {
+      const unavailable =
+        error instanceof Error && error.message.startsWith(UNAVAILABLE);
+      if (!known || !unavailable) throw error;
+      this.collections.set(key, current);
+      return [...current.objects.values()];
+    }
+
+    this.collections.set(key, current);
+    const version = fingerprint(current);
+    if (this.cache && version !== current.cached) {
+      // A failed write only costs a full sync after the next restart
+      await this.cache
+        .saveCollection(account, toCached(collectionHref, current))
+        .then(() => {
+          current.cached = version;
+        })
+        .catch(() => undefined);
+    }
+    return [...current.objects.values()];
+  }
+
+  /** Drops the local copies, of one account or of all of them. */
+  clear(client?: CalDavClient): void {
+    if (!client) {
+      this.collections.clear();
+      return;
+    }
+    const prefix = `${accountKey(client)}:`;
+    for (const key of this.collections.keys()) {
+      if (key.startsWith(prefix)) this.collections.delete(key);
+    }
+  }
+
+  /**
+   * Drops an object from the local copy of its collection, after it was
+   * deleted or moved away; the next sync confirms it.
+   */
+  forget(client: CalDavClient, collectionHref: string, href: string): void {
+    const state = this.collections.get(
+      `${accountKey(client)}:${collectionHref}`,
+    );
+    state?.objects.delete(hrefPath(client, href));
+  }
+
+  getCollectionCount(): number {
+    return this.collections.size;
+  }
+
+  /** Returns false when the server does not support sync-collection. */
+  private async syncWithToken(
+    client: CalDavClient,
+    collectionHref: string,
+    state: CollectionState,
+  ): Promise<boolean> {
+    const collectionPath = hrefPath(client, collectionHref);
+
+    for (let round = 0; round < MAX_SYNC_ROUNDS; round++) {
+      const response = await request(() =>
+        syncCollection(
+          client,
+          collectionHref,
+          buildSyncCollection(state.syncToken),
+        ),
+      );
+
+      if (!response.ok) {
+        if (state.syncToken && /valid-sync-token/.test(response.body)) {
+          // The token expired; start over with a full listing
+          state.syncToken = undefined;
+          state.objects.clear();
+          continue;
+        }
+        return false;
+      }
+
+      const token = parseSyncToken(response.body);
+      // A server that answers without a token cannot sync incrementally
+      if (!token) return false;
+
+      const changed: string[] = [];
+      let truncated = false;
+      for (const member of parseMultiStatusResponse(response.body)) {
+        const href = hrefPath(client, member.href);
+        if (href === collectionPath) {
+          truncated = hasStatus(member.status, 507);
+          continue;
+        }
+        if (hasStatus(member.status, 404)) {
+          state.objects.delete(href);
+        } else if (
+          !member.etag ||
+          state.objects.get(href)?.etag !== member.etag
+        ) {
+          changed.push(href);
+        }
+      }
+
+      await this.fetchObjects(client, collectionHref, changed, state);
+      state.syncToken = token;
+      if (!truncated) return true;
+    }
+
+    return true;
+  }
+
+  private async syncWithEtags(
+    client: CalDavClient,
+    collectionHref: string,
+    state: CollectionState,
+  ): Promise<void> {
+    const ctagResponse = await request(() =>
+      propfindCollection(
+        client,
+        collectionHref,
+        buildPropFind(['CS:getctag']),
+        '0',
+      ),
+    );
+    const ctag = ctagResponse.ok
+      ? parseMultiStatusResponse(ctagResponse.body)[0]?.ctag
+      : undefined;
+    // Without a CTag every sync compares the ETags
+    if (ctag && ctag === state.ctag) return;
+
+    const listing = await request(() =>
+      propfindCollection(
+        client,
+        collectionHref,
+        buildPropFind(['getetag']),
+        '1',
+      ),
+    );
+    if (!listing.ok) {
+      throw new Error(
+        `Failed to list calendar objects (status ${listing.status})`,
+      );
+    }
+
+    const collectionPath = hrefPath(client, collectionHref);
+    const seen = new Set<string>();
+    const changed: string[] = [];
+    for (const member of parseMultiStatusResponse(listing.body)) {
+      const href = hrefPath(client, member.href);
+      // Members without an ETag are collections
+      if (href === collectionPath || !member.etag) continue;
+      seen.add(href);
+      if (state.objects.get(href)?.etag !== member.etag) changed.push(href);
+    }
+    for (const href of state.objects.keys()) {
+      if (!seen.has(href)) state.objects.delete(href);
+    }
+
+    await this.fetchObjects(client, collectionHref, changed, state);
+    state.ctag = ctag;
+  }
+
+  private async fetchObjects(
+    client: CalDavClient,
+    collectionHref: string,
+    hrefs: string[],
+    state: CollectionState,
+  ): Promise<void> {
+    for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH) {
+      const response = await request(() =>
+        multigetObjects(
+          client,
+          collectionHref,
+          buildMultiget(hrefs.slice(i, i + MULTIGET_BATCH)),
+        ),
+      );
+      if (!response.ok) {
+        throw new Error(`calendar-multiget failed (status ${response.status})`);
+      }
+
+      for (const member of parseMultiStatusResponse(response.body)) {
+        const href = hrefPath(client, member.href);
+        if (member.calendarData) {
+          state.objects.set(href, {
+            href,
+            etag: member.etag,
+            data: member.calendarData,
+          });
+        } else if (hasStatus(member.status, 404)) {
+          // Removed between the listing and the multiget
+          state.objects.delete(href);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  applyComponentChanges,
+  getComponentProperties,
+  parseContentLine,
+} from './components';
+import { parseICalendarData } from './filters';
+import { parseICalDate, toICalDateTime } from './ical';
+import { nextOccurrence, parseRecurrenceRule } from './recurrence';
+
+export interface TaskTransition {
+  data: string;
+  status: string;
+  percentComplete: number;
+  // Set when a recurring task moved on to its next occurrence
+  advancedTo?: string;
+}
+
+function assertTask(ical: string, uid: string): void {
+  const component = parseICalendarData(ical).find((comp) => comp.uid === uid);
+  if (!component) {
+    throw new Error(`Component not found in calendar object: ${uid}`);
+  }
+  if (component.componentType !== 'VTODO') {
+    throw new Error(
+      `Component ${uid} is a ${component.componentType}, not a VTODO`,
+    );
+  }
+}
+
+function shiftDateValue(value: string, delta: number): string {
+  const shifted = new Date(parseICalDate(value).getTime() + delta);
+  const iso = shifted.toISOString();
+  const date = iso.slice(0, 10).replace(/-/g, '');
+  if (/^\d{8}$/.test(value)) return date;
+
+  // Floating and TZID times are shifted in wall-clock time, keeping the form
+  const time = iso.slice(11, 19).replace(/:/g, '');
+  return `${date}T${time}${value.endsWith('Z') ? 'Z' : ''}`;
+}
+
+function advanceRecurringTask(
+  ical: string,
+  uid: string,
+  now: Date,
+): TaskTransition | null {
+  const properties = getComponentProperties(ical, uid).map(parseContentLine);
+  const find = (name: string) => properties.find((p) => p.name === name);
+
+  const rrule = find('RRULE');
+  if (!rrule || find('RECURRENCE-ID')) return null;
+
+  const anchor = find('DTSTART') ?? find('DUE');
+  if (!anchor) {
+    throw new Error(`Recurring task ${uid} has neither DTSTART nor DUE`);
+  }
+
+  const rule = parseRecurrenceRule(rrule.value);
+  const anchorDate = parseICalDate(anchor.value);
+  const next = nextOccurrence(rule, anchorDate, anchorDate);
+  if (!next) return null;
+
+  const delta = next.getTime() - anchorDate.getTime();
+  const changes: Record<string, string | null> = {
+    STATUS: 'STATUS:NEEDS-ACTION',
+    COMPLETED: null,
+    'PERCENT-COMPLETE': 'PERCENT-COMPLETE:0',
+  };
+  for (const name of ['DTSTART', 'DUE']) {
+    const property = find(name);
+    if (property) {
+      changes[name] =
+        `${name}${property.params}:${shiftDateValue(property.value, delta)}`;
+    }
+  }
+  if (rule.count !== undefined) {
+    // The completed occurrence no longer belongs to the series
+    changes.RRULE = `RRULE${rrule.params}:${rrule.value.replace(
+      /COUNT=\d+/i,
+      `COUNT=${rule.count - 1}`,
+    )}`;
+  }
+
+  const due = find('DUE');
+  return {
+    data: applyComponentChanges(ical, uid, changes, now),
+    status: 'NEEDS-ACTION',
+    percentComplete: 0,
+    advancedTo: shiftDateValue((due ?? anchor).value, delta),
+  };
+}
+
+export function completeTask(
+  ical: string,
+  uid: string,
+  now = new Date(),
+): TaskTransition {
+  assertTask(ical, uid);
+
+  // Completing a recurring task only closes the current occurrence
+  const advanced = advanceRecurringTask(ical, uid, now);
+  if (advanced) return advanced;
+
+  return {
+    data: applyComponentChanges(
+      ical,
+      uid,
+      {
+        STATUS: 'STATUS:COMPLETED',
+        COMPLETED: `COMPLETED:${toICalDateTime(now.toISOString())}`,
+        'PERCENT-COMPLETE': 'PERCENT-COMPLETE:100',
+      },
+      now,
+    ),
+    status: 'COMPLETED',
+    percentComplete: 100,
+  };
+}
+
+export function reopenTask(
+  ical: string,
+  uid: string,
+  now = new Date(),
+): TaskTransition {
+  return setTaskProgress(ical, uid, 0, now);
+}
+
+export function setTaskProgress(
+  ical: string,
+  uid: string,
+  percent: number,
+  now = new Date(),
+): TaskTransition {
+  if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+    throw new Error('percent must be an integer between 0 and 100');
+  }
+  if (percent === 100) {
+    return completeTask(ical, uid, now);
+  }
+  assertTask(ical, uid);
+
+  const status = percent === 0 ? 'NEEDS-ACTION' : 'IN-PROCESS';
+  return {
+    data: applyComponentChanges(
+      ical,
+      uid,
+      {
+        STATUS: `STATUS:${status}`,
+        COMPLETED: null,
+        'PERCENT-COMPLETE': `PERCENT-COMPLETE:${percent}`,
+      },
+      now,
+    ),
+    status,
+    percentComplete: percent,
+  };
+}
@@ -14,12 +14,20 @@ export interface CalDavResourceTemplate extends ResourceTemplate {
   description: string;
 }
 
+const ACCOUNT_VARIABLE: TemplateVariable = {
+  name: 'account',
+  description:
+    'Name of the account to read from, when the server has several (defaults to the first)',
+  required: false,
+  type: 'string',
+};
+
 export const CALDAV_TEMPLATES: CalDavResourceTemplate[] = [
   {
     name: 'components-range',
     description: 'Calendar components within a specific time range',
     uriTemplate:
-      'caldav://{principal}/{calendarId}/{comp}?start={start}&end={end}',
+      'caldav://{principal}/{calendarId}/{comp}?start={start}&end={end}&expand={expand}&format={format}&tz={tz}&account={account}',
     mimeType: 'text/calendar',
     variables: [
       {
@@ -55,12 +63,37 @@ export const CALDAV_TEMPLATES: CalDavResourceTemplate[] = [
         type: 'datetime',
         pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
       },
+      {
+        name: 'expand',
+        description:
+          'Set to true to return each occurrence of recurring components, with overrides applied',
+        required: false,
+        type: 'string',
+        enum: ['true', 'false'],
+      },
+      {
+        name: 'format',
+        description:
+          'Response format: ics (default), jcal (RFC 7265), json (simplified components with ISO 8601 dates) or agenda (Markdown grouped by day)',
+        required: false,
+        type: 'string',
+        enum: ['ics', 'jcal', 'json', 'agenda'],
+      },
+      {
+        name: 'tz',
+        description:
+          'IANA time zone for the agenda format (defaults to the server time zone)',
+        required: false,
+        type: 'string',
+      },
+      ACCOUNT_VARIABLE,
     ],
   },
   {
     name: 'components-by-cat',
     description: 'Tasks filtered by CATEGORIES property',
-    uriTemplate: 'caldav://{principal}/{calendarId}/VTODO?cat={cat}',
+    uriTemplate:
+      'caldav://{principal}/{calendarId}/VTODO?cat={cat}&format={format}&account={account}',
     mimeType: 'text/calendar',
     variables: [
       {
@@ -81,12 +114,22 @@ export const CALDAV_TEMPLATES: CalDavResourceTemplate[] = [
         required: true,
         type: 'string',
       },
+      {
+        name: 'format',
+        description:
+          'Response format: ics (default), jcal (RFC 7265) or json (simplified components with ISO 8601 dates)',
+        required: false,
+        type: 'string',
+        enum: ['ics', 'jcal', 'json'],
+      },
+      ACCOUNT_VARIABLE,
     ],
   },
   {
     name: 'component-by-uid',
     description: 'Single calendar component by UID',
-    uriTemplate: 'caldav://{principal}/{calendarId}/{uid}',
+    uriTemplate:
+      'caldav://{principal}/{calendarId}/{uid}?format={format}&account={account}',
     mimeType: 'text/calendar',
     variables: [
       {
@@ -107,12 +150,23 @@ export const CALDAV_TEMPLATES: CalDavResourceTemplate[] = [
         required: true,
         type: 'string',
       },
+      {
+        name: 'format',
+        description:
+          'Response format: ics (default), jcal (RFC 7265) or json (simplified components with ISO 8601 dates)',
+        required: false,
+        type: 'string',
+        enum: ['ics', 'jcal', 'json'],
+      },
+      ACCOUNT_VARIABLE,
     ],
   },
   {
     name: 'components-query',
-    description: 'Advanced component filtering with JMES-like expressions',
-    uriTemplate: 'caldav://{principal}/{calendarId}/{comp}?filter={jmes}',
+    description:
+      "Advanced component filtering by status, text, missing properties, due or completion dates and JMESPath expressions, e.g. priority <= `2` && status == 'NEEDS-ACTION'",
+    uriTemplate:
+      'caldav://{principal}/{calendarId}/{comp}?filter={jmes}&status={status}&text={text}&missing={missing}&dueStart={dueStart}&dueEnd={dueEnd}&completedStart={completedStart}&completedEnd={completedEnd}&format={format}&account={account}',
     mimeType: 'text/calendar',
     variables: [
       {
@@ -136,16 +190,122 @@ export const CALDAV_TEMPLATES: CalDavResourceTemplate[] = [
       },
       {
         name: 'jmes',
-        description: 'JMES-like filter expression',
+        description:
+          'JMESPath filter expression evaluated against each component; supports &&, ||, !, comparisons, projections and functions like starts_with',
+        required: false,
+        type: 'string',
+      },
+      {
+        name: 'status',
+        description: 'STATUS the components must have, e.g. NEEDS-ACTION',
+        required: false,
+        type: 'string',
+      },
+      {
+        name: 'text',
+        description:
+          'Case-insensitive substring match as PROPERTY:text, e.g. SUMMARY:review; PROPERTY;PARAMETER:text matches a parameter instead, e.g. ATTENDEE;PARTSTAT:needs-action, and a leading ! negates the match',
+        required: false,
+        type: 'string',
+      },
+      {
+        name: 'missing',
+        description:
+          'Comma-separated properties the components must not have, e.g. DUE for undated tasks',
+        required: false,
+        type: 'string',
+      },
+      {
+        name: 'dueStart',
+        description: 'Earliest DUE date/time in ISO format',
+        required: false,
+        type: 'datetime',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
+      },
+      {
+        name: 'dueEnd',
+        description:
+          'DUE date/time in ISO format the components are due before',
+        required: false,
+        type: 'datetime',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
+      },
+      {
+        name: 'completedStart',
+        description: 'Earliest COMPLETED date/time in ISO format',
+        required: false,
+        type: 'datetime',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
+      },
+      {
+        name: 'completedEnd',
+        description:
+          'COMPLETED date/time in ISO format the components were completed before',
+        required: false,
+        type: 'datetime',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
+      },
+      {
+        name: 'format',
+        description:
+          'Response format: ics (default), jcal (RFC 7265) or json (simplified components with ISO 8601 dates)',
+        required: false,
+        type: 'string',
+        enum: ['ics', 'jcal', 'json'],
+      },
+      ACCOUNT_VARIABLE,
+    ],
+  },
+  {
+    name: 'freebusy',
+    description:
+      'Free/busy time of a calendar within a time range, as VFREEBUSY or JSON busy intervals',
+    uriTemplate:
+      'caldav://{principal}/{calendarId}/_freebusy?start={start}&end={end}&format={format}&account={account}',
+    mimeType: 'text/calendar',
+    variables: [
+      {
+        name: 'principal',
+        description: 'CalDAV principal path',
+        required: true,
+        type: 'string',
+      },
+      {
+        name: 'calendarId',
+        description: 'Calendar collection identifier',
+        required: true,
+        type: 'string',
+      },
+      {
+        name: 'start',
+        description: 'Start date/time in ISO format',
+        required: true,
+        type: 'datetime',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
+      },
+      {
+        name: 'end',
+        description: 'End date/time in ISO format',
         required: true,
+        type: 'datetime',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}:\\d{2}Z?)?$',
+      },
+      {
+        name: 'format',
+        description:
+          'Output format: ics (VFREEBUSY, default) or json (merged busy intervals)',
+        required: false,
         type: 'string',
+        enum: ['ics', 'json'],
       },
+      ACCOUNT_VARIABLE,
     ],
   },
   {
     name: 'metadata-list-cals',
-    description: 'JSON metadata listing all available calendars',
-    uriTemplate: 'caldav://{principal}/_meta/calendars',
+    description:
+      'JSON metadata listing all available calendars, across every account unless one is selected',
+    uriTemplate: 'caldav://{principal}/_meta/calendars?account={account}',
     mimeType: 'application/json',
     variables: [
       {
@@ -154,6 +314,7 @@ export const CALDAV_TEMPLATES: CalDavResourceTemplate[] = [
         required: true,
         type: 'string',
       },
+      ACCOUNT_VARIABLE,
     ],
   },
 ];
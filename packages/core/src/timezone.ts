@@ -0,0 +1,293 @@
+import { expandRecurrence, parseRecurrenceRule } from './recurrence';
+
+/**
+ * A time zone that can report its UTC offset (in milliseconds) at any
+ * instant, backed either by the IANA database or by a VTIMEZONE definition.
+ */
+export interface TimeZone {
+  id: string;
+  offsetAt(instant: number): number;
+}
+
+interface Observance {
+  /** Onset as wall-clock time, in the offset that was in effect before */
+  start: number;
+  offsetFrom: number;
+  offsetTo: number;
+  rrule?: string;
+  rdates: number[];
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Windows zone names still show up in Exchange-generated invites
+const WINDOWS_ZONES: Record<string, string> = {
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'Central America Standard Time': 'America/Guatemala',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'Central Standard Time': 'America/Chicago',
+  'China Standard Time': 'Asia/Shanghai',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'Eastern Standard Time': 'America/New_York',
+  'FLE Standard Time': 'Europe/Kiev',
+  'GMT Standard Time': 'Europe/London',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'India Standard Time': 'Asia/Kolkata',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Romance Standard Time': 'Europe/Paris',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  UTC: 'UTC',
+  'W. Europe Standard Time': 'Europe/Berlin',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const definitions = new Map<string, TimeZone>();
+
+function ianaFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      return null;
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function ianaZone(id: string): TimeZone | null {
+  const formatter = ianaFormatter(id);
+  if (!formatter) return null;
+
+  return {
+    id: formatter.resolvedOptions().timeZone,
+    offsetAt(instant) {
+      const fields: Record<string, number> = {};
+      for (const part of formatter.formatToParts(new Date(instant))) {
+        fields[part.type] = Number(part.value);
+      }
+      const wallClock = Date.UTC(
+        fields.year,
+        fields.month - 1,
+        fields.day,
+        fields.hour,
+        fields.minute,
+        fields.second,
+      );
+      return wallClock - (instant - (((instant % 1000) + 1000) % 1000));
+    },
+  };
+}
+
+/**
+ * Maps a TZID to a time zone: IANA names directly, vendor-prefixed names
+ * like `/mozilla.org/20050126_1/Europe/Berlin` by their IANA suffix,
+ * Windows names through a lookup table and anything else through the
+ * VTIMEZONE definitions seen so far. Returns null for unknown zones.
+ */
+export function resolveTimeZone(tzid: string): TimeZone | null {
+  const id = tzid.trim().replace(/^"|"$/g, '');
+
+  const direct = ianaZone(id);
+  if (direct) return direct;
+
+  const segments = id.split('/').filter(Boolean);
+  for (let i = 1; i < segments.length; i++) {
+    const suffix = ianaZone(segments.slice(i).join('/'));
+    if (suffix && segments.length - i >= 2) return suffix;
+  }
+
+  const windows = WINDOWS_ZONES[id];
+  if (windows) return ianaZone(windows);
+
+  return definitions.get(id) ?? null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  return ianaZone(timeZone) !== null;
+}
+
+function parseOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid UTC offset: ${value}`);
+  const sign = match[1] === '-' ? -1 : 1;
+  return (
+    sign *
+    (Number(match[2]) * HOUR +
+      Number(match[3]) * 60000 +
+      Number(match[4] ?? 0) * 1000)
+  );
+}
+
+function parseLocal(value: string): number {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/.exec(value);
+  if (!match) throw new Error(`Invalid date/time: ${value}`);
+  return Date.UTC(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4] ?? 0),
+    Number(match[5] ?? 0),
+    Number(match[6] ?? 0),
+  );
+}
+
+function observanceOnsets(observance: Observance, until: number): number[] {
+  const onsets = [observance.start, ...observance.rdates];
+  if (observance.rrule) {
+    onsets.push(
+      ...expandRecurrence(
+        parseRecurrenceRule(observance.rrule),
+        new Date(observance.start),
+        new Date(observance.start),
+        new Date(until + 1),
+      ).map((date) => date.getTime()),
+    );
+  }
+  // Onsets are wall-clock times in the offset in effect before them
+  return onsets.map((onset) => onset - observance.offsetFrom);
+}
+
+function definitionZone(tzid: string, observances: Observance[]): TimeZone {
+  // Onsets are expanded once per year range asked for and then reused
+  let horizon = Number.NEGATIVE_INFINITY;
+  let transitions: Array<{ onset: number; offset: number }> = [];
+
+  return {
+    id: tzid,
+    offsetAt(instant) {
+      if (instant > horizon) {
+        horizon = instant + 366 * 24 * HOUR;
+        transitions = observances
+          .flatMap((observance) =>
+            observanceOnsets(observance, horizon).map((onset) => ({
+              onset,
+              offset: observance.offsetTo,
+            })),
+          )
+          .sort((a, b) => a.onset - b.onset);
+      }
+
+      // Before the first onset the earliest observance's previous offset
+      // applies
+      let offset = observances[0]?.offsetFrom ?? 0;
+      for (const transition of transitions) {
+        if (transition.onset > instant) break;
+        offset = transition.offset;
+      }
+      return offset;
+    },
+  };
+}
+
+/**
+ * Parses the VTIMEZONE components of an iCalendar object and remembers
+ * them, so that TZIDs without an IANA equivalent can still be converted.
+ */
+export function registerTimeZones(ical: string): TimeZone[] {
+  const lines = ical.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const zones: TimeZone[] = [];
+  let tzid: string | null = null;
+  let observances: Observance[] = [];
+  let current: Partial<Observance> | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (line === 'BEGIN:VTIMEZONE') {
+      tzid = null;
+      observances = [];
+    } else if (line === 'BEGIN:STANDARD' || line === 'BEGIN:DAYLIGHT') {
+      current = { rdates: [] };
+    } else if (line === 'END:STANDARD' || line === 'END:DAYLIGHT') {
+      if (
+        current?.start !== undefined &&
+        current.offsetFrom !== undefined &&
+        current.offsetTo !== undefined
+      ) {
+        observances.push(current as Observance);
+      }
+      current = null;
+    } else if (line === 'END:VTIMEZONE') {
+      if (tzid && observances.length > 0) {
+        const zone = definitionZone(tzid, observances);
+        definitions.set(tzid, zone);
+        zones.push(zone);
+      }
+      tzid = null;
+    } else if (current) {
+      if (name === 'DTSTART') current.start = parseLocal(value);
+      else if (name === 'TZOFFSETFROM') current.offsetFrom = parseOffset(value);
+      else if (name === 'TZOFFSETTO') current.offsetTo = parseOffset(value);
+      else if (name === 'RRULE') current.rrule = value;
+      else if (name === 'RDATE') {
+        current.rdates?.push(...value.split(',').map(parseLocal));
+      }
+    } else if (name === 'TZID' && colon !== -1) {
+      tzid = value;
+    }
+  }
+
+  return zones;
+}
+
+/**
+ * Converts a wall-clock time (held in the UTC fields of `local`) in the
+ * given zone to the actual instant. Times skipped by a DST change move
+ * forward, repeated times resolve to their first occurrence.
+ */
+export function zonedTimeToUtc(local: Date, zone: TimeZone): Date {
+  const wallClock = local.getTime();
+  // A day either side covers both offsets around any DST change
+  const offsets = [
+    zone.offsetAt(wallClock - 24 * HOUR),
+    zone.offsetAt(wallClock + 24 * HOUR),
+  ];
+  const valid = offsets
+    .map((offset) => wallClock - offset)
+    .filter((instant) => zone.offsetAt(instant) === wallClock - instant)
+    .sort((a, b) => a - b);
+  return new Date(valid[0] ?? wallClock - Math.min(...offsets));
+}
+
+/**
+ * Returns the wall-clock time of an instant in the given zone, in the UTC
+ * fields of the result.
+ */
+export function utcToZonedTime(instant: Date, zone: TimeZone): Date {
+  return new Date(instant.getTime() + zone.offsetAt(instant.getTime()));
+}
+
+/**
+ * Formats an instant as ISO 8601 in the given zone, e.g.
+ * `2024-01-15T10:00:00+01:00`, or with a `Z` suffix for UTC.
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const zone = resolveTimeZone(timeZone);
+  const offset = zone ? zone.offsetAt(instant.getTime()) : 0;
+  const local = new Date(instant.getTime() + offset).toISOString().slice(0, 19);
+  if (offset === 0 && (!zone || zone.id === 'UTC')) return `${local}Z`;
+
+  const minutes = Math.abs(offset) / 60000;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${local}${offset < 0 ? '-' : '+'}${hh}:${mm}`;
+}
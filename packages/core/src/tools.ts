@@ -0,0 +1,438 @@
+export interface ToolProperty {
+  type: 'string' | 'integer' | 'boolean' | 'array';
+  description: string;
+  enum?: string[];
+  items?: { type: 'string'; enum?: string[] };
+}
+
+export interface CalDavToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, ToolProperty>;
+    required?: string[];
+  };
+}
+
+const ACCOUNT: ToolProperty = {
+  type: 'string',
+  description:
+    'Name of the account to act on, when the server has several (defaults to the first)',
+};
+
+const CALENDAR_ID: ToolProperty = {
+  type: 'string',
+  description: 'Calendar collection identifier',
+};
+
+const UID: ToolProperty = {
+  type: 'string',
+  description: 'Unique identifier of the component',
+};
+
+const ETAG: ToolProperty = {
+  type: 'string',
+  description:
+    'ETag of the version you last read; the write fails with a conflict if the server copy has changed since',
+};
+
+const COMPONENT_FIELDS: Record<string, ToolProperty> = {
+  summary: {
+    type: 'string',
+    description: 'Short title of the component',
+  },
+  start: {
+    type: 'string',
+    description:
+      'Start date (YYYY-MM-DD, all-day) or date/time in ISO format; times without an offset use the server time zone',
+  },
+  end: {
+    type: 'string',
+    description: 'End date or date/time in ISO format (VEVENT only)',
+  },
+  due: {
+    type: 'string',
+    description: 'Due date or date/time in ISO format (VTODO only)',
+  },
+  description: {
+    type: 'string',
+    description: 'Longer free-form description',
+  },
+  location: {
+    type: 'string',
+    description: 'Location of the event',
+  },
+  categories: {
+    type: 'array',
+    description: 'Category names to attach',
+    items: { type: 'string' },
+  },
+};
+
+const CALENDAR_PROPS: Record<string, ToolProperty> = {
+  color: {
+    type: 'string',
+    description: 'Calendar color as #RRGGBB',
+  },
+  description: {
+    type: 'string',
+    description: 'Calendar description',
+  },
+};
+
+export const CALDAV_TOOLS: CalDavToolDefinition[] = [
+  {
+    name: 'create_component',
+    description:
+      'Create a new event (VEVENT), task (VTODO) or journal entry (VJOURNAL) in a calendar',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        comp: {
+          type: 'string',
+          description: 'Component type',
+          enum: ['VEVENT', 'VTODO', 'VJOURNAL'],
+        },
+        ...COMPONENT_FIELDS,
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'comp', 'summary'],
+    },
+  },
+  {
+    name: 'update_component',
+    description:
+      'Update properties of an existing component by UID. Only the given properties change; pass an empty string (or empty list) to remove one. Returns a conflict with the server version if it changed concurrently.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        uid: UID,
+        etag: ETAG,
+        ...COMPONENT_FIELDS,
+        status: {
+          type: 'string',
+          description: 'Status, e.g. CONFIRMED, TENTATIVE, NEEDS-ACTION',
+        },
+        priority: {
+          type: 'integer',
+          description: 'Priority from 1 (highest) to 9 (lowest), 0 for none',
+        },
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'uid'],
+    },
+  },
+  {
+    name: 'complete_task',
+    description:
+      'Mark a task (VTODO) as completed. For a recurring task only the current occurrence is completed and the task advances to its next occurrence.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        uid: UID,
+        etag: ETAG,
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'uid'],
+    },
+  },
+  {
+    name: 'reopen_task',
+    description:
+      'Reopen a completed or cancelled task (VTODO), resetting it to NEEDS-ACTION',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        uid: UID,
+        etag: ETAG,
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'uid'],
+    },
+  },
+  {
+    name: 'set_task_progress',
+    description:
+      'Set the completion percentage of a task (VTODO). 0 means NEEDS-ACTION, 1-99 IN-PROCESS and 100 completes the task.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        uid: UID,
+        percent: {
+          type: 'integer',
+          description: 'Percent complete, from 0 to 100',
+        },
+        etag: ETAG,
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'uid', 'percent'],
+    },
+  },
+  {
+    name: 'move_component',
+    description:
+      'Move or copy a component to another calendar. The target calendar must accept the component type and must not already contain its UID.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: {
+          type: 'string',
+          description: 'Calendar collection currently holding the component',
+        },
+        uid: UID,
+        targetCalendarId: {
+          type: 'string',
+          description: 'Calendar collection to move or copy the component to',
+        },
+        mode: {
+          type: 'string',
+          description: 'Whether to move (default) or copy the component',
+          enum: ['move', 'copy'],
+        },
+        etag: ETAG,
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'uid', 'targetCalendarId'],
+    },
+  },
+  {
+    name: 'create_calendar',
+    description:
+      'Create a new calendar collection (MKCALENDAR) in the calendar home',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        displayName: {
+          type: 'string',
+          description: 'Human-readable calendar name',
+        },
+        calendarId: {
+          type: 'string',
+          description:
+            'Identifier (last path segment) for the new calendar; derived from displayName when omitted',
+        },
+        ...CALENDAR_PROPS,
+        componentSet: {
+          type: 'array',
+          description:
+            'Component types the calendar accepts; cannot be changed later',
+          items: { type: 'string', enum: ['VEVENT', 'VTODO', 'VJOURNAL'] },
+        },
+        account: ACCOUNT,
+      },
+      required: ['displayName'],
+    },
+  },
+  {
+    name: 'update_calendar',
+    description:
+      'Rename, recolor or re-describe an existing calendar collection (PROPPATCH)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        displayName: {
+          type: 'string',
+          description: 'New human-readable calendar name',
+        },
+        ...CALENDAR_PROPS,
+        account: ACCOUNT,
+      },
+      required: ['calendarId'],
+    },
+  },
+  {
+    name: 'delete_calendar',
+    description:
+      'Permanently delete a calendar collection and everything in it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        confirm: {
+          type: 'string',
+          description:
+            'Must repeat the calendarId exactly to confirm the deletion',
+        },
+        account: ACCOUNT,
+      },
+      required: ['calendarId', 'confirm'],
+    },
+  },
+  {
+    name: 'delete_component',
+    description:
+      'Delete a component by UID or by resource href. Refuses UIDs that match several resources and reports 404 (missing) and 412 (changed since read) separately.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarId: CALENDAR_ID,
+        uid: UID,
+        href: {
+          type: 'string',
+          description: 'Resource href, as returned by create_component',
+        },
+        etag: ETAG,
+        account: ACCOUNT,
+      },
+      required: ['calendarId'],
+    },
+  },
+  {
+    name: 'purge_cache',
+    description:
+      'Remove the locally cached calendar data of this account (or of all accounts) from memory and disk; the next read fetches everything from the server again.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        allAccounts: {
+          type: 'boolean',
+          description: 'Purge the cache of every account, not just this one',
+        },
+        account: ACCOUNT,
+      },
+    },
+  },
+  {
+    name: 'find_free_slots',
+    description:
+      'Find free time slots of a given length across one or more calendars, within working hours and keeping a buffer around existing events. Returns ranked candidates, best first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        calendarIds: {
+          type: 'array',
+          description: 'Calendars whose events count as busy time',
+          items: { type: 'string' },
+        },
+        start: {
+          type: 'string',
+          description: 'Start of the search window (ISO date or date/time)',
+        },
+        end: {
+          type: 'string',
+          description: 'End of the search window (ISO date or date/time)',
+        },
+        duration: {
+          type: 'integer',
+          description: 'Length of the slot in minutes',
+        },
+        workdayStart: {
+          type: 'string',
+          description: 'Start of working hours as HH:MM (default 09:00)',
+        },
+        workdayEnd: {
+          type: 'string',
+          description: 'End of working hours as HH:MM (default 17:00)',
+        },
+        workingDays: {
+          type: 'array',
+          description: 'Days to search (default MO-FR)',
+          items: {
+            type: 'string',
+            enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'],
+          },
+        },
+        buffer: {
+          type: 'integer',
+          description: 'Minutes to keep free before and after events',
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of slots to return (default 10)',
+        },
+        timeZone: {
+          type: 'string',
+          description:
+            'IANA time zone for working hours, local times and results (default: server time zone)',
+        },
+        account: ACCOUNT,
+      },
+      required: ['calendarIds', 'start', 'end', 'duration'],
+    },
+  },
+];
+
+/**
+ * Tools that change nothing on the server or on disk, all a read-only
+ * server offers
+ */
+export const READ_ONLY_TOOLS = ['find_free_slots'];
+
+function matchesType(property: ToolProperty, value: unknown): boolean {
+  switch (property.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return (
+        Array.isArray(value) &&
+        value.every(
+          (v) =>
+            typeof v === 'string' &&
+            (!property.items?.enum || property.items.enum.includes(v)),
+        )
+      );
+  }
+}
+
+export function validateToolArguments(
+  toolName: string,
+  args: Record<string, unknown>,
+): { isValid: boolean; errors: string[] } {
+  const tool = getTool(toolName);
+  if (!tool) {
+    return { isValid: false, errors: [`Unknown tool: ${toolName}`] };
+  }
+
+  const errors: string[] = [];
+  const { properties, required = [] } = tool.inputSchema;
+
+  for (const name of required) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') {
+      errors.push(`Missing required argument: ${name}`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    if (value === undefined || value === null) continue;
+
+    const property = properties[name];
+    if (!property) {
+      errors.push(`Unknown argument: ${name}`);
+      continue;
+    }
+
+    // Type validation
+    if (!matchesType(property, value)) {
+      errors.push(`Invalid type for ${name}: expected ${property.type}`);
+      continue;
+    }
+
+    // Enum validation
+    if (property.enum && !property.enum.includes(value as string)) {
+      errors.push(
+        `Invalid value for ${name}: ${value}. Must be one of: ${property.enum.join(', ')}`,
+      );
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+export function getTool(name: string): CalDavToolDefinition | undefined {
+  return CALDAV_TOOLS.find((t) => t.name === name);
+}
+
+export function getAllTools(): CalDavToolDefinition[] {
+  return CALDAV_TOOLS;
+}
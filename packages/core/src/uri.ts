@@ -1,3 +1,4 @@
+import type { TextFilter } from './report';
 import type { CalDavResourceTemplate } from './templates';
 import {
   getAllTemplates,
@@ -27,10 +28,8 @@ export function parseCalDavUri(uri: string): ParsedCalDavUri {
   // Sort templates to prioritize more specific patterns first
   const sortedTemplates = [...templates].sort((a, b) => {
     // Prioritize templates with literal strings first
-    const aHasLiteral =
-      a.uriTemplate.includes('VTODO') || a.uriTemplate.includes('_meta');
-    const bHasLiteral =
-      b.uriTemplate.includes('VTODO') || b.uriTemplate.includes('_meta');
+    const aHasLiteral = hasLiteralSegment(a.uriTemplate);
+    const bHasLiteral = hasLiteralSegment(b.uriTemplate);
 
     if (aHasLiteral && !bHasLiteral) return -1;
     if (!aHasLiteral && bHasLiteral) return 1;
@@ -52,15 +51,19 @@ export function parseCalDavUri(uri: string): ParsedCalDavUri {
     return 0;
   });
 
+  // A URI can fit several template shapes, e.g. {uid}?format= and
+  // {comp}?start=; the first one whose variables validate wins
+  let firstError: Error | null = null;
   for (const template of sortedTemplates) {
     const variables = tryParseWithTemplate(withoutProtocol, template);
     if (variables) {
       // Validate the extracted variables
       const validation = validateTemplateVariables(template.name, variables);
       if (!validation.isValid) {
-        throw new Error(
+        firstError ??= new Error(
           `Invalid URI variables: ${validation.errors.join(', ')}`,
         );
+        continue;
       }
 
       return {
@@ -71,7 +74,13 @@ export function parseCalDavUri(uri: string): ParsedCalDavUri {
     }
   }
 
-  throw new Error(`No matching template found for URI: ${uri}`);
+  throw firstError ?? new Error(`No matching template found for URI: ${uri}`);
+}
+
+function hasLiteralSegment(uriTemplate: string): boolean {
+  return ['VTODO', '_meta', '_freebusy'].some((literal) =>
+    uriTemplate.includes(literal),
+  );
 }
 
 function tryParseWithTemplate(
@@ -144,18 +153,30 @@ function tryParseWithTemplate(
   if (templateQuery && queryPart) {
     const queryParams = new URLSearchParams(queryPart);
 
-    // Extract query variable names from template
-    const queryVarMatches = templateQuery.matchAll(/{([^}]+)}/g);
-    for (const match of queryVarMatches) {
-      const varName = match[1];
-      const value = queryParams.get(varName);
+    // Map query keys to variable names, e.g. filter={jmes}
+    const queryVars = new Map(
+      [...templateQuery.matchAll(/([^?&=]+)={([^}]+)}/g)].map((match) => [
+        match[1],
+        match[2],
+      ]),
+    );
+    // Parameters the template does not know belong to another template,
+    // e.g. VTODO?filter= must not be taken for VTODO?cat=
+    for (const key of queryParams.keys()) {
+      if (!queryVars.has(key)) return null;
+    }
+    for (const [key, varName] of queryVars) {
+      const value = queryParams.get(key);
       if (value !== null) {
         variables[varName] = value;
       }
     }
   } else if (templateQuery && !queryPart) {
     // Template expects query params but URI doesn't have them
-    return null;
+    const required = template.variables.filter((v) => v.required);
+    if (required.some((v) => templateQuery.includes(`{${v.name}}`))) {
+      return null;
+    }
   } else if (!templateQuery && queryPart) {
     // URI has query params but template doesn't expect them
     return null;
@@ -179,8 +200,21 @@ export function buildCalDavUri(
     throw new Error(`Invalid variables: ${validation.errors.join(', ')}`);
   }
 
-  // Replace variables in template
+  // Replace variables in template, dropping optional query parameters
+  // that were not given
   let uri = template.uriTemplate;
+  for (const templateVar of template.variables) {
+    if (!templateVar.required && variables[templateVar.name] === undefined) {
+      uri = uri.replace(
+        new RegExp(`[?&]${templateVar.name}={${templateVar.name}}`),
+        '',
+      );
+    }
+  }
+  if (!uri.includes('?')) {
+    // The first query parameter may have been dropped
+    uri = uri.replace('&', '?');
+  }
   for (const [key, value] of Object.entries(variables)) {
     uri = uri.replace(new RegExp(`{${key}}`, 'g'), encodeURIComponent(value));
   }
@@ -239,6 +273,43 @@ export function getFilterParams(
   if (variables.cat) filterParams.category = variables.cat;
   if (variables.jmes) filterParams.jmesFilter = variables.jmes;
   if (variables.uid) filterParams.uid = variables.uid;
+  if (variables.status) filterParams.status = variables.status;
+  if (variables.text) filterParams.text = variables.text;
+  if (variables.missing) filterParams.missing = variables.missing;
 
   return filterParams;
 }
+
+/**
+ * Reads a text filter like `SUMMARY:review`, `ATTENDEE;PARTSTAT:accepted`
+ * for a parameter, or `!SUMMARY:draft` for a negated match.
+ */
+export function parseTextFilter(text: string): TextFilter {
+  const negate = text.startsWith('!');
+  const match = /^([A-Za-z0-9-]+)(?:;([A-Za-z0-9-]+))?:(.+)$/s.exec(
+    negate ? text.slice(1) : text,
+  );
+  if (!match) {
+    throw new Error(
+      `Invalid text filter: ${text}. Expected PROPERTY:text or PROPERTY;PARAMETER:text`,
+    );
+  }
+  const [, property, parameter, value] = match;
+  return {
+    property: property.toUpperCase(),
+    value,
+    ...(parameter ? { parameter: parameter.toUpperCase() } : {}),
+    ...(negate ? { negate } : {}),
+  };
+}
+
+/** The range of a date property, from variables like dueStart and dueEnd */
+export function getPropertyRange(
+  variables: Record<string, string>,
+  property: 'due' | 'completed',
+): { start?: string; end?: string } {
+  return {
+    start: variables[`${property}Start`],
+    end: variables[`${property}End`],
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * The subset of YAML that configuration files use: block mappings and
+ * sequences nested by indentation, flow sequences and mappings of scalars
+ * (`[a, b]`, `{ env: PASSWORD }`),
+ * plain, single- and double-quoted scalars, and comments. Anchors, tags,
+ * multi-line scalars and multiple documents are rejected rather than
+ * misread.
+ */
+
+export type YamlValue =
+  | string
+  | number
+  | boolean
+  | null
+  | YamlValue[]
+  | { [key: string]: YamlValue };
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+function fail(line: Line | number, message: string): never {
+  const number = typeof line === 'number' ? line : line.number;
+  throw new Error(`Invalid YAML at line ${number}: ${message}`);
+}
+
+/** Removes a trailing comment that is not inside quotes. */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else if (char === '\\' && quote === '"') i++;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function parseDoubleQuoted(value: string, line: Line): string {
+  try {
+    return JSON.parse(value) as string;
+  } catch {
+    return fail(line, `invalid quoted string ${value}`);
+  }
+}
+
+function parseScalar(raw: string, line: Line): YamlValue {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    if (!value.endsWith('"') || value.length < 2) {
+      fail(line, 'unterminated string');
+    }
+    return parseDoubleQuoted(value, line);
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      fail(line, 'unterminated string');
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) fail(line, 'unterminated flow sequence');
+    const inner = value.slice(1, -1).trim();
+    return inner === ''
+      ? []
+      : splitFlow(inner, line).map((item) => parseScalar(item, line));
+  }
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) fail(line, 'unterminated flow mapping');
+    const inner = value.slice(1, -1).trim();
+    return inner === '' ? {} : parseFlowMapping(inner, line);
+  }
+  if (/^[&*!|>]/.test(value)) {
+    fail(line, `unsupported syntax ${value}`);
+  }
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+function parseFlowMapping(
+  inner: string,
+  line: Line,
+): { [key: string]: YamlValue } {
+  const mapping: { [key: string]: YamlValue } = {};
+  for (const item of splitFlow(inner, line)) {
+    const entry = item.trim();
+    const separator = keySeparator(entry);
+    if (separator === -1) fail(line, `expected "key: value" in ${entry}`);
+    const key = String(parseScalar(entry.slice(0, separator), line) ?? '');
+    if (key === '') fail(line, 'empty key');
+    if (Object.hasOwn(mapping, key)) fail(line, `duplicate key ${key}`);
+    mapping[key] = parseScalar(entry.slice(separator + 1), line);
+  }
+  return mapping;
+}
+
+/** Splits the items of a flow collection at commas outside quotes. */
+function splitFlow(inner: string, line: Line): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      fail(line, 'nested flow collections are not supported');
+    } else if (char === ',') {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items;
+}
+
+/** Finds the colon that separates a mapping key from its value. */
+function keySeparator(text: string): number {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === ':' && (i + 1 === text.length || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+class YamlParser {
+  private position = 0;
+
+  constructor(private lines: Line[]) {}
+
+  parse(): YamlValue {
+    if (this.lines.length === 0) return null;
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.position < this.lines.length) {
+      fail(this.lines[this.position], 'unexpected indentation');
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    const line = this.lines[this.position];
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.parseSequence(indent);
+    }
+    if (keySeparator(line.text) === -1) {
+      this.position++;
+      return parseScalar(line.text, line);
+    }
+    return this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line, 'unexpected indentation');
+      // A key after the items of a sequence nested at its indentation
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.position++;
+        items.push(this.parseNested(indent));
+        continue;
+      }
+      // An item like "- key: value" starts a mapping indented to the key
+      const itemIndent = indent + line.text.length - rest.length;
+      this.lines[this.position] = { ...line, indent: itemIndent, text: rest };
+      items.push(this.parseBlock(itemIndent));
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      if (line.indent < indent) break;
+      if (line.indent > indent) fail(line, 'unexpected indentation');
+
+      const separator = keySeparator(line.text);
+      if (separator === -1) fail(line, 'expected "key: value"');
+      const rawKey = line.text.slice(0, separator).trim();
+      const key = String(parseScalar(rawKey, line) ?? '');
+      if (key === '') fail(line, 'empty key');
+      if (Object.hasOwn(mapping, key)) fail(line, `duplicate key ${key}`);
+
+      const rest = line.text.slice(separator + 1).trim();
+      this.position++;
+      mapping[key] =
+        rest === '' ? this.parseNested(indent) : parseScalar(rest, line);
+    }
+    return mapping;
+  }
+
+  /** Value on the lines below a key or dash, or null if there is none. */
+  private parseNested(indent: number): YamlValue {
+    const next = this.lines[this.position];
+    if (!next) return null;
+    // Sequences may sit at the same indentation as their key
+    const isItem = next.text === '-' || next.text.startsWith('- ');
+    if (next.indent > indent || (isItem && next.indent === indent)) {
+      return this.parseBlock(next.indent);
+    }
+    return null;
+  }
+}
+
+export function parseYaml(source: string): YamlValue {
+  const lines: Line[] = [];
+  for (const [index, raw] of source.split(/\r?\n/).entries()) {
+    const number = index + 1;
+    if (/^\s*\t/.test(raw))
+      fail(number, 'tabs are not allowed for indentation');
+    if (raw.trim() === '---' && lines.length === 0) continue;
+    if (raw.trim() === '---' || raw.trim() === '...') {
+      fail(number, 'multiple documents are not supported');
+    }
+    const text = stripComment(raw);
+    if (text.trim() === '') continue;
+    lines.push({
+      number,
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+    });
+  }
+  return new YamlParser(lines).parse();
+}